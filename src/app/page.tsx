@@ -1,24 +1,27 @@
 'use client'
 
-import { useState, useEffect, Suspense } from 'react'
+import { useState, useEffect, useMemo, Suspense } from 'react'
 import FileUpload from '@/components/FileUpload'
 import DataViewer from '@/components/DataViewer'
 import AnalysisPanel from '@/components/AnalysisPanel'
 import ScanMode from '@/components/ScanMode'
 import SmartInsight from '@/components/SmartInsight'
 import MultiGraphView from '@/components/MultiGraphView'
+import DiagramMode from '@/components/DiagramMode'
 import SavedAnalysis from '@/components/SavedAnalysis'
 import MyDataPanel from '@/components/MyDataPanel'
 import AuthModal from '@/components/AuthModal'
 import { useAuth } from '@/contexts/AuthContext'
-import { GeochemData, ColumnSelection, ScanResult, ScanSummary, GraphSettings, MultiViewPanel } from '@/types/geochem'
+import { GeochemData, ColumnSelection, ScanResult, ScanSummary, GraphSettings, MultiViewPanel, AxisConfig, RowExclusion } from '@/types/geochem'
 import { SmartInsightResult } from '@/lib/smart-insight'
-import { saveAnalysisSettings, loadSharedAnalysis, loadDatasetMeta, loadFullDataset } from '@/lib/supabase-data'
+import { saveAnalysisSettings, loadSharedAnalysis, loadDatasetMeta, loadGeochemDataset } from '@/lib/supabase-data'
+import { applyExclusion, isExclusionEmpty, mergeIntoSourceRows } from '@/lib/exclusion'
+import { applyDerivedColumns } from '@/lib/expressions'
 import { useSearchParams } from 'next/navigation'
-import { BarChart3, Scan, ArrowLeft, BookOpen, User, LogOut, Star, Database, Sparkles, Layers } from 'lucide-react'
+import { BarChart3, Scan, ArrowLeft, BookOpen, User, LogOut, Star, Database, Sparkles, Layers, Activity } from 'lucide-react'
 import Link from 'next/link'
 
-type Mode = 'analysis' | 'scan' | 'smartinsight' | 'multiview' | 'saved' | 'mydata'
+type Mode = 'analysis' | 'scan' | 'smartinsight' | 'multiview' | 'diagrams' | 'saved' | 'mydata'
 
 function HomeContent() {
   const { user, loading, signOut } = useAuth()
@@ -71,21 +74,20 @@ function HomeContent() {
       if (analysis.dataset_id) {
         const meta = await loadDatasetMeta(analysis.dataset_id)
         if (meta) {
-          const rows = await loadFullDataset(analysis.dataset_id)
+          const loaded = await loadGeochemDataset(meta)
           const geochemData: GeochemData = {
-            data: rows,
-            numericColumns: meta.numeric_columns,
-            nonNumericColumns: meta.non_numeric_columns,
-            fileName: meta.file_name,
-            typeColumn: meta.type_column,
-            datasetId: analysis.dataset_id,
-            metadata: {
-              fileName: meta.file_name,
-              rowCount: meta.row_count,
-              columnCount: meta.columns.length
-            }
+            ...loaded,
+            units: { ...loaded.units, ...settings.units },
+            exclusion: settings.exclusion,
+            subsets: settings.subsets,
+            activeSubsetId: settings.activeSubsetId
           }
-          setData(geochemData)
+          // 파생 컬럼은 정의만 저장되므로 다시 계산
+          const { data: withDerived, failed } = applyDerivedColumns(geochemData, settings.derivedColumns || [])
+          if (failed.length > 0) {
+            alert(`다음 파생 컬럼을 계산할 수 없습니다:\n${failed.map(f => `${f.name}: ${f.error}`).join('\n')}`)
+          }
+          setData(withDerived)
           setSelectedColumns(settings.selectedColumns)
           if (settings.graphSettings) {
             setGraphSettings(settings.graphSettings as GraphSettings)
@@ -123,11 +125,11 @@ function HomeContent() {
     }
   }
 
-  const handleScanResultSelect = (xColumn: string, yColumn: string) => {
-    // 스캔 결과에서 선택된 조합을 기본 분석 모드로 설정
+  const handleScanResultSelect = (xColumn: string, yColumn: string, axes?: { x: AxisConfig; y: AxisConfig }) => {
+    // 스캔 결과에서 선택된 조합을 기본 분석 모드로 설정 (비율 스캔 결과는 비율 축)
     setSelectedColumns({
-      x: { type: 'single', numerator: xColumn, label: xColumn },
-      y: { type: 'single', numerator: yColumn, label: yColumn },
+      x: axes?.x || { type: 'single', numerator: xColumn, label: xColumn },
+      y: axes?.y || { type: 'single', numerator: yColumn, label: yColumn },
       useTypeColumn: selectedColumns.useTypeColumn,
       selectedTypeColumn: selectedColumns.selectedTypeColumn
     })
@@ -152,6 +154,14 @@ function HomeContent() {
     setData(newData)
   }
 
+  // 행 제외 변경 (그래프 올가미, 이상치 진단)
+  const handleExclusionChange = (exclusion: RowExclusion) => {
+    setData(prev => prev && { ...prev, exclusion })
+  }
+
+  // 다중 비교·다이어그램 모드에 넘길 데이터 (제외된 행 제거)
+  const activeData = useMemo(() => data && applyExclusion(data), [data])
+
   // 모드 변경 처리 (PCA → 분석 모드 전환)
   const handleModeChange = (newMode: 'analysis' | 'scan') => {
     setMode(newMode)
@@ -233,7 +243,12 @@ function HomeContent() {
         settings: {
           selectedColumns,
           dataFileName: data.fileName,
-          graphSettings: graphSettings
+          graphSettings: graphSettings,
+          exclusion: isExclusionEmpty(data.exclusion) ? undefined : data.exclusion,
+          subsets: data.subsets,
+          activeSubsetId: data.activeSubsetId,
+          derivedColumns: data.derivedColumns,
+          units: data.units
         }
       })
 
@@ -470,6 +485,18 @@ function HomeContent() {
               <Layers className="h-4 w-4 mr-2" />
               다중 비교
             </button>
+            <button
+              onClick={() => setMode('diagrams')}
+              disabled={!data}
+              className={`flex items-center px-5 py-2.5 rounded-lg font-medium transition-all ${
+                mode === 'diagrams'
+                  ? 'bg-emerald-600 text-white shadow-lg'
+                  : 'bg-white text-gray-700 shadow hover:shadow-md'
+              } ${!data ? 'opacity-50 cursor-not-allowed' : ''}`}
+            >
+              <Activity className="h-4 w-4 mr-2" />
+              다이어그램
+            </button>
             <button
               onClick={() => setMode('saved')}
               className={`flex items-center px-5 py-2.5 rounded-lg font-medium transition-all ${
@@ -535,13 +562,23 @@ function HomeContent() {
         )}
 
         {/* 다중 그래프 비교 모드 */}
-        {mode === 'multiview' && data && (
+        {mode === 'multiview' && activeData && (
           <MultiGraphView
-            data={data}
+            data={activeData}
             initialPanels={multiViewPanels}
           />
         )}
 
+        {/* 지구화학 다이어그램 모드 */}
+        {mode === 'diagrams' && data && activeData && (
+          <DiagramMode
+            data={activeData}
+            typeColumn={selectedColumns.useTypeColumn ? selectedColumns.selectedTypeColumn : undefined}
+            onDataUpdate={(updated) => handleDataUpdate(mergeIntoSourceRows(data, updated))}
+            petrogeneticModels={graphSettings?.petrogeneticModels}
+          />
+        )}
+
         {/* 저장된 분석 모드 */}
         {mode === 'saved' && (
           <SavedAnalysis
@@ -569,6 +606,7 @@ function HomeContent() {
                     data={data}
                     selectedColumns={selectedColumns}
                     onColumnSelect={setSelectedColumns}
+                    onDataUpdate={handleDataUpdate}
                   />
                 )}
               </div>
@@ -591,6 +629,8 @@ function HomeContent() {
                   graphSettings={graphSettings}
                   onGraphSettingsChange={setGraphSettings}
                   onSaveAnalysis={handleSaveAnalysis}
+                  onExclusionChange={handleExclusionChange}
+                  onDataUpdate={handleDataUpdate}
                 />
               </div>
             )}
@@ -649,6 +689,9 @@ function HomeContent() {
                   {graphSettings?.referenceImages && graphSettings.referenceImages.length > 0 && (
                     <li>• 레퍼런스 이미지: {graphSettings.referenceImages.length}개</li>
                   )}
+                  {graphSettings?.petrogeneticModels && graphSettings.petrogeneticModels.length > 0 && (
+                    <li>• 성인 모델: {graphSettings.petrogeneticModels.length}개</li>
+                  )}
                 </ul>
               </div>
 
@@ -1,11 +1,20 @@
 'use client'
 
-import { useState, useEffect } from 'react'
-import { GeochemData, StatisticalResult, ColumnSelection, GraphSettings } from '@/types/geochem'
+import { useState, useEffect, useMemo } from 'react'
+import { GeochemData, StatisticalResult, ColumnSelection, GraphSettings, ErrorRegressionMethod, ErrorRegressionResult, TypeStatisticsResult, RowExclusion, CensoredPolicy } from '@/types/geochem'
+import { applyExclusion, setRowsExcluded } from '@/lib/exclusion'
+import { getActiveSubset } from '@/lib/query'
 import { calculateStatistics } from '@/lib/statistics'
+import { CENSORED_POLICY_LABELS, countCensoredCells, resolveCensoredData } from '@/lib/censored'
+import { getAxisValueWithUnits, getRatioUnitFactor } from '@/lib/units'
+import { ERROR_REGRESSION_LABELS, calculateErrorValues, fitErrorRegression } from '@/lib/regression'
+import { MixingEndmember, mixingOverlayCurves } from '@/lib/mixing'
 import ScatterPlot from './ScatterPlot'
 import PCAResultsTable from './PCAResultsTable'
-import { Activity, TrendingUp, BarChart, Users, Target, Star } from 'lucide-react'
+import IsochronPanel from './IsochronPanel'
+import OutlierPanel from './OutlierPanel'
+import MixingModelPanel from './MixingModelPanel'
+import { Activity, TrendingUp, BarChart, Users, Target, Star, Crosshair, Hourglass, ShieldAlert, Spline } from 'lucide-react'
 import { generatePCAInterpretation, PCAInterpretationRequest, PCAInterpretation } from '@/lib/ai-recommendations'
 
 interface AnalysisPanelProps {
@@ -14,23 +23,17 @@ interface AnalysisPanelProps {
   graphSettings?: Partial<GraphSettings>
   onGraphSettingsChange?: (settings: GraphSettings) => void
   onSaveAnalysis?: () => void
+  onExclusionChange?: (exclusion: RowExclusion) => void  // 그래프/이상치 진단에서 행 제외 변경
+  onDataUpdate?: (data: GeochemData) => void  // 혼합 비율 컬럼 추가
 }
 
-// 타입별 통계 결과 인터페이스
-interface TypeStatisticsResult {
-  type: string
-  count: number
-  pearsonCorr?: number
-  spearmanCorr?: number
-  pearsonP?: number
-  spearmanP?: number
-  rSquared?: number
-  linearSlope?: number
-  linearIntercept?: number
-  pValue?: number
-}
-
-export default function AnalysisPanel({ data, selectedColumns, graphSettings, onGraphSettingsChange, onSaveAnalysis }: AnalysisPanelProps) {
+export default function AnalysisPanel({ data: sourceData, selectedColumns, graphSettings, onGraphSettingsChange, onSaveAnalysis, onExclusionChange, onDataUpdate }: AnalysisPanelProps) {
+  // 통계 계산은 제외된 행을 뺀 데이터로, 그래프는 제외된 점 표시를 위해 원본 데이터로
+  const data = useMemo(() => applyExclusion(sourceData), [sourceData])
+  // 상관·회귀 통계의 검출한계 미만 값 처리 (스캔과 같은 기본값 DL/2)
+  const [censoredPolicy, setCensoredPolicy] = useState<CensoredPolicy>('half')
+  const statsData = useMemo(() => resolveCensoredData(data, censoredPolicy), [data, censoredPolicy])
+  const activeSubset = getActiveSubset(sourceData)
   const [statistics, setStatistics] = useState<StatisticalResult | null>(null)
   const [typeStatistics, setTypeStatistics] = useState<TypeStatisticsResult[]>([])
   const [loading, setLoading] = useState(false)
@@ -41,37 +44,45 @@ export default function AnalysisPanel({ data, selectedColumns, graphSettings, on
   const [isLoadingInterpretation, setIsLoadingInterpretation] = useState(false)
   const [showInterpretation, setShowInterpretation] = useState(false)
 
+  // 오차 가중 회귀 설정
+  const [errorRegressionMethod, setErrorRegressionMethod] = useState<ErrorRegressionMethod | 'none'>('none')
+  const [errorCorrelation, setErrorCorrelation] = useState(0)
+  const [errorSigmaLevel, setErrorSigmaLevel] = useState<1 | 2>(1)
+  const [showIsochron, setShowIsochron] = useState(false)
+  const [showOutliers, setShowOutliers] = useState(false)
+
+  // 끝성분 혼합 모델 (혼합선은 그래프에 겹쳐 그림)
+  const [showMixing, setShowMixing] = useState(false)
+  const [mixingEndmembers, setMixingEndmembers] = useState<MixingEndmember[]>([])
+  const mixingCurves = useMemo(
+    () => (showMixing ? mixingOverlayCurves(sourceData, selectedColumns, mixingEndmembers) : []),
+    [showMixing, sourceData, selectedColumns, mixingEndmembers]
+  )
+
   // 축 데이터 계산 함수
   const calculateAxisData = (axisConfig: NonNullable<ColumnSelection['x']>) => {
     if (axisConfig.type === 'single') {
-      return data.data
+      return statsData.data
         .map(row => parseFloat(row[axisConfig.numerator]))
         .filter(val => !isNaN(val) && isFinite(val))
     } else {
-      // 비율 계산
-      return data.data
-        .map(row => {
-          const numerator = parseFloat(row[axisConfig.numerator])
-          const denominator = parseFloat(row[axisConfig.denominator!])
-          return numerator / denominator
-        })
+      // 비율 계산 (분자/분모 단위가 다르면 질량비로 보정)
+      const ratioFactor = getRatioUnitFactor(statsData, axisConfig.numerator, axisConfig.denominator!)
+      return statsData.data
+        .map(row => getAxisValueWithUnits(statsData, row, axisConfig, ratioFactor))
         .filter(val => !isNaN(val) && isFinite(val))
     }
   }
 
   // 타입별 축 데이터 계산 함수
   const calculateAxisDataWithType = (axisConfig: NonNullable<ColumnSelection['x']>) => {
-    return data.data
+    const ratioFactor = axisConfig.type === 'ratio'
+      ? getRatioUnitFactor(statsData, axisConfig.numerator, axisConfig.denominator!)
+      : 1
+
+    return statsData.data
       .map((row, index) => {
-        let value: number
-        
-        if (axisConfig.type === 'single') {
-          value = parseFloat(row[axisConfig.numerator])
-        } else {
-          const numerator = parseFloat(row[axisConfig.numerator])
-          const denominator = parseFloat(row[axisConfig.denominator!])
-          value = numerator / denominator
-        }
+        const value = getAxisValueWithUnits(statsData, row, axisConfig, ratioFactor)
 
         // 타입 정보 추가
         const type = selectedColumns.useTypeColumn && selectedColumns.selectedTypeColumn 
@@ -168,7 +179,7 @@ export default function AnalysisPanel({ data, selectedColumns, graphSettings, on
       }
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [selectedColumns.x, selectedColumns.y, selectedColumns.useTypeColumn, selectedColumns.selectedTypeColumn, data])
+  }, [selectedColumns.x, selectedColumns.y, selectedColumns.useTypeColumn, selectedColumns.selectedTypeColumn, statsData])
 
   const performAnalysis = async () => {
     if (!selectedColumns.x || !selectedColumns.y) return
@@ -188,6 +199,46 @@ export default function AnalysisPanel({ data, selectedColumns, graphSettings, on
     }
   }
 
+  // 오차 가중 회귀 (오차 막대 설정을 1σ/2σ 불확도로 사용)
+  const errorRegression = useMemo((): { result: ErrorRegressionResult | null; error?: string } => {
+    if (errorRegressionMethod === 'none' || !selectedColumns.x || !selectedColumns.y) return { result: null }
+
+    const xConfig = selectedColumns.x
+    const yConfig = selectedColumns.y
+    const xFactor = xConfig.type === 'ratio' ? getRatioUnitFactor(data, xConfig.numerator, xConfig.denominator!) : 1
+    const yFactor = yConfig.type === 'ratio' ? getRatioUnitFactor(data, yConfig.numerator, yConfig.denominator!) : 1
+
+    const rows = data.data
+      .map(row => ({
+        row,
+        x: getAxisValueWithUnits(data, row, xConfig, xFactor),
+        y: getAxisValueWithUnits(data, row, yConfig, yFactor)
+      }))
+      .filter(p => isFinite(p.x) && isFinite(p.y))
+
+    const x = rows.map(p => p.x)
+    const y = rows.map(p => p.y)
+    const toErrors = (settings: GraphSettings['xErrorBar'] | undefined, values: number[]) =>
+      settings?.enabled
+        ? calculateErrorValues(rows.map(p => p.row), values, settings.mode, settings.column, settings.value)
+          .map(e => e / errorSigmaLevel)
+        : undefined
+
+    try {
+      const result = fitErrorRegression(
+        errorRegressionMethod,
+        x,
+        y,
+        toErrors(graphSettings?.xErrorBar, x),
+        toErrors(graphSettings?.yErrorBar, y),
+        errorCorrelation
+      )
+      return { result }
+    } catch (error) {
+      return { result: null, error: error instanceof Error ? error.message : '회귀 계산에 실패했습니다.' }
+    }
+  }, [data, selectedColumns, graphSettings?.xErrorBar, graphSettings?.yErrorBar, errorRegressionMethod, errorCorrelation, errorSigmaLevel])
+
   const formatNumber = (num: number | undefined, precision: number = 4): string => {
     if (num === undefined || isNaN(num)) return 'N/A'
     return num.toFixed(precision)
@@ -291,6 +342,11 @@ export default function AnalysisPanel({ data, selectedColumns, graphSettings, on
           <Activity className="h-6 w-6 mr-2 text-blue-500" />
           상관관계 분석: {selectedColumns.x.label} vs {selectedColumns.y.label}
         </h2>
+        {activeSubset && (
+          <p className="mt-1 text-sm text-indigo-600">
+            부분집합 {activeSubset.name} 적용 중 ({data.data.length} / {sourceData.data.length}행)
+          </p>
+        )}
       </div>
 
       <div className="p-6">
@@ -328,7 +384,7 @@ export default function AnalysisPanel({ data, selectedColumns, graphSettings, on
 
                 return (
                   <ScatterPlot
-                    data={data}
+                    data={sourceData}
                     selectedColumns={selectedColumns}
                     statistics={statistics}
                     isPCAMode={isPCAMode}
@@ -336,6 +392,9 @@ export default function AnalysisPanel({ data, selectedColumns, graphSettings, on
                     typeStatistics={typeStatistics}
                     initialGraphSettings={graphSettings}
                     onSettingsChange={onGraphSettingsChange}
+                    errorRegression={errorRegression.result}
+                    onExclusionChange={onExclusionChange}
+                    overlayCurves={mixingCurves}
                   />
                 )
               })()}
@@ -379,7 +438,7 @@ export default function AnalysisPanel({ data, selectedColumns, graphSettings, on
                 
                 <PCAResultsTable
                   pcaResult={data.pcaResult}
-                  data={data}
+                  data={sourceData}
                   selectedVariables={data.pcaResult.variableNames}
                 />
               </div>
@@ -494,6 +553,23 @@ export default function AnalysisPanel({ data, selectedColumns, graphSettings, on
                 <TrendingUp className="h-5 w-5 mr-2" />
                 전체 상관관계 통계
               </h3>
+              {countCensoredCells(data.censored) > 0 && (
+                <div className="flex items-center gap-2 mb-4 text-sm">
+                  <label htmlFor="analysis-censored-policy" className="text-gray-700">
+                    검출한계 미만 값 ({countCensoredCells(data.censored)}개 셀)
+                  </label>
+                  <select
+                    id="analysis-censored-policy"
+                    value={censoredPolicy}
+                    onChange={(e) => setCensoredPolicy(e.target.value as CensoredPolicy)}
+                    className="p-1 text-sm border border-gray-300 rounded-md"
+                  >
+                    {(Object.keys(CENSORED_POLICY_LABELS) as CensoredPolicy[]).map(policy => (
+                      <option key={policy} value={policy}>{CENSORED_POLICY_LABELS[policy]}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
               <div className="space-y-4">
                 {statistics.pearsonCorr !== undefined && (
                   <div className="bg-blue-50 p-4 rounded-lg">
@@ -559,6 +635,184 @@ export default function AnalysisPanel({ data, selectedColumns, graphSettings, on
                 )}
               </div>
             </div>
+
+            {/* 오차 가중 회귀 */}
+            <div className="lg:col-span-2">
+              <h3 className="text-lg font-medium text-gray-800 mb-4 flex items-center">
+                <Crosshair className="h-5 w-5 mr-2" />
+                오차 가중 회귀 (York · Deming · RMA)
+              </h3>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">회귀 방법</label>
+                  <select
+                    value={errorRegressionMethod}
+                    onChange={(e) => setErrorRegressionMethod(e.target.value as ErrorRegressionMethod | 'none')}
+                    className="w-full p-2 border border-gray-300 rounded-md text-sm"
+                  >
+                    <option value="none">사용 안 함</option>
+                    {(Object.keys(ERROR_REGRESSION_LABELS) as ErrorRegressionMethod[]).map(m => (
+                      <option key={m} value={m}>{ERROR_REGRESSION_LABELS[m]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">오차 막대 기준</label>
+                  <select
+                    value={errorSigmaLevel}
+                    onChange={(e) => setErrorSigmaLevel(parseInt(e.target.value) as 1 | 2)}
+                    className="w-full p-2 border border-gray-300 rounded-md text-sm"
+                  >
+                    <option value={1}>1σ</option>
+                    <option value={2}>2σ</option>
+                  </select>
+                </div>
+                {errorRegressionMethod === 'york' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">X-Y 오차 상관계수 (ρ)</label>
+                    <input
+                      type="number"
+                      min="-1"
+                      max="1"
+                      step="0.05"
+                      value={errorCorrelation}
+                      onChange={(e) => setErrorCorrelation(Math.max(-1, Math.min(1, parseFloat(e.target.value) || 0)))}
+                      className="w-full p-2 border border-gray-300 rounded-md text-sm"
+                    />
+                  </div>
+                )}
+              </div>
+
+              {errorRegressionMethod !== 'none' && (
+                <p className="text-xs text-gray-500 mb-3">
+                  X, Y 불확도는 그래프의 오차 막대 설정을 사용합니다
+                  (X: {graphSettings?.xErrorBar?.enabled ? '사용' : '없음'}, Y: {graphSettings?.yErrorBar?.enabled ? '사용' : '없음'}).
+                  신뢰 구간은 95%이며, MSWD &gt; 1이면 √MSWD만큼 확대합니다.
+                </p>
+              )}
+
+              {errorRegression.error && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+                  {errorRegression.error}
+                </div>
+              )}
+
+              {errorRegression.result && (
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <div className="bg-violet-50 p-4 rounded-lg">
+                    <h4 className="font-medium text-violet-800 mb-1">기울기 (±1σ)</h4>
+                    <p className="font-mono text-violet-700">
+                      {formatNumber(errorRegression.result.slope)} ± {formatNumber(errorRegression.result.slopeError)}
+                    </p>
+                  </div>
+                  <div className="bg-violet-50 p-4 rounded-lg">
+                    <h4 className="font-medium text-violet-800 mb-1">절편 (±1σ)</h4>
+                    <p className="font-mono text-violet-700">
+                      {formatNumber(errorRegression.result.intercept)} ± {formatNumber(errorRegression.result.interceptError)}
+                    </p>
+                  </div>
+                  <div className="bg-violet-50 p-4 rounded-lg">
+                    <h4 className="font-medium text-violet-800 mb-1">MSWD</h4>
+                    <p className="font-mono text-violet-700">
+                      {errorRegression.result.mswd !== undefined ? formatNumber(errorRegression.result.mswd, 3) : 'N/A (오차 없음)'}
+                    </p>
+                    <p className="text-xs text-violet-600 mt-1">
+                      적합 확률: {errorRegression.result.probability !== undefined ? formatNumber(errorRegression.result.probability, 3) : 'N/A'}
+                    </p>
+                  </div>
+                  <div className="bg-violet-50 p-4 rounded-lg">
+                    <h4 className="font-medium text-violet-800 mb-1">데이터 수</h4>
+                    <p className="font-mono text-violet-700">n = {errorRegression.result.n}</p>
+                    {errorRegression.result.errorRatio !== undefined && (
+                      <p className="text-xs text-violet-600 mt-1">
+                        오차 분산비 λ = {formatNumber(errorRegression.result.errorRatio, 3)}
+                      </p>
+                    )}
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {/* 이상치 진단 */}
+            <div className="lg:col-span-2 border-t border-gray-200 pt-6">
+              {showOutliers ? (
+                <>
+                  <OutlierPanel
+                    data={data}
+                    selectedColumns={selectedColumns}
+                    onExcludeRows={onExclusionChange && (rows => onExclusionChange(
+                      setRowsExcluded(sourceData.exclusion, rows, true)
+                    ))}
+                  />
+                  <button
+                    onClick={() => setShowOutliers(false)}
+                    className="mt-4 text-sm text-gray-500 hover:underline"
+                  >
+                    이상치 진단 닫기
+                  </button>
+                </>
+              ) : (
+                <button
+                  onClick={() => setShowOutliers(true)}
+                  className="flex items-center px-4 py-2 text-sm bg-amber-50 text-amber-700 border border-amber-200 rounded-md hover:bg-amber-100"
+                >
+                  <ShieldAlert className="h-4 w-4 mr-2" />
+                  이상치 진단 (IQR·MAD, 로버스트 마할라노비스, Cook 거리)
+                </button>
+              )}
+            </div>
+
+            {/* 끝성분 혼합 모델 */}
+            <div className="lg:col-span-2 border-t border-gray-200 pt-6">
+              {showMixing ? (
+                <>
+                  <MixingModelPanel
+                    data={sourceData}
+                    selectedColumns={selectedColumns}
+                    endmembers={mixingEndmembers}
+                    onEndmembersChange={setMixingEndmembers}
+                    onDataUpdate={onDataUpdate}
+                  />
+                  <button
+                    onClick={() => setShowMixing(false)}
+                    className="mt-4 text-sm text-gray-500 hover:underline"
+                  >
+                    혼합 모델 닫기
+                  </button>
+                </>
+              ) : (
+                <button
+                  onClick={() => setShowMixing(true)}
+                  className="flex items-center px-4 py-2 text-sm bg-teal-50 text-teal-700 border border-teal-200 rounded-md hover:bg-teal-100"
+                >
+                  <Spline className="h-4 w-4 mr-2" />
+                  끝성분 혼합 모델 (혼합선, 혼합 비율 계산)
+                </button>
+              )}
+            </div>
+
+            {/* 등시선 연대 */}
+            <div className="lg:col-span-2 border-t border-gray-200 pt-6">
+              {showIsochron ? (
+                <>
+                  <IsochronPanel data={data} />
+                  <button
+                    onClick={() => setShowIsochron(false)}
+                    className="mt-4 text-sm text-gray-500 hover:underline"
+                  >
+                    등시선 모드 닫기
+                  </button>
+                </>
+              ) : (
+                <button
+                  onClick={() => setShowIsochron(true)}
+                  className="flex items-center px-4 py-2 text-sm bg-violet-50 text-violet-700 border border-violet-200 rounded-md hover:bg-violet-100"
+                >
+                  <Hourglass className="h-4 w-4 mr-2" />
+                  등시선 연대 계산 (Rb–Sr, Sm–Nd, Lu–Hf, Re–Os, Pb–Pb)
+                </button>
+              )}
+            </div>
           </div>
         ) : (
           <div className="text-gray-500 text-center py-8">
@@ -0,0 +1,124 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { GeochemData } from '@/types/geochem'
+import { Gem } from 'lucide-react'
+import {
+  CipwOptions,
+  CIPW_COLUMN_PREFIX,
+  DEFAULT_CIPW_OPTIONS,
+  FE_TREATMENT_LABELS,
+  FeTreatment,
+  NORM_MINERAL_NAMES,
+  NormMineral,
+  applyCipwNorm,
+  resolveCipwColumns
+} from '@/lib/cipw'
+import { describeResolvedSpecies } from '@/lib/geochem-indices'
+
+interface CipwNormPanelProps {
+  data: GeochemData
+  onDataUpdate: (data: GeochemData) => void
+}
+
+interface CipwSummary {
+  minerals: NormMineral[]
+  failedRows: number[]
+  undersaturatedRows: number[]
+}
+
+// 행 번호 목록 (1부터, 10개까지)
+const formatRows = (rows: number[]) =>
+  rows.slice(0, 10).map(index => index + 1).join(', ') + (rows.length > 10 ? ` 외 ${rows.length - 10}개` : '')
+
+export default function CipwNormPanel({ data, onDataUpdate }: CipwNormPanelProps) {
+  const [options, setOptions] = useState<CipwOptions>(DEFAULT_CIPW_OPTIONS)
+  const [summary, setSummary] = useState<CipwSummary | null>(null)
+
+  const resolved = useMemo(() => resolveCipwColumns(data, options), [data, options])
+  const hasPrevious = data.numericColumns.some(col => col.startsWith(CIPW_COLUMN_PREFIX))
+
+  const handleCalculate = () => {
+    if (hasPrevious && !confirm('기존 CIPW 컬럼을 지우고 다시 계산합니다. 계속하시겠습니까?')) return
+    try {
+      const { data: updated, ...result } = applyCipwNorm(data, options)
+      onDataUpdate(updated)
+      setSummary(result)
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'CIPW 노름 계산 중 오류가 발생했습니다.')
+    }
+  }
+
+  return (
+    <div>
+      <h4 className="text-lg font-medium text-gray-800 mb-3">
+        <Gem className="h-5 w-5 inline mr-2" />
+        CIPW 노름 광물
+      </h4>
+      <div className="p-4 bg-sky-50 rounded-lg space-y-3">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end">
+          <div className="md:col-span-2">
+            <label className="block text-xs text-gray-600 mb-1">Fe³⁺/Fe²⁺ 처리</label>
+            <select
+              value={options.feTreatment}
+              onChange={(e) => setOptions({ ...options, feTreatment: e.target.value as FeTreatment })}
+              className="w-full p-2 text-sm border border-gray-300 rounded-md"
+            >
+              {(Object.keys(FE_TREATMENT_LABELS) as FeTreatment[]).map(treatment => (
+                <option key={treatment} value={treatment}>{FE_TREATMENT_LABELS[treatment]}</option>
+              ))}
+            </select>
+          </div>
+          {options.feTreatment === 'ratio' && (
+            <div>
+              <label className="block text-xs text-gray-600 mb-1">Fe2O3/FeO (질량비)</label>
+              <input
+                type="number"
+                min={0}
+                step={0.05}
+                value={options.fe2o3FeoRatio}
+                onChange={(e) => setOptions({ ...options, fe2o3FeoRatio: parseFloat(e.target.value) || 0 })}
+                className="w-full p-2 text-sm border border-gray-300 rounded-md"
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="text-xs text-gray-600 space-y-0.5">
+          <p>
+            사용한 컬럼:{' '}
+            {Object.entries(resolved.parts).map(([oxide, parts]) => `${oxide} ← ${describeResolvedSpecies(parts!)}`).join(', ') || '없음'}
+          </p>
+          {resolved.missing.length > 0 && (
+            <p className="text-red-600">필요한 컬럼 없음: {resolved.missing.join(', ')}</p>
+          )}
+          <p className="text-gray-400">
+            주성분 합을 무수 기준 100 wt%로 재계산하며, MnO는 FeO에 합산합니다. TiO2, MnO, P2O5는 없으면 0으로 계산합니다.
+          </p>
+        </div>
+
+        <button
+          onClick={handleCalculate}
+          disabled={resolved.missing.length > 0}
+          className="px-3 py-2 text-sm text-white bg-sky-600 rounded-md hover:bg-sky-700 disabled:opacity-50"
+        >
+          {hasPrevious ? 'CIPW 노름 다시 계산' : 'CIPW 노름 계산 → 컬럼 추가'}
+        </button>
+
+        {summary && (
+          <div className="text-xs text-gray-700 space-y-0.5">
+            <p>
+              추가한 컬럼 (wt%): {summary.minerals.map(mineral => `${CIPW_COLUMN_PREFIX}${mineral} (${NORM_MINERAL_NAMES[mineral]})`).join(', ')}
+            </p>
+            {summary.failedRows.length > 0 && (
+              <p className="text-orange-600">계산 불가 행 (주성분 누락): {formatRows(summary.failedRows)}</p>
+            )}
+            {summary.undersaturatedRows.length > 0 && (
+              <p className="text-orange-600">모든 치환 후에도 SiO2가 부족한 행: {formatRows(summary.undersaturatedRows)}</p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
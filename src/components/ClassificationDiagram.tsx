@@ -0,0 +1,408 @@
+'use client'
+
+import { useMemo, useRef, useState } from 'react'
+import { Download, Info, Plus } from 'lucide-react'
+import { GeochemData } from '@/types/geochem'
+import {
+  CLASSIFICATION_DIAGRAMS,
+  ClassificationDiagramId,
+  classifySamples,
+  resolveDiagramColumns,
+  toPlaneCoordinates
+} from '@/lib/classification-diagrams'
+import { TERNARY_HEIGHT, ternaryGridLines } from '@/lib/ternary'
+import { linearTicks, logTicks } from '@/lib/axis-ticks'
+import { exportElementAsPNG, exportSVGElement } from '@/lib/chart-export'
+import { defaultGraphSettings } from './ScatterPlot'
+
+interface ClassificationDiagramProps {
+  data: GeochemData
+  typeColumn?: string
+  onDataUpdate?: (data: GeochemData) => void
+}
+
+// 필드 밖 시료의 분류 값
+const UNCLASSIFIED = 'Unclassified'
+
+// SVG 레이아웃
+const WIDTH = 640
+const HEIGHT = 520
+const MARGIN = { top: 20, right: 20, bottom: 50, left: 60 }
+const PLOT_WIDTH = WIDTH - MARGIN.left - MARGIN.right
+const PLOT_HEIGHT = HEIGHT - MARGIN.top - MARGIN.bottom
+const TERNARY_SIDE = Math.min(PLOT_WIDTH, PLOT_HEIGHT / TERNARY_HEIGHT)
+
+export default function ClassificationDiagram({ data, typeColumn: initialTypeColumn, onDataUpdate }: ClassificationDiagramProps) {
+  const chartRef = useRef<HTMLDivElement>(null)
+  const [diagramId, setDiagramId] = useState<ClassificationDiagramId>('tas')
+  const [anhydrous, setAnhydrous] = useState(true)
+  const [colorBy, setColorBy] = useState<string>(initialTypeColumn || data.typeColumn || '')
+  const [showFieldLabels, setShowFieldLabels] = useState(true)
+  const [columnName, setColumnName] = useState('')
+
+  const diagram = CLASSIFICATION_DIAGRAMS[diagramId]
+  const colors = defaultGraphSettings.plotOptions.customColors
+  const targetColumn = columnName.trim() || `${diagram.shortName}_class`
+
+  const resolved = useMemo(() => resolveDiagramColumns(data, diagram), [data, diagram])
+
+  const { points, classes } = useMemo(
+    () => classifySamples(data, diagram, anhydrous),
+    [data, diagram, anhydrous]
+  )
+
+  // 필드별 시료 수
+  const classCounts = useMemo(() => {
+    const counts: Record<string, number> = {}
+    points.forEach((point, index) => {
+      if (!point) return
+      const name = classes[index] || UNCLASSIFIED
+      counts[name] = (counts[name] || 0) + 1
+    })
+    return counts
+  }, [points, classes])
+
+  // 색상 그룹 (타입 컬럼 또는 분류 결과)
+  const groups = useMemo(() => {
+    const names: string[] = []
+    const rowGroups = data.data.map((row, index) => {
+      const group = colorBy
+        ? (row[colorBy] !== null && row[colorBy] !== undefined ? String(row[colorBy]).trim() || 'Unknown' : 'Unknown')
+        : classes[index] || UNCLASSIFIED
+      if (points[index] && !names.includes(group)) names.push(group)
+      return group
+    })
+    return { names, rowGroups }
+  }, [data.data, colorBy, classes, points])
+
+  const groupColor = (group: string) => colors[groups.names.indexOf(group) % colors.length]
+
+  // 다이어그램 평면 좌표 → SVG 좌표
+  const project = useMemo(() => {
+    if (diagram.kind === 'ternary') {
+      const offsetX = MARGIN.left + (PLOT_WIDTH - TERNARY_SIDE) / 2
+      const baseY = MARGIN.top + TERNARY_SIDE * TERNARY_HEIGHT
+      return ([x, y]: [number, number]) => [offsetX + x * TERNARY_SIDE, baseY - y * TERNARY_SIDE]
+    }
+    const domain = diagram.domain!
+    const [x0, x1] = diagram.logScale ? domain.x.map(Math.log10) : domain.x
+    const [y0, y1] = diagram.logScale ? domain.y.map(Math.log10) : domain.y
+    return ([x, y]: [number, number]) => [
+      MARGIN.left + ((x - x0) / (x1 - x0)) * PLOT_WIDTH,
+      MARGIN.top + PLOT_HEIGHT - ((y - y0) / (y1 - y0)) * PLOT_HEIGHT
+    ]
+  }, [diagram])
+
+  const toSVG = (point: number[]) => project(toPlaneCoordinates(diagram, point))
+  const pathOf = (vertices: number[][], closed: boolean) =>
+    vertices.map((v, i) => `${i === 0 ? 'M' : 'L'}${toSVG(v).join(',')}`).join(' ') + (closed ? ' Z' : '')
+
+  // 필드 라벨 위치 (지정값 또는 평면 좌표의 꼭짓점 평균)
+  const fieldLabelPosition = (polygon: number[][], labelAt?: number[]) => {
+    if (labelAt) return toSVG(labelAt)
+    const plane = polygon.map(v => toPlaneCoordinates(diagram, v))
+    const cx = plane.reduce((sum, p) => sum + p[0], 0) / plane.length
+    const cy = plane.reduce((sum, p) => sum + p[1], 0) / plane.length
+    return project([cx, cy])
+  }
+
+  const classifiedCount = points.filter(p => p !== null).length
+
+  const handleAddColumn = () => {
+    if (!onDataUpdate) return
+    if (classifiedCount === 0) {
+      alert('분류할 수 있는 시료가 없습니다.')
+      return
+    }
+    if (data.numericColumns.includes(targetColumn)) {
+      alert(`이미 숫자 컬럼으로 존재하는 이름입니다: ${targetColumn}`)
+      return
+    }
+
+    const isNew = !data.nonNumericColumns.includes(targetColumn)
+    const newData = data.data.map((row, index) => ({
+      ...row,
+      [targetColumn]: points[index] ? classes[index] || UNCLASSIFIED : null
+    }))
+
+    onDataUpdate({
+      ...data,
+      data: newData,
+      nonNumericColumns: isNew ? [...data.nonNumericColumns, targetColumn] : data.nonNumericColumns,
+      metadata: data.metadata && isNew
+        ? { ...data.metadata, columnCount: (data.metadata.columnCount || 0) + 1 }
+        : data.metadata
+    })
+    alert(`'${targetColumn}' 컬럼에 분류 결과를 저장했습니다. 타입 컬럼으로 선택해서 사용할 수 있습니다.`)
+  }
+
+  const handleExportPNG = async () => {
+    if (!chartRef.current) return
+    try {
+      await exportElementAsPNG(chartRef.current, `classification-${diagramId}-${Date.now()}.png`)
+    } catch (error) {
+      console.error('Export failed:', error)
+      alert('이미지 내보내기에 실패했습니다.')
+    }
+  }
+
+  const handleExportSVG = () => {
+    const svgElement = chartRef.current?.querySelector('svg')
+    if (!svgElement) {
+      alert('SVG를 찾을 수 없습니다.')
+      return
+    }
+    try {
+      exportSVGElement(svgElement, `classification-${diagramId}-${Date.now()}.svg`)
+    } catch (error) {
+      console.error('SVG export failed:', error)
+      alert('SVG 내보내기에 실패했습니다.')
+    }
+  }
+
+  const renderBinaryAxes = () => {
+    const domain = diagram.domain!
+    const xTicks = diagram.logScale ? logTicks(domain.x[0], domain.x[1]) : linearTicks(domain.x[0], domain.x[1])
+    const yTicks = diagram.logScale ? logTicks(domain.y[0], domain.y[1]) : linearTicks(domain.y[0], domain.y[1])
+    const bottom = MARGIN.top + PLOT_HEIGHT
+
+    return (
+      <g fontSize={11} fill="#444">
+        <rect x={MARGIN.left} y={MARGIN.top} width={PLOT_WIDTH} height={PLOT_HEIGHT} fill="none" stroke="#333" />
+        {xTicks.map(tick => {
+          const [x] = toSVG([tick, domain.y[0]])
+          return (
+            <g key={`x${tick}`}>
+              <line x1={x} x2={x} y1={bottom} y2={bottom + 5} stroke="#333" />
+              <text x={x} y={bottom + 18} textAnchor="middle">{tick.toLocaleString()}</text>
+            </g>
+          )
+        })}
+        {yTicks.map(tick => {
+          const [, y] = toSVG([domain.x[0], tick])
+          return (
+            <g key={`y${tick}`}>
+              <line x1={MARGIN.left - 5} x2={MARGIN.left} y1={y} y2={y} stroke="#333" />
+              <text x={MARGIN.left - 8} y={y + 4} textAnchor="end">{tick.toLocaleString()}</text>
+            </g>
+          )
+        })}
+        <text x={MARGIN.left + PLOT_WIDTH / 2} y={HEIGHT - 10} textAnchor="middle" fontSize={13}>
+          {diagram.variables[0].label}
+        </text>
+        <text
+          x={16}
+          y={MARGIN.top + PLOT_HEIGHT / 2}
+          textAnchor="middle"
+          fontSize={13}
+          transform={`rotate(-90 16 ${MARGIN.top + PLOT_HEIGHT / 2})`}
+        >
+          {diagram.variables[1].label}
+        </text>
+      </g>
+    )
+  }
+
+  const renderTernaryFrame = () => {
+    const [topX, topY] = toSVG([100, 0, 0])
+    const [leftX, leftY] = toSVG([0, 100, 0])
+    const [rightX, rightY] = toSVG([0, 0, 100])
+
+    return (
+      <g fontSize={13} fill="#444">
+        {ternaryGridLines(20).map(line => {
+          const [x1, y1] = toSVG(line.from)
+          const [x2, y2] = toSVG(line.to)
+          return <line key={`${line.apex}${line.value}`} x1={x1} y1={y1} x2={x2} y2={y2} stroke="#e0e0e0" strokeDasharray="3 3" />
+        })}
+        <path d={`M${topX},${topY} L${leftX},${leftY} L${rightX},${rightY} Z`} fill="none" stroke="#333" />
+        <text x={topX} y={topY - 6} textAnchor="middle">{diagram.variables[0].label}</text>
+        <text x={leftX} y={leftY + 20} textAnchor="middle">{diagram.variables[1].label}</text>
+        <text x={rightX} y={rightY + 20} textAnchor="middle">{diagram.variables[2].label}</text>
+      </g>
+    )
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-gray-800">분류 다이어그램</h2>
+        <div className="flex gap-2">
+          <button
+            onClick={handleExportPNG}
+            className="flex items-center px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200"
+          >
+            <Download className="h-4 w-4 mr-1" />
+            PNG
+          </button>
+          <button
+            onClick={handleExportSVG}
+            className="flex items-center px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200"
+          >
+            <Download className="h-4 w-4 mr-1" />
+            SVG
+          </button>
+        </div>
+      </div>
+
+      {/* 설정 */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">다이어그램</label>
+          <select
+            value={diagramId}
+            onChange={(e) => setDiagramId(e.target.value as ClassificationDiagramId)}
+            className="w-full p-2 text-sm border border-gray-300 rounded-md"
+          >
+            {Object.values(CLASSIFICATION_DIAGRAMS).map(d => (
+              <option key={d.id} value={d.id}>{d.name} · {d.source}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">색상 기준</label>
+          <select
+            value={colorBy}
+            onChange={(e) => setColorBy(e.target.value)}
+            className="w-full p-2 text-sm border border-gray-300 rounded-md"
+          >
+            <option value="">분류 결과</option>
+            {data.nonNumericColumns.map(col => (
+              <option key={col} value={col}>{col}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-4 mb-4 text-sm text-gray-700">
+        {diagram.anhydrous && (
+          <label className="flex items-center">
+            <input type="checkbox" checked={anhydrous} onChange={(e) => setAnhydrous(e.target.checked)} className="mr-2" />
+            무수 기준 100% 재계산 (주성분 합)
+          </label>
+        )}
+        <label className="flex items-center">
+          <input type="checkbox" checked={showFieldLabels} onChange={(e) => setShowFieldLabels(e.target.checked)} className="mr-2" />
+          필드 이름 표시
+        </label>
+      </div>
+
+      {resolved.missing.length > 0 ? (
+        <div className="p-8 text-center text-gray-500 bg-gray-50 rounded-lg">
+          <Info className="h-8 w-8 mx-auto mb-2 text-gray-400" />
+          {diagram.name}에 필요한 컬럼을 찾지 못했습니다: {resolved.missing.join(', ')}
+          <p className="text-xs mt-1">컬럼 이름이 화학식(SiO2, Na2O, Rb ...) 또는 SiO2_wt% 형식인지 확인해주세요.</p>
+        </div>
+      ) : (
+        <>
+          <div ref={chartRef} className="bg-white">
+            <svg xmlns="http://www.w3.org/2000/svg" viewBox={`0 0 ${WIDTH} ${HEIGHT}`} width="100%" style={{ maxWidth: WIDTH }} className="mx-auto block">
+              <defs>
+                <clipPath id={`plot-area-${diagramId}`}>
+                  <rect x={MARGIN.left} y={MARGIN.top} width={PLOT_WIDTH} height={PLOT_HEIGHT} />
+                </clipPath>
+              </defs>
+
+              {diagram.kind === 'ternary' ? renderTernaryFrame() : renderBinaryAxes()}
+
+              <g clipPath={diagram.kind === 'binary' ? `url(#plot-area-${diagramId})` : undefined}>
+                {/* 필드 경계 */}
+                {diagram.fields.map(field => (
+                  <path key={field.name} d={pathOf(field.polygon, true)} fill="none" stroke="#555" strokeWidth={1} />
+                ))}
+                {diagram.lines?.map(line => (
+                  <path key={line.name} d={pathOf(line.points, false)} fill="none" stroke="#888" strokeWidth={1} strokeDasharray="6 4" />
+                ))}
+                {showFieldLabels && diagram.fields.map(field => {
+                  const [x, y] = fieldLabelPosition(field.polygon, field.labelAt)
+                  return (
+                    <text key={`label-${field.name}`} x={x} y={y} textAnchor="middle" fontSize={10} fill="#777">
+                      {field.name}
+                    </text>
+                  )
+                })}
+
+                {/* 시료 */}
+                {points.map((point, index) => {
+                  if (!point) return null
+                  const [x, y] = toSVG(point)
+                  const group = groups.rowGroups[index]
+                  return (
+                    <circle key={index} cx={x} cy={y} r={4} fill={groupColor(group)} fillOpacity={0.8} stroke="#fff" strokeWidth={0.5}>
+                      <title>{`#${index + 1} ${classes[index] || UNCLASSIFIED}\n${diagram.variables.map((v, i) => `${v.label}: ${point[i].toFixed(2)}`).join('\n')}`}</title>
+                    </circle>
+                  )
+                })}
+              </g>
+            </svg>
+
+            {/* 범례 */}
+            <div className="flex flex-wrap justify-center gap-4 mt-2 text-sm">
+              {groups.names.map(group => (
+                <div key={group} className="flex items-center">
+                  <span className="inline-block w-3 h-3 mr-2 rounded-full" style={{ backgroundColor: groupColor(group) }} />
+                  {group} ({groups.rowGroups.filter((g, i) => g === group && points[i]).length})
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* 분류 결과 */}
+          <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="p-3 bg-gray-50 rounded-lg">
+              <h3 className="text-sm font-medium text-gray-700 mb-2">
+                분류 결과 ({classifiedCount}/{data.data.length}개 시료)
+              </h3>
+              <table className="w-full text-xs">
+                <tbody>
+                  {Object.entries(classCounts)
+                    .sort((a, b) => b[1] - a[1])
+                    .map(([name, count]) => (
+                      <tr key={name} className="border-b border-gray-200 last:border-0">
+                        <td className="py-1 text-gray-700">{name}</td>
+                        <td className="py-1 text-right text-gray-600">{count}</td>
+                      </tr>
+                    ))}
+                </tbody>
+              </table>
+            </div>
+
+            {onDataUpdate && (
+              <div className="p-3 bg-emerald-50 rounded-lg">
+                <h3 className="text-sm font-medium text-gray-700 mb-2">분류 결과를 컬럼으로 저장</h3>
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={columnName}
+                    onChange={(e) => setColumnName(e.target.value)}
+                    placeholder={`${diagram.shortName}_class`}
+                    className="flex-1 p-2 text-sm border border-gray-300 rounded-md"
+                  />
+                  <button
+                    onClick={handleAddColumn}
+                    className="flex items-center px-3 py-2 text-sm bg-emerald-600 text-white rounded-md hover:bg-emerald-700"
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    컬럼 추가
+                  </button>
+                </div>
+                <p className="text-xs text-gray-500 mt-2">
+                  필드 밖의 시료는 {UNCLASSIFIED}, 값이 없는 시료는 빈 값으로 저장됩니다.
+                </p>
+              </div>
+            )}
+          </div>
+
+          <div className="mt-4 p-3 bg-gray-50 rounded-lg text-xs text-gray-600 space-y-1">
+            <p>
+              사용된 컬럼: {diagram.variables.map((variable, i) =>
+                `${variable.label} ← ${resolved.variables[i].flat().map(part => part.column).join(' + ')}`
+              ).join(' · ')}
+            </p>
+            <p>경계 출처: {diagram.source}</p>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -1,16 +1,24 @@
 'use client'
 
-import { useState } from 'react'
-import { GeochemData, AxisConfig, ColumnSelection } from '@/types/geochem'
-import { Table, BarChart3, Settings, Calculator, Users } from 'lucide-react'
+import { useMemo, useState } from 'react'
+import { GeochemData, AxisConfig, ColumnSelection, CensoredCell, ExclusionOperator, ExclusionRule, RowExclusion, QueryGroup, RowSubset } from '@/types/geochem'
+import { Table, BarChart3, Settings, Calculator, Users, Ruler, Filter, Trash2, Search, ArrowUp, ArrowDown, Save } from 'lucide-react'
+import { CONCENTRATION_UNITS, getColumnUnit, getConversionFactor, parseSpecies, parseHeaderUnit } from '@/lib/units'
+import { EMPTY_EXCLUSION, EXCLUSION_OPERATOR_LABELS, countRuleMatches, describeExclusionRule, getExcludedRows, setRowsExcluded } from '@/lib/exclusion'
+import { createQueryGroup, describeQueryGroup, filterRowIndices, getActiveSubset, sortRowIndices } from '@/lib/query'
+import QueryBuilder from './QueryBuilder'
+import DerivedColumnPanel from './DerivedColumnPanel'
+import GeochemIndexPanel from './GeochemIndexPanel'
+import CipwNormPanel from './CipwNormPanel'
 
 interface DataViewerProps {
   data: GeochemData
   selectedColumns: ColumnSelection
   onColumnSelect: (columns: ColumnSelection) => void
+  onDataUpdate?: (data: GeochemData) => void
 }
 
-export default function DataViewer({ data, selectedColumns, onColumnSelect }: DataViewerProps) {
+export default function DataViewer({ data, selectedColumns, onColumnSelect, onDataUpdate }: DataViewerProps) {
   const [viewMode, setViewMode] = useState<'table' | 'summary'>('summary')
   const [currentPage, setCurrentPage] = useState(1)
   const [xAxisType, setXAxisType] = useState<'single' | 'ratio'>('single')
@@ -20,12 +28,36 @@ export default function DataViewer({ data, selectedColumns, onColumnSelect }: Da
   const [xRatioTemp, setXRatioTemp] = useState({ numerator: '', denominator: '' })
   const [yRatioTemp, setYRatioTemp] = useState({ numerator: '', denominator: '' })
   
+  // 단위/화학종 변환 상태
+  const [conversion, setConversion] = useState({ source: '', targetSpecies: '', targetUnit: 'ppm' })
+
+  // 행 제외 규칙 입력 상태
+  const [ruleDraft, setRuleDraft] = useState<{ column: string; operator: ExclusionOperator; value: string }>({
+    column: '', operator: '>', value: ''
+  })
+
+  // 테이블 필터(쿼리 빌더)와 정렬
+  const [query, setQuery] = useState<QueryGroup>(() => createQueryGroup())
+  const [sort, setSort] = useState<{ column: string; direction: 'asc' | 'desc' } | null>(null)
+
   const itemsPerPage = 10
 
-  const totalPages = Math.ceil(data.data.length / itemsPerPage)
+  // 테이블에 표시할 원본 행 인덱스 (필터 → 정렬 순)
+  const viewIndices = useMemo(() => {
+    const filtered = filterRowIndices(data, query)
+    return sort ? sortRowIndices(data, filtered, sort.column, sort.direction) : filtered
+  }, [data, query, sort])
+  const queryDescription = describeQueryGroup(query)
+
+  const totalPages = Math.ceil(viewIndices.length / itemsPerPage)
   const startIndex = (currentPage - 1) * itemsPerPage
   const endIndex = startIndex + itemsPerPage
-  const currentData = data.data.slice(startIndex, endIndex)
+  const currentIndices = viewIndices.slice(startIndex, endIndex)
+
+  const exclusion = data.exclusion || EMPTY_EXCLUSION
+  const excludedRows = getExcludedRows(data)
+  const manualRows = new Set(exclusion.manual)
+  const activeSubset = getActiveSubset(data)
 
   // 사용 가능한 타입 컬럼들 (문자형 컬럼들)
   const typeColumns = data.nonNumericColumns.filter(col => 
@@ -54,6 +86,160 @@ export default function DataViewer({ data, selectedColumns, onColumnSelect }: Da
     })
   }
 
+  // 컬럼 단위 변경
+  const handleUnitChange = (column: string, unit: string) => {
+    if (!onDataUpdate) return
+    const units = { ...data.units }
+    if (unit) {
+      units[column] = unit
+    } else {
+      delete units[column]
+    }
+    onDataUpdate({ ...data, units })
+  }
+
+  const sourceUnit = conversion.source ? getColumnUnit(data, conversion.source) : null
+  const sourceSpecies = conversion.source ? parseSpecies(conversion.source) : null
+  const targetSpecies = conversion.targetSpecies.trim()
+    ? parseSpecies(conversion.targetSpecies.trim())
+    : sourceSpecies
+  const conversionFactor = sourceUnit
+    ? getConversionFactor(sourceUnit, conversion.targetUnit, sourceSpecies, targetSpecies)
+    : null
+
+  // 변환된 컬럼 추가 (예: TiO2 wt% → Ti_ppm, Fe2O3T → FeOT_wt%)
+  const handleAddConvertedColumn = () => {
+    if (!onDataUpdate || !conversion.source) return
+    if (!sourceUnit) {
+      alert('원본 컬럼의 단위를 먼저 지정해주세요.')
+      return
+    }
+    if (conversionFactor === null) {
+      alert('변환할 수 없는 조합입니다. 같은 원소의 원소/산화물끼리만 변환할 수 있으며, 몰 단위는 화학종이 필요합니다.')
+      return
+    }
+
+    const speciesName = conversion.targetSpecies.trim() || parseHeaderUnit(conversion.source).name
+    const newColumn = `${speciesName}_${conversion.targetUnit}`
+    if (data.numericColumns.includes(newColumn) || data.nonNumericColumns.includes(newColumn)) {
+      alert(`이미 존재하는 컬럼입니다: ${newColumn}`)
+      return
+    }
+
+    const newData = data.data.map(row => {
+      const value = parseFloat(row[conversion.source])
+      return { ...row, [newColumn]: isFinite(value) ? value * conversionFactor : null }
+    })
+
+    // 검출한계 미만 셀도 함께 변환
+    const sourceCensored = data.censored?.[conversion.source]
+    const censored = sourceCensored
+      ? {
+          ...data.censored,
+          [newColumn]: Object.fromEntries(
+            Object.entries(sourceCensored).map(([rowIndex, cell]) => [
+              rowIndex,
+              { ...cell, detectionLimit: cell.detectionLimit * conversionFactor } as CensoredCell
+            ])
+          )
+        }
+      : data.censored
+
+    onDataUpdate({
+      ...data,
+      data: newData,
+      numericColumns: [...data.numericColumns, newColumn],
+      units: { ...data.units, [newColumn]: conversion.targetUnit },
+      censored,
+      metadata: data.metadata && { ...data.metadata, columnCount: (data.metadata.columnCount || 0) + 1 }
+    })
+    setConversion({ ...conversion, source: '', targetSpecies: '' })
+  }
+
+  // 행 제외 설정 변경 (모든 분석 모드에 적용)
+  const updateExclusion = (next: RowExclusion) => {
+    if (!onDataUpdate) return
+    onDataUpdate({ ...data, exclusion: next })
+  }
+
+  const handleRowExcludeToggle = (rowIndex: number, exclude: boolean) => {
+    updateExclusion(setRowsExcluded(data.exclusion, [rowIndex], exclude))
+  }
+
+  const handleAddRule = () => {
+    if (!ruleDraft.column) return
+    if (ruleDraft.operator !== 'empty' && !ruleDraft.value.trim()) {
+      alert('비교할 값을 입력해주세요.')
+      return
+    }
+    const rule: ExclusionRule = {
+      id: `rule-${Date.now()}`,
+      column: ruleDraft.column,
+      operator: ruleDraft.operator,
+      value: ruleDraft.operator === 'empty' ? '' : ruleDraft.value.trim(),
+      enabled: true
+    }
+    updateExclusion({ ...exclusion, rules: [...exclusion.rules, rule] })
+    setRuleDraft({ ...ruleDraft, value: '' })
+  }
+
+  const handleRuleToggle = (id: string, enabled: boolean) => {
+    updateExclusion({
+      ...exclusion,
+      rules: exclusion.rules.map(rule => rule.id === id ? { ...rule, enabled } : rule)
+    })
+  }
+
+  const handleRuleRemove = (id: string) => {
+    updateExclusion({ ...exclusion, rules: exclusion.rules.filter(rule => rule.id !== id) })
+  }
+
+  const handleClearManual = () => {
+    if (!confirm(`직접 제외한 ${exclusion.manual.length}개 행을 모두 되돌리시겠습니까?`)) return
+    updateExclusion({ ...exclusion, manual: [] })
+  }
+
+  const handleQueryChange = (next: QueryGroup) => {
+    setQuery(next)
+    setCurrentPage(1)
+  }
+
+  // 헤더 클릭: 오름차순 → 내림차순 → 정렬 해제
+  const handleSortToggle = (column: string) => {
+    if (sort?.column !== column) setSort({ column, direction: 'asc' })
+    else if (sort.direction === 'asc') setSort({ column, direction: 'desc' })
+    else setSort(null)
+    setCurrentPage(1)
+  }
+
+  // 현재 필터를 이름 붙인 부분집합으로 저장하고 분석에 적용
+  const handleSaveSubset = () => {
+    if (!onDataUpdate || !queryDescription) return
+    const name = prompt('부분집합 이름을 입력하세요', queryDescription)?.trim()
+    if (!name) return
+    if (data.subsets?.some(subset => subset.name === name)) {
+      alert(`이미 같은 이름의 부분집합이 있습니다: ${name}`)
+      return
+    }
+    const subset: RowSubset = { id: `subset-${Date.now()}`, name, query }
+    onDataUpdate({ ...data, subsets: [...(data.subsets || []), subset], activeSubsetId: subset.id })
+  }
+
+  const handleSubsetActivate = (id: string | undefined) => {
+    if (!onDataUpdate) return
+    onDataUpdate({ ...data, activeSubsetId: id })
+  }
+
+  const handleSubsetRemove = (subset: RowSubset) => {
+    if (!onDataUpdate) return
+    if (!confirm(`부분집합 '${subset.name}'을(를) 삭제하시겠습니까?`)) return
+    onDataUpdate({
+      ...data,
+      subsets: data.subsets?.filter(s => s.id !== subset.id),
+      activeSubsetId: data.activeSubsetId === subset.id ? undefined : data.activeSubsetId
+    })
+  }
+
   const createAxisConfig = (type: 'single' | 'ratio', numerator: string, denominator?: string): AxisConfig => {
     const label = type === 'single' ? numerator : `${numerator}/${denominator}`
     return { type, numerator, denominator, label }
@@ -144,6 +330,14 @@ export default function DataViewer({ data, selectedColumns, onColumnSelect }: Da
         <div className="text-sm text-gray-600">
           <p className="mb-1">파일: {data.metadata?.fileName || data.fileName}</p>
           <p>데이터: {data.metadata?.rowCount || data.data.length}행 × {data.metadata?.columnCount || (data.data[0] ? Object.keys(data.data[0]).length : 0)}열</p>
+          {activeSubset && (
+            <p className="mt-1 text-indigo-600">부분집합: {activeSubset.name}</p>
+          )}
+          {excludedRows.size > 0 && (
+            <p className="mt-1 text-red-600">
+              분석 제외: {excludedRows.size}행 (분석 대상 {data.data.length - excludedRows.size}행)
+            </p>
+          )}
         </div>
       </div>
 
@@ -191,6 +385,109 @@ export default function DataViewer({ data, selectedColumns, onColumnSelect }: Da
         </div>
       </div>
 
+      {/* 행 제외 설정 */}
+      {onDataUpdate && (
+        <div className="p-6 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-800 mb-3">
+            <Filter className="h-5 w-5 inline mr-2" />
+            행 제외 (모든 분석 모드에 적용)
+          </h3>
+          <div className="space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-2 items-end">
+              <div>
+                <label className="block text-xs text-gray-600 mb-1">컬럼</label>
+                <select
+                  value={ruleDraft.column}
+                  onChange={(e) => setRuleDraft({ ...ruleDraft, column: e.target.value })}
+                  className="w-full p-2 text-sm border border-gray-300 rounded-md"
+                >
+                  <option value="">선택</option>
+                  {[...data.numericColumns, ...data.nonNumericColumns].map(col => (
+                    <option key={col} value={col}>{col}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs text-gray-600 mb-1">조건</label>
+                <select
+                  value={ruleDraft.operator}
+                  onChange={(e) => setRuleDraft({ ...ruleDraft, operator: e.target.value as ExclusionOperator })}
+                  className="w-full p-2 text-sm border border-gray-300 rounded-md"
+                >
+                  {(Object.keys(EXCLUSION_OPERATOR_LABELS) as ExclusionOperator[]).map(operator => (
+                    <option key={operator} value={operator}>{EXCLUSION_OPERATOR_LABELS[operator]}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs text-gray-600 mb-1">값</label>
+                <input
+                  type="text"
+                  value={ruleDraft.value}
+                  onChange={(e) => setRuleDraft({ ...ruleDraft, value: e.target.value })}
+                  disabled={ruleDraft.operator === 'empty'}
+                  placeholder="예: 5"
+                  className="w-full p-2 text-sm border border-gray-300 rounded-md disabled:bg-gray-100"
+                />
+              </div>
+              <button
+                onClick={handleAddRule}
+                disabled={!ruleDraft.column}
+                className="px-3 py-2 text-sm text-white bg-red-600 rounded-md hover:bg-red-700 disabled:opacity-50"
+              >
+                제외 규칙 추가
+              </button>
+            </div>
+
+            {exclusion.rules.length > 0 && (
+              <div className="space-y-1">
+                {exclusion.rules.map(rule => (
+                  <div key={rule.id} className="flex items-center justify-between bg-red-50 rounded px-3 py-1.5 text-sm">
+                    <label className="flex items-center">
+                      <input
+                        type="checkbox"
+                        checked={rule.enabled}
+                        onChange={(e) => handleRuleToggle(rule.id, e.target.checked)}
+                        className="h-4 w-4 mr-2"
+                      />
+                      <span className={rule.enabled ? 'text-gray-800' : 'text-gray-400 line-through'}>
+                        {describeExclusionRule(rule)}
+                      </span>
+                      <span className="ml-2 text-xs text-gray-500">({countRuleMatches(data, rule)}행)</span>
+                    </label>
+                    <button
+                      onClick={() => handleRuleRemove(rule.id)}
+                      className="text-gray-400 hover:text-red-600"
+                      title="규칙 삭제"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600">
+              <span>직접 제외: {exclusion.manual.length}행 (테이블 보기에서 선택)</span>
+              {exclusion.manual.length > 0 && (
+                <button onClick={handleClearManual} className="text-blue-600 hover:underline">
+                  모두 되돌리기
+                </button>
+              )}
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={!!exclusion.showExcluded}
+                  onChange={(e) => updateExclusion({ ...exclusion, showExcluded: e.target.checked })}
+                  className="h-4 w-4 mr-2"
+                />
+                그래프에 제외한 점을 회색으로 표시
+              </label>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* 컬럼 선택 */}
       <div className="p-6 border-b border-gray-200 bg-gray-50">
         <h3 className="text-lg font-medium text-gray-800 mb-4">
@@ -462,6 +759,103 @@ export default function DataViewer({ data, selectedColumns, onColumnSelect }: Da
               </div>
             </div>
 
+            {/* 단위 설정 */}
+            {onDataUpdate && (
+              <div>
+                <h4 className="text-lg font-medium text-gray-800 mb-3">
+                  <Ruler className="h-5 w-5 inline mr-2" />
+                  컬럼 단위
+                </h4>
+                <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-2">
+                  {data.numericColumns.map(col => (
+                    <div key={col} className="flex items-center justify-between bg-gray-50 rounded px-2 py-1">
+                      <span className="text-sm text-gray-700 truncate mr-2" title={col}>{col}</span>
+                      <select
+                        value={data.units?.[col] || ''}
+                        onChange={(e) => handleUnitChange(col, e.target.value)}
+                        className="text-xs border border-gray-300 rounded p-1"
+                      >
+                        <option value="">-</option>
+                        {CONCENTRATION_UNITS.map(unit => (
+                          <option key={unit} value={unit}>{unit}</option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-2">
+                  분자와 분모의 단위가 다른 비율은 질량비(ppm/ppm)로 환산되어 계산됩니다.
+                </p>
+
+                {/* 단위/화학종 변환 */}
+                <div className="mt-4 p-4 bg-blue-50 rounded-lg">
+                  <h5 className="text-sm font-medium text-blue-800 mb-3">단위 · 원소/산화물 변환 컬럼 추가</h5>
+                  <div className="grid grid-cols-1 md:grid-cols-4 gap-2 items-end">
+                    <div>
+                      <label className="block text-xs text-gray-600 mb-1">원본 컬럼</label>
+                      <select
+                        value={conversion.source}
+                        onChange={(e) => setConversion({ ...conversion, source: e.target.value })}
+                        className="w-full p-2 text-sm border border-gray-300 rounded-md"
+                      >
+                        <option value="">선택</option>
+                        {data.numericColumns.map(col => (
+                          <option key={col} value={col}>
+                            {col}{getColumnUnit(data, col) ? ` (${getColumnUnit(data, col)})` : ''}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-600 mb-1">대상 화학종 (선택)</label>
+                      <input
+                        type="text"
+                        value={conversion.targetSpecies}
+                        onChange={(e) => setConversion({ ...conversion, targetSpecies: e.target.value })}
+                        placeholder={sourceSpecies ? `예: ${sourceSpecies.element}` : '예: Ti, FeOT'}
+                        className="w-full p-2 text-sm border border-gray-300 rounded-md"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-600 mb-1">대상 단위</label>
+                      <select
+                        value={conversion.targetUnit}
+                        onChange={(e) => setConversion({ ...conversion, targetUnit: e.target.value })}
+                        className="w-full p-2 text-sm border border-gray-300 rounded-md"
+                      >
+                        {CONCENTRATION_UNITS.map(unit => (
+                          <option key={unit} value={unit}>{unit}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <button
+                      onClick={handleAddConvertedColumn}
+                      disabled={!conversion.source}
+                      className="px-3 py-2 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      컬럼 추가
+                    </button>
+                  </div>
+                  {conversion.source && (
+                    <p className="text-xs text-gray-600 mt-2">
+                      {conversionFactor !== null
+                        ? `환산 계수: × ${conversionFactor.toPrecision(5)}`
+                        : sourceUnit ? '변환할 수 없는 조합입니다' : '원본 컬럼의 단위를 지정해주세요'}
+                    </p>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* 파생 컬럼 */}
+            {onDataUpdate && <DerivedColumnPanel data={data} onDataUpdate={onDataUpdate} />}
+
+            {/* 지구화학 지수 */}
+            {onDataUpdate && <GeochemIndexPanel data={data} onDataUpdate={onDataUpdate} />}
+
+            {/* CIPW 노름 */}
+            {onDataUpdate && <CipwNormPanel data={data} onDataUpdate={onDataUpdate} />}
+
             {typeColumns.length > 0 && (
               <div>
                 <h4 className="text-lg font-medium text-gray-800 mb-3">사용 가능한 타입 컬럼</h4>
@@ -480,30 +874,138 @@ export default function DataViewer({ data, selectedColumns, onColumnSelect }: Da
           </div>
         ) : (
           <div>
+            {/* 필터 (쿼리 빌더) */}
+            <div className="mb-4 space-y-3">
+              <h4 className="text-sm font-medium text-gray-700">
+                <Search className="h-4 w-4 inline mr-1" />
+                행 필터
+              </h4>
+              <QueryBuilder data={data} group={query} onChange={handleQueryChange} />
+              <div className="flex flex-wrap items-center gap-3 text-sm">
+                <span className="text-gray-600">
+                  {queryDescription
+                    ? `조건 일치 ${viewIndices.length} / ${data.data.length}행`
+                    : `전체 ${data.data.length}행`}
+                </span>
+                {queryDescription && (
+                  <button onClick={() => handleQueryChange(createQueryGroup())} className="text-blue-600 hover:underline">
+                    필터 초기화
+                  </button>
+                )}
+                {onDataUpdate && queryDescription && (
+                  <button
+                    onClick={handleSaveSubset}
+                    className="flex items-center px-3 py-1 text-white bg-indigo-600 rounded-md hover:bg-indigo-700"
+                  >
+                    <Save className="h-4 w-4 mr-1" />
+                    부분집합으로 저장 · 분석에 적용
+                  </button>
+                )}
+              </div>
+
+              {/* 저장된 부분집합 */}
+              {data.subsets && data.subsets.length > 0 && (
+                <div className="space-y-1">
+                  {data.subsets.map(subset => {
+                    const isActive = subset.id === data.activeSubsetId
+                    return (
+                      <div
+                        key={subset.id}
+                        className={`flex flex-wrap items-center gap-2 rounded px-3 py-1.5 text-sm ${isActive ? 'bg-indigo-100' : 'bg-gray-50'}`}
+                      >
+                        <span className="font-medium text-gray-800">{subset.name}</span>
+                        <span className="text-xs text-gray-500">
+                          {describeQueryGroup(subset.query)} ({filterRowIndices(data, subset.query).length}행)
+                        </span>
+                        <div className="ml-auto flex items-center gap-3">
+                          <button onClick={() => handleQueryChange(subset.query)} className="text-blue-600 hover:underline">
+                            불러오기
+                          </button>
+                          {onDataUpdate && (
+                            <>
+                              <button
+                                onClick={() => handleSubsetActivate(isActive ? undefined : subset.id)}
+                                className={isActive ? 'text-gray-600 hover:underline' : 'text-indigo-600 hover:underline'}
+                              >
+                                {isActive ? '적용 해제' : '분석에 적용'}
+                              </button>
+                              <button
+                                onClick={() => handleSubsetRemove(subset)}
+                                className="text-gray-400 hover:text-red-600"
+                                title="부분집합 삭제"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </button>
+                            </>
+                          )}
+                        </div>
+                      </div>
+                    )
+                  })}
+                </div>
+              )}
+            </div>
+
             <div className="overflow-x-auto">
               <table className="min-w-full divide-y divide-gray-200">
                 <thead className="bg-gray-50">
                   <tr>
+                    {onDataUpdate && (
+                      <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        제외
+                      </th>
+                    )}
                     {[...data.numericColumns, ...data.nonNumericColumns].map((col: string) => (
                       <th
                         key={col}
-                        className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                        onClick={() => handleSortToggle(col)}
+                        className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer select-none hover:text-gray-700"
+                        title="클릭하여 정렬"
                       >
                         {col}
+                        {sort?.column === col && (sort.direction === 'asc'
+                          ? <ArrowUp className="h-3 w-3 inline ml-1" />
+                          : <ArrowDown className="h-3 w-3 inline ml-1" />)}
                       </th>
                     ))}
                   </tr>
                 </thead>
                 <tbody className="bg-white divide-y divide-gray-200">
-                  {currentData.map((row, index) => (
-                    <tr key={index} className="hover:bg-gray-50">
-                      {[...data.numericColumns, ...data.nonNumericColumns].map((col: string) => (
-                        <td key={col} className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                          {typeof row[col] === 'number' ? row[col].toFixed(3) : row[col]}
-                        </td>
-                      ))}
-                    </tr>
-                  ))}
+                  {currentIndices.map(rowIndex => {
+                    const row = data.data[rowIndex]
+                    return (
+                      <tr
+                        key={rowIndex}
+                        className={excludedRows.has(rowIndex) ? 'bg-gray-100 opacity-50' : 'hover:bg-gray-50'}
+                      >
+                        {onDataUpdate && (
+                          <td className="px-3 py-4">
+                            <input
+                              type="checkbox"
+                              checked={manualRows.has(rowIndex)}
+                              onChange={(e) => handleRowExcludeToggle(rowIndex, e.target.checked)}
+                              title={excludedRows.has(rowIndex) && !manualRows.has(rowIndex)
+                                ? '제외 규칙이나 부분집합에 의해 제외된 행'
+                                : '분석에서 제외'}
+                              className="h-4 w-4"
+                            />
+                          </td>
+                        )}
+                        {[...data.numericColumns, ...data.nonNumericColumns].map((col: string) => (
+                          <td key={col} className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            {data.censored?.[col]?.[rowIndex] ? (
+                              <span
+                                className="text-gray-400 italic"
+                                title={`검출한계 미만 (DL ${data.censored[col][rowIndex].detectionLimit}${data.censored[col][rowIndex].estimatedLimit ? ', 추정' : ''})`}
+                              >
+                                {data.censored[col][rowIndex].raw}
+                              </span>
+                            ) : typeof row[col] === 'number' ? row[col].toFixed(3) : row[col]}
+                          </td>
+                        ))}
+                      </tr>
+                    )
+                  })}
                 </tbody>
               </table>
             </div>
@@ -512,7 +1014,7 @@ export default function DataViewer({ data, selectedColumns, onColumnSelect }: Da
             {totalPages > 1 && (
               <div className="mt-4 flex justify-between items-center">
                 <p className="text-sm text-gray-700">
-                  {startIndex + 1}-{Math.min(endIndex, data.data.length)} / {data.data.length} 행
+                  {startIndex + 1}-{Math.min(endIndex, viewIndices.length)} / {viewIndices.length} 행
                 </p>
                 <div className="flex space-x-2">
                   <button
@@ -0,0 +1,209 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { DerivedColumn, GeochemData } from '@/types/geochem'
+import { FunctionSquare, Trash2, Pencil } from 'lucide-react'
+import { EXPRESSION_FUNCTIONS, applyDerivedColumns, compileExpression, splitDefinition, validateDerivedColumn } from '@/lib/expressions'
+
+interface DerivedColumnPanelProps {
+  data: GeochemData
+  onDataUpdate: (data: GeochemData) => void
+}
+
+// 자주 쓰는 수식 예시
+const EXAMPLES = [
+  'Mg# = 100*(MgO/40.3)/((MgO/40.3)+(FeOT/71.85))',
+  'Eu/Eu* = EuN/sqrt(SmN*GdN)',
+  'logBaTh = log10(Ba/Th)'
+]
+
+export default function DerivedColumnPanel({ data, onDataUpdate }: DerivedColumnPanelProps) {
+  const [name, setName] = useState('')
+  const [expression, setExpression] = useState('')
+  const [editing, setEditing] = useState<string | null>(null)  // 수정 중인 파생 컬럼 이름
+
+  const definitions = data.derivedColumns || []
+
+  // "이름 = 수식" 형식으로 입력하면 이름 칸을 자동으로 채움
+  const handleExpressionChange = (text: string) => {
+    const split = splitDefinition(text)
+    if (split.name && !name) {
+      setName(split.name)
+      setExpression(split.expression)
+    } else {
+      setExpression(text)
+    }
+  }
+
+  // 입력 검사 + 미리보기 (유효 값 수, 처음 몇 개 값)
+  const check = useMemo((): { error: string } | { validCount: number; preview: number[] } | null => {
+    if (!expression.trim()) return null
+    if (name.trim()) {
+      const error = validateDerivedColumn(data, { name: name.trim(), expression })
+      if (error) return { error }
+    }
+    try {
+      const base = editing ? { ...data, numericColumns: data.numericColumns.filter(col => col !== editing) } : data
+      const { evaluate } = compileExpression(expression, base)
+      const valid = data.data.map(evaluate).filter(value => !isNaN(value))
+      return { validCount: valid.length, preview: valid.slice(0, 3) }
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : '수식 오류' }
+    }
+  }, [data, name, expression, editing])
+
+  const commit = (next: DerivedColumn[]) => {
+    const { data: updated, failed } = applyDerivedColumns(data, next)
+    if (failed.length > 0) {
+      alert(`다음 파생 컬럼을 계산할 수 없습니다:\n${failed.map(f => `${f.name}: ${f.error}`).join('\n')}`)
+    }
+    onDataUpdate(updated)
+  }
+
+  const handleSave = () => {
+    const definition: DerivedColumn = { name: name.trim(), expression: expression.trim() }
+    const error = validateDerivedColumn(data, definition)
+      || (definition.name !== editing && definitions.some(d => d.name === definition.name)
+        ? `이미 존재하는 컬럼입니다: ${definition.name}`
+        : null)
+    if (error) {
+      alert(error)
+      return
+    }
+    commit(editing
+      ? definitions.map(d => d.name === editing ? definition : d)
+      : [...definitions, definition])
+    setName('')
+    setExpression('')
+    setEditing(null)
+  }
+
+  const handleEdit = (definition: DerivedColumn) => {
+    setEditing(definition.name)
+    setName(definition.name)
+    setExpression(definition.expression)
+  }
+
+  const handleRemove = (target: string) => {
+    const dependents = definitions.filter(d => {
+      if (d.name === target) return false
+      try {
+        return compileExpression(d.expression, data).references.includes(target)
+      } catch {
+        return false
+      }
+    })
+    const message = dependents.length > 0
+      ? `'${target}'을(를) 삭제하면 이를 참조하는 ${dependents.map(d => d.name).join(', ')}도 계산할 수 없게 됩니다. 삭제하시겠습니까?`
+      : `파생 컬럼 '${target}'을(를) 삭제하시겠습니까?`
+    if (!confirm(message)) return
+    commit(definitions.filter(d => d.name !== target))
+    if (editing === target) {
+      setEditing(null)
+      setName('')
+      setExpression('')
+    }
+  }
+
+  return (
+    <div>
+      <h4 className="text-lg font-medium text-gray-800 mb-3">
+        <FunctionSquare className="h-5 w-5 inline mr-2" />
+        파생 컬럼 (수식)
+      </h4>
+      <div className="p-4 bg-emerald-50 rounded-lg space-y-3">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-2 items-end">
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">컬럼 이름</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="예: Mg#"
+              className="w-full p-2 text-sm border border-gray-300 rounded-md"
+            />
+          </div>
+          <div className="md:col-span-2">
+            <label className="block text-xs text-gray-600 mb-1">수식</label>
+            <input
+              type="text"
+              value={expression}
+              onChange={(e) => handleExpressionChange(e.target.value)}
+              placeholder="예: 100*(MgO/40.3)/((MgO/40.3)+(FeOT/71.85))"
+              className="w-full p-2 text-sm font-mono border border-gray-300 rounded-md"
+            />
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={handleSave}
+              disabled={!name.trim() || !expression.trim() || (!!check && 'error' in check)}
+              className="flex-1 px-3 py-2 text-sm text-white bg-emerald-600 rounded-md hover:bg-emerald-700 disabled:opacity-50"
+            >
+              {editing ? '수정' : '컬럼 추가'}
+            </button>
+            {editing && (
+              <button
+                onClick={() => { setEditing(null); setName(''); setExpression('') }}
+                className="px-3 py-2 text-sm text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+              >
+                취소
+              </button>
+            )}
+          </div>
+        </div>
+
+        {check && (
+          'error' in check ? (
+            <p className="text-xs text-red-600">{check.error}</p>
+          ) : (
+            <p className="text-xs text-gray-600">
+              계산 가능 {check.validCount} / {data.data.length}행
+              {check.preview.length > 0 && ` · 예: ${check.preview.map(v => v.toPrecision(4)).join(', ')}`}
+              {check.validCount < data.data.length && ' (결측·0으로 나누기·음수 로그는 빈 값)'}
+            </p>
+          )
+        )}
+
+        {definitions.length > 0 && (
+          <div className="space-y-1">
+            {definitions.map(definition => (
+              <div key={definition.name} className="flex items-center justify-between bg-white rounded px-3 py-1.5 text-sm">
+                <span className="truncate">
+                  <span className="font-medium text-gray-800">{definition.name}</span>
+                  <span className="ml-2 font-mono text-xs text-gray-500">= {definition.expression}</span>
+                </span>
+                <span className="flex items-center gap-2 ml-2">
+                  <button onClick={() => handleEdit(definition)} className="text-gray-400 hover:text-blue-600" title="수정">
+                    <Pencil className="h-4 w-4" />
+                  </button>
+                  <button onClick={() => handleRemove(definition.name)} className="text-gray-400 hover:text-red-600" title="삭제">
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <details className="text-xs text-gray-600">
+          <summary className="cursor-pointer">수식 도움말</summary>
+          <ul className="mt-2 space-y-1 list-disc list-inside">
+            <li>연산자: + - * / ^ 와 괄호, 함수: {EXPRESSION_FUNCTIONS.join(', ')}</li>
+            <li>특수문자가 들어간 컬럼 이름은 [Mg#] 또는 `La (ppm)` 처럼 감싸서 입력</li>
+            <li>원소 이름 뒤에 N을 붙이면 CI 콘드라이트 정규화 값 (예: EuN, SmN; Sun &amp; McDonough, 1989)</li>
+            <li>&quot;이름 = 수식&quot; 형식으로 붙여넣으면 이름이 자동으로 채워집니다</li>
+            <li>예시: {EXAMPLES.map(example => (
+              <button
+                key={example}
+                onClick={() => { const split = splitDefinition(example); setName(split.name); setExpression(split.expression) }}
+                className="ml-1 font-mono text-emerald-700 hover:underline"
+              >
+                {example}
+              </button>
+            ))}</li>
+          </ul>
+        </details>
+      </div>
+    </div>
+  )
+}
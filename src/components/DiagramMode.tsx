@@ -0,0 +1,72 @@
+'use client'
+
+import { useState } from 'react'
+import { Activity, Atom, Droplets, Shapes, Thermometer, Triangle } from 'lucide-react'
+import { GeochemData, PetrogeneticModel } from '@/types/geochem'
+import SpiderDiagram from './SpiderDiagram'
+import ClassificationDiagram from './ClassificationDiagram'
+import TernaryPlot from './TernaryPlot'
+import HydrochemDiagram from './HydrochemDiagram'
+import GeothermometerPanel from './GeothermometerPanel'
+import NobleGasPanel from './NobleGasPanel'
+
+type DiagramType = 'spider' | 'classification' | 'ternary' | 'hydrochem' | 'geotherm' | 'nobleGas'
+
+interface DiagramModeProps {
+  data: GeochemData
+  typeColumn?: string
+  onDataUpdate?: (data: GeochemData) => void
+  petrogeneticModels?: PetrogeneticModel[]
+}
+
+const DIAGRAM_TABS: { id: DiagramType; label: string; icon: typeof Activity }[] = [
+  { id: 'spider', label: '스파이더', icon: Activity },
+  { id: 'classification', label: '분류 (TAS · AFM · Pearce)', icon: Shapes },
+  { id: 'ternary', label: '삼각 다이어그램', icon: Triangle },
+  { id: 'hydrochem', label: '수질 (Piper · Stiff · Durov)', icon: Droplets },
+  { id: 'geotherm', label: '지온계', icon: Thermometer },
+  { id: 'nobleGas', label: '헬륨 동위원소', icon: Atom }
+]
+
+export default function DiagramMode({ data, typeColumn, onDataUpdate, petrogeneticModels }: DiagramModeProps) {
+  const [diagramType, setDiagramType] = useState<DiagramType>('spider')
+
+  return (
+    <div className="space-y-4">
+      {/* 다이어그램 종류 선택 */}
+      <div className="flex flex-wrap gap-2">
+        {DIAGRAM_TABS.map(({ id, label, icon: Icon }) => (
+          <button
+            key={id}
+            onClick={() => setDiagramType(id)}
+            className={`flex items-center px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+              diagramType === id
+                ? 'bg-emerald-600 text-white shadow'
+                : 'bg-white text-gray-700 shadow-sm hover:shadow'
+            }`}
+          >
+            <Icon className="h-4 w-4 mr-2" />
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {diagramType === 'spider' && (
+        <SpiderDiagram data={data} typeColumn={typeColumn} petrogeneticModels={petrogeneticModels} />
+      )}
+      {diagramType === 'classification' && (
+        <ClassificationDiagram data={data} typeColumn={typeColumn} onDataUpdate={onDataUpdate} />
+      )}
+      {diagramType === 'ternary' && <TernaryPlot data={data} typeColumn={typeColumn} />}
+      {diagramType === 'hydrochem' && (
+        <HydrochemDiagram data={data} typeColumn={typeColumn} onDataUpdate={onDataUpdate} />
+      )}
+      {diagramType === 'geotherm' && (
+        <GeothermometerPanel data={data} typeColumn={typeColumn} onDataUpdate={onDataUpdate} />
+      )}
+      {diagramType === 'nobleGas' && (
+        <NobleGasPanel data={data} typeColumn={typeColumn} onDataUpdate={onDataUpdate} />
+      )}
+    </div>
+  )
+}
@@ -1,16 +1,32 @@
 'use client'
 
 import { useState, useRef, useEffect } from 'react'
-import { Upload, FileText, AlertCircle, Database, Clock, Trash2, Check, Cloud } from 'lucide-react'
+import { Upload, FileText, AlertCircle, Database, Clock, Trash2, Check, Cloud, Table } from 'lucide-react'
 import * as XLSX from 'xlsx'
 import Papa from 'papaparse'
 import { GeochemData } from '@/types/geochem'
-import { saveDatasetToSupabase, listDatasets, deleteDataset, loadFullDataset, loadDatasetMeta, DatasetMeta } from '@/lib/supabase-data'
+import { parseCensoredValue, extractCensoredValues } from '@/lib/censored'
+import { detectColumnUnits } from '@/lib/units'
+import { readSheetRows, pickDataSheet, detectHeaderRow, buildSheetTable, isUnitRow, isLimitRow } from '@/lib/sheet-import'
+import { saveDatasetToSupabase, listDatasets, deleteDataset, loadGeochemDataset, loadDatasetMeta, DatasetMeta } from '@/lib/supabase-data'
 
 interface FileUploadProps {
   onDataLoad: (data: GeochemData) => void
 }
 
+// 시트/헤더 행 선택 대기 중인 파일
+interface PendingImport {
+  fileName: string
+  workbook?: XLSX.WorkBook  // Excel인 경우
+  sheetName?: string
+  rows: any[][]
+  headerRow: number  // 0부터 시작
+  detectedHeaderRow: number
+}
+
+const PREVIEW_ROWS = 10
+const PREVIEW_COLUMNS = 8
+
 export default function FileUpload({ onDataLoad }: FileUploadProps) {
   const [isLoading, setIsLoading] = useState(false)
   const [isSaving, setIsSaving] = useState(false)
@@ -19,6 +35,7 @@ export default function FileUpload({ onDataLoad }: FileUploadProps) {
   const [savedDatasets, setSavedDatasets] = useState<DatasetMeta[]>([])
   const [showSavedData, setShowSavedData] = useState(false)
   const [saveToCloud, setSaveToCloud] = useState(true)
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
 
   // 저장된 데이터셋 목록 로드
@@ -39,90 +56,149 @@ export default function FileUpload({ onDataLoad }: FileUploadProps) {
     setIsLoading(true)
     setError(null)
     setSuccessMessage(null)
+    setPendingImport(null)
 
     try {
       const fileExtension = file.name.split('.').pop()?.toLowerCase()
-      let parsedData: any[] = []
+      let pending: PendingImport
 
       if (fileExtension === 'xlsx' || fileExtension === 'xls') {
-        // Excel 파일 처리
+        // Excel 파일 처리 (데이터가 가장 많은 시트를 기본 선택)
         const buffer = await file.arrayBuffer()
         const workbook = XLSX.read(buffer, { type: 'array' })
-        const sheetName = workbook.SheetNames[0]
-        const worksheet = workbook.Sheets[sheetName]
-        parsedData = XLSX.utils.sheet_to_json(worksheet)
+        const sheetName = pickDataSheet(workbook)
+        const rows = readSheetRows(workbook, sheetName)
+        const headerRow = detectHeaderRow(rows)
+        pending = { fileName: file.name, workbook, sheetName, rows, headerRow, detectedHeaderRow: headerRow }
       } else if (fileExtension === 'csv') {
         // CSV 파일 처리
         const text = await file.text()
         const result = Papa.parse(text, {
-          header: true,
+          header: false,
           skipEmptyLines: true,
           dynamicTyping: true
         })
-        parsedData = result.data as any[]
+        const rows = result.data as any[][]
+        const headerRow = detectHeaderRow(rows)
+        pending = { fileName: file.name, rows, headerRow, detectedHeaderRow: headerRow }
       } else {
         throw new Error('지원되지 않는 파일 형식입니다. Excel(.xlsx) 또는 CSV 파일을 업로드해주세요.')
       }
 
-      if (parsedData.length === 0) {
-        throw new Error('파일에 데이터가 없습니다.')
+      // 시트가 여러 개이거나 헤더 위에 메타데이터 행이 있으면 가져오기 설정 표시
+      if ((pending.workbook && pending.workbook.SheetNames.length > 1) || pending.headerRow > 0) {
+        setPendingImport(pending)
+        return
       }
 
-      // 컬럼 정보 추출
-      const columns = Object.keys(parsedData[0])
-      const numericColumns: string[] = []
-      let typeColumn: string | undefined
+      await importTable(pending)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '파일 처리 중 오류가 발생했습니다.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
 
-      // 수치형 컬럼과 타입 컬럼 식별
-      columns.forEach(col => {
-        const values = parsedData.map(row => row[col]).filter(val => val !== null && val !== undefined)
-        const numericValues = values.filter(val => !isNaN(parseFloat(val)) && isFinite(parseFloat(val)))
+  // 시트 변경 시 헤더 행 다시 감지
+  const handleSheetChange = (sheetName: string) => {
+    if (!pendingImport?.workbook) return
+    const rows = readSheetRows(pendingImport.workbook, sheetName)
+    const headerRow = detectHeaderRow(rows)
+    setPendingImport({ ...pendingImport, sheetName, rows, headerRow, detectedHeaderRow: headerRow })
+  }
 
-        if (numericValues.length / values.length > 0.8) {
-          numericColumns.push(col)
-        } else if (!typeColumn && typeof values[0] === 'string') {
-          typeColumn = col
-        }
-      })
-
-      // 비수치형 컬럼 계산
-      const nonNumericColumns = columns.filter(col => !numericColumns.includes(col))
-
-      const geochemData: GeochemData = {
-        data: parsedData,
-        numericColumns,
-        nonNumericColumns,
-        fileName: file.name,
-        typeColumn,
-        metadata: {
-          fileName: file.name,
-          rowCount: parsedData.length,
-          columnCount: columns.length
-        }
+  const handleConfirmImport = async () => {
+    if (!pendingImport) return
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      await importTable(pendingImport)
+      setPendingImport(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '파일 처리 중 오류가 발생했습니다.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  // 헤더 행 기준으로 데이터 변환 후 로드
+  const importTable = async ({ fileName, sheetName, rows, headerRow }: PendingImport) => {
+    const table = buildSheetTable(rows, headerRow)
+    const parsedData = table.records
+
+    if (parsedData.length === 0) {
+      throw new Error('파일에 데이터가 없습니다.')
+    }
+
+    // 컬럼 정보 추출
+    const columns = table.headers
+    const numericColumns: string[] = []
+    let typeColumn: string | undefined
+
+    // 수치형 컬럼과 타입 컬럼 식별 (검출한계 미만 표기 "<0.01", "bdl", "n.d." 등도 수치로 간주)
+    columns.forEach(col => {
+      const values = parsedData.map(row => row[col]).filter(val => val !== null && val !== undefined)
+      const numericValues = values.filter(val =>
+        (!isNaN(parseFloat(val)) && isFinite(parseFloat(val))) || parseCensoredValue(val) !== null
+      )
+
+      if (values.length > 0 && numericValues.length / values.length > 0.8) {
+        numericColumns.push(col)
+      } else if (!typeColumn && typeof values[0] === 'string') {
+        typeColumn = col
+      }
+    })
+
+    // 비수치형 컬럼 계산
+    const nonNumericColumns = columns.filter(col => !numericColumns.includes(col))
+
+    // 검출한계 미만 셀 분리 (데이터에는 null로 두고 DL은 censored에 보관)
+    const columnLimits = Object.fromEntries(
+      Object.entries(table.columns).map(([col, info]) => [col, info.detectionLimit])
+    )
+    const { data: cleanedData, censored, censoredCount } = extractCensoredValues(parsedData, numericColumns, columnLimits)
+
+    const geochemData: GeochemData = {
+      data: cleanedData,
+      numericColumns,
+      nonNumericColumns,
+      fileName,
+      typeColumn,
+      censored: censoredCount > 0 ? censored : undefined,
+      units: detectColumnUnits(numericColumns, table.columns),
+      metadata: {
+        fileName,
+        rowCount: parsedData.length,
+        columnCount: columns.length,
+        ...(sheetName && { sheetName }),
+        headerRow: headerRow + 1,  // 1부터 시작하는 행 번호
+        ...(Object.keys(table.columns).length > 0 && { columns: table.columns })
       }
+    }
 
-      // 클라우드 저장 옵션이 켜져있으면 Supabase에 저장
-      if (saveToCloud) {
-        setIsSaving(true)
+    // 클라우드 저장 옵션이 켜져있으면 Supabase에 저장
+    if (saveToCloud) {
+      setIsSaving(true)
+      try {
         const saveResult = await saveDatasetToSupabase(geochemData)
-        setIsSaving(false)
 
         if (saveResult.success && saveResult.datasetId) {
           geochemData.datasetId = saveResult.datasetId
-          setSuccessMessage(`☁️ 클라우드에 저장됨 (${parsedData.length}행)`)
+          setSuccessMessage(`☁️ 클라우드에 저장됨 (${parsedData.length}행)` +
+            (censoredCount > 0 ? ` · 검출한계 미만 ${censoredCount}개 셀 인식` : ''))
           loadSavedDatasets() // 목록 새로고침
         } else {
           setError(`클라우드 저장 실패: ${saveResult.error}`)
         }
+      } finally {
+        setIsSaving(false)
       }
-
-      onDataLoad(geochemData)
-    } catch (err) {
-      setError(err instanceof Error ? err.message : '파일 처리 중 오류가 발생했습니다.')
-    } finally {
-      setIsLoading(false)
-      setIsSaving(false)
+    } else if (censoredCount > 0) {
+      setSuccessMessage(`검출한계 미만 ${censoredCount}개 셀 인식`)
     }
+
+    onDataLoad(geochemData)
   }
 
   // 저장된 데이터셋 불러오기
@@ -132,21 +208,7 @@ export default function FileUpload({ onDataLoad }: FileUploadProps) {
     setSuccessMessage(null)
 
     try {
-      const rows = await loadFullDataset(dataset.id)
-
-      const geochemData: GeochemData = {
-        data: rows,
-        numericColumns: dataset.numeric_columns,
-        nonNumericColumns: dataset.non_numeric_columns,
-        fileName: dataset.file_name,
-        typeColumn: dataset.type_column,
-        datasetId: dataset.id,
-        metadata: {
-          fileName: dataset.file_name,
-          rowCount: dataset.row_count,
-          columnCount: dataset.columns.length
-        }
-      }
+      const geochemData = await loadGeochemDataset(dataset)
 
       onDataLoad(geochemData)
       setSuccessMessage(`☁️ ${dataset.file_name} 불러옴`)
@@ -302,6 +364,118 @@ export default function FileUpload({ onDataLoad }: FileUploadProps) {
         className="hidden"
       />
 
+      {/* 시트 및 헤더 행 설정 */}
+      {pendingImport && (
+        <div className="mt-4 border border-blue-200 rounded-lg overflow-hidden">
+          <div className="bg-blue-50 px-4 py-2 border-b border-blue-200 flex items-center">
+            <Table className="h-4 w-4 mr-2 text-blue-600" />
+            <h3 className="text-sm font-medium text-gray-800 truncate">가져오기 설정 · {pendingImport.fileName}</h3>
+          </div>
+
+          <div className="p-4 space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {pendingImport.workbook && pendingImport.workbook.SheetNames.length > 1 && (
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">시트</label>
+                  <select
+                    value={pendingImport.sheetName}
+                    onChange={(e) => handleSheetChange(e.target.value)}
+                    className="w-full p-2 text-sm border border-gray-300 rounded-md"
+                  >
+                    {pendingImport.workbook.SheetNames.map(name => (
+                      <option key={name} value={name}>{name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">
+                  헤더 행 <span className="text-gray-400">(자동 감지: {pendingImport.detectedHeaderRow + 1}행)</span>
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  max={Math.max(1, pendingImport.rows.length)}
+                  value={pendingImport.headerRow + 1}
+                  onChange={(e) => {
+                    const row = parseInt(e.target.value)
+                    if (!isNaN(row)) {
+                      setPendingImport({
+                        ...pendingImport,
+                        headerRow: Math.min(Math.max(row - 1, 0), Math.max(pendingImport.rows.length - 1, 0))
+                      })
+                    }
+                  }}
+                  className="w-full p-2 text-sm border border-gray-300 rounded-md"
+                />
+              </div>
+            </div>
+
+            {/* 미리보기 (헤더: 파란색, 단위/검출한계/메타데이터 행: 회색) */}
+            {(() => {
+              const previewStart = Math.max(0, pendingImport.headerRow - 4)
+              const previewRows = pendingImport.rows.slice(previewStart, previewStart + PREVIEW_ROWS)
+              return (
+                <div className="overflow-x-auto border border-gray-200 rounded">
+                  <table className="min-w-full text-xs">
+                    <tbody>
+                      {previewRows.map((row, i) => {
+                        const rowIndex = previewStart + i
+                        const isHeader = rowIndex === pendingImport.headerRow
+                        const isMetadata = rowIndex < pendingImport.headerRow ||
+                          (rowIndex > pendingImport.headerRow && (isUnitRow(row) || isLimitRow(row)))
+                        const rowLabel = isHeader ? '헤더'
+                          : rowIndex > pendingImport.headerRow && isUnitRow(row) ? '단위'
+                          : rowIndex > pendingImport.headerRow && isLimitRow(row) ? '검출한계'
+                          : `${rowIndex + 1}`
+                        return (
+                          <tr
+                            key={rowIndex}
+                            onClick={() => setPendingImport({ ...pendingImport, headerRow: rowIndex })}
+                            className={`cursor-pointer ${
+                              isHeader ? 'bg-blue-100 font-semibold text-blue-900'
+                                : isMetadata ? 'bg-gray-50 text-gray-400 italic'
+                                : 'text-gray-700 hover:bg-blue-50'
+                            }`}
+                            title="클릭하여 헤더 행으로 지정"
+                          >
+                            <td className="px-2 py-1 text-gray-400 border-r border-gray-200 whitespace-nowrap">{rowLabel}</td>
+                            {Array.from({ length: PREVIEW_COLUMNS }, (_, c) => (
+                              <td key={c} className="px-2 py-1 whitespace-nowrap max-w-[8rem] truncate">
+                                {row[c] === null || row[c] === undefined ? '' : String(row[c])}
+                              </td>
+                            ))}
+                          </tr>
+                        )
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )
+            })()}
+            <p className="text-xs text-gray-500">
+              헤더 위의 행과 헤더 바로 아래의 단위·검출한계 행은 컬럼 메타데이터로 저장됩니다.
+            </p>
+
+            <div className="flex justify-end space-x-2">
+              <button
+                onClick={() => setPendingImport(null)}
+                className="px-3 py-1.5 text-sm text-gray-600 border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                취소
+              </button>
+              <button
+                onClick={handleConfirmImport}
+                disabled={isLoading || isSaving}
+                className="px-3 py-1.5 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                가져오기
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {error && (
         <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg flex items-start">
           <AlertCircle className="h-5 w-5 text-red-500 mt-0.5 mr-2 flex-shrink-0" />
@@ -319,9 +493,11 @@ export default function FileUpload({ onDataLoad }: FileUploadProps) {
       <div className="mt-4 text-xs text-gray-500">
         <h3 className="font-semibold mb-1">데이터 형식 가이드:</h3>
         <ul className="list-disc list-inside space-y-1">
-          <li>첫 번째 행은 컬럼 헤더여야 합니다</li>
+          <li>헤더 행은 자동으로 감지되며, 위쪽의 단위·검출한계 행은 메타데이터로 저장됩니다</li>
+          <li>Excel 파일에 시트가 여러 개이면 가져올 시트를 선택할 수 있습니다</li>
           <li>수치형 데이터는 자동으로 감지됩니다</li>
           <li>문자형 컬럼은 타입 분류에 사용됩니다</li>
+          <li>검출한계 미만 값(&lt;0.01, bdl, n.d., 음수)은 자동으로 인식됩니다</li>
           <li>예: SiO2, Al2O3, Fe2O3, MgO, rock_type</li>
         </ul>
       </div>
@@ -0,0 +1,170 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { GeochemData } from '@/types/geochem'
+import { Sigma } from 'lucide-react'
+import {
+  GEOCHEM_INDICES,
+  addIndexColumns,
+  computeAllIndices,
+  computeAnhydrous,
+  describeResolvedSpecies
+} from '@/lib/geochem-indices'
+
+interface GeochemIndexPanelProps {
+  data: GeochemData
+  onDataUpdate: (data: GeochemData) => void
+}
+
+// 계산 실패 행 번호 표시 개수
+const MAX_FAILED_ROWS = 8
+
+// 행 번호 목록 (1부터, 길면 생략)
+function formatRows(rows: number[]): string {
+  const shown = rows.slice(0, MAX_FAILED_ROWS).map(index => index + 1).join(', ')
+  return rows.length > MAX_FAILED_ROWS ? `${shown} 외 ${rows.length - MAX_FAILED_ROWS}개` : shown
+}
+
+export default function GeochemIndexPanel({ data, onDataUpdate }: GeochemIndexPanelProps) {
+  const [selected, setSelected] = useState<string[]>([])
+
+  const results = useMemo(() => computeAllIndices(data), [data])
+  const anhydrous = useMemo(() => computeAnhydrous(data).result, [data])
+  const rowCount = data.data.length
+
+  const toggle = (id: string) => {
+    setSelected(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id])
+  }
+
+  const handleAddColumns = () => {
+    const chosen = results.filter(result => selected.includes(result.index.id) && result.missing.length === 0)
+    if (chosen.length === 0) return
+    const existing = chosen
+      .map(result => result.index.name)
+      .filter(name => data.numericColumns.includes(name) || data.nonNumericColumns.includes(name))
+    if (existing.length > 0 && !confirm(`이미 있는 컬럼을 덮어씁니다: ${existing.join(', ')}\n계속하시겠습니까?`)) return
+    onDataUpdate(addIndexColumns(data, chosen))
+    setSelected([])
+  }
+
+  const handleAddAnhydrous = () => {
+    const existing = anhydrous.columns.filter(c => data.numericColumns.includes(c.name))
+    if (existing.length > 0 && !confirm('무수 기준 컬럼을 다시 계산해 덮어씁니다. 계속하시겠습니까?')) return
+    onDataUpdate(computeAnhydrous(data).data)
+  }
+
+  const available = results.filter(result => result.missing.length === 0)
+
+  return (
+    <div>
+      <h4 className="text-lg font-medium text-gray-800 mb-3">
+        <Sigma className="h-5 w-5 inline mr-2" />
+        지구화학 지수
+      </h4>
+      <div className="p-4 bg-amber-50 rounded-lg space-y-3">
+        <p className="text-xs text-gray-600">
+          컬럼 이름으로 화학종을 찾아 단위·산화물을 자동 환산합니다. 계산 가능 {available.length} / {GEOCHEM_INDICES.length}개
+        </p>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 border-b border-amber-200">
+                <th className="py-1 pr-2"></th>
+                <th className="py-1 pr-3">지수</th>
+                <th className="py-1 pr-3">사용한 컬럼</th>
+                <th className="py-1">계산 결과</th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.map(result => {
+                const { index } = result
+                const computed = rowCount - result.failedRows.length
+                return (
+                  <tr key={index.id} className="border-b border-amber-100 align-top">
+                    <td className="py-2 pr-2">
+                      <input
+                        type="checkbox"
+                        checked={selected.includes(index.id)}
+                        disabled={result.missing.length > 0}
+                        onChange={() => toggle(index.id)}
+                      />
+                    </td>
+                    <td className="py-2 pr-3">
+                      <div className="font-medium text-gray-800">{index.name}</div>
+                      <div className="text-xs font-mono text-gray-500">{index.formula}</div>
+                      {(index.reference || index.note) && (
+                        <div className="text-xs text-gray-400">
+                          {[index.reference, index.note].filter(Boolean).join(' · ')}
+                        </div>
+                      )}
+                    </td>
+                    <td className="py-2 pr-3 text-xs text-gray-600">
+                      {result.inputs.map(({ input, parts }) => (
+                        <div key={input.key}>
+                          <span className="text-gray-400">{input.species}: </span>
+                          {parts
+                            ? describeResolvedSpecies(parts)
+                            : <span className={input.optional ? 'text-gray-400' : 'text-red-600'}>{input.optional ? '없음 (0으로 계산)' : '없음'}</span>}
+                        </div>
+                      ))}
+                    </td>
+                    <td className="py-2 text-xs">
+                      {result.missing.length > 0 ? (
+                        <span className="text-red-600">필요한 컬럼 없음: {result.missing.join(', ')}</span>
+                      ) : (
+                        <>
+                          <div className="text-gray-700">{computed} / {rowCount}행</div>
+                          {result.failedRows.length > 0 && (
+                            <div className="text-orange-600">계산 불가 행: {formatRows(result.failedRows)}</div>
+                          )}
+                        </>
+                      )}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <button
+          onClick={handleAddColumns}
+          disabled={selected.length === 0}
+          className="px-3 py-2 text-sm text-white bg-amber-600 rounded-md hover:bg-amber-700 disabled:opacity-50"
+        >
+          선택한 지수를 컬럼으로 추가 ({selected.length})
+        </button>
+
+        <div className="pt-3 border-t border-amber-200">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-800">LOI 제외 무수 기준 재계산</p>
+              <p className="text-xs text-gray-600">
+                주성분 합이 100 wt%가 되도록 환산한 &quot;산화물_anhydrous&quot; 컬럼을 추가합니다
+              </p>
+            </div>
+            <button
+              onClick={handleAddAnhydrous}
+              disabled={anhydrous.columns.length === 0}
+              className="px-3 py-2 text-sm text-amber-700 bg-white border border-amber-300 rounded-md hover:bg-amber-100 disabled:opacity-50"
+            >
+              컬럼 추가
+            </button>
+          </div>
+          {anhydrous.columns.length > 0 ? (
+            <div className="mt-2 text-xs text-gray-600 space-y-0.5">
+              <p>사용한 컬럼: {anhydrous.columns.map(c => describeResolvedSpecies(c.parts)).join(', ')}</p>
+              {anhydrous.missing.length > 0 && <p className="text-gray-400">없는 주성분 (합계에서 제외): {anhydrous.missing.join(', ')}</p>}
+              {anhydrous.failedRows.length > 0 && (
+                <p className="text-orange-600">계산 불가 행 (주성분 누락): {formatRows(anhydrous.failedRows)}</p>
+              )}
+            </div>
+          ) : (
+            <p className="mt-2 text-xs text-red-600">주성분 산화물 컬럼을 찾을 수 없습니다</p>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
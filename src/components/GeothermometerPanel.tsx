@@ -0,0 +1,429 @@
+'use client'
+
+import { useMemo, useRef, useState } from 'react'
+import { Download, Info } from 'lucide-react'
+import { GeochemData } from '@/types/geochem'
+import {
+  EQUILIBRIUM_LABELS,
+  GEOTHERMOMETERS,
+  GeothermSample,
+  MixingEndmember,
+  Solute,
+  addGeothermColumns,
+  computeGeothermometers,
+  findGeothermColumns,
+  giggenbachCurves,
+  giggenbachIsotherm,
+  naKMgTernary,
+  silicaEnthalpyMixing
+} from '@/lib/geothermometers'
+import { TERNARY_HEIGHT, ternaryGridLines, ternaryToCartesian } from '@/lib/ternary'
+import { exportElementAsPNG, exportSVGElement } from '@/lib/chart-export'
+import { defaultGraphSettings } from './ScatterPlot'
+
+interface GeothermometerPanelProps {
+  data: GeochemData
+  typeColumn?: string
+  onDataUpdate?: (data: GeochemData) => void
+}
+
+const SOLUTES: Solute[] = ['Na', 'K', 'Ca', 'Mg', 'SiO2']
+
+// 지온계 간 온도 범위 허용치 기본값 (°C)
+const DEFAULT_AGREEMENT_RANGE = 25
+
+// Giggenbach 삼각도 SVG 레이아웃
+const SIDE = 480
+const MARGIN = { top: 40, left: 50, bottom: 60 }
+const LEGEND_WIDTH = 180
+const WIDTH = MARGIN.left + SIDE + 40 + LEGEND_WIDTH
+const HEIGHT = MARGIN.top + SIDE * TERNARY_HEIGHT + MARGIN.bottom
+
+// 등온선 온도 (°C)
+const ISOTHERMS = [100, 140, 180, 220, 260, 300, 340]
+
+function toSVG(point: [number, number, number]): [number, number] {
+  const { x, y } = ternaryToCartesian(point[0], point[1], point[2])
+  return [MARGIN.left + x * SIDE, MARGIN.top + (TERNARY_HEIGHT - y) * SIDE]
+}
+
+// 온도 컬럼 추정 (예: "Temp", "T (°C)", "temperature")
+function guessTemperatureColumn(columns: string[]): string {
+  return columns.find(col => /^(t|temp|temperature)\b|°c/i.test(col.trim()) && !col.startsWith('T_')) || ''
+}
+
+const formatTemperature = (value: number | null | undefined) => (value === null || value === undefined ? '–' : value.toFixed(0))
+
+export default function GeothermometerPanel({ data, typeColumn: initialTypeColumn, onDataUpdate }: GeothermometerPanelProps) {
+  const chartRef = useRef<HTMLDivElement>(null)
+  const [selected, setSelected] = useState<string[]>(GEOTHERMOMETERS.map(g => g.id))
+  const [agreementRange, setAgreementRange] = useState(DEFAULT_AGREEMENT_RANGE)
+  const [typeColumn, setTypeColumn] = useState<string>(initialTypeColumn || data.typeColumn || '')
+  const [temperatureColumn, setTemperatureColumn] = useState(() => guessTemperatureColumn(data.numericColumns))
+  const [cold, setCold] = useState<MixingEndmember>({ temperature: 10, silica: 20 })
+
+  const colors = defaultGraphSettings.plotOptions.customColors
+  const columns = useMemo(() => findGeothermColumns(data), [data])
+  const samples = useMemo(() => computeGeothermometers(data, columns, selected), [data, columns, selected])
+  const curves = useMemo(() => giggenbachCurves(), [])
+
+  const available = GEOTHERMOMETERS.filter(g => g.inputs.every(solute => columns[solute]))
+  const shown = available.filter(g => selected.includes(g.id))
+  const computed = samples.filter(s => s.mean !== null)
+
+  const sampleType = (index: number) => {
+    const value = typeColumn ? data.data[index][typeColumn] : null
+    return value !== null && value !== undefined && typeColumn ? String(value).trim() || 'Unknown' : 'All Data'
+  }
+
+  const ternaryPoints = samples
+    .map(s => ({ sample: s, point: naKMgTernary(s.solutes) }))
+    .filter((p): p is { sample: GeothermSample; point: [number, number, number] } => p.point !== null)
+  const types: string[] = []
+  ternaryPoints.forEach(({ sample }) => {
+    const type = sampleType(sample.index)
+    if (!types.includes(type)) types.push(type)
+  })
+  const typeColor = (type: string) => colors[Math.max(types.indexOf(type), 0) % colors.length]
+
+  const mixing = useMemo(() => {
+    if (!temperatureColumn || !columns.SiO2) return []
+    return samples.map(s => {
+      const temperature = parseFloat(data.data[s.index][temperatureColumn])
+      if (!isFinite(temperature) || !isFinite(s.solutes.SiO2)) return null
+      return { index: s.index, temperature, silica: s.solutes.SiO2, ...silicaEnthalpyMixing(cold, { temperature, silica: s.solutes.SiO2 }) }
+    })
+  }, [samples, data, temperatureColumn, columns, cold])
+
+  const toggle = (id: string) => {
+    setSelected(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id])
+  }
+
+  const handleAddColumns = () => {
+    if (!onDataUpdate || shown.length === 0) return
+    const ids = shown.map(g => g.id)
+    const existing = ids.map(id => `T_${id} (°C)`).filter(col => data.numericColumns.includes(col))
+    if (existing.length > 0 && !confirm(`이미 있는 컬럼을 덮어씁니다: ${existing.join(', ')}\n계속하시겠습니까?`)) return
+    onDataUpdate(addGeothermColumns(data, samples, ids))
+  }
+
+  const handleExportPNG = async () => {
+    if (!chartRef.current) return
+    try {
+      await exportElementAsPNG(chartRef.current, `giggenbach-${Date.now()}.png`)
+    } catch (error) {
+      console.error('Export failed:', error)
+      alert('이미지 내보내기에 실패했습니다.')
+    }
+  }
+
+  const handleExportSVG = () => {
+    const svgElement = chartRef.current?.querySelector('svg')
+    if (!svgElement) {
+      alert('SVG를 찾을 수 없습니다.')
+      return
+    }
+    try {
+      exportSVGElement(svgElement, `giggenbach-${Date.now()}.svg`)
+    } catch (error) {
+      console.error('SVG export failed:', error)
+      alert('SVG 내보내기에 실패했습니다.')
+    }
+  }
+
+  const [topX, topY] = toSVG([100, 0, 0])
+  const [leftX, leftY] = toSVG([0, 100, 0])
+  const [rightX, rightY] = toSVG([0, 0, 100])
+  const linePath = (points: [number, number, number][]) =>
+    points.map((p, i) => `${i === 0 ? 'M' : 'L'}${toSVG(p).join(',')}`).join(' ')
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6 space-y-6">
+      <div>
+        <h2 className="text-xl font-semibold text-gray-800 mb-2">지열 지온계</h2>
+        <div className="p-3 bg-gray-50 rounded-lg text-xs text-gray-600">
+          <p>
+            사용한 컬럼:{' '}
+            {SOLUTES.map(solute => (
+              <span key={solute} className="mr-3">
+                {solute} ← {columns[solute]
+                  ? `${columns[solute]!.column} (${columns[solute]!.unit})`
+                  : <span className="text-gray-400">없음</span>}
+              </span>
+            ))}
+          </p>
+          <p className="mt-1 text-gray-400">농도는 mg/kg(≈ mg/L)로 계산합니다. SiO2가 없으면 Si 컬럼을 SiO2로 환산합니다.</p>
+        </div>
+      </div>
+
+      {available.length === 0 ? (
+        <div className="p-8 text-center text-gray-500 bg-gray-50 rounded-lg">
+          <Info className="h-8 w-8 mx-auto mb-2 text-gray-400" />
+          지온계를 계산할 컬럼이 없습니다. Na, K, Ca, Mg, SiO2 컬럼이 필요합니다.
+        </div>
+      ) : (
+        <>
+          {/* 지온계 선택 + 일치도 */}
+          <div>
+            <div className="flex flex-wrap items-center gap-3 mb-3 text-sm text-gray-700">
+              {available.map(g => (
+                <label key={g.id} className="flex items-center">
+                  <input type="checkbox" checked={selected.includes(g.id)} onChange={() => toggle(g.id)} className="mr-1" />
+                  {g.name} <span className="ml-1 text-xs text-gray-400">{g.reference}</span>
+                </label>
+              ))}
+            </div>
+            <div className="flex flex-wrap items-center gap-4 mb-3 text-sm text-gray-700">
+              <div className="flex items-center gap-2">
+                <label>불일치 기준 (최대−최소) &gt;</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={agreementRange}
+                  onChange={(e) => setAgreementRange(Math.max(parseFloat(e.target.value) || 0, 0))}
+                  className="w-16 p-1 text-sm border border-gray-300 rounded-md"
+                />
+                <span>°C</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <label>타입 컬럼</label>
+                <select
+                  value={typeColumn}
+                  onChange={(e) => setTypeColumn(e.target.value)}
+                  className="p-1.5 text-sm border border-gray-300 rounded-md"
+                >
+                  <option value="">없음</option>
+                  {data.nonNumericColumns.map(col => <option key={col} value={col}>{col}</option>)}
+                </select>
+              </div>
+              {onDataUpdate && (
+                <button
+                  onClick={handleAddColumns}
+                  disabled={shown.length === 0}
+                  className="ml-auto px-3 py-1.5 text-sm text-white bg-emerald-600 rounded-md hover:bg-emerald-700 disabled:opacity-50"
+                >
+                  선택한 지온계 온도를 컬럼으로 추가
+                </button>
+              )}
+            </div>
+
+            <div className="max-h-80 overflow-auto border border-gray-200 rounded-md">
+              <table className="min-w-full text-xs">
+                <thead className="bg-gray-50 sticky top-0">
+                  <tr className="text-left text-gray-500">
+                    <th className="px-2 py-1">#</th>
+                    <th className="px-2 py-1">타입</th>
+                    {shown.map(g => (
+                      <th key={g.id} className="px-2 py-1 text-right" title={g.reference}>
+                        {g.name}<br /><span className="font-normal text-gray-400">{g.reference}</span>
+                      </th>
+                    ))}
+                    <th className="px-2 py-1 text-right">평균 ± SD</th>
+                    <th className="px-2 py-1 text-right">범위</th>
+                    <th className="px-2 py-1">성숙도 (MI)</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {samples.map(s => (
+                    <tr key={s.index} className="border-t border-gray-100">
+                      <td className="px-2 py-1 text-gray-500">{s.index + 1}</td>
+                      <td className="px-2 py-1">{sampleType(s.index)}</td>
+                      {shown.map(g => (
+                        <td key={g.id} className="px-2 py-1 text-right">{formatTemperature(s.temperatures[g.id])}</td>
+                      ))}
+                      <td className="px-2 py-1 text-right">
+                        {s.mean === null ? '–' : `${s.mean.toFixed(0)}${s.sd !== null ? ` ± ${s.sd.toFixed(0)}` : ''}`}
+                      </td>
+                      <td className={`px-2 py-1 text-right ${s.range !== null && s.range > agreementRange ? 'text-red-600 font-medium' : ''}`}>
+                        {formatTemperature(s.range)}
+                      </td>
+                      <td className="px-2 py-1">
+                        {s.maturity === null ? '–' : `${s.maturity.toFixed(2)} (${EQUILIBRIUM_LABELS[s.equilibrium!]})`}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="mt-2 text-xs text-gray-600">
+              계산된 시료 {computed.length}/{data.data.length}개 · 불일치 {computed.filter(s => s.range !== null && s.range > agreementRange).length}개.
+              양이온 지온계는 부분 평형·미성숙수(MI &lt; 2.66)에서 신뢰도가 낮습니다 (Giggenbach, 1988).
+            </p>
+          </div>
+
+          {/* Giggenbach Na–K–Mg 삼각도 */}
+          {columns.Na && columns.K && columns.Mg && (
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-lg font-medium text-gray-800">Giggenbach Na–K–Mg 삼각도</h3>
+                <div className="flex gap-2">
+                  <button
+                    onClick={handleExportPNG}
+                    className="flex items-center px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200"
+                  >
+                    <Download className="h-4 w-4 mr-1" />
+                    PNG
+                  </button>
+                  <button
+                    onClick={handleExportSVG}
+                    className="flex items-center px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200"
+                  >
+                    <Download className="h-4 w-4 mr-1" />
+                    SVG
+                  </button>
+                </div>
+              </div>
+              <div ref={chartRef} className="bg-white overflow-x-auto">
+                <svg xmlns="http://www.w3.org/2000/svg" viewBox={`0 0 ${WIDTH} ${HEIGHT}`} width="100%" style={{ maxWidth: WIDTH }} className="mx-auto block">
+                  {ternaryGridLines(20).map(line => {
+                    const [x1, y1] = toSVG(line.from)
+                    const [x2, y2] = toSVG(line.to)
+                    return <line key={`${line.apex}${line.value}`} x1={x1} y1={y1} x2={x2} y2={y2} stroke="#f0f0f0" />
+                  })}
+
+                  {/* 등온선 */}
+                  {ISOTHERMS.flatMap(t => (['naK', 'kMg'] as const).map(kind => {
+                    const line = giggenbachIsotherm(t, kind)
+                    if (!line) return null
+                    const [[x1, y1], [x2, y2]] = [toSVG(line[0]), toSVG(line[1])]
+                    return (
+                      <g key={`${kind}${t}`}>
+                        <line x1={x1} y1={y1} x2={x2} y2={y2} stroke="#d1d5db" strokeDasharray="2 3" />
+                        <text x={x2} y={y2 + (kind === 'naK' ? -4 : 12)} textAnchor="middle" fontSize={9} fill="#9ca3af">{t}</text>
+                      </g>
+                    )
+                  }))}
+
+                  <path d={`M${topX},${topY} L${leftX},${leftY} L${rightX},${rightY} Z`} fill="none" stroke="#333" strokeWidth={1.5} />
+                  <text x={topX} y={topY - 12} textAnchor="middle" fontSize={14} fill="#333">Na/1000</text>
+                  <text x={leftX} y={leftY + 36} textAnchor="middle" fontSize={14} fill="#333">K/100</text>
+                  <text x={rightX} y={rightY + 36} textAnchor="middle" fontSize={14} fill="#333">√Mg</text>
+
+                  {/* 완전 평형선 / 부분 평형선 */}
+                  <path d={linePath(curves.full.map(p => p.point))} fill="none" stroke="#111827" strokeWidth={1.5} />
+                  <path d={linePath(curves.partial)} fill="none" stroke="#6b7280" strokeWidth={1} strokeDasharray="6 4" />
+                  {curves.full.filter(p => p.temperature % 40 === 20).map(p => {
+                    const [x, y] = toSVG(p.point)
+                    return (
+                      <g key={p.temperature}>
+                        <circle cx={x} cy={y} r={2} fill="#111827" />
+                        <text x={x - 6} y={y - 4} textAnchor="end" fontSize={10} fill="#111827">{p.temperature}°</text>
+                      </g>
+                    )
+                  })}
+
+                  {/* 시료 */}
+                  {ternaryPoints.map(({ sample, point }) => {
+                    const [x, y] = toSVG(point)
+                    const type = sampleType(sample.index)
+                    return (
+                      <circle key={sample.index} cx={x} cy={y} r={4} fill={typeColor(type)} fillOpacity={0.8} stroke="#fff" strokeWidth={0.5}>
+                        <title>{`#${sample.index + 1} ${type}\nK–Mg: ${formatTemperature(sample.temperatures.kMg)} °C\nNa–K: ${formatTemperature(sample.temperatures.naKGiggenbach)} °C`}</title>
+                      </circle>
+                    )
+                  })}
+
+                  {/* 범례 */}
+                  <g transform={`translate(${MARGIN.left + SIDE + 40}, ${MARGIN.top})`} fontSize={12} fill="#333">
+                    {types.map((type, i) => (
+                      <g key={type} transform={`translate(0, ${i * 20})`}>
+                        <circle cx={6} cy={0} r={5} fill={typeColor(type)} />
+                        <text x={16} y={4}>{type} ({ternaryPoints.filter(p => sampleType(p.sample.index) === type).length})</text>
+                      </g>
+                    ))}
+                    <g transform={`translate(0, ${types.length * 20 + 10})`}>
+                      <line x1={0} y1={0} x2={12} y2={0} stroke="#111827" strokeWidth={1.5} />
+                      <text x={16} y={4}>완전 평형</text>
+                    </g>
+                    <g transform={`translate(0, ${types.length * 20 + 30})`}>
+                      <line x1={0} y1={0} x2={12} y2={0} stroke="#6b7280" strokeDasharray="6 4" />
+                      <text x={16} y={4}>부분 평형</text>
+                    </g>
+                  </g>
+                </svg>
+              </div>
+              <p className="mt-2 text-xs text-gray-600">
+                점선 등온선: √Mg 꼭짓점에서 나오는 선은 Na–K, Na 꼭짓점에서 나오는 선은 K–Mg 온도 (Giggenbach, 1988)
+              </p>
+            </div>
+          )}
+
+          {/* 실리카–엔탈피 혼합 모델 */}
+          {columns.SiO2 && (
+            <div>
+              <h3 className="text-lg font-medium text-gray-800 mb-2">실리카–엔탈피 혼합 모델</h3>
+              <div className="flex flex-wrap items-end gap-4 mb-3 text-sm text-gray-700">
+                <div>
+                  <label className="block text-xs text-gray-600 mb-1">측정 온도 컬럼</label>
+                  <select
+                    value={temperatureColumn}
+                    onChange={(e) => setTemperatureColumn(e.target.value)}
+                    className="p-1.5 text-sm border border-gray-300 rounded-md"
+                  >
+                    <option value="">선택...</option>
+                    {data.numericColumns.map(col => <option key={col} value={col}>{col}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-600 mb-1">냉수 온도 (°C)</label>
+                  <input
+                    type="number"
+                    value={cold.temperature}
+                    onChange={(e) => setCold({ ...cold, temperature: parseFloat(e.target.value) || 0 })}
+                    className="w-24 p-1.5 text-sm border border-gray-300 rounded-md"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-600 mb-1">냉수 SiO2 (mg/kg)</label>
+                  <input
+                    type="number"
+                    value={cold.silica}
+                    onChange={(e) => setCold({ ...cold, silica: parseFloat(e.target.value) || 0 })}
+                    className="w-24 p-1.5 text-sm border border-gray-300 rounded-md"
+                  />
+                </div>
+              </div>
+
+              {!temperatureColumn ? (
+                <p className="text-sm text-gray-500">혼합수(온천)의 측정 온도 컬럼을 선택해주세요.</p>
+              ) : (
+                <div className="max-h-72 overflow-auto border border-gray-200 rounded-md">
+                  <table className="min-w-full text-xs">
+                    <thead className="bg-gray-50 sticky top-0">
+                      <tr className="text-left text-gray-500">
+                        <th className="px-2 py-1">#</th>
+                        <th className="px-2 py-1 text-right">측정 온도</th>
+                        <th className="px-2 py-1 text-right">SiO2</th>
+                        <th className="px-2 py-1 text-right">고온수 온도 (증기 손실 없음)</th>
+                        <th className="px-2 py-1 text-right">고온수 비율</th>
+                        <th className="px-2 py-1 text-right">고온수 온도 (혼합 전 증기 손실)</th>
+                        <th className="px-2 py-1 text-right">고온수 비율</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {mixing.map((m, index) => m && (
+                        <tr key={index} className="border-t border-gray-100">
+                          <td className="px-2 py-1 text-gray-500">{m.index + 1}</td>
+                          <td className="px-2 py-1 text-right">{m.temperature.toFixed(1)}</td>
+                          <td className="px-2 py-1 text-right">{m.silica.toFixed(1)}</td>
+                          <td className="px-2 py-1 text-right">{formatTemperature(m.noSteamLoss?.temperature)}</td>
+                          <td className="px-2 py-1 text-right">{m.noSteamLoss ? m.noSteamLoss.hotFraction.toFixed(2) : '–'}</td>
+                          <td className="px-2 py-1 text-right">{formatTemperature(m.steamLoss?.temperature)}</td>
+                          <td className="px-2 py-1 text-right">{m.steamLoss ? m.steamLoss.hotFraction.toFixed(2) : '–'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+              <p className="mt-2 text-xs text-gray-600">
+                냉수–혼합수를 잇는 직선을 석영 용해도 곡선까지 연장해 고온 성분의 엔탈피·온도와 혼합 비율을 구합니다 (Fournier &amp; Truesdell, 1974).
+                혼합수가 냉수보다 뜨겁고 SiO2가 높을 때만 해가 있습니다.
+              </p>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
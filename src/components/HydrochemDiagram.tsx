@@ -0,0 +1,515 @@
+'use client'
+
+import { useMemo, useRef, useState } from 'react'
+import { Download, Info } from 'lucide-react'
+import { GeochemData } from '@/types/geochem'
+import {
+  ANIONS,
+  CATIONS,
+  DEFAULT_CBE_TOLERANCE,
+  DUROV_HEIGHT,
+  DUROV_WIDTH,
+  HydrochemSample,
+  MAJOR_IONS,
+  PIPER_GAP,
+  PIPER_HEIGHT,
+  PIPER_WIDTH,
+  WATER_FACIES_LABELS,
+  addHydrochemColumns,
+  analyzeHydrochem,
+  durovCoordinates,
+  durovOutline,
+  findIonColumns,
+  missingIons,
+  piperCoordinates,
+  piperOutline
+} from '@/lib/hydrochem'
+import { TERNARY_HEIGHT, ternaryGridLines } from '@/lib/ternary'
+import { exportElementAsPNG, exportSVGElement } from '@/lib/chart-export'
+import { defaultGraphSettings } from './ScatterPlot'
+
+interface HydrochemDiagramProps {
+  data: GeochemData
+  typeColumn?: string
+  onDataUpdate?: (data: GeochemData) => void
+}
+
+type HydroPlot = 'piper' | 'stiff' | 'durov'
+
+const PLOT_TABS: { id: HydroPlot; label: string }[] = [
+  { id: 'piper', label: 'Piper' },
+  { id: 'stiff', label: 'Stiff' },
+  { id: 'durov', label: 'Durov' }
+]
+
+// SVG 레이아웃 (다이어그램 좌표 1 = SCALE px, 오른쪽에 범례)
+const SCALE = 260
+const MARGIN = { top: 40, left: 60, bottom: 50 }
+const LEGEND_WIDTH = 180
+
+// Stiff 다이어그램 격자 (시료별 칸)
+const STIFF_CELL = { width: 240, height: 120 }
+const STIFF_COLUMNS = 4
+const MAX_STIFF_SAMPLES = 24
+const STIFF_ROWS: { cation: string; anion: string }[] = [
+  { cation: 'Na+K', anion: 'Cl' },
+  { cation: 'Ca', anion: 'HCO3+CO3' },
+  { cation: 'Mg', anion: 'SO4' }
+]
+
+type Point = [number, number]
+
+// 삼각 좌표(%, [top, left, right]) → 꼭짓점 좌표로 선형 보간
+function barycentric(vertices: [Point, Point, Point], values: [number, number, number]): Point {
+  const sum = values[0] + values[1] + values[2] || 1
+  return [
+    vertices.reduce((acc, v, i) => acc + v[0] * values[i], 0) / sum,
+    vertices.reduce((acc, v, i) => acc + v[1] * values[i], 0) / sum
+  ]
+}
+
+// Stiff 다이어그램의 행별 값 (양이온, 음이온; meq/L)
+function stiffValues(sample: HydrochemSample): [number, number][] {
+  const { meq } = sample
+  return [
+    [meq.Na + meq.K, meq.Cl],
+    [meq.Ca, meq.HCO3 + meq.CO3],
+    [meq.Mg, meq.SO4]
+  ]
+}
+
+export default function HydrochemDiagram({ data, typeColumn: initialTypeColumn, onDataUpdate }: HydrochemDiagramProps) {
+  const chartRef = useRef<HTMLDivElement>(null)
+  const [plot, setPlot] = useState<HydroPlot>('piper')
+  const [typeColumn, setTypeColumn] = useState<string>(initialTypeColumn || data.typeColumn || '')
+  const [tolerance, setTolerance] = useState(DEFAULT_CBE_TOLERANCE)
+  const [hideFlagged, setHideFlagged] = useState(false)
+  const [pointSize, setPointSize] = useState(4)
+
+  const colors = defaultGraphSettings.plotOptions.customColors
+  const ionColumns = useMemo(() => findIonColumns(data), [data])
+  const missing = missingIons(ionColumns)
+  const samples = useMemo(() => analyzeHydrochem(data, ionColumns), [data, ionColumns])
+
+  const valid = samples.filter((s): s is HydrochemSample => s !== null)
+  const flagged = valid.filter(s => Math.abs(s.cbe) > tolerance)
+  const plotted = hideFlagged ? valid.filter(s => Math.abs(s.cbe) <= tolerance) : valid
+
+  const sampleType = (index: number) => {
+    const value = typeColumn ? data.data[index][typeColumn] : null
+    return value !== null && value !== undefined && typeColumn ? String(value).trim() || 'Unknown' : 'All Data'
+  }
+  const types: string[] = []
+  valid.forEach(s => {
+    const type = sampleType(s.index)
+    if (!types.includes(type)) types.push(type)
+  })
+  const typeColor = (type: string) => colors[Math.max(types.indexOf(type), 0) % colors.length]
+
+  const handleAddColumns = () => {
+    if (!onDataUpdate) return
+    const existing = ['CBE (%)', 'Water type', 'Water facies']
+      .filter(col => data.numericColumns.includes(col) || data.nonNumericColumns.includes(col))
+    if (existing.length > 0 && !confirm('이미 추가한 수질 컬럼을 다시 계산해 덮어씁니다. 계속하시겠습니까?')) return
+    onDataUpdate(addHydrochemColumns(data, samples))
+  }
+
+  const handleExportPNG = async () => {
+    if (!chartRef.current) return
+    try {
+      await exportElementAsPNG(chartRef.current, `${plot}-${Date.now()}.png`)
+    } catch (error) {
+      console.error('Export failed:', error)
+      alert('이미지 내보내기에 실패했습니다.')
+    }
+  }
+
+  const handleExportSVG = () => {
+    const svgElement = chartRef.current?.querySelector('svg')
+    if (!svgElement) {
+      alert('SVG를 찾을 수 없습니다.')
+      return
+    }
+    try {
+      exportSVGElement(svgElement, `${plot}-${Date.now()}.svg`)
+    } catch (error) {
+      console.error('SVG export failed:', error)
+      alert('SVG 내보내기에 실패했습니다.')
+    }
+  }
+
+  const tooltip = (s: HydrochemSample) =>
+    `#${s.index + 1} ${sampleType(s.index)}\n수질 유형: ${s.waterType}\nCBE: ${s.cbe.toFixed(1)}%`
+
+  // 범례 (SVG 오른쪽)
+  const legend = (x: number, y: number) => (
+    <g transform={`translate(${x}, ${y})`} fontSize={12} fill="#333">
+      {types.map((type, i) => (
+        <g key={type} transform={`translate(0, ${i * 20})`}>
+          <circle cx={6} cy={0} r={5} fill={typeColor(type)} />
+          <text x={16} y={4}>{type} ({plotted.filter(s => sampleType(s.index) === type).length})</text>
+        </g>
+      ))}
+      {flagged.length > 0 && !hideFlagged && (
+        <g transform={`translate(0, ${types.length * 20 + 10})`}>
+          <circle cx={6} cy={0} r={5} fill="none" stroke="#dc2626" strokeWidth={1.5} />
+          <text x={16} y={4}>|CBE| &gt; {tolerance}%</text>
+        </g>
+      )}
+    </g>
+  )
+
+  // 시료 점 (CBE 허용 범위 밖이면 빨간 테두리)
+  const marker = (s: HydrochemSample, [x, y]: Point, key: string) => (
+    <circle
+      key={key}
+      cx={x}
+      cy={y}
+      r={pointSize}
+      fill={typeColor(sampleType(s.index))}
+      fillOpacity={0.8}
+      stroke={Math.abs(s.cbe) > tolerance ? '#dc2626' : '#fff'}
+      strokeWidth={Math.abs(s.cbe) > tolerance ? 1.5 : 0.5}
+    >
+      <title>{tooltip(s)}</title>
+    </circle>
+  )
+
+  const outlinePath = (shape: Point[], toSVG: (p: Point) => Point) =>
+    shape.map((p, i) => `${i === 0 ? 'M' : 'L'}${toSVG(p).join(',')}`).join(' ') + ' Z'
+
+  // 삼각형 격자선 (20% 간격)
+  const triangleGrid = (vertices: [Point, Point, Point], toSVG: (p: Point) => Point, key: string) =>
+    ternaryGridLines(20).map(line => {
+      const [x1, y1] = toSVG(barycentric(vertices, line.from))
+      const [x2, y2] = toSVG(barycentric(vertices, line.to))
+      return <line key={`${key}${line.apex}${line.value}`} x1={x1} y1={y1} x2={x2} y2={y2} stroke="#e0e0e0" strokeDasharray="3 3" />
+    })
+
+  const vertexLabel = (toSVG: (p: Point) => Point, p: Point, text: string, dx: number, dy: number, anchor: 'start' | 'middle' | 'end' = 'middle') => {
+    const [x, y] = toSVG(p)
+    return <text key={text + p.join()} x={x + dx} y={y + dy} textAnchor={anchor} fontSize={12} fill="#333">{text}</text>
+  }
+
+  const renderPiper = () => {
+    const width = MARGIN.left + PIPER_WIDTH * SCALE + 40 + LEGEND_WIDTH
+    const height = MARGIN.top + PIPER_HEIGHT * SCALE + MARGIN.bottom
+    const toSVG = ([x, y]: Point): Point => [MARGIN.left + x * SCALE, MARGIN.top + (PIPER_HEIGHT - y) * SCALE]
+    const h = TERNARY_HEIGHT
+    const g = PIPER_GAP
+    const [cationTriangle, anionTriangle, diamond] = piperOutline()
+    const [bottom, right, , left] = diamond
+
+    // 다이아몬드 격자선 (변에 평행, 20% 간격)
+    const diamondGrid = [0.2, 0.4, 0.6, 0.8].flatMap(f => {
+      const alongLeft: Point = [bottom[0] + f * (left[0] - bottom[0]), bottom[1] + f * (left[1] - bottom[1])]
+      const alongRight: Point = [bottom[0] + f * (right[0] - bottom[0]), bottom[1] + f * (right[1] - bottom[1])]
+      return [
+        [alongLeft, [alongLeft[0] + right[0] - bottom[0], alongLeft[1] + right[1] - bottom[1]]],
+        [alongRight, [alongRight[0] + left[0] - bottom[0], alongRight[1] + left[1] - bottom[1]]]
+      ] as [Point, Point][]
+    })
+
+    return (
+      <svg xmlns="http://www.w3.org/2000/svg" viewBox={`0 0 ${width} ${height}`} width="100%" style={{ maxWidth: width }} className="mx-auto block">
+        {triangleGrid([[0.5, h], [0, 0], [1, 0]], toSVG, 'c')}
+        {triangleGrid([[1.5 + g, h], [1 + g, 0], [2 + g, 0]], toSVG, 'a')}
+        {diamondGrid.map(([from, to], i) => {
+          const [x1, y1] = toSVG(from)
+          const [x2, y2] = toSVG(to)
+          return <line key={`d${i}`} x1={x1} y1={y1} x2={x2} y2={y2} stroke="#e0e0e0" strokeDasharray="3 3" />
+        })}
+        {[cationTriangle, anionTriangle, diamond].map((shape, i) => (
+          <path key={i} d={outlinePath(shape, toSVG)} fill="none" stroke="#333" strokeWidth={1.5} />
+        ))}
+
+        {vertexLabel(toSVG, [0, 0], 'Ca²⁺', 0, 20)}
+        {vertexLabel(toSVG, [1, 0], 'Na⁺+K⁺', 0, 20)}
+        {vertexLabel(toSVG, [0.5, h], 'Mg²⁺', 0, -8)}
+        {vertexLabel(toSVG, [1 + g, 0], 'HCO₃⁻+CO₃²⁻', 0, 20)}
+        {vertexLabel(toSVG, [2 + g, 0], 'Cl⁻', 0, 20)}
+        {vertexLabel(toSVG, [1.5 + g, h], 'SO₄²⁻', 0, -8)}
+        {vertexLabel(toSVG, left, 'Ca²⁺+Mg²⁺', -8, 4, 'end')}
+        {vertexLabel(toSVG, right, 'SO₄²⁻+Cl⁻', 8, 4, 'start')}
+
+        {plotted.map(s => {
+          const { cation, anion, diamond: point } = piperCoordinates(s)
+          return (
+            <g key={s.index}>
+              {marker(s, toSVG(cation), 'c')}
+              {marker(s, toSVG(anion), 'a')}
+              {marker(s, toSVG(point), 'd')}
+            </g>
+          )
+        })}
+
+        {legend(MARGIN.left + PIPER_WIDTH * SCALE + 40, MARGIN.top)}
+      </svg>
+    )
+  }
+
+  const renderDurov = () => {
+    const h = TERNARY_HEIGHT
+    const width = MARGIN.left + DUROV_WIDTH * SCALE + 40 + LEGEND_WIDTH
+    const height = MARGIN.top + DUROV_HEIGHT * SCALE + MARGIN.bottom
+    // 정사각형 왼쪽 아래가 원점, 양이온 삼각형은 왼쪽으로 h만큼
+    const toSVG = ([x, y]: Point): Point => [MARGIN.left + (x + h) * SCALE, MARGIN.top + (DUROV_HEIGHT - y) * SCALE]
+
+    return (
+      <svg xmlns="http://www.w3.org/2000/svg" viewBox={`0 0 ${width} ${height}`} width="100%" style={{ maxWidth: width }} className="mx-auto block">
+        {triangleGrid([[0.5, 1 + h], [0, 1], [1, 1]], toSVG, 'a')}
+        {triangleGrid([[-h, 0.5], [0, 1], [0, 0]], toSVG, 'c')}
+        {[0.2, 0.4, 0.6, 0.8].map(f => {
+          const [vx1, vy1] = toSVG([f, 0])
+          const [vx2, vy2] = toSVG([f, 1])
+          const [hx1, hy1] = toSVG([0, f])
+          const [hx2, hy2] = toSVG([1, f])
+          return (
+            <g key={f}>
+              <line x1={vx1} y1={vy1} x2={vx2} y2={vy2} stroke="#e0e0e0" strokeDasharray="3 3" />
+              <line x1={hx1} y1={hy1} x2={hx2} y2={hy2} stroke="#e0e0e0" strokeDasharray="3 3" />
+            </g>
+          )
+        })}
+        {durovOutline().map((shape, i) => (
+          <path key={i} d={outlinePath(shape, toSVG)} fill="none" stroke="#333" strokeWidth={1.5} />
+        ))}
+
+        {vertexLabel(toSVG, [0, 1], 'HCO₃⁻+CO₃²⁻ / Ca²⁺', -8, -8, 'end')}
+        {vertexLabel(toSVG, [1, 1], 'Cl⁻', 8, 4, 'start')}
+        {vertexLabel(toSVG, [0.5, 1 + h], 'SO₄²⁻', 0, -8)}
+        {vertexLabel(toSVG, [0, 0], 'Na⁺+K⁺', 0, 20)}
+        {vertexLabel(toSVG, [-h, 0.5], 'Mg²⁺', -6, 4, 'end')}
+
+        {plotted.map(s => {
+          const { cation, anion, square } = durovCoordinates(s)
+          return (
+            <g key={s.index}>
+              {marker(s, toSVG(cation), 'c')}
+              {marker(s, toSVG(anion), 'a')}
+              {marker(s, toSVG(square), 's')}
+            </g>
+          )
+        })}
+
+        {legend(MARGIN.left + DUROV_WIDTH * SCALE + 40, MARGIN.top)}
+      </svg>
+    )
+  }
+
+  const renderStiff = () => {
+    const shown = plotted.slice(0, MAX_STIFF_SAMPLES)
+    const maxValue = Math.max(...shown.flatMap(s => stiffValues(s).flat()), 1e-9)
+    const halfWidth = STIFF_CELL.width / 2 - 50
+    const rows = Math.ceil(shown.length / STIFF_COLUMNS)
+    const width = STIFF_COLUMNS * STIFF_CELL.width + 20
+    const height = rows * STIFF_CELL.height + 30
+
+    return (
+      <svg xmlns="http://www.w3.org/2000/svg" viewBox={`0 0 ${width} ${height}`} width="100%" style={{ maxWidth: width }} className="mx-auto block">
+        <text x={10} y={16} fontSize={11} fill="#666">
+          {`← 양이온 · 음이온 → (meq/L, 최대 ${maxValue.toFixed(1)})`}
+        </text>
+        {shown.map((s, i) => {
+          const x0 = 10 + (i % STIFF_COLUMNS) * STIFF_CELL.width
+          const y0 = 30 + Math.floor(i / STIFF_COLUMNS) * STIFF_CELL.height
+          const cx = x0 + STIFF_CELL.width / 2
+          const rowY = (row: number) => y0 + 30 + row * 25
+          const values = stiffValues(s)
+          const polygon = [
+            ...values.map(([cation], row) => [cx - (cation / maxValue) * halfWidth, rowY(row)]),
+            ...values.map(([, anion], row) => [cx + (anion / maxValue) * halfWidth, rowY(row)]).reverse()
+          ]
+          return (
+            <g key={s.index}>
+              <text x={cx} y={y0 + 14} textAnchor="middle" fontSize={11} fill={Math.abs(s.cbe) > tolerance ? '#dc2626' : '#333'}>
+                {`#${s.index + 1} ${sampleType(s.index)} (${s.waterType})`}
+              </text>
+              <line x1={cx} y1={rowY(0) - 6} x2={cx} y2={rowY(2) + 6} stroke="#999" />
+              <polygon points={polygon.map(p => p.join(',')).join(' ')} fill={typeColor(sampleType(s.index))} fillOpacity={0.6} stroke="#333" strokeWidth={0.8}>
+                <title>{tooltip(s)}</title>
+              </polygon>
+              {STIFF_ROWS.map((row, r) => (
+                <g key={r} fontSize={9} fill="#666">
+                  <text x={x0 + 6} y={rowY(r) + 3}>{row.cation}</text>
+                  <text x={x0 + STIFF_CELL.width - 6} y={rowY(r) + 3} textAnchor="end">{row.anion}</text>
+                </g>
+              ))}
+            </g>
+          )
+        })}
+      </svg>
+    )
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-gray-800">수질 다이어그램</h2>
+        <div className="flex gap-2">
+          <button
+            onClick={handleExportPNG}
+            disabled={plotted.length === 0}
+            className="flex items-center px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 disabled:opacity-50"
+          >
+            <Download className="h-4 w-4 mr-1" />
+            PNG
+          </button>
+          <button
+            onClick={handleExportSVG}
+            disabled={plotted.length === 0}
+            className="flex items-center px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 disabled:opacity-50"
+          >
+            <Download className="h-4 w-4 mr-1" />
+            SVG
+          </button>
+        </div>
+      </div>
+
+      {/* 이온 컬럼 매칭 */}
+      <div className="mb-4 p-3 bg-gray-50 rounded-lg text-xs text-gray-600">
+        <p>
+          이온 컬럼:{' '}
+          {[...CATIONS, ...ANIONS].map(ion => {
+            const column = ionColumns[ion]
+            return (
+              <span key={ion} className="mr-3">
+                {MAJOR_IONS[ion].label} ← {column ? `${column.column} (${column.unit})` : <span className="text-gray-400">없음</span>}
+              </span>
+            )
+          })}
+        </p>
+        <p className="mt-1 text-gray-400">단위 표기가 없으면 mg/L로 가정합니다. CO₃²⁻와 K⁺는 없으면 0으로 계산합니다.</p>
+      </div>
+
+      {missing.length > 0 ? (
+        <div className="p-8 text-center text-gray-500 bg-gray-50 rounded-lg">
+          <Info className="h-8 w-8 mx-auto mb-2 text-gray-400" />
+          필요한 이온 컬럼이 없습니다: {missing.map(ion => MAJOR_IONS[ion].label).join(', ')}
+          <p className="text-xs mt-1">컬럼 이름 예: Ca, Mg2+, Na (mg/L), HCO3, Cl_meq/L, SO4</p>
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center gap-4 mb-4 text-sm text-gray-700">
+            <div className="flex gap-1">
+              {PLOT_TABS.map(({ id, label }) => (
+                <button
+                  key={id}
+                  onClick={() => setPlot(id)}
+                  className={`px-3 py-1.5 text-sm rounded ${
+                    plot === id ? 'bg-emerald-600 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center gap-2">
+              <label>타입 컬럼</label>
+              <select
+                value={typeColumn}
+                onChange={(e) => setTypeColumn(e.target.value)}
+                className="p-1.5 text-sm border border-gray-300 rounded-md"
+              >
+                <option value="">없음</option>
+                {data.nonNumericColumns.map(col => (
+                  <option key={col} value={col}>{col}</option>
+                ))}
+              </select>
+            </div>
+            <div className="flex items-center gap-2">
+              <label>CBE 허용 범위 ±</label>
+              <input
+                type="number"
+                min={0}
+                step={1}
+                value={tolerance}
+                onChange={(e) => setTolerance(Math.max(parseFloat(e.target.value) || 0, 0))}
+                className="w-16 p-1 text-sm border border-gray-300 rounded-md"
+              />
+              <span>%</span>
+            </div>
+            <label className="flex items-center">
+              <input type="checkbox" checked={hideFlagged} onChange={(e) => setHideFlagged(e.target.checked)} className="mr-2" />
+              허용 범위 밖 시료 숨기기
+            </label>
+            {plot !== 'stiff' && (
+              <div className="flex items-center gap-2">
+                <label>점 크기</label>
+                <input type="range" min={2} max={8} value={pointSize} onChange={(e) => setPointSize(parseInt(e.target.value))} />
+              </div>
+            )}
+          </div>
+
+          <div ref={chartRef} className="bg-white overflow-x-auto">
+            {plot === 'piper' && renderPiper()}
+            {plot === 'durov' && renderDurov()}
+            {plot === 'stiff' && renderStiff()}
+          </div>
+
+          <div className="mt-4 p-3 bg-gray-50 rounded-lg text-xs text-gray-600 space-y-1">
+            <p>
+              표시된 시료: {plotted.length}/{data.data.length}개 (필수 이온 값이 없는 시료 제외)
+              {plot === 'stiff' && plotted.length > MAX_STIFF_SAMPLES && ` · Stiff는 처음 ${MAX_STIFF_SAMPLES}개만 표시`}
+            </p>
+            <p>
+              전하 균형 오차 CBE = (Σ양이온 − Σ음이온) / (Σ양이온 + Σ음이온) × 100 ·
+              허용 범위 밖: <span className={flagged.length > 0 ? 'text-red-600 font-medium' : ''}>{flagged.length}개</span>
+            </p>
+          </div>
+
+          {/* 시료별 결과 */}
+          <div className="mt-4">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-medium text-gray-700">시료별 전하 균형 · 수질 유형</h3>
+              {onDataUpdate && (
+                <button
+                  onClick={handleAddColumns}
+                  className="px-3 py-1.5 text-sm text-white bg-emerald-600 rounded-md hover:bg-emerald-700"
+                >
+                  meq/L · CBE · 수질 유형 컬럼 추가
+                </button>
+              )}
+            </div>
+            <div className="max-h-72 overflow-auto border border-gray-200 rounded-md">
+              <table className="min-w-full text-xs">
+                <thead className="bg-gray-50 sticky top-0">
+                  <tr className="text-left text-gray-500">
+                    <th className="px-2 py-1">#</th>
+                    <th className="px-2 py-1">타입</th>
+                    <th className="px-2 py-1 text-right">Σ양이온 (meq/L)</th>
+                    <th className="px-2 py-1 text-right">Σ음이온 (meq/L)</th>
+                    <th className="px-2 py-1 text-right">CBE (%)</th>
+                    <th className="px-2 py-1">수질 유형</th>
+                    <th className="px-2 py-1">Piper 구역</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {samples.map((s, index) => (
+                    <tr key={index} className="border-t border-gray-100">
+                      <td className="px-2 py-1 text-gray-500">{index + 1}</td>
+                      <td className="px-2 py-1">{sampleType(index)}</td>
+                      {s ? (
+                        <>
+                          <td className="px-2 py-1 text-right">{s.cationSum.toFixed(2)}</td>
+                          <td className="px-2 py-1 text-right">{s.anionSum.toFixed(2)}</td>
+                          <td className={`px-2 py-1 text-right ${Math.abs(s.cbe) > tolerance ? 'text-red-600 font-medium' : ''}`}>
+                            {s.cbe.toFixed(1)}
+                          </td>
+                          <td className="px-2 py-1">{s.waterType}</td>
+                          <td className="px-2 py-1">{WATER_FACIES_LABELS[s.facies]}</td>
+                        </>
+                      ) : (
+                        <td colSpan={5} className="px-2 py-1 text-gray-400">필수 이온 값 없음</td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
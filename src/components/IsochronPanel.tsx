@@ -0,0 +1,397 @@
+'use client'
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { Download, Hourglass, Info } from 'lucide-react'
+import { GeochemData } from '@/types/geochem'
+import {
+  DECAY_SYSTEMS,
+  DecaySystemId,
+  calculateIsochronAge,
+  errorEllipsePoints,
+  findRatioColumn,
+  findRatioErrorColumn,
+  findRhoColumn
+} from '@/lib/isochron'
+import { regressionBandHalfWidth, yorkRegression } from '@/lib/regression'
+import { exportElementAsPNG, exportSVGElement } from '@/lib/chart-export'
+import { linearTicks } from '@/lib/axis-ticks'
+
+interface IsochronPanelProps {
+  data: GeochemData
+}
+
+// SVG 레이아웃
+const WIDTH = 640
+const HEIGHT = 480
+const MARGIN = { top: 20, right: 20, bottom: 50, left: 80 }
+const PLOT_WIDTH = WIDTH - MARGIN.left - MARGIN.right
+const PLOT_HEIGHT = HEIGHT - MARGIN.top - MARGIN.bottom
+
+export default function IsochronPanel({ data }: IsochronPanelProps) {
+  const chartRef = useRef<HTMLDivElement>(null)
+  const [systemId, setSystemId] = useState<DecaySystemId>('rbsr')
+  const [xColumn, setXColumn] = useState('')
+  const [yColumn, setYColumn] = useState('')
+  const [xErrorColumn, setXErrorColumn] = useState('')
+  const [yErrorColumn, setYErrorColumn] = useState('')
+  const [rhoColumn, setRhoColumn] = useState('')
+  const [rhoValue, setRhoValue] = useState(0)
+  const [errorType, setErrorType] = useState<'absolute' | 'percent'>('absolute')
+  const [sigmaLevel, setSigmaLevel] = useState<1 | 2>(2)
+
+  const system = DECAY_SYSTEMS[systemId]
+
+  // 붕괴 계열이 바뀌면 컬럼 자동 선택
+  useEffect(() => {
+    setXColumn(findRatioColumn(data, system.xRatio) || '')
+    setYColumn(findRatioColumn(data, system.yRatio) || '')
+    setXErrorColumn(findRatioErrorColumn(data, system.xRatio) || '')
+    setYErrorColumn(findRatioErrorColumn(data, system.yRatio) || '')
+    setRhoColumn(findRhoColumn(data) || '')
+  }, [data, system])
+
+  // 시료별 값과 1σ 절대 오차
+  const samples = useMemo(() => {
+    if (!xColumn || !yColumn || !xErrorColumn || !yErrorColumn) return []
+    return data.data
+      .map((row, index) => {
+        const x = parseFloat(row[xColumn])
+        const y = parseFloat(row[yColumn])
+        const toSigma = (error: number, value: number) =>
+          Math.abs(errorType === 'percent' ? (error / 100) * value : error) / sigmaLevel
+        const sx = toSigma(parseFloat(row[xErrorColumn]), x)
+        const sy = toSigma(parseFloat(row[yErrorColumn]), y)
+        const rho = rhoColumn ? parseFloat(row[rhoColumn]) : rhoValue
+        return { index, x, y, sx, sy, rho: isFinite(rho) ? rho : 0 }
+      })
+      .filter(s => [s.x, s.y, s.sx, s.sy].every(isFinite) && s.sx > 0 && s.sy > 0)
+  }, [data.data, xColumn, yColumn, xErrorColumn, yErrorColumn, rhoColumn, rhoValue, errorType, sigmaLevel])
+
+  const result = useMemo(() => {
+    if (samples.length < 3) return null
+    try {
+      const fit = yorkRegression(
+        samples.map(s => s.x),
+        samples.map(s => s.y),
+        samples.map(s => s.sx),
+        samples.map(s => s.sy),
+        samples.map(s => s.rho)
+      )
+      return { fit, age: calculateIsochronAge(fit, system) }
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : '등시선 계산에 실패했습니다.' }
+    }
+  }, [samples, system])
+
+  // 축 범위 (2σ 타원 포함, 5% 여백)
+  const domain = useMemo(() => {
+    if (samples.length === 0) return null
+    const xs = samples.flatMap(s => [s.x - 2 * s.sx, s.x + 2 * s.sx])
+    const ys = samples.flatMap(s => [s.y - 2 * s.sy, s.y + 2 * s.sy])
+    const pad = (min: number, max: number): [number, number] => {
+      const margin = (max - min || Math.abs(max) || 1) * 0.05
+      return [min - margin, max + margin]
+    }
+    return {
+      x: pad(Math.min(...xs), Math.max(...xs)),
+      y: pad(Math.min(...ys), Math.max(...ys))
+    }
+  }, [samples])
+
+  const toSVG = ([x, y]: [number, number]) => {
+    const d = domain!
+    return [
+      MARGIN.left + ((x - d.x[0]) / (d.x[1] - d.x[0])) * PLOT_WIDTH,
+      MARGIN.top + PLOT_HEIGHT - ((y - d.y[0]) / (d.y[1] - d.y[0])) * PLOT_HEIGHT
+    ]
+  }
+
+  const fit = result && 'fit' in result ? result.fit : null
+  const age = result && 'age' in result ? result.age : null
+  const overdispersion = fit?.mswd !== undefined && fit.mswd > 1 ? Math.sqrt(fit.mswd) : 1
+
+  // 등시선과 95% 신뢰 구간
+  const isochronPaths = (() => {
+    if (!fit || !domain) return null
+    const steps = 50
+    const upper: string[] = []
+    const lower: string[] = []
+    for (let i = 0; i <= steps; i++) {
+      const x = domain.x[0] + ((domain.x[1] - domain.x[0]) * i) / steps
+      const y = fit.slope * x + fit.intercept
+      const halfWidth = regressionBandHalfWidth(fit, x)
+      upper.push(toSVG([x, y + halfWidth]).join(','))
+      lower.unshift(toSVG([x, y - halfWidth]).join(','))
+    }
+    const [x1, y1] = toSVG([domain.x[0], fit.slope * domain.x[0] + fit.intercept])
+    const [x2, y2] = toSVG([domain.x[1], fit.slope * domain.x[1] + fit.intercept])
+    return { envelope: [...upper, ...lower].join(' '), line: { x1, y1, x2, y2 } }
+  })()
+
+  const formatValue = (value: number, digits: number = 6) =>
+    Math.abs(value) >= 1000 || Math.abs(value) < 1e-3 ? value.toExponential(digits - 1) : value.toPrecision(digits)
+
+  const handleExportPNG = async () => {
+    if (!chartRef.current) return
+    try {
+      await exportElementAsPNG(chartRef.current, `isochron-${systemId}-${Date.now()}.png`)
+    } catch (error) {
+      console.error('Export failed:', error)
+      alert('이미지 내보내기에 실패했습니다.')
+    }
+  }
+
+  const handleExportSVG = () => {
+    const svgElement = chartRef.current?.querySelector('svg')
+    if (!svgElement) {
+      alert('SVG를 찾을 수 없습니다.')
+      return
+    }
+    try {
+      exportSVGElement(svgElement, `isochron-${systemId}-${Date.now()}.svg`)
+    } catch (error) {
+      console.error('SVG export failed:', error)
+      alert('SVG 내보내기에 실패했습니다.')
+    }
+  }
+
+  const columnSelect = (label: string, value: string, onChange: (value: string) => void, optional: boolean = false) => (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-full p-2 text-sm border border-gray-300 rounded-md"
+      >
+        <option value="">{optional ? '사용 안 함' : '선택...'}</option>
+        {data.numericColumns.map(col => (
+          <option key={col} value={col}>{col}</option>
+        ))}
+      </select>
+    </div>
+  )
+
+  const renderAxes = () => {
+    const d = domain!
+    const xTicks = linearTicks(d.x[0], d.x[1], 6)
+    const yTicks = linearTicks(d.y[0], d.y[1], 6)
+    const bottom = MARGIN.top + PLOT_HEIGHT
+
+    return (
+      <g fontSize={11} fill="#444">
+        <rect x={MARGIN.left} y={MARGIN.top} width={PLOT_WIDTH} height={PLOT_HEIGHT} fill="none" stroke="#333" />
+        {xTicks.map(tick => {
+          const [x] = toSVG([tick, d.y[0]])
+          return (
+            <g key={`x${tick}`}>
+              <line x1={x} x2={x} y1={bottom} y2={bottom + 5} stroke="#333" />
+              <text x={x} y={bottom + 18} textAnchor="middle">{String(tick)}</text>
+            </g>
+          )
+        })}
+        {yTicks.map(tick => {
+          const [, y] = toSVG([d.x[0], tick])
+          return (
+            <g key={`y${tick}`}>
+              <line x1={MARGIN.left - 5} x2={MARGIN.left} y1={y} y2={y} stroke="#333" />
+              <text x={MARGIN.left - 8} y={y + 4} textAnchor="end">{String(tick)}</text>
+            </g>
+          )
+        })}
+        <text x={MARGIN.left + PLOT_WIDTH / 2} y={HEIGHT - 10} textAnchor="middle" fontSize={13}>
+          {xColumn}
+        </text>
+        <text
+          x={16}
+          y={MARGIN.top + PLOT_HEIGHT / 2}
+          textAnchor="middle"
+          fontSize={13}
+          transform={`rotate(-90 16 ${MARGIN.top + PLOT_HEIGHT / 2})`}
+        >
+          {yColumn}
+        </text>
+      </g>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-medium text-gray-800 flex items-center">
+          <Hourglass className="h-5 w-5 mr-2" />
+          등시선 연대 (Isochron)
+        </h3>
+        {fit && (
+          <div className="flex gap-2">
+            <button
+              onClick={handleExportPNG}
+              className="flex items-center px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200"
+            >
+              <Download className="h-4 w-4 mr-1" />
+              PNG
+            </button>
+            <button
+              onClick={handleExportSVG}
+              className="flex items-center px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200"
+            >
+              <Download className="h-4 w-4 mr-1" />
+              SVG
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* 설정 */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">붕괴 계열</label>
+          <select
+            value={systemId}
+            onChange={(e) => setSystemId(e.target.value as DecaySystemId)}
+            className="w-full p-2 text-sm border border-gray-300 rounded-md"
+          >
+            {Object.values(DECAY_SYSTEMS).map(s => (
+              <option key={s.id} value={s.id}>{s.name} ({s.yRatio} vs {s.xRatio})</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">오차 형식</label>
+          <select
+            value={errorType}
+            onChange={(e) => setErrorType(e.target.value as 'absolute' | 'percent')}
+            className="w-full p-2 text-sm border border-gray-300 rounded-md"
+          >
+            <option value="absolute">절대값</option>
+            <option value="percent">상대값 (%)</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">오차 수준</label>
+          <select
+            value={sigmaLevel}
+            onChange={(e) => setSigmaLevel(parseInt(e.target.value) as 1 | 2)}
+            className="w-full p-2 text-sm border border-gray-300 rounded-md"
+          >
+            <option value={1}>1σ</option>
+            <option value={2}>2σ</option>
+          </select>
+        </div>
+        {columnSelect(`X: ${system.xRatio}`, xColumn, setXColumn)}
+        {columnSelect('X 오차', xErrorColumn, setXErrorColumn)}
+        {columnSelect('오차 상관계수 (ρ) 컬럼', rhoColumn, setRhoColumn, true)}
+        {columnSelect(`Y: ${system.yRatio}`, yColumn, setYColumn)}
+        {columnSelect('Y 오차', yErrorColumn, setYErrorColumn)}
+        {!rhoColumn && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">ρ (전체 공통)</label>
+            <input
+              type="number"
+              min="-1"
+              max="1"
+              step="0.05"
+              value={rhoValue}
+              onChange={(e) => setRhoValue(Math.max(-1, Math.min(1, parseFloat(e.target.value) || 0)))}
+              className="w-full p-2 text-sm border border-gray-300 rounded-md"
+            />
+          </div>
+        )}
+      </div>
+
+      {samples.length < 3 ? (
+        <div className="p-8 text-center text-gray-500 bg-gray-50 rounded-lg">
+          <Info className="h-8 w-8 mx-auto mb-2 text-gray-400" />
+          동위원소 비와 오차 컬럼을 선택해주세요. 오차가 있는 시료가 3개 이상 필요합니다 (현재 {samples.length}개).
+        </div>
+      ) : (
+        <>
+          <div ref={chartRef} className="bg-white">
+            <svg xmlns="http://www.w3.org/2000/svg" viewBox={`0 0 ${WIDTH} ${HEIGHT}`} width="100%" style={{ maxWidth: WIDTH }} className="mx-auto block">
+              <defs>
+                <clipPath id="isochron-plot-area">
+                  <rect x={MARGIN.left} y={MARGIN.top} width={PLOT_WIDTH} height={PLOT_HEIGHT} />
+                </clipPath>
+              </defs>
+
+              {renderAxes()}
+
+              <g clipPath="url(#isochron-plot-area)">
+                {isochronPaths && (
+                  <>
+                    <polygon points={isochronPaths.envelope} fill="#7c3aed" fillOpacity={0.1} stroke="none" />
+                    <line {...isochronPaths.line} stroke="#7c3aed" strokeWidth={1.5} />
+                  </>
+                )}
+
+                {/* 오차 타원 (2σ) */}
+                {samples.map(s => {
+                  const points = errorEllipsePoints(s.x, s.y, s.sx, s.sy, s.rho, 2)
+                    .map(p => toSVG(p).join(','))
+                    .join(' ')
+                  return (
+                    <polygon key={s.index} points={points} fill="#3b82f6" fillOpacity={0.25} stroke="#1d4ed8" strokeWidth={1}>
+                      <title>{`#${s.index + 1}\n${xColumn}: ${formatValue(s.x)} ± ${formatValue(2 * s.sx, 3)}\n${yColumn}: ${formatValue(s.y)} ± ${formatValue(2 * s.sy, 3)}\nρ = ${s.rho.toFixed(3)}`}</title>
+                    </polygon>
+                  )
+                })}
+              </g>
+
+              {fit && age && (
+                <text x={MARGIN.left + 10} y={MARGIN.top + 20} fontSize={13} fill="#4c1d95">
+                  {`Age = ${age.age.toFixed(1)} ± ${(2 * age.ageError * overdispersion).toFixed(1)} Ma`}
+                  {age.initialRatio !== undefined && ` · Initial = ${formatValue(age.initialRatio)}`}
+                  {` · MSWD = ${fit.mswd?.toFixed(2)}`}
+                </text>
+              )}
+            </svg>
+          </div>
+
+          {result && 'error' in result && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">{result.error}</div>
+          )}
+
+          {fit && age && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="bg-violet-50 p-4 rounded-lg">
+                <h4 className="font-medium text-violet-800 mb-1">연대 (±2σ)</h4>
+                <p className="text-xl font-bold text-violet-700">
+                  {age.age.toFixed(2)} ± {(2 * age.ageError).toFixed(2)} Ma
+                </p>
+                {overdispersion > 1 && (
+                  <p className="text-xs text-violet-600 mt-1">
+                    √MSWD 확대: ± {(2 * age.ageError * overdispersion).toFixed(2)} Ma
+                  </p>
+                )}
+              </div>
+              <div className="bg-violet-50 p-4 rounded-lg">
+                <h4 className="font-medium text-violet-800 mb-1">초기비 (±2σ)</h4>
+                <p className="font-mono text-violet-700">
+                  {age.initialRatio !== undefined
+                    ? `${formatValue(age.initialRatio)} ± ${formatValue(2 * age.initialRatioError!, 2)}`
+                    : 'N/A (Pb–Pb)'}
+                </p>
+              </div>
+              <div className="bg-violet-50 p-4 rounded-lg">
+                <h4 className="font-medium text-violet-800 mb-1">MSWD</h4>
+                <p className="font-mono text-violet-700">{fit.mswd?.toFixed(3)}</p>
+                <p className="text-xs text-violet-600 mt-1">적합 확률: {fit.probability?.toFixed(3)}</p>
+              </div>
+              <div className="bg-violet-50 p-4 rounded-lg">
+                <h4 className="font-medium text-violet-800 mb-1">기울기 (±2σ)</h4>
+                <p className="font-mono text-violet-700">
+                  {formatValue(fit.slope)} ± {formatValue(2 * fit.slopeError, 2)}
+                </p>
+                <p className="text-xs text-violet-600 mt-1">n = {fit.n}</p>
+              </div>
+            </div>
+          )}
+
+          <div className="p-3 bg-gray-50 rounded-lg text-xs text-gray-600 space-y-1">
+            <p>York 회귀 (York et al., 2004), 타원은 2σ, 음영은 회귀선의 95% 신뢰 구간입니다.</p>
+            <p>붕괴상수 λ = {system.lambda.toExponential(4)} /yr · {system.lambdaSource}</p>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
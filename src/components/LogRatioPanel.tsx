@@ -0,0 +1,187 @@
+'use client'
+
+import { useState } from 'react'
+import { Sigma } from 'lucide-react'
+import { GeochemData, LogRatioMethod } from '@/types/geochem'
+import {
+  DEFAULT_REPLACEMENT_DELTA,
+  LOG_RATIO_LABELS,
+  applyLogRatioTransform,
+  parseBalances,
+  removeLogRatioTransform
+} from '@/lib/compositional'
+import { parseSpecies } from '@/lib/units'
+
+interface LogRatioPanelProps {
+  data: GeochemData
+  onDataUpdate?: (data: GeochemData) => void
+}
+
+export default function LogRatioPanel({ data, onDataUpdate }: LogRatioPanelProps) {
+  const applied = data.logRatio
+  const [method, setMethod] = useState<LogRatioMethod>(applied?.method || 'clr')
+  const [columns, setColumns] = useState<string[]>(applied?.sourceColumns || [])
+  const [denominator, setDenominator] = useState<string>(applied?.denominator || '')
+  const [customBasis, setCustomBasis] = useState(false)
+  const [balanceText, setBalanceText] = useState('')
+  const [delta, setDelta] = useState(applied?.replacementDelta ?? DEFAULT_REPLACEMENT_DELTA)
+
+  // 변환 변수 컬럼은 다시 변환 대상으로 고르지 않음
+  const candidateColumns = data.numericColumns.filter(col => !applied?.columns.includes(col))
+
+  const toggleColumn = (column: string) => {
+    setColumns(prev => prev.includes(column) ? prev.filter(c => c !== column) : [...prev, column])
+  }
+
+  // 산화물 컬럼 (주성분) 일괄 선택
+  const selectOxides = () => {
+    setColumns(candidateColumns.filter(col => (parseSpecies(col)?.oxygens || 0) > 0))
+  }
+
+  const handleApply = () => {
+    if (!onDataUpdate) return
+    try {
+      const balances = method === 'ilr' && customBasis ? parseBalances(balanceText, columns.length) : undefined
+      const transformed = applyLogRatioTransform(data, {
+        method,
+        columns,
+        denominator: method === 'alr' ? denominator : undefined,
+        balances,
+        replacementDelta: delta
+      })
+      onDataUpdate(transformed)
+    } catch (error) {
+      alert(error instanceof Error ? error.message : '로그비 변환에 실패했습니다.')
+    }
+  }
+
+  const handleRemove = () => {
+    if (!onDataUpdate) return
+    onDataUpdate(removeLogRatioTransform(data))
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center">
+        <Sigma className="h-5 w-5 text-emerald-600 mr-2" />
+        <h4 className="text-md font-medium text-gray-800">조성 데이터 로그비 변환</h4>
+      </div>
+      <p className="text-xs text-gray-500">
+        합이 일정한 성분(주성분 산화물 등)의 원시 값 상관관계는 닫힘 효과로 왜곡됩니다.
+        선택한 성분을 로그비 변수로 바꾸면 스캔, Smart Insight, PCA에서 원본 대신 변환 변수를 분석합니다.
+      </p>
+
+      {applied && (
+        <div className="p-3 bg-emerald-50 border border-emerald-200 rounded-md text-sm text-emerald-800">
+          <div className="font-medium">
+            적용됨: {LOG_RATIO_LABELS[applied.method]} · 성분 {applied.sourceColumns.length}개 → 변수 {applied.columns.length}개
+          </div>
+          <div className="text-xs mt-1 break-words">{applied.columns.join(', ')}</div>
+          {applied.replacedCount > 0 && (
+            <div className="text-xs mt-1">0/검출한계 미만 {applied.replacedCount}개 셀을 {applied.replacementDelta} × DL로 대체</div>
+          )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">변환 방법</label>
+          <select
+            value={method}
+            onChange={(e) => setMethod(e.target.value as LogRatioMethod)}
+            className="w-full p-2 border border-gray-300 rounded-md"
+          >
+            {(Object.keys(LOG_RATIO_LABELS) as LogRatioMethod[]).map(m => (
+              <option key={m} value={m}>{LOG_RATIO_LABELS[m]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">0/검출한계 미만 대체 비율 (δ × DL)</label>
+          <input
+            type="number"
+            min="0.01"
+            max="1"
+            step="0.05"
+            value={delta}
+            onChange={(e) => setDelta(parseFloat(e.target.value) || DEFAULT_REPLACEMENT_DELTA)}
+            className="w-full p-2 border border-gray-300 rounded-md"
+          />
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <label className="text-sm font-medium text-gray-700">변환할 성분 ({columns.length}개)</label>
+          <div className="flex gap-2 text-xs">
+            <button onClick={selectOxides} className="text-emerald-700 hover:underline">산화물 선택</button>
+            <button onClick={() => setColumns([])} className="text-gray-500 hover:underline">선택 해제</button>
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-2 max-h-40 overflow-y-auto p-2 border border-gray-200 rounded-md">
+          {candidateColumns.map(col => (
+            <label key={col} className="flex items-center text-xs text-gray-700">
+              <input type="checkbox" checked={columns.includes(col)} onChange={() => toggleColumn(col)} className="mr-1" />
+              {col}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {method === 'alr' && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">분모 성분</label>
+          <select
+            value={denominator}
+            onChange={(e) => setDenominator(e.target.value)}
+            className="w-full p-2 border border-gray-300 rounded-md"
+          >
+            <option value="">선택...</option>
+            {columns.map(col => <option key={col} value={col}>{col}</option>)}
+          </select>
+        </div>
+      )}
+
+      {method === 'ilr' && (
+        <div className="space-y-2">
+          <label className="flex items-center text-sm text-gray-700">
+            <input type="checkbox" checked={customBasis} onChange={(e) => setCustomBasis(e.target.checked)} className="mr-2" />
+            균형 기저 직접 지정 (순차 이분할)
+          </label>
+          {customBasis ? (
+            <>
+              <textarea
+                value={balanceText}
+                onChange={(e) => setBalanceText(e.target.value)}
+                rows={Math.max(3, columns.length - 1)}
+                placeholder={'한 줄에 균형 하나, 성분 순서대로 + - 0\n예: + + - -\n    + - 0 0'}
+                className="w-full p-2 font-mono text-sm border border-gray-300 rounded-md"
+              />
+              <p className="text-xs text-gray-500">성분 순서: {columns.join(', ') || '(성분을 먼저 선택하세요)'}</p>
+            </>
+          ) : (
+            <p className="text-xs text-gray-500">기본 기저: 각 성분 vs 뒤쪽 나머지 성분 (pivot 균형)</p>
+          )}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          onClick={handleApply}
+          disabled={!onDataUpdate || columns.length < 2}
+          className="px-4 py-2 text-sm bg-emerald-600 text-white rounded-md hover:bg-emerald-700 disabled:bg-gray-300"
+        >
+          {applied ? '변환 다시 적용' : '변환 적용'}
+        </button>
+        {applied && (
+          <button
+            onClick={handleRemove}
+            className="px-4 py-2 text-sm bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200"
+          >
+            변환 해제
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
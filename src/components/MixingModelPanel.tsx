@@ -0,0 +1,233 @@
+'use client'
+
+import { useMemo } from 'react'
+import { Plus, Trash2 } from 'lucide-react'
+import { ColumnSelection, GeochemData } from '@/types/geochem'
+import {
+  MAX_ENDMEMBERS,
+  MIXING_COLUMN_PREFIX,
+  MixingEndmember,
+  addUnmixingColumns,
+  endmemberFromRows,
+  isEndmemberComplete,
+  mixingColumns,
+  unmixSamples
+} from '@/lib/mixing'
+
+interface MixingModelPanelProps {
+  data: GeochemData
+  selectedColumns: ColumnSelection
+  endmembers: MixingEndmember[]
+  onEndmembersChange: (endmembers: MixingEndmember[]) => void
+  onDataUpdate?: (data: GeochemData) => void
+}
+
+const ENDMEMBER_NAMES = ['A', 'B', 'C']
+
+// 결과 표에 보여줄 최대 행 수
+const MAX_TABLE_ROWS = 200
+
+export default function MixingModelPanel({ data, selectedColumns, endmembers, onEndmembersChange, onDataUpdate }: MixingModelPanelProps) {
+  const columns = useMemo(() => mixingColumns(selectedColumns), [selectedColumns])
+  const typeColumn = selectedColumns.useTypeColumn ? selectedColumns.selectedTypeColumn : undefined
+
+  // 타입별 행 (끝성분을 타입 평균으로 가져올 때)
+  const typeGroups = useMemo(() => {
+    const groups: Record<string, number[]> = {}
+    if (!typeColumn) return groups
+    data.data.forEach((row, index) => {
+      const type = String(row[typeColumn] ?? '').trim() || 'Unknown'
+      if (!groups[type]) groups[type] = []
+      groups[type].push(index)
+    })
+    return groups
+  }, [data.data, typeColumn])
+
+  const complete = endmembers.length >= 2 && endmembers.every(em => isEndmemberComplete(em, columns))
+  const samples = useMemo(
+    () => (complete ? unmixSamples(data, endmembers, columns) : []),
+    [data, endmembers, columns, complete]
+  )
+  const solved = samples.filter(s => s.fractions !== null)
+  const residuals = solved.map(s => s.residual!).sort((a, b) => a - b)
+
+  const updateEndmember = (id: string, changes: Partial<MixingEndmember>) => {
+    onEndmembersChange(endmembers.map(em => (em.id === id ? { ...em, ...changes } : em)))
+  }
+
+  const handleAdd = () => {
+    const name = ENDMEMBER_NAMES.find(n => !endmembers.some(em => em.name === n)) || `EM${endmembers.length + 1}`
+    onEndmembersChange([...endmembers, { id: `endmember-${Date.now()}`, name, values: {} }])
+  }
+
+  // 시료에서 값 가져오기: 타입 평균 또는 행 번호
+  const handlePick = (endmember: MixingEndmember, source: string) => {
+    if (source === 'row') {
+      const input = prompt(`행 번호를 입력하세요 (1–${data.data.length}, 쉼표로 여러 행이면 평균)`)
+      if (!input) return
+      const rows = input.split(',').map(s => parseInt(s.trim(), 10) - 1).filter(i => i >= 0 && i < data.data.length)
+      if (rows.length === 0) {
+        alert('올바른 행 번호가 아닙니다.')
+        return
+      }
+      updateEndmember(endmember.id, { values: { ...endmember.values, ...endmemberFromRows(data, rows, columns) } })
+    } else if (typeGroups[source]) {
+      updateEndmember(endmember.id, { values: { ...endmember.values, ...endmemberFromRows(data, typeGroups[source], columns) } })
+    }
+  }
+
+  const handleAddColumns = () => {
+    if (!onDataUpdate || !complete) return
+    const names = endmembers.map(em => em.name.trim())
+    if (names.some(name => !name) || new Set(names).size !== names.length) {
+      alert('끝성분 이름이 비어 있거나 중복되었습니다.')
+      return
+    }
+    const hasPrevious = data.numericColumns.some(col => col.startsWith(MIXING_COLUMN_PREFIX))
+    if (hasPrevious && !confirm(`기존 ${MIXING_COLUMN_PREFIX} 컬럼을 지우고 다시 추가합니다. 계속하시겠습니까?`)) return
+    onDataUpdate(addUnmixingColumns(data, endmembers, samples))
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h4 className="font-medium text-gray-800">끝성분 ({endmembers.length}/{MAX_ENDMEMBERS})</h4>
+        <p className="text-xs text-gray-500 mt-1">
+          각 끝성분의 농도를 입력하거나 시료에서 가져옵니다. 농도를 선형으로 섞으므로 비율 축에서는 혼합선이 쌍곡선이 됩니다.
+          혼합선 눈금은 각 선의 첫 끝성분 비율입니다 (A–B 선이면 A의 비율). 사용 컬럼: {columns.join(', ')}
+        </p>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-500">
+              <th className="px-2 py-1">이름</th>
+              {columns.map(col => <th key={col} className="px-2 py-1">{col}</th>)}
+              <th className="px-2 py-1">시료에서 가져오기</th>
+              <th className="px-2 py-1"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {endmembers.map(em => (
+              <tr key={em.id} className="border-t border-gray-100">
+                <td className="px-2 py-1">
+                  <input
+                    type="text"
+                    value={em.name}
+                    onChange={(e) => updateEndmember(em.id, { name: e.target.value })}
+                    className="w-20 p-1 text-sm border border-gray-300 rounded-md"
+                  />
+                </td>
+                {columns.map(col => (
+                  <td key={col} className="px-2 py-1">
+                    <input
+                      type="number"
+                      step="any"
+                      value={isFinite(em.values[col]) ? em.values[col] : ''}
+                      onChange={(e) => {
+                        const values = { ...em.values }
+                        const value = parseFloat(e.target.value)
+                        if (isFinite(value)) values[col] = value
+                        else delete values[col]
+                        updateEndmember(em.id, { values })
+                      }}
+                      className={`w-24 p-1 text-sm border rounded-md ${isFinite(em.values[col]) ? 'border-gray-300' : 'border-red-300'}`}
+                    />
+                  </td>
+                ))}
+                <td className="px-2 py-1">
+                  <select
+                    value=""
+                    onChange={(e) => handlePick(em, e.target.value)}
+                    className="p-1 text-sm border border-gray-300 rounded-md"
+                  >
+                    <option value="">선택...</option>
+                    <option value="row">행 번호로 지정...</option>
+                    {Object.keys(typeGroups).map(type => (
+                      <option key={type} value={type}>{type} 평균 ({typeGroups[type].length})</option>
+                    ))}
+                  </select>
+                </td>
+                <td className="px-2 py-1">
+                  <button
+                    onClick={() => onEndmembersChange(endmembers.filter(e => e.id !== em.id))}
+                    className="p-1 text-gray-400 hover:text-red-600"
+                    title="끝성분 삭제"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {endmembers.length < MAX_ENDMEMBERS && (
+        <button
+          onClick={handleAdd}
+          className="flex items-center px-3 py-1.5 text-sm text-teal-700 border border-teal-200 bg-teal-50 rounded-md hover:bg-teal-100"
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          끝성분 추가
+        </button>
+      )}
+
+      {endmembers.length < 2 ? (
+        <p className="text-sm text-gray-500">끝성분을 2개 이상 정의하면 혼합선을 그립니다.</p>
+      ) : !complete ? (
+        <p className="text-sm text-orange-600">모든 끝성분의 값을 입력해야 혼합선과 혼합 비율을 계산합니다.</p>
+      ) : (
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="text-sm text-gray-700">
+              혼합 비율 계산: {solved.length}/{data.data.length}개 시료
+              {solved.some(s => s.outside) && (
+                <span className="text-orange-600"> · 0–100% 밖 {solved.filter(s => s.outside).length}개</span>
+              )}
+              {residuals.length > 0 && ` · 잔차 중앙값 ${residuals[Math.floor(residuals.length / 2)].toFixed(3)}`}
+            </p>
+            {onDataUpdate && (
+              <button
+                onClick={handleAddColumns}
+                className="px-3 py-1.5 text-sm text-white bg-teal-600 rounded-md hover:bg-teal-700"
+              >
+                혼합 비율을 컬럼으로 추가
+              </button>
+            )}
+          </div>
+          <div className="max-h-64 overflow-auto border border-gray-200 rounded-md">
+            <table className="min-w-full text-xs">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr className="text-left text-gray-500">
+                  <th className="px-2 py-1">#</th>
+                  {typeColumn && <th className="px-2 py-1">{typeColumn}</th>}
+                  {endmembers.map(em => <th key={em.id} className="px-2 py-1 text-right">{em.name} (%)</th>)}
+                  <th className="px-2 py-1 text-right">잔차</th>
+                </tr>
+              </thead>
+              <tbody>
+                {samples.slice(0, MAX_TABLE_ROWS).map((s, index) => (
+                  <tr key={index} className={`border-t border-gray-100 ${s.outside ? 'text-orange-600' : ''}`}>
+                    <td className="px-2 py-1 text-gray-500">{index + 1}</td>
+                    {typeColumn && <td className="px-2 py-1">{String(data.data[index][typeColumn] ?? '')}</td>}
+                    {endmembers.map((em, i) => (
+                      <td key={em.id} className="px-2 py-1 text-right">{s.fractions ? (s.fractions[i] * 100).toFixed(1) : '–'}</td>
+                    ))}
+                    <td className="px-2 py-1 text-right">{s.residual !== null ? s.residual.toFixed(3) : '–'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-gray-500">
+            비율의 합이 100%인 조건에서 최소제곱으로 풀며, 각 컬럼은 끝성분 값의 범위로 나눠 같은 비중으로 맞춥니다.
+            잔차는 이렇게 나눈 값의 RMS입니다.
+            {samples.length > MAX_TABLE_ROWS && ` 표에는 처음 ${MAX_TABLE_ROWS}개 행만 표시합니다.`}
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -3,6 +3,7 @@
 import { useState, useCallback, useMemo, useEffect, useRef } from 'react'
 import { GeochemData, AxisConfig, MultiViewPanel, MultiViewAxisRange } from '@/types/geochem'
 import html2canvas from 'html2canvas'
+import { getAxisValueWithUnits, getAxisTitleWithUnits } from '@/lib/units'
 import {
   ScatterChart,
   Scatter,
@@ -48,7 +49,7 @@ function AxisSelector({
   columns: string[]
   onChange: (config: AxisConfig | null) => void
 }) {
-  const [axisType, setAxisType] = useState<'single' | 'ratio'>(value?.type || 'single')
+  const [axisType, setAxisType] = useState<AxisConfig['type']>(value?.type || 'single')
   const [ratioTemp, setRatioTemp] = useState({ numerator: '', denominator: '' })
   const [isExpanded, setIsExpanded] = useState(false)
 
@@ -309,16 +310,9 @@ export default function MultiGraphView({ data, initialPanels }: MultiGraphViewPr
 
   // 데이터 값 계산 (단일 또는 비율)
   const getAxisValue = useCallback((row: Record<string, any>, config: AxisConfig): number | null => {
-    if (config.type === 'single') {
-      const val = parseFloat(String(row[config.numerator]))
-      return isNaN(val) ? null : val
-    } else {
-      const num = parseFloat(String(row[config.numerator]))
-      const den = parseFloat(String(row[config.denominator!]))
-      if (isNaN(num) || isNaN(den) || den === 0) return null
-      return num / den
-    }
-  }, [])
+    const val = getAxisValueWithUnits(data, row, config)
+    return isNaN(val) || !isFinite(val) ? null : val
+  }, [data])
 
   // 시료 클릭 핸들러 (드래그 중이 아닐 때만)
   const handlePointClick = (index: number, event: React.MouseEvent) => {
@@ -638,7 +632,7 @@ export default function MultiGraphView({ data, initialPanels }: MultiGraphViewPr
                       tick={{ fontSize: 11 }}
                       tickFormatter={(value) => typeof value === 'number' ? value.toExponential(1) : value}
                       label={{
-                        value: panel.xAxis.label,
+                        value: getAxisTitleWithUnits(data, panel.xAxis),
                         position: 'bottom',
                         offset: 0,
                         style: { fontSize: 12, fill: '#666' }
@@ -653,7 +647,7 @@ export default function MultiGraphView({ data, initialPanels }: MultiGraphViewPr
                       tick={{ fontSize: 11 }}
                       tickFormatter={(value) => typeof value === 'number' ? value.toExponential(1) : value}
                       label={{
-                        value: panel.yAxis.label,
+                        value: getAxisTitleWithUnits(data, panel.yAxis),
                         angle: -90,
                         position: 'insideLeft',
                         style: { fontSize: 12, fill: '#666' }
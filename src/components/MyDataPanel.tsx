@@ -3,7 +3,7 @@
 import { useState, useEffect } from 'react'
 import { Database, Trash2, Download, Eye, Calendar, Table2, Columns } from 'lucide-react'
 import { useAuth } from '@/contexts/AuthContext'
-import { listDatasets, deleteDataset, loadFullDataset, DatasetMeta } from '@/lib/supabase-data'
+import { listDatasets, deleteDataset, loadGeochemDataset, DatasetMeta } from '@/lib/supabase-data'
 import { GeochemData } from '@/types/geochem'
 
 interface MyDataPanelProps {
@@ -43,21 +43,7 @@ export default function MyDataPanel({ onLoadData }: MyDataPanelProps) {
     setError(null)
 
     try {
-      const rows = await loadFullDataset(dataset.id)
-
-      const geochemData: GeochemData = {
-        data: rows,
-        numericColumns: dataset.numeric_columns,
-        nonNumericColumns: dataset.non_numeric_columns,
-        fileName: dataset.file_name,
-        typeColumn: dataset.type_column,
-        datasetId: dataset.id,
-        metadata: {
-          fileName: dataset.file_name,
-          rowCount: dataset.row_count,
-          columnCount: dataset.columns.length
-        }
-      }
+      const geochemData = await loadGeochemDataset(dataset)
 
       onLoadData(geochemData)
     } catch (err) {
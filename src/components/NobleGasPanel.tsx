@@ -0,0 +1,263 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { Info } from 'lucide-react'
+import { ColumnSelection, GeochemData, OverlayCurve } from '@/types/geochem'
+import {
+  AIR_HE_NE_PRESETS,
+  DEFAULT_HELIUM_OPTIONS,
+  HELIUM_COLUMNS,
+  HELIUM_SOURCE_LABELS,
+  HeliumOptions,
+  HeliumSource,
+  addHeliumColumns,
+  analyzeHelium,
+  findHeliumColumns,
+  hasMismatchedUnits,
+  heliumMixingCurves
+} from '@/lib/noble-gases'
+import { calculateStatistics } from '@/lib/statistics'
+import ScatterPlot from './ScatterPlot'
+
+interface NobleGasPanelProps {
+  data: GeochemData
+  typeColumn?: string
+  onDataUpdate?: (data: GeochemData) => void
+}
+
+const SOURCES: HeliumSource[] = ['mantle', 'crust', 'air']
+
+// 맨틀 성분 R/Ra 예시값
+const MANTLE_PRESETS = [
+  { label: 'MORB', value: 8 },
+  { label: 'SCLM', value: 6.1 },
+  { label: '플룸', value: 30 }
+]
+
+// 혼합선 색 (맨틀 100%: 빨강, 지각 100%: 파랑, 중간: 회색 점선)
+const curveStyle = (share: number) =>
+  share === 100 ? { color: '#dc2626', dashed: false } : share === 0 ? { color: '#2563eb', dashed: false } : { color: '#6b7280', dashed: true }
+
+const formatValue = (value: number | null, digits = 2) => (value === null ? '–' : value.toFixed(digits))
+
+export default function NobleGasPanel({ data, typeColumn, onDataUpdate }: NobleGasPanelProps) {
+  const [options, setOptions] = useState<HeliumOptions>(DEFAULT_HELIUM_OPTIONS)
+
+  const columns = useMemo(() => findHeliumColumns(data), [data])
+  const mismatched = hasMismatchedUnits(data, columns)
+  const samples = useMemo(() => analyzeHelium(data, columns, options), [data, columns, options])
+  const plotData = useMemo(() => addHeliumColumns(data, samples), [data, samples])
+
+  const computed = useMemo(() => samples.filter(s => s.rRa !== null && s.heNe !== null), [samples])
+  const outside = computed.filter(s => s.outside)
+
+  const overlayCurves: OverlayCurve[] = useMemo(
+    () => heliumMixingCurves(options.endmembers).map(({ share, points }) => ({
+      id: `helium-${share}`,
+      label: share === 0 ? '지각' : `맨틀 ${share}%`,
+      points,
+      ...curveStyle(share)
+    })),
+    [options.endmembers]
+  )
+
+  const selectedColumns: ColumnSelection = {
+    x: { type: 'single', numerator: HELIUM_COLUMNS.heNe, label: '4He/20Ne' },
+    y: { type: 'single', numerator: HELIUM_COLUMNS.rRa, label: 'R/Ra' },
+    useTypeColumn: !!typeColumn,
+    selectedTypeColumn: typeColumn
+  }
+  const statistics = useMemo(
+    () => calculateStatistics(computed.map(s => s.heNe!), computed.map(s => s.rRa!)),
+    [computed]
+  )
+
+  const setEndmember = (source: HeliumSource, key: 'rRa' | 'heNe', value: number) => {
+    setOptions({
+      ...options,
+      endmembers: { ...options.endmembers, [source]: { ...options.endmembers[source], [key]: value } }
+    })
+  }
+
+  const handleAddColumns = () => {
+    if (!onDataUpdate) return
+    const existing = Object.values(HELIUM_COLUMNS).filter(col => data.numericColumns.includes(col))
+    if (existing.length > 0 && !confirm(`이미 있는 컬럼을 덮어씁니다: ${existing.join(', ')}\n계속하시겠습니까?`)) return
+    onDataUpdate(plotData)
+  }
+
+  const ratioSource = columns.ratio
+    ? `${columns.ratio.column}${columns.ratio.normalized ? ' (R/Ra)' : ' ÷ Ra'}`
+    : null
+  const heNeSource = columns.heNe || (columns.he4 && columns.ne20 ? `${columns.he4} ÷ ${columns.ne20}` : null)
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6 space-y-6">
+      <div>
+        <h2 className="text-xl font-semibold text-gray-800 mb-2">헬륨 동위원소 · 공기 보정</h2>
+        <div className="p-3 bg-gray-50 rounded-lg text-xs text-gray-600 space-y-0.5">
+          <p>
+            3He/4He ← {ratioSource || <span className="text-gray-400">없음</span>}
+            <span className="mx-2">·</span>
+            4He/20Ne ← {heNeSource || <span className="text-gray-400">없음</span>}
+          </p>
+          {mismatched && (
+            <p className="text-red-600">4He와 20Ne 컬럼의 단위가 달라 4He/20Ne를 계산하지 않았습니다.</p>
+          )}
+          <p className="text-gray-400">원시 3He/4He(값이 0.001 미만)는 Ra로 나눠 R/Ra로 바꿉니다.</p>
+        </div>
+      </div>
+
+      {!columns.ratio ? (
+        <div className="p-8 text-center text-gray-500 bg-gray-50 rounded-lg">
+          <Info className="h-8 w-8 mx-auto mb-2 text-gray-400" />
+          3He/4He 또는 R/Ra 컬럼이 없습니다.
+        </div>
+      ) : (
+        <>
+          {/* 기준값 설정 */}
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3 text-sm">
+            <div>
+              <label className="block text-xs text-gray-600 mb-1">대기 3He/4He (Ra)</label>
+              <input
+                type="number"
+                step="any"
+                value={options.airRatio}
+                disabled={columns.ratio.normalized}
+                onChange={(e) => setOptions({ ...options, airRatio: parseFloat(e.target.value) || DEFAULT_HELIUM_OPTIONS.airRatio })}
+                className="w-full p-2 text-sm border border-gray-300 rounded-md disabled:bg-gray-100"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-600 mb-1">공기 보정 기준 4He/20Ne</label>
+              <select
+                value={options.endmembers.air.heNe}
+                onChange={(e) => setEndmember('air', 'heNe', parseFloat(e.target.value))}
+                className="w-full p-2 text-sm border border-gray-300 rounded-md"
+              >
+                {AIR_HE_NE_PRESETS.map(preset => (
+                  <option key={preset.id} value={preset.value}>{preset.label} – {preset.value}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs text-gray-600 mb-1">맨틀 R/Ra</label>
+              <div className="flex gap-1">
+                <input
+                  type="number"
+                  min={0}
+                  step={0.1}
+                  value={options.endmembers.mantle.rRa}
+                  onChange={(e) => setEndmember('mantle', 'rRa', parseFloat(e.target.value) || 0)}
+                  className="w-20 p-2 text-sm border border-gray-300 rounded-md"
+                />
+                {MANTLE_PRESETS.map(preset => (
+                  <button
+                    key={preset.label}
+                    onClick={() => setEndmember('mantle', 'rRa', preset.value)}
+                    className={`px-2 text-xs rounded-md border ${
+                      options.endmembers.mantle.rRa === preset.value ? 'bg-emerald-600 text-white border-emerald-600' : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+                    }`}
+                  >
+                    {preset.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div>
+              <label className="block text-xs text-gray-600 mb-1">지각 R/Ra</label>
+              <input
+                type="number"
+                min={0}
+                step={0.01}
+                value={options.endmembers.crust.rRa}
+                onChange={(e) => setEndmember('crust', 'rRa', parseFloat(e.target.value) || 0)}
+                className="w-full p-2 text-sm border border-gray-300 rounded-md"
+              />
+            </div>
+          </div>
+
+          {/* 시료별 결과 */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <p className="text-xs text-gray-600">
+                계산된 시료 {computed.length}/{data.data.length}개
+                {outside.length > 0 && <span className="text-orange-600"> · 세 성분 혼합 범위 밖 {outside.length}개</span>}
+                {' '}· 맨틀·지각 4He/20Ne = {options.endmembers.mantle.heNe}
+              </p>
+              {onDataUpdate && (
+                <button
+                  onClick={handleAddColumns}
+                  disabled={computed.length === 0}
+                  className="px-3 py-1.5 text-sm text-white bg-emerald-600 rounded-md hover:bg-emerald-700 disabled:opacity-50"
+                >
+                  결과를 컬럼으로 추가
+                </button>
+              )}
+            </div>
+            <div className="max-h-72 overflow-auto border border-gray-200 rounded-md">
+              <table className="min-w-full text-xs">
+                <thead className="bg-gray-50 sticky top-0">
+                  <tr className="text-left text-gray-500">
+                    <th className="px-2 py-1">#</th>
+                    {typeColumn && <th className="px-2 py-1">{typeColumn}</th>}
+                    <th className="px-2 py-1 text-right">R/Ra</th>
+                    <th className="px-2 py-1 text-right">4He/20Ne</th>
+                    <th className="px-2 py-1 text-right">X</th>
+                    <th className="px-2 py-1 text-right">Rc/Ra</th>
+                    {SOURCES.map(source => (
+                      <th key={source} className="px-2 py-1 text-right">{HELIUM_SOURCE_LABELS[source]} (%)</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {samples.map(s => (
+                    <tr key={s.index} className={`border-t border-gray-100 ${s.outside ? 'text-orange-600' : ''}`}>
+                      <td className="px-2 py-1 text-gray-500">{s.index + 1}</td>
+                      {typeColumn && <td className="px-2 py-1">{String(data.data[s.index][typeColumn] ?? '')}</td>}
+                      <td className="px-2 py-1 text-right">{formatValue(s.rRa, 3)}</td>
+                      <td className="px-2 py-1 text-right">{formatValue(s.heNe)}</td>
+                      <td className="px-2 py-1 text-right">{formatValue(s.x, 1)}</td>
+                      <td className="px-2 py-1 text-right">{formatValue(s.rcRa, 3)}</td>
+                      {SOURCES.map(source => (
+                        <td key={source} className="px-2 py-1 text-right">
+                          {s.fractions ? (s.fractions[source] * 100).toFixed(1) : '–'}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="mt-2 text-xs text-gray-600">
+              Rc/Ra = ((R/Ra)·X − 1)/(X − 1), X = (4He/20Ne)시료/(4He/20Ne)대기 (Craig et al., 1978; Hilton, 1996). X ≤ 1이면 보정하지 않습니다.
+              성분 비율은 맨틀·지각·대기 3성분 혼합의 4He 기여율입니다 (Sano &amp; Wakita, 1985).
+            </p>
+          </div>
+
+          {/* R/Ra – 4He/20Ne 혼합 도표 */}
+          {computed.length > 0 && (
+            <div>
+              <h3 className="text-lg font-medium text-gray-800 mb-2">R/Ra – 4He/20Ne 혼합 도표</h3>
+              <ScatterPlot
+                data={plotData}
+                selectedColumns={selectedColumns}
+                statistics={statistics}
+                initialGraphSettings={{
+                  xLogScale: true,
+                  yLogScale: true,
+                  axisRange: { xMin: 0.1, xMax: 10000, yMin: 0.01, yMax: 100 },
+                  showOverallTrend: false
+                }}
+                overlayCurves={overlayCurves}
+              />
+              <p className="mt-2 text-xs text-gray-600">
+                곡선: 대기와 맨틀–지각 혼합 성분 사이의 이론 혼합선 (맨틀 비율별). 선의 끝은 각 심부 성분의 4He/20Ne입니다.
+              </p>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
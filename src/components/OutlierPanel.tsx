@@ -0,0 +1,345 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { ShieldAlert } from 'lucide-react'
+import { ColumnSelection, GeochemData, StatisticalResult } from '@/types/geochem'
+import { getAxisValueWithUnits, getRatioUnitFactor } from '@/lib/units'
+import { calculateStatistics } from '@/lib/statistics'
+import { toSourceRowIndex } from '@/lib/exclusion'
+import {
+  UNIVARIATE_OUTLIER_LABELS,
+  UnivariateOutlierMethod,
+  compareStatisticsWithExclusion,
+  pairInfluence,
+  robustMahalanobis,
+  univariateOutliers
+} from '@/lib/outliers'
+
+interface OutlierPanelProps {
+  data: GeochemData
+  selectedColumns: ColumnSelection
+  onExcludeRows?: (rows: number[]) => void  // 원본 행 인덱스를 전체 분석에서 제외
+}
+
+// 비교 표에 표시할 통계량
+const COMPARED_STATISTICS: { key: keyof StatisticalResult; label: string; isPValue?: boolean }[] = [
+  { key: 'pearsonCorr', label: 'Pearson r' },
+  { key: 'pearsonP', label: 'Pearson p', isPValue: true },
+  { key: 'spearmanCorr', label: 'Spearman ρ' },
+  { key: 'spearmanP', label: 'Spearman p', isPValue: true },
+  { key: 'kendallCorr', label: 'Kendall τ' },
+  { key: 'kendallP', label: 'Kendall p', isPValue: true },
+  { key: 'rSquared', label: 'R²' },
+  { key: 'linearSlope', label: '기울기' },
+  { key: 'linearIntercept', label: '절편' }
+]
+
+export default function OutlierPanel({ data, selectedColumns, onExcludeRows }: OutlierPanelProps) {
+  const [univariateMethod, setUnivariateMethod] = useState<UnivariateOutlierMethod | 'none'>('mad')
+  const [useMahalanobis, setUseMahalanobis] = useState(true)
+  const [extraVariables, setExtraVariables] = useState<string[]>([])
+  const [useCooks, setUseCooks] = useState(true)
+  const [excluded, setExcluded] = useState<Set<number>>(new Set())
+
+  // 축이 바뀌면 제외 목록 초기화
+  useEffect(() => {
+    setExcluded(new Set())
+  }, [data, selectedColumns.x, selectedColumns.y])
+
+  // 행별 축 값 (결측은 NaN, 행 인덱스 유지)
+  const values = useMemo(() => {
+    const axisValues = (config: NonNullable<ColumnSelection['x']>) => {
+      const ratioFactor = config.type === 'ratio' ? getRatioUnitFactor(data, config.numerator, config.denominator!) : 1
+      return data.data.map(row => {
+        const value = getAxisValueWithUnits(data, row, config, ratioFactor)
+        return isFinite(value) ? value : NaN
+      })
+    }
+    if (!selectedColumns.x || !selectedColumns.y) return null
+    return { x: axisValues(selectedColumns.x), y: axisValues(selectedColumns.y) }
+  }, [data, selectedColumns.x, selectedColumns.y])
+
+  const detection = useMemo(() => {
+    if (!values) return null
+    const { x, y } = values
+    const n = x.length
+
+    const univariate = univariateMethod === 'none'
+      ? null
+      : { x: univariateOutliers(x, univariateMethod), y: univariateOutliers(y, univariateMethod) }
+
+    // 축 두 변수 + 추가 변수로 로버스트 마할라노비스 거리
+    let mahalanobis: ReturnType<typeof robustMahalanobis> | null = null
+    let mahalanobisError = ''
+    if (useMahalanobis) {
+      try {
+        const extra = extraVariables.map(column => data.data.map(row => parseFloat(row[column])))
+        mahalanobis = robustMahalanobis(x.map((xi, i) => [xi, y[i], ...extra.map(values => values[i])]))
+      } catch (error) {
+        mahalanobisError = error instanceof Error ? error.message : '로버스트 마할라노비스 거리 계산에 실패했습니다.'
+      }
+    }
+
+    const influence = useCooks ? pairInfluence(x, y) : null
+
+    const flagged: { index: number; reasons: string[] }[] = []
+    for (let i = 0; i < n; i++) {
+      if (!isFinite(x[i]) || !isFinite(y[i])) continue
+      const reasons: string[] = []
+      if (univariate?.x[i]) reasons.push(`X ${univariateMethod.toUpperCase()}`)
+      if (univariate?.y[i]) reasons.push(`Y ${univariateMethod.toUpperCase()}`)
+      if (mahalanobis?.flags[i]) reasons.push(`MCD d = ${mahalanobis.distances[i].toFixed(2)}`)
+      if (influence?.flags[i]) reasons.push(`Cook D = ${influence.cooksDistance[i].toFixed(3)}`)
+      if (reasons.length > 0) flagged.push({ index: i, reasons })
+    }
+
+    return { flagged, mahalanobis, mahalanobisError, influence }
+  }, [values, data.data, univariateMethod, useMahalanobis, extraVariables, useCooks])
+
+  // 표시된 샘플을 하나씩 뺐을 때 Pearson r 변화
+  const singleRemovalDelta = useMemo(() => {
+    if (!values || !detection) return new Map<number, number>()
+    const base = calculateStatistics(values.x, values.y, ['pearson']).pearsonCorr
+    const deltas = new Map<number, number>()
+    if (base === undefined) return deltas
+    detection.flagged.forEach(({ index }) => {
+      const r = calculateStatistics(
+        values.x.filter((_, i) => i !== index),
+        values.y.filter((_, i) => i !== index),
+        ['pearson']
+      ).pearsonCorr
+      if (r !== undefined) deltas.set(index, r - base)
+    })
+    return deltas
+  }, [values, detection])
+
+  const comparison = useMemo(() =>
+    values ? compareStatisticsWithExclusion(values.x, values.y, excluded) : null,
+    [values, excluded])
+
+  if (!values || !detection) return null
+
+  const validCount = values.x.filter((xi, i) => isFinite(xi) && isFinite(values.y[i])).length
+  const labelColumn = data.nonNumericColumns[0]
+  // 행 번호는 행 제외 전 원본 기준
+  const sampleLabel = (index: number) => {
+    const rowNumber = toSourceRowIndex(data, index) + 1
+    return labelColumn && data.data[index][labelColumn] != null && data.data[index][labelColumn] !== ''
+      ? `${data.data[index][labelColumn]} (행 ${rowNumber})`
+      : `행 ${rowNumber}`
+  }
+
+  const handleExcludeFromAnalysis = () => {
+    if (!onExcludeRows || excluded.size === 0) return
+    if (!confirm(`선택한 ${excluded.size}개 샘플을 모든 분석 모드에서 제외하시겠습니까?\n데이터 미리보기의 행 제외 설정에서 되돌릴 수 있습니다.`)) return
+    onExcludeRows(Array.from(excluded).map(index => toSourceRowIndex(data, index)))
+  }
+
+  const toggleExcluded = (index: number) => {
+    setExcluded(prev => {
+      const next = new Set(prev)
+      if (next.has(index)) next.delete(index)
+      else next.add(index)
+      return next
+    })
+  }
+
+  const formatStat = (value: number | undefined, isPValue?: boolean) => {
+    if (value === undefined || isNaN(value)) return '-'
+    if (isPValue) return value < 0.001 ? value.toExponential(2) : value.toFixed(4)
+    return Math.abs(value) >= 1000 || (Math.abs(value) < 1e-3 && value !== 0) ? value.toExponential(3) : value.toFixed(4)
+  }
+
+  const formatChange = (before: number | undefined, after: number | undefined, isPValue?: boolean) => {
+    if (before === undefined || after === undefined || isNaN(before) || isNaN(after)) return '-'
+    if (isPValue) return after === 0 || before === 0 ? '-' : `×${(after / before).toPrecision(2)}`
+    const delta = after - before
+    const percent = before !== 0 ? ` (${delta >= 0 ? '+' : ''}${((delta / Math.abs(before)) * 100).toFixed(1)}%)` : ''
+    return `${delta >= 0 ? '+' : ''}${formatStat(delta)}${percent}`
+  }
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-lg font-medium text-gray-800 flex items-center">
+        <ShieldAlert className="h-5 w-5 mr-2" />
+        이상치 진단
+      </h3>
+
+      {/* 설정 */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">단변량 (X, Y 각각)</label>
+          <select
+            value={univariateMethod}
+            onChange={(e) => setUnivariateMethod(e.target.value as UnivariateOutlierMethod | 'none')}
+            className="w-full p-2 text-sm border border-gray-300 rounded-md"
+          >
+            <option value="none">사용 안 함</option>
+            {(Object.keys(UNIVARIATE_OUTLIER_LABELS) as UnivariateOutlierMethod[]).map(method => (
+              <option key={method} value={method}>{UNIVARIATE_OUTLIER_LABELS[method]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="flex items-center text-sm font-medium text-gray-700 mb-1">
+            <input
+              type="checkbox"
+              checked={useMahalanobis}
+              onChange={(e) => setUseMahalanobis(e.target.checked)}
+              className="mr-2"
+            />
+            로버스트 마할라노비스 (MCD, χ² 97.5%)
+          </label>
+          <select
+            multiple
+            value={extraVariables}
+            disabled={!useMahalanobis}
+            onChange={(e) => setExtraVariables(Array.from(e.target.selectedOptions, option => option.value))}
+            className="w-full p-1 text-xs border border-gray-300 rounded-md h-20"
+            title="X, Y 외에 함께 볼 변수 (Ctrl/Cmd로 여러 개 선택)"
+          >
+            {data.numericColumns.map(col => (
+              <option key={col} value={col}>{col}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="flex items-center text-sm font-medium text-gray-700 mb-1">
+            <input
+              type="checkbox"
+              checked={useCooks}
+              onChange={(e) => setUseCooks(e.target.checked)}
+              className="mr-2"
+            />
+            회귀 영향점 (Cook 거리 &gt; 4/n)
+          </label>
+          {detection.influence && (
+            <p className="text-xs text-gray-500">
+              레버리지 기준 {formatStat(detection.influence.leverageCutoff)}, Cook 거리 기준 {formatStat(detection.influence.cooksCutoff)}
+            </p>
+          )}
+        </div>
+      </div>
+
+      {detection.mahalanobisError && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          {detection.mahalanobisError}
+        </div>
+      )}
+
+      {/* 표시된 샘플 */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="text-sm font-medium text-gray-700">
+            표시된 샘플 {detection.flagged.length}개
+            {excluded.size > 0 && <span className="ml-2 text-red-600">(제외 {excluded.size}개)</span>}
+          </h4>
+          {detection.flagged.length > 0 && (
+            <div className="flex gap-2">
+              <button
+                onClick={() => setExcluded(new Set(detection.flagged.map(f => f.index)))}
+                className="px-3 py-1 text-xs bg-red-50 text-red-700 border border-red-200 rounded-md hover:bg-red-100"
+              >
+                모두 제외
+              </button>
+              <button
+                onClick={() => setExcluded(new Set())}
+                className="px-3 py-1 text-xs bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200"
+              >
+                모두 포함
+              </button>
+              {onExcludeRows && excluded.size > 0 && (
+                <button
+                  onClick={handleExcludeFromAnalysis}
+                  className="px-3 py-1 text-xs bg-red-600 text-white rounded-md hover:bg-red-700"
+                >
+                  전체 분석에서 제외
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+
+        {detection.flagged.length === 0 ? (
+          <p className="text-sm text-gray-500">선택한 기준으로 표시된 샘플이 없습니다.</p>
+        ) : (
+          <div className="max-h-64 overflow-y-auto border border-gray-200 rounded-md">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr className="text-gray-600">
+                  <th className="p-2 text-left font-medium">제외</th>
+                  <th className="p-2 text-left font-medium">샘플</th>
+                  <th className="p-2 text-right font-medium">{selectedColumns.x?.label}</th>
+                  <th className="p-2 text-right font-medium">{selectedColumns.y?.label}</th>
+                  <th className="p-2 text-left font-medium">근거</th>
+                  <th className="p-2 text-right font-medium" title="이 샘플 하나만 뺐을 때 Pearson r 변화">Δr (단독 제외)</th>
+                </tr>
+              </thead>
+              <tbody>
+                {detection.flagged.map(({ index, reasons }) => (
+                  <tr key={index} className={`border-t border-gray-100 ${excluded.has(index) ? 'bg-red-50' : ''}`}>
+                    <td className="p-2">
+                      <input type="checkbox" checked={excluded.has(index)} onChange={() => toggleExcluded(index)} />
+                    </td>
+                    <td className="p-2 text-gray-800">{sampleLabel(index)}</td>
+                    <td className="p-2 text-right font-mono">{formatStat(values.x[index])}</td>
+                    <td className="p-2 text-right font-mono">{formatStat(values.y[index])}</td>
+                    <td className="p-2">
+                      <div className="flex flex-wrap gap-1">
+                        {reasons.map(reason => (
+                          <span key={reason} className="px-1.5 py-0.5 text-xs bg-amber-100 text-amber-800 rounded">{reason}</span>
+                        ))}
+                      </div>
+                    </td>
+                    <td className="p-2 text-right font-mono">
+                      {singleRemovalDelta.has(index)
+                        ? `${singleRemovalDelta.get(index)! >= 0 ? '+' : ''}${singleRemovalDelta.get(index)!.toFixed(3)}`
+                        : '-'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* 제외 전후 비교 */}
+      {comparison && (
+        <div>
+          <h4 className="text-sm font-medium text-gray-700 mb-2">
+            제외 전후 통계 비교 (n = {validCount}{comparison.removedCount > 0 && ` → ${validCount - comparison.removedCount}`})
+          </h4>
+          {comparison.excluded.error ? (
+            <p className="text-sm text-red-600">{comparison.excluded.error}</p>
+          ) : (
+            <table className="w-full text-sm border border-gray-200 rounded-md">
+              <thead className="bg-gray-50">
+                <tr className="text-gray-600">
+                  <th className="p-2 text-left font-medium">통계량</th>
+                  <th className="p-2 text-right font-medium">전체</th>
+                  <th className="p-2 text-right font-medium">제외 후</th>
+                  <th className="p-2 text-right font-medium">변화</th>
+                </tr>
+              </thead>
+              <tbody>
+                {COMPARED_STATISTICS.map(({ key, label, isPValue }) => {
+                  const before = comparison.all[key] as number | undefined
+                  const after = comparison.excluded[key] as number | undefined
+                  return (
+                    <tr key={key} className="border-t border-gray-100">
+                      <td className="p-2 text-gray-700">{label}</td>
+                      <td className="p-2 text-right font-mono">{formatStat(before, isPValue)}</td>
+                      <td className="p-2 text-right font-mono">{comparison.removedCount > 0 ? formatStat(after, isPValue) : '-'}</td>
+                      <td className="p-2 text-right font-mono">{comparison.removedCount > 0 ? formatChange(before, after, isPValue) : '-'}</td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -2,6 +2,7 @@
 
 import { useState } from 'react'
 import { ScanResult, ScanSummary, GeochemData } from '@/types/geochem'
+import { P_CORRECTION_LABELS } from '@/lib/statistics'
 import { X, FileText, Download, Printer, Brain, BarChart3 } from 'lucide-react'
 
 interface PDFReportProps {
@@ -31,6 +32,22 @@ export default function PDFReport({
     .sort((a, b) => Math.abs(b.statistics.pearsonCorr || 0) - Math.abs(a.statistics.pearsonCorr || 0))
     .slice(0, 10)
 
+  // 유의성 기준 (다중 비교 보정 포함)
+  const pThreshold = scanSummary.scanOptions?.pThreshold ?? 0.05
+  const rThreshold = scanSummary.scanOptions?.threshold ?? 0.5
+  const pCorrection = scanSummary.scanOptions?.pCorrection || 'none'
+  const correctionLabel = P_CORRECTION_LABELS[pCorrection]
+
+  const formatPValue = (p: number, digits: number) => (p < 0.001 ? '< 0.001' : '= ' + p.toFixed(digits))
+
+  const formatSignificance = (result: ScanResult, digits: number) => {
+    const raw = `p ${formatPValue(result.statistics.pearsonP || 0, digits)}`
+    const adjusted = result.statistics.pearsonPAdjusted
+    return pCorrection !== 'none' && adjusted !== undefined
+      ? `${raw}, adjusted p ${formatPValue(adjusted, digits)} (${correctionLabel})`
+      : raw
+  }
+
   const generateDetailedReport = () => {
     return `
       <div class="detailed-report">
@@ -42,7 +59,7 @@ export default function PDFReport({
         </div>
 
         <h2>Executive Summary</h2>
-        <p>This report presents a comprehensive geochemical correlation analysis of ${data.data.length} samples across ${data.numericColumns.length + data.nonNumericColumns.length} geochemical variables. The analysis identified ${significantResults.length} statistically significant correlations (p &lt; 0.05, |r| &gt; 0.5) out of ${scanResults.length} possible variable combinations.</p>
+        <p>This report presents a comprehensive geochemical correlation analysis of ${data.data.length} samples across ${data.numericColumns.length + data.nonNumericColumns.length} geochemical variables. The analysis identified ${significantResults.length} statistically significant correlations (${pCorrection !== 'none' ? `${correctionLabel}-adjusted p` : 'p'} &le; ${pThreshold}, |r| &ge; ${rThreshold}) out of ${scanResults.length} possible variable combinations.</p>
 
         ${scanSummary.aiRecommendationsUsed ? `
         <h2>AI-Enhanced Analysis</h2>
@@ -50,7 +67,7 @@ export default function PDFReport({
         ` : ''}
 
         <h2>Methodology</h2>
-        <p>The correlation analysis employed Pearson correlation coefficients to quantify linear relationships between geochemical variables. Statistical significance was assessed using p-values, with α = 0.05 as the significance threshold. Effect sizes were interpreted following Cohen's conventions: small (|r| = 0.1), medium (|r| = 0.3), and large (|r| = 0.5) effects.</p>
+        <p>The correlation analysis employed Pearson correlation coefficients to quantify linear relationships between geochemical variables. Statistical significance was assessed using p-values, with α = ${pThreshold} as the significance threshold${pCorrection === 'none' ? ' and no correction for multiple comparisons' : pCorrection === 'bh' ? `; p-values were adjusted across all ${scanResults.length} tested combinations with the Benjamini–Hochberg procedure, controlling the false discovery rate` : `; p-values were adjusted across all ${scanResults.length} tested combinations with the ${correctionLabel} procedure, controlling the family-wise error rate`}. Effect sizes were interpreted following Cohen's conventions: small (|r| = 0.1), medium (|r| = 0.3), and large (|r| = 0.5) effects.</p>
 
         <h2>Key Findings</h2>
         <div class="findings">
@@ -59,7 +76,7 @@ export default function PDFReport({
               <h3>${index + 1}. ${result.xLabel} vs ${result.yLabel}</h3>
               <ul>
                 <li><strong>Correlation:</strong> r = ${(result.statistics.pearsonCorr || 0).toFixed(4)} (${Math.abs(result.statistics.pearsonCorr || 0) > 0.7 ? 'Strong' : Math.abs(result.statistics.pearsonCorr || 0) > 0.5 ? 'Moderate' : 'Weak'})</li>
-                <li><strong>Statistical Significance:</strong> p ${(result.statistics.pearsonP || 0) < 0.001 ? '< 0.001' : '= ' + (result.statistics.pearsonP || 0).toFixed(4)}</li>
+                <li><strong>Statistical Significance:</strong> ${formatSignificance(result, 4)}</li>
                 <li><strong>Effect Size:</strong> R² = ${(result.statistics.rSquared || 0).toFixed(4)} (${((result.statistics.rSquared || 0) * 100).toFixed(1)}% of variance explained)</li>
                 ${result.aiRecommended ? `<li><strong>AI Assessment:</strong> ${result.aiReason || 'Geochemically significant relationship identified'}</li>` : ''}
               </ul>
@@ -76,6 +93,7 @@ export default function PDFReport({
             <tr><th>Metric</th><th>Value</th></tr>
             <tr><td>Total Combinations Analyzed</td><td>${scanResults.length}</td></tr>
             <tr><td>Significant Correlations</td><td>${significantResults.length}</td></tr>
+            <tr><td>Multiple-Testing Correction</td><td>${correctionLabel}</td></tr>
             <tr><td>Significance Rate</td><td>${((significantResults.length / scanResults.length) * 100).toFixed(1)}%</td></tr>
             <tr><td>Strongest Correlation</td><td>|r| = ${Math.max(...scanResults.map(r => Math.abs(r.statistics.pearsonCorr || 0))).toFixed(4)}</td></tr>
             ${scanSummary.aiRecommendationsUsed ? `<tr><td>AI Recommendations</td><td>${aiRecommended.length}</td></tr>` : ''}
@@ -150,7 +168,7 @@ export default function PDFReport({
                 r = ${(result.statistics.pearsonCorr || 0).toFixed(3)}
               </div>
               <div class="p-value">
-                p ${(result.statistics.pearsonP || 0) < 0.001 ? '< 0.001' : '= ' + (result.statistics.pearsonP || 0).toFixed(3)}
+                ${formatSignificance(result, 3)}
               </div>
               ${result.aiRecommended ? `
                 <div class="ai-badge">🤖 AI Recommended</div>
@@ -432,7 +450,7 @@ export default function PDFReport({
                          <div className="text-sm text-gray-600 space-y-1">
                <p>• 데이터: {data.data.length}개 샘플</p>
                <p>• 분석 조합: {scanResults.length}개</p>
-               <p>• 유의한 상관관계: {significantResults.length}개</p>
+               <p>• 유의한 상관관계: {significantResults.length}개 (다중 비교 보정: {correctionLabel})</p>
                {scanSummary.aiRecommendationsUsed && (
                  <p>• AI 추천: {aiRecommended.length}개</p>
                )}
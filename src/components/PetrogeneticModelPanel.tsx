@@ -0,0 +1,421 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { Plus, Trash2 } from 'lucide-react'
+import { ColumnSelection, GeochemData, PetrogeneticModel, PetrogeneticModelType } from '@/types/geochem'
+import {
+  F_DESCRIPTIONS,
+  KD_ELEMENTS,
+  MINERAL_LABELS,
+  PETROGENETIC_MODEL_LABELS,
+  bulkPartitionCoefficient,
+  compositionFromRows,
+  createPetrogeneticModel,
+  defaultPartitionCoefficients,
+  missingModelInputs
+} from '@/lib/petrogenesis'
+import { mixingColumns } from '@/lib/mixing'
+import { findElementColumns } from '@/lib/reference-compositions'
+
+interface PetrogeneticModelPanelProps {
+  data: GeochemData
+  selectedColumns: ColumnSelection
+  models: PetrogeneticModel[]
+  colors: string[]
+  onModelsChange: (models: PetrogeneticModel[]) => void
+}
+
+const MODEL_TYPES = Object.keys(PETROGENETIC_MODEL_LABELS) as PetrogeneticModelType[]
+const MINERALS = Object.keys(MINERAL_LABELS)
+
+const formatNumber = (value: number | undefined) =>
+  value === undefined || !isFinite(value) ? '' : Number(value.toPrecision(4))
+
+export default function PetrogeneticModelPanel({ data, selectedColumns, models, colors, onModelsChange }: PetrogeneticModelPanelProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(models[0]?.id ?? null)
+  const [newType, setNewType] = useState<PetrogeneticModelType>('rayleigh')
+  const model = models.find(m => m.id === selectedId) || models[0]
+
+  const typeColumn = selectedColumns.useTypeColumn ? selectedColumns.selectedTypeColumn : undefined
+  const typeGroups = useMemo(() => {
+    const groups: Record<string, number[]> = {}
+    if (!typeColumn) return groups
+    data.data.forEach((row, index) => {
+      const type = String(row[typeColumn] ?? '').trim() || 'Unknown'
+      if (!groups[type]) groups[type] = []
+      groups[type].push(index)
+    })
+    return groups
+  }, [data.data, typeColumn])
+
+  // 현재 축에 쓰인 원소 (표에서 먼저 보여줌)
+  const axisElements = useMemo(() => {
+    const columns = mixingColumns(selectedColumns)
+    const elementColumns = findElementColumns(data, KD_ELEMENTS)
+    return Object.keys(elementColumns).filter(el => columns.includes(elementColumns[el].column))
+  }, [data, selectedColumns])
+
+  const elements = useMemo(() => {
+    if (!model) return []
+    const all = new Set<string>([...KD_ELEMENTS, ...Object.keys(model.initial)])
+    Object.values(model.partitionCoefficients).forEach(kds => Object.keys(kds).forEach(el => all.add(el)))
+    return [...axisElements, ...Array.from(all).filter(el => !axisElements.includes(el))]
+  }, [model, axisElements])
+
+  const activeMinerals = model ? MINERALS.filter(mineral => (model.minerals[mineral] || 0) > 0) : []
+
+  const updateModel = (changes: Partial<PetrogeneticModel>) => {
+    if (!model) return
+    onModelsChange(models.map(m => (m.id === model.id ? { ...m, ...changes } : m)))
+  }
+
+  const handleAdd = () => {
+    const count = models.filter(m => m.type === newType).length
+    const created = createPetrogeneticModel(
+      newType,
+      `${PETROGENETIC_MODEL_LABELS[newType]}${count > 0 ? ` ${count + 1}` : ''}`,
+      colors[models.length % colors.length]
+    )
+    onModelsChange([...models, created])
+    setSelectedId(created.id)
+  }
+
+  const handleDelete = (id: string) => {
+    const target = models.find(m => m.id === id)
+    if (!target || !confirm(`"${target.name}" 모델을 삭제하시겠습니까?`)) return
+    onModelsChange(models.filter(m => m.id !== id))
+    if (selectedId === id) setSelectedId(null)
+  }
+
+  // 시료 행 또는 타입 평균에서 조성 가져오기
+  const pickComposition = (source: string): { values: Record<string, number>; label: string } | null => {
+    if (source === 'row') {
+      const input = prompt(`행 번호를 입력하세요 (1–${data.data.length}, 쉼표로 여러 행이면 평균)`)
+      if (!input) return null
+      const rows = input.split(',').map(s => parseInt(s.trim(), 10) - 1).filter(i => i >= 0 && i < data.data.length)
+      if (rows.length === 0) {
+        alert('올바른 행 번호가 아닙니다.')
+        return null
+      }
+      return { values: compositionFromRows(data, rows, elements), label: `행 ${rows.map(i => i + 1).join(', ')}` }
+    }
+    if (typeGroups[source]) {
+      return { values: compositionFromRows(data, typeGroups[source], elements), label: `${source} 평균` }
+    }
+    return null
+  }
+
+  const handlePickInitial = (source: string) => {
+    const picked = pickComposition(source)
+    if (!picked) return
+    if (Object.keys(picked.values).length === 0) {
+      alert('선택한 시료에서 미량원소 농도를 찾지 못했습니다.')
+      return
+    }
+    updateModel({ initial: picked.values, initialSource: picked.label })
+  }
+
+  const handlePickAssimilant = (source: string) => {
+    const picked = pickComposition(source)
+    if (!picked) return
+    if (Object.keys(picked.values).length === 0) {
+      alert('선택한 시료에서 미량원소 농도를 찾지 못했습니다.')
+      return
+    }
+    updateModel({ assimilant: picked.values, assimilantSource: picked.label })
+  }
+
+  const setComposition = (key: 'initial' | 'assimilant', element: string, raw: string) => {
+    if (!model) return
+    const values = { ...(model[key] || {}) }
+    const value = parseFloat(raw)
+    if (isFinite(value) && value > 0) values[element] = value
+    else delete values[element]
+    updateModel({ [key]: values })
+  }
+
+  const setKd = (mineral: string, element: string, raw: string) => {
+    if (!model) return
+    const kds = { ...(model.partitionCoefficients[mineral] || {}) }
+    const value = parseFloat(raw)
+    if (isFinite(value) && value >= 0) kds[element] = value
+    else delete kds[element]
+    updateModel({ partitionCoefficients: { ...model.partitionCoefficients, [mineral]: kds } })
+  }
+
+  const handleAddElement = () => {
+    if (!model) return
+    const element = prompt('추가할 원소 기호를 입력하세요 (예: Th)')?.trim()
+    if (!element) return
+    if (elements.includes(element)) {
+      alert('이미 표에 있는 원소입니다.')
+      return
+    }
+    const partitionCoefficients = { ...model.partitionCoefficients }
+    for (const mineral of MINERALS) partitionCoefficients[mineral] = { ...(partitionCoefficients[mineral] || {}), [element]: 0 }
+    updateModel({ partitionCoefficients })
+  }
+
+  const handleResetKd = () => {
+    if (!model || !confirm('분배계수를 기본값으로 되돌리시겠습니까? (추가한 원소의 값도 지워집니다)')) return
+    updateModel({ partitionCoefficients: defaultPartitionCoefficients() })
+  }
+
+  const handleFValues = (raw: string) => {
+    const values = raw.split(',').map(s => parseFloat(s.trim())).filter(f => isFinite(f) && f > 0 && f <= 1)
+    if (values.length === 0) {
+      alert('F 값은 0보다 크고 1 이하인 숫자를 쉼표로 구분해 입력하세요.')
+      return
+    }
+    updateModel({ fValues: values })
+  }
+
+  const missing = model ? missingModelInputs(model) : []
+  const mineralTotal = model ? Object.values(model.minerals).reduce((sum, p) => sum + (p > 0 ? p : 0), 0) : 0
+
+  const sourceSelect = (onPick: (source: string) => void) => (
+    <select
+      value=""
+      onChange={(e) => onPick(e.target.value)}
+      className="p-1 text-sm border border-gray-300 rounded-md"
+    >
+      <option value="">시료에서 가져오기...</option>
+      <option value="row">행 번호로 지정...</option>
+      {Object.keys(typeGroups).map(type => (
+        <option key={type} value={type}>{type} 평균 ({typeGroups[type].length})</option>
+      ))}
+    </select>
+  )
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-gray-600">
+        분배계수와 초기 조성으로 용융체 조성 변화를 계산해 산점도와 스파이더 도표에 그립니다.
+        축 컬럼이 모두 원소 농도일 때만 산점도에 곡선이 표시됩니다.
+      </p>
+
+      {/* 모델 목록 */}
+      <div className="space-y-2">
+        {models.map(m => (
+          <div
+            key={m.id}
+            className={`flex items-center gap-2 p-2 rounded-md border cursor-pointer ${
+              model?.id === m.id ? 'border-amber-400 bg-white' : 'border-gray-200 bg-white/60 hover:bg-white'
+            }`}
+            onClick={() => setSelectedId(m.id)}
+          >
+            <input
+              type="checkbox"
+              checked={m.visible}
+              onClick={(e) => e.stopPropagation()}
+              onChange={(e) => onModelsChange(models.map(x => (x.id === m.id ? { ...x, visible: e.target.checked } : x)))}
+              title="표시"
+            />
+            <input
+              type="color"
+              value={m.color}
+              onClick={(e) => e.stopPropagation()}
+              onChange={(e) => onModelsChange(models.map(x => (x.id === m.id ? { ...x, color: e.target.value } : x)))}
+              className="w-6 h-6 border border-gray-300 rounded"
+            />
+            <span className="flex-1 text-sm truncate">{m.name}</span>
+            {missingModelInputs(m).length > 0 && <span className="text-xs text-orange-600">입력 부족</span>}
+            <button
+              onClick={(e) => { e.stopPropagation(); handleDelete(m.id) }}
+              className="p-1 text-gray-400 hover:text-red-600"
+              title="모델 삭제"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </div>
+        ))}
+        <div className="flex gap-2">
+          <select
+            value={newType}
+            onChange={(e) => setNewType(e.target.value as PetrogeneticModelType)}
+            className="flex-1 p-1.5 text-sm border border-gray-300 rounded-md"
+          >
+            {MODEL_TYPES.map(type => <option key={type} value={type}>{PETROGENETIC_MODEL_LABELS[type]}</option>)}
+          </select>
+          <button
+            onClick={handleAdd}
+            className="flex items-center px-3 py-1.5 text-sm text-amber-700 border border-amber-200 bg-amber-50 rounded-md hover:bg-amber-100"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            모델 추가
+          </button>
+        </div>
+      </div>
+
+      {model && (
+        <div className="space-y-4 p-3 bg-white rounded-md border border-gray-200">
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">모델 이름</label>
+            <input
+              type="text"
+              value={model.name}
+              onChange={(e) => updateModel({ name: e.target.value })}
+              className="w-full p-1.5 text-sm border border-gray-300 rounded-md"
+            />
+            <p className="mt-1 text-xs text-gray-500">{PETROGENETIC_MODEL_LABELS[model.type]} · {F_DESCRIPTIONS[model.type]}</p>
+          </div>
+
+          {/* 광물 조합 */}
+          <div>
+            <h4 className="text-sm font-medium text-gray-800 mb-1">
+              {model.type === 'batchMelting' || model.type === 'fractionalMelting' ? '근원암 광물 조합' : '정출 광물 조합'}
+              <span className="ml-2 text-xs font-normal text-gray-500">합 {mineralTotal.toFixed(2)} (합으로 정규화)</span>
+            </h4>
+            <div className="grid grid-cols-4 gap-2">
+              {MINERALS.map(mineral => (
+                <div key={mineral}>
+                  <label className="block text-xs text-gray-600" title={MINERAL_LABELS[mineral]}>{mineral}</label>
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.05}
+                    value={model.minerals[mineral] ?? 0}
+                    onChange={(e) => {
+                      const value = parseFloat(e.target.value)
+                      const minerals = { ...model.minerals }
+                      if (isFinite(value) && value > 0) minerals[mineral] = value
+                      else delete minerals[mineral]
+                      updateModel({ minerals })
+                    }}
+                    className="w-full p-1 text-sm border border-gray-300 rounded-md"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* 초기 조성, 동화 물질 */}
+          <div className="space-y-2 text-sm">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-gray-700">초기 조성 (C0):</span>
+              <span className="text-xs text-gray-500">{model.initialSource || (Object.keys(model.initial).length > 0 ? '직접 입력' : '없음')}</span>
+              {sourceSelect(handlePickInitial)}
+            </div>
+            {model.type === 'afc' && (
+              <>
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-gray-700">동화 물질 (Ca):</span>
+                  <span className="text-xs text-gray-500">{model.assimilantSource || (Object.keys(model.assimilant || {}).length > 0 ? '직접 입력' : '없음')}</span>
+                  {sourceSelect(handlePickAssimilant)}
+                </div>
+                <div className="flex items-center gap-2">
+                  <label className="text-gray-700" title="동화율 / 정출률">r (동화/정출 비):</label>
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.05}
+                    value={model.assimilationRatio ?? ''}
+                    onChange={(e) => {
+                      const value = parseFloat(e.target.value)
+                      if (isFinite(value) && value > 0 && value !== 1) updateModel({ assimilationRatio: value })
+                    }}
+                    className="w-20 p-1 text-sm border border-gray-300 rounded-md"
+                  />
+                  <span className="text-xs text-gray-500">0 &lt; r, r ≠ 1</span>
+                </div>
+              </>
+            )}
+          </div>
+
+          {/* F 값 */}
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">F 눈금 (쉼표로 구분, 곡선은 최소–최대 범위)</label>
+            <input
+              key={`${model.id}-${model.fValues.join(',')}`}
+              type="text"
+              defaultValue={model.fValues.join(', ')}
+              onBlur={(e) => handleFValues(e.target.value)}
+              className="w-full p-1.5 text-sm border border-gray-300 rounded-md"
+            />
+          </div>
+
+          {/* 분배계수 표 */}
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <h4 className="text-sm font-medium text-gray-800">농도 (ppm) · 분배계수 (Kd)</h4>
+              <div className="flex gap-1">
+                <button onClick={handleAddElement} className="px-2 py-1 text-xs border border-gray-300 rounded-md hover:bg-gray-50">
+                  원소 추가
+                </button>
+                <button onClick={handleResetKd} className="px-2 py-1 text-xs border border-gray-300 rounded-md hover:bg-gray-50">
+                  Kd 기본값
+                </button>
+              </div>
+            </div>
+            <div className="max-h-72 overflow-auto border border-gray-200 rounded-md">
+              <table className="min-w-full text-xs">
+                <thead className="bg-gray-50 sticky top-0">
+                  <tr className="text-left text-gray-500">
+                    <th className="px-2 py-1">원소</th>
+                    <th className="px-2 py-1">C0</th>
+                    {model.type === 'afc' && <th className="px-2 py-1">Ca</th>}
+                    {activeMinerals.map(mineral => <th key={mineral} className="px-2 py-1">{mineral}</th>)}
+                    <th className="px-2 py-1 text-right">D</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {elements.map(element => {
+                    const d = bulkPartitionCoefficient(model, element)
+                    return (
+                      <tr key={element} className={`border-t border-gray-100 ${axisElements.includes(element) ? 'bg-amber-50' : ''}`}>
+                        <td className="px-2 py-1 font-medium">{element}</td>
+                        <td className="px-1 py-0.5">
+                          <input
+                            type="number"
+                            step="any"
+                            value={formatNumber(model.initial[element])}
+                            onChange={(e) => setComposition('initial', element, e.target.value)}
+                            className="w-16 p-0.5 text-xs border border-gray-300 rounded"
+                          />
+                        </td>
+                        {model.type === 'afc' && (
+                          <td className="px-1 py-0.5">
+                            <input
+                              type="number"
+                              step="any"
+                              value={formatNumber(model.assimilant?.[element])}
+                              onChange={(e) => setComposition('assimilant', element, e.target.value)}
+                              className="w-16 p-0.5 text-xs border border-gray-300 rounded"
+                            />
+                          </td>
+                        )}
+                        {activeMinerals.map(mineral => (
+                          <td key={mineral} className="px-1 py-0.5">
+                            <input
+                              type="number"
+                              min={0}
+                              step="any"
+                              value={formatNumber(model.partitionCoefficients[mineral]?.[element])}
+                              onChange={(e) => setKd(mineral, element, e.target.value)}
+                              className={`w-16 p-0.5 text-xs border rounded ${
+                                model.partitionCoefficients[mineral]?.[element] === undefined ? 'border-red-300' : 'border-gray-300'
+                              }`}
+                            />
+                          </td>
+                        ))}
+                        <td className="px-2 py-1 text-right">{d === null ? '–' : d.toFixed(3)}</td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+            <p className="mt-1 text-xs text-gray-500">
+              기본 Kd는 현무암질 용융체의 대표값입니다 (Rollinson, 1993). Pr, Tb, Ho, Tm은 이웃 희토류 값의 기하평균입니다.
+              {axisElements.length > 0 && ' 노란 행은 현재 축에 쓰인 원소입니다.'}
+            </p>
+          </div>
+
+          {missing.length > 0 && (
+            <p className="text-sm text-orange-600">입력이 필요합니다: {missing.join(', ')}</p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
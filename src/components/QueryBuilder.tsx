@@ -0,0 +1,170 @@
+'use client'
+
+import { GeochemData, QueryCondition, QueryGroup, QueryOperator } from '@/types/geochem'
+import { Plus, Trash2, FolderPlus } from 'lucide-react'
+import {
+  QUERY_OPERATOR_LABELS,
+  NUMERIC_QUERY_OPERATORS,
+  TEXT_QUERY_OPERATORS,
+  createQueryCondition,
+  createQueryGroup
+} from '@/lib/query'
+
+interface QueryBuilderProps {
+  data: GeochemData
+  group: QueryGroup
+  onChange: (group: QueryGroup) => void
+  onRemove?: () => void  // 하위 그룹 삭제 (최상위 그룹은 없음)
+  depth?: number
+}
+
+// 하위 그룹 중첩 한도
+const MAX_DEPTH = 2
+
+export default function QueryBuilder({ data, group, onChange, onRemove, depth = 0 }: QueryBuilderProps) {
+  const columns = [...data.numericColumns, ...data.nonNumericColumns]
+  const operatorsFor = (column: string) =>
+    data.numericColumns.includes(column) ? NUMERIC_QUERY_OPERATORS : TEXT_QUERY_OPERATORS
+
+  const updateCondition = (id: string, changes: Partial<QueryCondition>) => {
+    onChange({
+      ...group,
+      conditions: group.conditions.map(condition => {
+        if (condition.id !== id) return condition
+        const updated = { ...condition, ...changes }
+        // 컬럼이 바뀌어 조건을 쓸 수 없으면 첫 조건으로
+        if (changes.column !== undefined && !operatorsFor(updated.column).includes(updated.operator)) {
+          updated.operator = operatorsFor(updated.column)[0]
+        }
+        return updated
+      })
+    })
+  }
+
+  const removeCondition = (id: string) => {
+    onChange({ ...group, conditions: group.conditions.filter(condition => condition.id !== id) })
+  }
+
+  const updateChild = (child: QueryGroup) => {
+    onChange({ ...group, groups: group.groups.map(g => g.id === child.id ? child : g) })
+  }
+
+  const removeChild = (id: string) => {
+    onChange({ ...group, groups: group.groups.filter(g => g.id !== id) })
+  }
+
+  return (
+    <div className={`space-y-2 rounded-md p-3 ${depth === 0 ? 'bg-gray-50 border border-gray-200' : 'bg-white border border-dashed border-gray-300'}`}>
+      <div className="flex items-center gap-2 text-sm">
+        <span className="text-gray-600">다음 조건을</span>
+        <select
+          value={group.combinator}
+          onChange={(e) => onChange({ ...group, combinator: e.target.value as 'and' | 'or' })}
+          className="p-1 text-sm border border-gray-300 rounded-md"
+        >
+          <option value="and">모두 만족 (AND)</option>
+          <option value="or">하나 이상 만족 (OR)</option>
+        </select>
+        {onRemove && (
+          <button onClick={onRemove} className="ml-auto text-gray-400 hover:text-red-600" title="그룹 삭제">
+            <Trash2 className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+
+      {group.conditions.map(condition => (
+        <div key={condition.id} className="flex flex-wrap items-center gap-2">
+          <select
+            value={condition.column}
+            onChange={(e) => updateCondition(condition.id, { column: e.target.value })}
+            className="p-1.5 text-sm border border-gray-300 rounded-md"
+          >
+            <option value="">컬럼 선택</option>
+            {columns.map(col => (
+              <option key={col} value={col}>{col}</option>
+            ))}
+          </select>
+          <select
+            value={condition.operator}
+            onChange={(e) => updateCondition(condition.id, { operator: e.target.value as QueryOperator })}
+            className="p-1.5 text-sm border border-gray-300 rounded-md"
+          >
+            {operatorsFor(condition.column).map(operator => (
+              <option key={operator} value={operator}>{QUERY_OPERATOR_LABELS[operator]}</option>
+            ))}
+          </select>
+          {condition.operator === 'between' ? (
+            <>
+              <input
+                type="number"
+                value={condition.value}
+                onChange={(e) => updateCondition(condition.id, { value: e.target.value })}
+                placeholder="최소"
+                className="w-24 p-1.5 text-sm border border-gray-300 rounded-md"
+              />
+              <span className="text-gray-400">–</span>
+              <input
+                type="number"
+                value={condition.value2 || ''}
+                onChange={(e) => updateCondition(condition.id, { value2: e.target.value })}
+                placeholder="최대"
+                className="w-24 p-1.5 text-sm border border-gray-300 rounded-md"
+              />
+            </>
+          ) : condition.operator !== 'missing' && condition.operator !== 'not_missing' && (
+            <input
+              type="text"
+              value={condition.value}
+              onChange={(e) => updateCondition(condition.id, { value: e.target.value })}
+              placeholder="값"
+              className="w-36 p-1.5 text-sm border border-gray-300 rounded-md"
+            />
+          )}
+          <button
+            onClick={() => removeCondition(condition.id)}
+            className="text-gray-400 hover:text-red-600"
+            title="조건 삭제"
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        </div>
+      ))}
+
+      {group.groups.map(child => (
+        <QueryBuilder
+          key={child.id}
+          data={data}
+          group={child}
+          onChange={updateChild}
+          onRemove={() => removeChild(child.id)}
+          depth={depth + 1}
+        />
+      ))}
+
+      <div className="flex gap-3 text-sm">
+        <button
+          onClick={() => onChange({ ...group, conditions: [...group.conditions, createQueryCondition()] })}
+          className="flex items-center text-blue-600 hover:underline"
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          조건 추가
+        </button>
+        {depth < MAX_DEPTH && (
+          <button
+            onClick={() => onChange({
+              ...group,
+              groups: [...group.groups, {
+                ...createQueryGroup(group.combinator === 'and' ? 'or' : 'and'),
+                conditions: [createQueryCondition()]
+              }]
+            })}
+            className="flex items-center text-blue-600 hover:underline"
+          >
+            <FolderPlus className="h-4 w-4 mr-1" />
+            그룹 추가
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -7,11 +7,12 @@ import {
   listAnalysisSettings,
   deleteAnalysisSettings,
   saveAnalysisSettings,
-  loadFullDataset,
+  loadGeochemDataset,
   loadDatasetMeta,
   AnalysisSettings
 } from '@/lib/supabase-data'
 import { supabase } from '@/lib/supabase'
+import { applyDerivedColumns } from '@/lib/expressions'
 import { GeochemData, ColumnSelection, GraphSettings } from '@/types/geochem'
 
 interface SavedAnalysisProps {
@@ -119,6 +120,15 @@ export default function SavedAnalysis({
     }
   }
 
+  // 저장된 파생 컬럼 정의를 다시 계산 (계산할 수 없는 정의는 알림)
+  const withDerivedColumns = (geochemData: GeochemData, definitions: AnalysisSettings['settings']['derivedColumns']) => {
+    const { data: updated, failed } = applyDerivedColumns(geochemData, definitions || [])
+    if (failed.length > 0) {
+      alert(`다음 파생 컬럼을 계산할 수 없습니다:\n${failed.map(f => `${f.name}: ${f.error}`).join('\n')}`)
+    }
+    return updated
+  }
+
   const handleLoad = async (item: AnalysisSettings) => {
     try {
       // 설정에서 데이터 파일명이 있으면 해당 데이터도 로드 시도
@@ -129,28 +139,32 @@ export default function SavedAnalysis({
         // dataset_id가 있으면 해당 데이터셋 로드
         const meta = await loadDatasetMeta(item.dataset_id)
         if (meta) {
-          const rows = await loadFullDataset(item.dataset_id)
+          const loaded = await loadGeochemDataset(meta)
           const geochemData: GeochemData = {
-            data: rows,
-            numericColumns: meta.numeric_columns,
-            nonNumericColumns: meta.non_numeric_columns,
-            fileName: meta.file_name,
-            typeColumn: meta.type_column,
-            datasetId: item.dataset_id,
-            metadata: {
-              fileName: meta.file_name,
-              rowCount: meta.row_count,
-              columnCount: meta.columns.length
-            }
+            ...loaded,
+            units: { ...loaded.units, ...settings.units },
+            exclusion: settings.exclusion,
+            subsets: settings.subsets,
+            activeSubsetId: settings.activeSubsetId
           }
-          onLoadAnalysis(geochemData, settings.selectedColumns, graphSettings)
+          onLoadAnalysis(withDerivedColumns(geochemData, settings.derivedColumns), settings.selectedColumns, graphSettings)
           return
         }
       }
 
       // 데이터 없이 설정만 적용 (현재 데이터 유지)
       if (currentData) {
-        onLoadAnalysis(currentData, settings.selectedColumns, graphSettings)
+        const loaded = {
+          ...currentData,
+          exclusion: settings.exclusion,
+          subsets: settings.subsets,
+          activeSubsetId: settings.activeSubsetId
+        }
+        onLoadAnalysis(
+          settings.derivedColumns ? withDerivedColumns(loaded, settings.derivedColumns) : loaded,
+          settings.selectedColumns,
+          graphSettings
+        )
       } else {
         setError('먼저 데이터를 업로드해주세요')
       }
@@ -1,8 +1,15 @@
 'use client'
 
-import { useState, useEffect, useMemo } from 'react'
-import { GeochemData, ScanResult, ScanOptions, ScanSummary } from '@/types/geochem'
-import { calculateStatistics } from '@/lib/statistics'
+import { useState, useEffect, useMemo, useRef } from 'react'
+import { GeochemData, ScanResult, ScanOptions, ScanSummary, CensoredPolicy, MultipleTestingCorrection, AxisConfig, RatioScanOptions, RatioSharedTermPolicy } from '@/types/geochem'
+import { P_CORRECTION_LABELS } from '@/lib/statistics'
+import { countCensoredCells, CENSORED_POLICY_LABELS } from '@/lib/censored'
+import { ScanCombination, finalizeScanResults, createRatioCombinations, DEFAULT_RATIO_SCAN_OPTIONS, RATIO_SHARED_TERM_LABELS } from '@/lib/scan'
+import { applyExclusion, describeExclusionRule, expandToSourceRows, getExcludedRows } from '@/lib/exclusion'
+import { describeQueryGroup, getActiveSubset } from '@/lib/query'
+import { runPairTasks, PairRun, PairRunProgress } from '@/lib/worker-pool'
+import { scanResultsToRows, scanTypeStatisticsToRows, scanSettingsToRows, exportWorkbook, exportCSV, exportFileName } from '@/lib/results-export'
+import { getAnalysisColumns, LOG_RATIO_LABELS } from '@/lib/compositional'
 import { estimateAPICost, generatePCAInterpretation, PCAInterpretationRequest, PCAInterpretation } from '@/lib/ai-recommendations'
 
 interface AIRecommendation {
@@ -13,13 +20,22 @@ interface AIRecommendation {
   isRatio?: boolean
   ratioName?: string
 }
+// 취소된 스캔 (재개용)
+interface PausedScan {
+  combinations: ScanCombination[]
+  options: ScanOptions
+  completed: Map<number, ScanResult | null>
+  elapsedMs: number
+}
+
 import ScanResultCard from './ScanResultCard'
 import PDFReport from './PDFReport'
+import LogRatioPanel from './LogRatioPanel'
 import { Play, Settings, Download, Filter, TrendingUp, AlertCircle, ChevronLeft, ChevronRight, RotateCcw, Brain, Key, DollarSign, FileText } from 'lucide-react'
 
 interface ScanModeProps {
   data: GeochemData
-  onResultSelect: (xColumn: string, yColumn: string) => void
+  onResultSelect: (xColumn: string, yColumn: string, axes?: { x: AxisConfig; y: AxisConfig }) => void
   selectedTypeColumn?: string
   scanResults?: ScanResult[]
   scanSummary?: ScanSummary | null
@@ -30,7 +46,7 @@ interface ScanModeProps {
 }
 
 export default function ScanMode({ 
-  data, 
+  data: sourceData, 
   onResultSelect, 
   selectedTypeColumn,
   scanResults: externalScanResults = [],
@@ -40,7 +56,15 @@ export default function ScanMode({
   onDataUpdate, // 데이터 업데이트 함수 추가
   onModeChange // 모드 변경 함수 추가
 }: ScanModeProps) {
+  // 스캔·PCA는 제외된 행을 뺀 데이터로
+  const data = useMemo(() => applyExclusion(sourceData), [sourceData])
+  const excludedCount = sourceData.data.length - data.data.length
+  const activeSubset = getActiveSubset(sourceData)
   const [isScanning, setIsScanning] = useState(false)
+  const [scanProgress, setScanProgress] = useState<PairRunProgress | null>(null)
+  const [streamedResults, setStreamedResults] = useState<ScanResult[]>([])
+  const [pausedScan, setPausedScan] = useState<PausedScan | null>(null)
+  const scanRunRef = useRef<PairRun<ScanResult | null> | null>(null)
   const [showPDFReport, setShowPDFReport] = useState(false)
   
   // 고급 통계분석 상태
@@ -84,7 +108,11 @@ export default function ScanMode({
     useAIRecommendations: false,
     aiProvider: 'google',
     sampleDescription: '',
-    aiRecommendationsOnly: false
+    aiRecommendationsOnly: false,
+    censoredPolicy: 'half',
+    pCorrection: 'bh',
+    scanSpace: 'columns',
+    ratioScan: DEFAULT_RATIO_SCAN_OPTIONS
   })
 
   // API 키는 이제 백엔드에서 안전하게 관리됩니다
@@ -118,17 +146,38 @@ export default function ScanMode({
     })
   }, [data.numericColumns])
 
+  // 로그비 변환이 적용되면 원본 성분 대신 변환 변수를 분석
+  const candidateColumns = useMemo(() => getAnalysisColumns(data), [data])
+
   // 실제 분석할 컬럼들
   const analysisColumns = useMemo(() => {
     const excludeList = [...scanOptions.excludeColumns, ...autoExcludeColumns]
-    return data.numericColumns.filter(col => !excludeList.includes(col))
-  }, [data.numericColumns, scanOptions.excludeColumns, autoExcludeColumns])
+    return candidateColumns.filter(col => !excludeList.includes(col))
+  }, [candidateColumns, scanOptions.excludeColumns, autoExcludeColumns])
+
+  // 비율 스캔 조합 (비율 모드일 때만)
+  const ratioScanOptions = scanOptions.ratioScan || DEFAULT_RATIO_SCAN_OPTIONS
+  const ratioPlan = useMemo(() =>
+    scanOptions.scanSpace === 'ratios' ? createRatioCombinations(analysisColumns, ratioScanOptions) : null,
+    [scanOptions.scanSpace, analysisColumns, ratioScanOptions])
+
+  const updateRatioScan = (changes: Partial<RatioScanOptions>) => {
+    setScanOptions(prev => ({ ...prev, ratioScan: { ...(prev.ratioScan || DEFAULT_RATIO_SCAN_OPTIONS), ...changes } }))
+  }
+
+  const toggleRatioTerm = (part: 'numerators' | 'denominators', column: string) => {
+    const current = ratioScanOptions[part]
+    updateRatioScan({
+      [part]: current.includes(column) ? current.filter(c => c !== column) : [...current, column]
+    })
+  }
 
   // 전체 조합 수 계산
   const totalCombinations = useMemo(() => {
+    if (ratioPlan) return ratioPlan.combinations.length
     const n = analysisColumns.length
     return n > 1 ? (n * (n - 1)) / 2 : 0
-  }, [analysisColumns])
+  }, [analysisColumns, ratioPlan])
 
   // 유의미한 결과와 전체 결과 분리
   const significantResults = useMemo(() => 
@@ -215,7 +264,7 @@ export default function ScanMode({
           'Content-Type': 'application/json'
         },
         body: JSON.stringify({
-          columns: data.numericColumns,
+          columns: candidateColumns,
           sampleDescription: scanOptions.sampleDescription || '지구화학 데이터 분석',
           maxRecommendations: 6,
           provider: scanOptions.aiProvider
@@ -260,7 +309,7 @@ export default function ScanMode({
     try {
       // 데이터 준비
       const preparedData: Record<string, number[]> = {}
-      data.numericColumns.forEach(col => {
+      candidateColumns.forEach(col => {
         preparedData[col] = data.data.map(row => parseFloat(row[col])).filter(v => !isNaN(v))
       })
 
@@ -327,7 +376,7 @@ export default function ScanMode({
   }
 
   const selectAllManualVariables = () => {
-    setManualSelectedVariables(new Set(data.numericColumns))
+    setManualSelectedVariables(new Set(candidateColumns))
   }
 
   const clearAllManualVariables = () => {
@@ -405,25 +454,36 @@ export default function ScanMode({
     try {
       // PCA 분석 실행
       const { performPCA } = await import('@/lib/statistics')
-      const pcaResult = performPCA(data.data, variables, 2) // 2 주성분 계산
+      const pcaResult = performPCA(
+        data.data,
+        variables,
+        2, // 2 주성분 계산
+        data.censored ? { policy: scanOptions.censoredPolicy || 'half', cells: data.censored } : undefined
+      )
       
-      // PC1, PC2와 클러스터 정보를 데이터에 추가
-      const enhancedData = data.data.map((row: Record<string, any>, index: number) => {
-        const scores = pcaResult.scores[index]
+      // PC1, PC2와 클러스터 정보를 원본 데이터 행에 추가 (제외된 행은 빈 값)
+      const scoreRows = expandToSourceRows<number[] | undefined>(data, sourceData.data.length, pcaResult.scores, undefined)
+      const clusters = expandToSourceRows(data, sourceData.data.length, pcaResult.clusters, -1)
+      const excludedRows = getExcludedRows(sourceData)
+      const enhancedData = sourceData.data.map((row: Record<string, any>, index: number) => {
+        if (excludedRows.has(index)) {
+          return { ...row, PC1: null, PC2: null, PCA_Cluster: null }
+        }
+        const scores = scoreRows[index]
         return {
           ...row,
           PC1: scores ? scores[0] : 0,
           PC2: scores ? scores[1] : 0,
-          PCA_Cluster: pcaResult.clusters[index] || 0  // 클러스터 정보 추가
+          PCA_Cluster: clusters[index] || 0  // 클러스터 정보 추가
         }
       })
 
       // 기존 데이터 업데이트 (PC1, PC2, 클러스터 정보 추가)
       const updatedData = {
-        ...data,
+        ...sourceData,
         data: enhancedData,
-        numericColumns: [...data.numericColumns.filter(col => col !== 'PC1' && col !== 'PC2'), 'PC1', 'PC2'],
-        pcaResult: pcaResult  // PCA 결과 전체 저장
+        numericColumns: [...sourceData.numericColumns.filter(col => col !== 'PC1' && col !== 'PC2'), 'PC1', 'PC2'],
+        pcaResult: { ...pcaResult, clusters }  // PCA 결과 전체 저장
       }
 
       // 데이터 업데이트 함수가 있다면 호출 (부모 컴포넌트의 데이터 업데이트)
@@ -488,7 +548,7 @@ export default function ScanMode({
     }
 
     // 선택된 변수들만 분석하도록 excludeColumns 설정
-    const variablesToExclude = data.numericColumns.filter(col => !selected.includes(col))
+    const variablesToExclude = candidateColumns.filter(col => !selected.includes(col))
     
     setScanOptions(prev => ({
       ...prev,
@@ -533,154 +593,112 @@ export default function ScanMode({
       return
     }
 
-    setIsScanning(true)
-    setCurrentPage(1) // 페이지 초기화
-    const startTime = Date.now()
-    const results: ScanResult[] = []
-
-    try {
-      // 조합 생성: AI 추천만 사용 또는 모든 조합 (비율 포함)
-      let combinations: Array<{
-        xColumn: string, 
-        yColumn: string, 
-        aiRecommended?: boolean, 
-        aiReason?: string, 
-        aiConfidence?: number,
-        isRatio?: boolean,
-        ratioName?: string
-      }> = []
-      
-      if (scanOptions.aiRecommendationsOnly && aiRecommendations.length > 0) {
-        // AI 추천 조합만 사용 (비율 포함)
-        combinations = aiRecommendations.map(rec => ({
-          xColumn: rec.xColumn,
-          yColumn: rec.yColumn,
-          aiRecommended: true,
-          aiReason: rec.reason,
-          aiConfidence: rec.confidence,
-          isRatio: rec.isRatio,
-          ratioName: rec.ratioName
-        }))
-      } else {
-        // 모든 조합 생성
-        for (let i = 0; i < analysisColumns.length; i++) {
-          for (let j = i + 1; j < analysisColumns.length; j++) {
-            const xColumn = analysisColumns[i]
-            const yColumn = analysisColumns[j]
-            
-            // AI 추천이 있는지 확인
-            const aiRec = aiRecommendations.find(rec => 
-              (rec.xColumn === xColumn && rec.yColumn === yColumn) ||
-              (rec.xColumn === yColumn && rec.yColumn === xColumn)
-            )
-            
-            combinations.push({
-              xColumn,
-              yColumn,
-              aiRecommended: !!aiRec,
-              aiReason: aiRec?.reason,
-              aiConfidence: aiRec?.confidence,
-              isRatio: aiRec?.isRatio,
-              ratioName: aiRec?.ratioName
-            })
-          }
-        }
+    // 조합 생성: AI 추천만 사용 또는 모든 조합 (비율 포함)
+    let combinations: ScanCombination[] = []
+
+    if (scanOptions.aiRecommendationsOnly && aiRecommendations.length > 0) {
+      // AI 추천 조합만 사용 (비율 포함)
+      combinations = aiRecommendations.map(rec => ({
+        xColumn: rec.xColumn,
+        yColumn: rec.yColumn,
+        aiRecommended: true,
+        aiReason: rec.reason,
+        aiConfidence: rec.confidence,
+        isRatio: rec.isRatio,
+        ratioName: rec.ratioName
+      }))
+    } else if (ratioPlan) {
+      // 비율 쌍 조합 (상한을 넘으면 앞쪽 조합만)
+      if (ratioPlan.combinations.length === 0) {
+        alert('조건에 맞는 비율 조합이 없습니다. 분자/분모 컬럼과 공통 항 설정을 확인해주세요.')
+        return
       }
-
-      // 각 조합 분석
-      for (const combination of combinations) {
-        const { xColumn, yColumn, aiRecommended, aiReason, aiConfidence, isRatio, ratioName } = combination
-
-        // 데이터 추출 (비율 계산 포함)
-        const validData = data.data
-          .map(row => {
-            let x = parseFloat(row[xColumn])
-            let y = parseFloat(row[yColumn])
-            
-            // 비율인 경우 계산
-            if (isRatio && ratioName) {
-              // x/y 비율 계산
-              if (y !== 0) {
-                const ratioValue = x / y
-                x = ratioValue
-                y = 1 // 비율이므로 y축은 고정값
-              } else {
-                return null // 0으로 나누기 방지
-              }
-            }
-            
-            return {
-              x,
-              y,
-              type: scanOptions.includeTypeColumn && scanOptions.selectedTypeColumn 
-                ? String(row[scanOptions.selectedTypeColumn]) 
-                : 'default'
-            }
+      if (ratioPlan.totalCombinations > ratioPlan.combinations.length || ratioPlan.totalRatios > ratioPlan.ratioCount) {
+        const confirmed = confirm(
+          `비율 ${ratioPlan.totalRatios}개, 조합 ${ratioPlan.totalCombinations}개 중 상한에 따라 ` +
+          `비율 ${ratioPlan.ratioCount}개, 조합 ${ratioPlan.combinations.length}개만 분석합니다. 계속하시겠습니까?`
+        )
+        if (!confirmed) return
+      }
+      combinations = ratioPlan.combinations
+    } else {
+      // 모든 조합 생성
+      for (let i = 0; i < analysisColumns.length; i++) {
+        for (let j = i + 1; j < analysisColumns.length; j++) {
+          const xColumn = analysisColumns[i]
+          const yColumn = analysisColumns[j]
+
+          // AI 추천이 있는지 확인
+          const aiRec = aiRecommendations.find(rec =>
+            (rec.xColumn === xColumn && rec.yColumn === yColumn) ||
+            (rec.xColumn === yColumn && rec.yColumn === xColumn)
+          )
+
+          combinations.push({
+            xColumn,
+            yColumn,
+            aiRecommended: !!aiRec,
+            aiReason: aiRec?.reason,
+            aiConfidence: aiRec?.confidence,
+            isRatio: aiRec?.isRatio,
+            ratioName: aiRec?.ratioName
           })
-          .filter((point): point is { x: number; y: number; type: string } => 
-            point !== null && !isNaN(point.x) && !isNaN(point.y) && isFinite(point.x) && isFinite(point.y))
-
-        if (validData.length < 3) continue
+        }
+      }
+    }
 
-        const xData = validData.map(d => d.x)
-        const yData = validData.map(d => d.y)
+    setPausedScan(null)
+    await runScan({ combinations, options: scanOptions, completed: new Map(), elapsedMs: 0 })
+  }
 
-        // 통계 계산
-        const statistics = calculateStatistics(xData, yData, scanOptions.statMethods)
+  // 워커 풀에서 조합 분석 (재개 시 이미 받은 결과는 건너뜀)
+  const runScan = async (job: PausedScan) => {
+    const startTime = Date.now()
+    setIsScanning(true)
+    setCurrentPage(1) // 페이지 초기화
+    setStreamedResults(Array.from(job.completed.values()).filter((r): r is ScanResult => r !== null))
+    setScanProgress(null)
 
-        // 유의성 판단
-        let isSignificant = false
-        for (const method of scanOptions.statMethods) {
-          const corrKey = `${method}Corr` as keyof typeof statistics
-          const pKey = `${method}P` as keyof typeof statistics
-          
-          if (statistics[corrKey] && statistics[pKey]) {
-            const corr = Math.abs(statistics[corrKey] as number)
-            const p = statistics[pKey] as number
-            if (corr >= scanOptions.threshold && p <= scanOptions.pThreshold) {
-              isSignificant = true
-              break
-            }
+    try {
+      const run = runPairTasks<ScanResult | null>(
+        { kind: 'scan', data, scanOptions: job.options },
+        job.combinations,
+        {
+          completed: job.completed,
+          onProgress: setScanProgress,
+          onResults: (batch) => {
+            const received = batch.map(b => b.result).filter((r): r is ScanResult => r !== null)
+            if (received.length > 0) setStreamedResults(prev => [...prev, ...received])
           }
         }
+      )
+      scanRunRef.current = run
 
-        results.push({
-          id: `${xColumn}_${yColumn}${isRatio ? '_ratio' : ''}`,
-          xColumn,
-          yColumn,
-          xLabel: isRatio && ratioName ? ratioName : xColumn,
-          yLabel: isRatio ? 'Values' : yColumn,
-          statistics,
-          isSignificant,
-          chartData: validData,
-          dataCount: validData.length,
-          aiRecommended,
-          aiReason,
-          aiConfidence
-        })
-      }
+      const { results: resultMap, cancelled } = await run.promise
+      const elapsedMs = job.elapsedMs + (Date.now() - startTime)
 
-      // 결과 정렬 (유의미한 것들을 상관계수 순으로)
-      results.sort((a, b) => {
-        if (a.isSignificant && !b.isSignificant) return -1
-        if (!a.isSignificant && b.isSignificant) return 1
-        
-        const aPearson = Math.abs(a.statistics.pearsonCorr || 0)
-        const bPearson = Math.abs(b.statistics.pearsonCorr || 0)
-        return bPearson - aPearson
-      })
+      if (cancelled) {
+        setPausedScan({ ...job, completed: resultMap, elapsedMs })
+        return
+      }
 
-      const executionTime = Date.now() - startTime
+      // 조합 순서대로 모아서 보정·정렬 (동기 실행과 같은 결과)
+      const results = finalizeScanResults(
+        job.combinations
+          .map((_, index) => resultMap.get(index))
+          .filter((r): r is ScanResult => !!r),
+        job.options
+      )
       const significantResultsCount = results.filter(r => r.isSignificant).length
 
       const summary: ScanSummary = {
         totalCombinations: results.length,
         significantCombinations: significantResultsCount,
         topResults: results.filter(r => r.isSignificant).slice(0, 10),
-        executionTime,
+        executionTime: elapsedMs,
         fileName: data.fileName,
-        scanOptions,
-        aiRecommendationsUsed: scanOptions.useAIRecommendations,
+        scanOptions: job.options,
+        aiRecommendationsUsed: job.options.useAIRecommendations,
         aiRecommendationsCount: aiRecommendations.length
       }
       
@@ -693,8 +711,68 @@ export default function ScanMode({
       console.error('Scan failed:', error)
       alert('스캔 중 오류가 발생했습니다.')
     } finally {
+      scanRunRef.current = null
       setIsScanning(false)
+      setScanProgress(null)
+      setStreamedResults([])
+    }
+  }
+
+  // 결과 내보내기 (스캔 당시 설정을 함께 기록)
+  const exportScanResults = (format: 'xlsx' | 'csv') => {
+    if (scanResults.length === 0) return
+    const fileName = scanSummary?.fileName || data.fileName
+    if (format === 'csv') {
+      exportCSV(scanResultsToRows(scanResults), exportFileName(fileName, 'scan-results', 'csv'))
+      return
     }
+    exportWorkbook([
+      { name: 'Scan results', rows: scanResultsToRows(scanResults) },
+      { name: 'Per-type statistics', rows: scanTypeStatisticsToRows(scanResults) },
+      {
+        name: 'Settings',
+        rows: scanSettingsToRows(fileName, scanSummary?.scanOptions || scanOptions, {
+          totalCombinations: scanSummary?.totalCombinations,
+          significantCombinations: scanSummary?.significantCombinations,
+          executionTimeMs: scanSummary?.executionTime,
+          aiRecommendationsCount: scanSummary?.aiRecommendationsCount,
+          exclusion: sourceData.exclusion && {
+            excludedRows: excludedCount,
+            manualRows: sourceData.exclusion.manual.map(index => index + 1),
+            rules: sourceData.exclusion.rules.filter(rule => rule.enabled).map(describeExclusionRule)
+          },
+          subset: activeSubset && { name: activeSubset.name, query: describeQueryGroup(activeSubset.query) }
+        })
+      }
+    ], exportFileName(fileName, 'scan-results', 'xlsx'))
+  }
+
+  // 데이터가 바뀌면 중지한 스캔은 이어갈 수 없음
+  useEffect(() => {
+    setPausedScan(null)
+  }, [data])
+
+  const cancelScan = () => {
+    scanRunRef.current?.cancel()
+  }
+
+  const resumeScan = () => {
+    if (!pausedScan) return
+    const job = pausedScan
+    setPausedScan(null)
+    runScan(job)
+  }
+
+  // 진행 중 상위 결과 미리보기 (보정 전, 상관계수 순)
+  const streamedPreview = useMemo(() =>
+    [...streamedResults]
+      .sort((a, b) => Math.abs(b.statistics.pearsonCorr || 0) - Math.abs(a.statistics.pearsonCorr || 0))
+      .slice(0, 5),
+    [streamedResults])
+
+  const formatDuration = (ms: number) => {
+    const seconds = Math.ceil(ms / 1000)
+    return seconds >= 60 ? `${Math.floor(seconds / 60)}분 ${seconds % 60}초` : `${seconds}초`
   }
 
   return (
@@ -739,6 +817,21 @@ export default function ScanMode({
           </div>
         </div>
 
+        {/* 로그비 변환 적용 상태 */}
+        {data.logRatio && (
+          <div className="bg-emerald-50 p-4 rounded-lg mb-4">
+            <div className="flex items-center mb-2">
+              <TrendingUp className="h-4 w-4 text-emerald-600 mr-2" />
+              <span className="text-sm font-medium text-emerald-800">
+                로그비 변환 적용: {LOG_RATIO_LABELS[data.logRatio.method]}
+              </span>
+            </div>
+            <div className="text-sm text-emerald-700">
+              {data.logRatio.sourceColumns.join(', ')} 대신 변환 변수 {data.logRatio.columns.length}개를 분석합니다 (고급 설정에서 변경)
+            </div>
+          </div>
+        )}
+
         {/* 자동 제외된 컬럼들 표시 */}
         {autoExcludeColumns.length > 0 && (
           <div className="bg-yellow-50 p-4 rounded-lg mb-4">
@@ -788,6 +881,73 @@ export default function ScanMode({
             )}
           </button>
         )}
+
+        {/* 스캔 진행 상황 */}
+        {isScanning && (
+          <div className="mt-4 p-4 rounded-lg border-2" style={{borderColor: '#74CEF7', backgroundColor: '#F0FBFF'}}>
+            <div className="flex items-center justify-between mb-2 text-sm" style={{color: '#0357AF'}}>
+              <span>
+                {scanProgress ? `${scanProgress.done} / ${scanProgress.total} 조합` : '준비 중...'}
+                {scanProgress?.etaMs != null && scanProgress.done < scanProgress.total && (
+                  <span className="ml-2 text-gray-500">남은 시간 약 {formatDuration(scanProgress.etaMs)}</span>
+                )}
+              </span>
+              <button
+                onClick={cancelScan}
+                className="px-3 py-1 text-sm bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-100"
+              >
+                취소
+              </button>
+            </div>
+            <div className="w-full h-2 bg-white rounded-full overflow-hidden">
+              <div
+                className="h-full transition-all"
+                style={{
+                  width: `${scanProgress && scanProgress.total > 0 ? (scanProgress.done / scanProgress.total) * 100 : 0}%`,
+                  backgroundColor: '#0357AF'
+                }}
+              />
+            </div>
+            {streamedPreview.length > 0 && (
+              <div className="mt-3">
+                <div className="text-xs text-gray-500 mb-1">지금까지 상관계수 상위 조합 (다중 비교 보정 전)</div>
+                <ul className="text-sm space-y-0.5">
+                  {streamedPreview.map(result => (
+                    <li key={result.id} className="flex justify-between text-gray-700">
+                      <span>{result.xLabel} vs {result.yLabel}</span>
+                      <span className="font-mono">r = {(result.statistics.pearsonCorr || 0).toFixed(3)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* 취소된 스캔 */}
+        {!isScanning && pausedScan && (
+          <div className="mt-4 p-4 rounded-lg border-2 border-yellow-300 bg-yellow-50">
+            <div className="text-sm text-yellow-800 mb-3">
+              스캔이 중지되었습니다: {pausedScan.completed.size} / {pausedScan.combinations.length} 조합 완료
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={resumeScan}
+                className="flex items-center px-4 py-2 text-sm text-white rounded-md"
+                style={{backgroundColor: '#0357AF'}}
+              >
+                <Play className="h-4 w-4 mr-1" />
+                이어서 스캔
+              </button>
+              <button
+                onClick={() => setPausedScan(null)}
+                className="px-4 py-2 text-sm bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-100"
+              >
+                중지한 스캔 버리기
+              </button>
+            </div>
+          </div>
+        )}
       </div>
 
       {/* 고급 설정 패널 */}
@@ -833,6 +993,184 @@ export default function ScanMode({
             </div>
           </div>
 
+          {/* 타입별 스캔 */}
+          <div className="mb-6">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              타입 컬럼
+            </label>
+            <select
+              value={scanOptions.includeTypeColumn ? scanOptions.selectedTypeColumn || '' : ''}
+              onChange={(e) => setScanOptions({
+                ...scanOptions,
+                includeTypeColumn: !!e.target.value,
+                selectedTypeColumn: e.target.value || undefined
+              })}
+              className="w-full p-2 border border-gray-300 rounded-md"
+            >
+              <option value="">사용 안 함</option>
+              {data.nonNumericColumns.map(col => (
+                <option key={col} value={col}>{col}</option>
+              ))}
+            </select>
+            <label className={`flex items-center mt-2 text-sm ${scanOptions.includeTypeColumn ? 'text-gray-700' : 'text-gray-400'}`}>
+              <input
+                type="checkbox"
+                checked={!!scanOptions.perGroup && scanOptions.includeTypeColumn}
+                disabled={!scanOptions.includeTypeColumn}
+                onChange={(e) => setScanOptions({ ...scanOptions, perGroup: e.target.checked })}
+                className="mr-2"
+              />
+              타입별 스캔 (타입마다 상관을 따로 계산)
+            </label>
+            <p className="text-xs text-gray-500 mt-1">
+              한 타입 안에서만 유의한 상관도 찾고, 전체와 타입 내 상관의 부호가 반대인 조합(심슨의 역설)을 표시합니다.
+            </p>
+          </div>
+
+          {/* 스캔 대상 (컬럼 쌍 / 비율 쌍) */}
+          <div className="mb-6">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              스캔 대상
+            </label>
+            <select
+              value={scanOptions.scanSpace || 'columns'}
+              onChange={(e) => setScanOptions({
+                ...scanOptions,
+                scanSpace: e.target.value as 'columns' | 'ratios'
+              })}
+              className="w-full p-2 border border-gray-300 rounded-md"
+            >
+              <option value="columns">컬럼 쌍 (X vs Y)</option>
+              <option value="ratios">비율 쌍 (A/B vs C/D)</option>
+            </select>
+
+            {scanOptions.scanSpace === 'ratios' && (
+              <div className="mt-3 p-4 bg-gray-50 rounded-lg space-y-4">
+                {(['numerators', 'denominators'] as const).map(part => (
+                  <div key={part}>
+                    <div className="text-sm text-gray-700 mb-1">
+                      {part === 'numerators' ? '분자' : '분모'} 컬럼
+                      <span className="ml-1 text-xs text-gray-500">(선택하지 않으면 분석 대상 컬럼 전체)</span>
+                    </div>
+                    <div className="flex flex-wrap gap-1 max-h-28 overflow-y-auto">
+                      {analysisColumns.map(column => {
+                        const selected = ratioScanOptions[part].includes(column)
+                        return (
+                          <button
+                            key={column}
+                            onClick={() => toggleRatioTerm(part, column)}
+                            className={`px-2 py-0.5 text-xs rounded border ${
+                              selected ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-100'
+                            }`}
+                          >
+                            {column}
+                          </button>
+                        )
+                      })}
+                    </div>
+                  </div>
+                ))}
+
+                <div>
+                  <div className="text-sm text-gray-700 mb-1">공통 항이 있는 비율 쌍</div>
+                  <select
+                    value={ratioScanOptions.sharedTerms}
+                    onChange={(e) => updateRatioScan({ sharedTerms: e.target.value as RatioSharedTermPolicy })}
+                    className="w-full p-2 border border-gray-300 rounded-md text-sm"
+                  >
+                    {(Object.keys(RATIO_SHARED_TERM_LABELS) as RatioSharedTermPolicy[]).map(policy => (
+                      <option key={policy} value={policy}>{RATIO_SHARED_TERM_LABELS[policy]}</option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-gray-500 mt-1">
+                    A/A, 역수 비율(A/B와 B/A)은 항상 제외됩니다. 공통 항이 있으면 성분이 서로 독립이어도 상관이 생기므로(허위 상관), 결과마다 기대값을 함께 표시합니다.
+                  </p>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <div className="text-sm text-gray-700 mb-1">비율 수 상한</div>
+                    <input
+                      type="number"
+                      min="2"
+                      value={ratioScanOptions.maxRatios}
+                      onChange={(e) => updateRatioScan({ maxRatios: Math.max(2, parseInt(e.target.value) || 2) })}
+                      className="w-full p-2 border border-gray-300 rounded-md text-sm"
+                    />
+                  </div>
+                  <div>
+                    <div className="text-sm text-gray-700 mb-1">조합 수 상한</div>
+                    <input
+                      type="number"
+                      min="1"
+                      value={ratioScanOptions.maxCombinations}
+                      onChange={(e) => updateRatioScan({ maxCombinations: Math.max(1, parseInt(e.target.value) || 1) })}
+                      className="w-full p-2 border border-gray-300 rounded-md text-sm"
+                    />
+                  </div>
+                </div>
+
+                {ratioPlan && (
+                  <div className="text-xs text-gray-600">
+                    비율 {ratioPlan.ratioCount}개{ratioPlan.totalRatios > ratioPlan.ratioCount && ` (전체 ${ratioPlan.totalRatios}개 중)`},
+                    {' '}조합 {ratioPlan.combinations.length}개{ratioPlan.totalCombinations > ratioPlan.combinations.length && ` (전체 ${ratioPlan.totalCombinations}개 중)`}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* 다중 비교 보정 */}
+          <div className="mb-6">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              다중 비교 보정
+            </label>
+            <select
+              value={scanOptions.pCorrection || 'none'}
+              onChange={(e) => setScanOptions({
+                ...scanOptions,
+                pCorrection: e.target.value as MultipleTestingCorrection
+              })}
+              className="w-full p-2 border border-gray-300 rounded-md"
+            >
+              {(Object.keys(P_CORRECTION_LABELS) as MultipleTestingCorrection[]).map(method => (
+                <option key={method} value={method}>{P_CORRECTION_LABELS[method]}</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">
+              스캔한 전체 조합 수를 기준으로 p-값을 보정하고, 보정된 p-값으로 유의성을 판단합니다.
+            </p>
+          </div>
+
+          {/* 검출한계 미만 값 처리 */}
+          {countCensoredCells(data.censored) > 0 && (
+            <div className="mb-6">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                검출한계 미만 값 처리 ({countCensoredCells(data.censored)}개 셀)
+              </label>
+              <select
+                value={scanOptions.censoredPolicy || 'half'}
+                onChange={(e) => setScanOptions({
+                  ...scanOptions,
+                  censoredPolicy: e.target.value as CensoredPolicy
+                })}
+                className="w-full p-2 border border-gray-300 rounded-md"
+              >
+                {(Object.keys(CENSORED_POLICY_LABELS) as CensoredPolicy[]).map(policy => (
+                  <option key={policy} value={policy}>{CENSORED_POLICY_LABELS[policy]}</option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                스캔 통계와 PCA 분석에 적용됩니다. ROS는 검출값의 로그정규 분포로 미만 값을 추정합니다.
+              </p>
+            </div>
+          )}
+
+          {/* 조성 데이터 로그비 변환 */}
+          <div className="border-t border-gray-200 pt-6 mb-6">
+            <LogRatioPanel data={sourceData} onDataUpdate={onDataUpdate} />
+          </div>
+
           {/* AI 스마트 추천 설정 */}
           <div className="border-t border-gray-200 pt-6">
             <div className="flex items-center mb-4">
@@ -1324,7 +1662,7 @@ export default function ScanMode({
 
                       {/* 변수 목록 */}
                       <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-2 max-h-60 overflow-y-auto p-3 rounded-md" style={{backgroundColor: '#F9FAFB', border: '1px solid #E5E7EB'}}>
-                        {data.numericColumns.map((variable) => (
+                        {candidateColumns.map((variable) => (
                           <label key={variable} className="flex items-center gap-2 cursor-pointer p-2 rounded hover:bg-white transition-all">
                             <input
                               type="checkbox"
@@ -1395,6 +1733,8 @@ export default function ScanMode({
               {/* 분석 현황 */}
               <div className="text-xs p-3 rounded-md" style={{backgroundColor: '#74CEF7', color: 'white'}}>
                 📈 변수 {data.numericColumns.length}개 | 샘플 {data.data.length}개
+                {activeSubset && <span className="ml-2">| 부분집합 {activeSubset.name}</span>}
+                {excludedCount > 0 && <span className="ml-2">| 제외 {excludedCount}행</span>}
                 {scanOptions.sampleDescription && (
                   <span className="ml-2">| {scanOptions.sampleDescription}</span>
                 )}
@@ -1424,6 +1764,22 @@ export default function ScanMode({
                 <FileText className="h-4 w-4 mr-2" />
                 PDF 리포트
               </button>
+              <button
+                onClick={() => exportScanResults('xlsx')}
+                className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+                title="전체 결과와 스캔 설정을 Excel 파일로 저장"
+              >
+                <Download className="h-4 w-4 mr-2" />
+                Excel
+              </button>
+              <button
+                onClick={() => exportScanResults('csv')}
+                className="flex items-center px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                title="전체 결과 표를 CSV 파일로 저장"
+              >
+                <Download className="h-4 w-4 mr-2" />
+                CSV
+              </button>
               {scanSummary && (
                 <div className="text-sm text-gray-600">
                   실행 시간: {(scanSummary.executionTime / 1000).toFixed(1)}초
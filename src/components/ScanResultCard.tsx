@@ -2,12 +2,13 @@
 
 import { useMemo } from 'react'
 import { ScatterChart, Scatter, XAxis, YAxis, ResponsiveContainer } from 'recharts'
-import { ScanResult } from '@/types/geochem'
-import { TrendingUp, TrendingDown, Minus, CheckCircle } from 'lucide-react'
+import { AxisConfig, ScanResult } from '@/types/geochem'
+import { getScanResultAxes } from '@/lib/scan'
+import { TrendingUp, TrendingDown, Minus, CheckCircle, AlertTriangle } from 'lucide-react'
 
 interface ScanResultCardProps {
   result: ScanResult
-  onSelect: (xColumn: string, yColumn: string) => void
+  onSelect: (xColumn: string, yColumn: string, axes?: { x: AxisConfig; y: AxisConfig }) => void
   includeTypeColumn?: boolean
   selectedTypeColumn?: string
   compact?: boolean
@@ -60,12 +61,13 @@ export default function ScanResultCard({
   }
 
   const pearsonCorr = result.statistics.pearsonCorr || 0
-  const pearsonP = result.statistics.pearsonP || 1
+  const pearsonP = result.statistics.pearsonP ?? 1
+  const pearsonPAdjusted = result.statistics.pearsonPAdjusted
   const rSquared = result.statistics.rSquared || 0
 
   return (
     <div 
-      onClick={() => onSelect(result.xColumn, result.yColumn)}
+      onClick={() => onSelect(result.xColumn, result.yColumn, getScanResultAxes(result))}
       className={`bg-white border rounded-lg p-4 cursor-pointer transition-all hover:shadow-lg hover:border-blue-300 hover:scale-105 ${
         result.isSignificant 
           ? 'border-green-300 bg-green-50' 
@@ -134,6 +136,17 @@ export default function ScanResultCard({
             {pearsonP < 0.001 ? '<0.001' : pearsonP.toFixed(3)}
           </span>
         </div>
+
+        {pearsonPAdjusted !== undefined && (
+          <div className="flex justify-between items-center">
+            <span className={`text-gray-600 ${compact ? 'text-xs' : 'text-sm'}`}>보정 P-value:</span>
+            <span className={`font-medium ${compact ? 'text-xs' : 'text-sm'} ${
+              result.isSignificant ? 'text-green-600' : 'text-gray-700'
+            }`}>
+              {pearsonPAdjusted < 0.001 ? '<0.001' : pearsonPAdjusted.toFixed(3)}
+            </span>
+          </div>
+        )}
         
         <div className="flex justify-between items-center">
           <span className={`text-gray-600 ${compact ? 'text-xs' : 'text-sm'}`}>R²:</span>
@@ -149,11 +162,74 @@ export default function ScanResultCard({
             </div>
             <div className="text-xs text-gray-500">
               데이터: {result.dataCount}개
+              {!!result.statistics.censoredCount && (
+                <span className="ml-1">(검출한계 미만 {result.statistics.censoredCount}개 대체)</span>
+              )}
             </div>
           </div>
         )}
       </div>
 
+      {/* 타입별 통계 */}
+      {result.typeStatistics && result.typeStatistics.length > 0 && !compact && (
+        <div className="mt-2 pt-2 border-t border-gray-100">
+          <div className="text-xs text-gray-500 mb-1">
+            타입별 상관
+            {result.withinGroupCorr !== undefined && (
+              <span className="ml-1">(그룹 내 r = {result.withinGroupCorr.toFixed(3)})</span>
+            )}
+          </div>
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-gray-500">
+                <th className="text-left font-normal">타입</th>
+                <th className="text-right font-normal">n</th>
+                <th className="text-right font-normal">r</th>
+                <th className="text-right font-normal">P</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.typeStatistics.map(group => {
+                const p = group.pearsonPAdjusted ?? group.pearsonP
+                return (
+                  <tr
+                    key={group.type}
+                    className={result.significantTypes?.includes(group.type) ? 'text-green-700 font-medium' : 'text-gray-700'}
+                  >
+                    <td className="truncate max-w-[6rem]">{group.type}</td>
+                    <td className="text-right">{group.count}</td>
+                    <td className="text-right">{group.pearsonCorr !== undefined ? group.pearsonCorr.toFixed(3) : '-'}</td>
+                    <td className="text-right">{p !== undefined ? (p < 0.001 ? '<0.001' : p.toFixed(3)) : '-'}</td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {result.simpsonParadox && (
+        <div
+          className={`mt-2 flex items-start ${compact ? 'text-xs' : 'text-sm'} text-red-700 bg-red-50 rounded px-2 py-1`}
+          title="전체 상관이 타입 간 차이에서 생겼을 수 있습니다"
+        >
+          <AlertTriangle className="h-3.5 w-3.5 mr-1 mt-0.5 flex-shrink-0" />
+          <span>심슨의 역설: 전체와 타입 내 상관의 부호가 반대</span>
+        </div>
+      )}
+
+      {result.sharedRatioTerms && (
+        <div
+          className={`mt-2 flex items-start ${compact ? 'text-xs' : 'text-sm'} text-amber-700 bg-amber-50 rounded px-2 py-1`}
+          title="공통 항이 있는 비율끼리는 성분이 서로 독립이어도 상관이 생깁니다 (Pearson 1897)"
+        >
+          <AlertTriangle className="h-3.5 w-3.5 mr-1 mt-0.5 flex-shrink-0" />
+          <span>
+            공통 항 {result.sharedRatioTerms.join(', ')}: 허위 상관 기대값 r ≈ {(result.spuriousCorrelation ?? 0).toFixed(2)}
+          </span>
+        </div>
+      )}
+
       {result.isSignificant && (
         <div className={`mt-2 text-center ${compact ? 'text-xs' : 'text-sm'} text-green-600 font-medium`}>
           ✨ 유의미한 상관관계
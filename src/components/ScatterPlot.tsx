@@ -2,12 +2,17 @@
 
 import { useMemo, useState, useEffect, useRef } from 'react'
 import { ScatterChart, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Cell, LabelList, ErrorBar, Customized } from 'recharts'
-import { GeochemData, StatisticalResult, ColumnSelection, ChartStyleOptions, PlotStyleOptions, GraphSettings, ReferenceImage as ReferenceImageType, CustomAxisRange as CustomAxisRangeType, TrendlineStyle, ErrorBarSettings } from '@/types/geochem'
-import { Settings, Palette, Move3D, Download, Shapes, Eye, EyeOff, ZoomIn, ZoomOut, TrendingUp, TrendingDown, AlertTriangle, Image as ImageIcon, Upload, Trash2, Eye as EyeIcon, Crop as CropIcon, Check, X } from 'lucide-react'
-import { standardDeviation } from 'simple-statistics'
+import { GeochemData, StatisticalResult, ColumnSelection, ChartStyleOptions, PlotStyleOptions, GraphSettings, ReferenceImage as ReferenceImageType, CustomAxisRange as CustomAxisRangeType, TrendlineStyle, ErrorBarSettings, ErrorRegressionResult, RowExclusion, OverlayCurve, PetrogeneticModel } from '@/types/geochem'
+import { Settings, Palette, Move3D, Download, Shapes, Eye, EyeOff, ZoomIn, ZoomOut, TrendingUp, TrendingDown, AlertTriangle, Image as ImageIcon, Upload, Trash2, Eye as EyeIcon, Crop as CropIcon, Check, X, Lasso, Undo2, FlaskConical } from 'lucide-react'
 import { createWorker } from 'tesseract.js'
 import ReactCrop, { Crop, PixelCrop } from 'react-image-crop'
 import 'react-image-crop/dist/ReactCrop.css'
+import { getAxisValueWithUnits, getAxisTitleWithUnits, getRatioUnitFactor } from '@/lib/units'
+import { exportElementAsPNG, exportSVGElement } from '@/lib/chart-export'
+import { calculateErrorValues, regressionBandHalfWidth, ERROR_REGRESSION_LABELS } from '@/lib/regression'
+import { EMPTY_EXCLUSION, getExcludedRows, setRowsExcluded } from '@/lib/exclusion'
+import { petrogeneticOverlayCurves } from '@/lib/petrogenesis'
+import PetrogeneticModelPanel from './PetrogeneticModelPanel'
 
 interface ScatterPlotProps {
   data: GeochemData
@@ -27,6 +32,22 @@ interface ScatterPlotProps {
   }>
   initialGraphSettings?: Partial<GraphSettings>
   onSettingsChange?: (settings: GraphSettings) => void
+  errorRegression?: ErrorRegressionResult | null
+  onExclusionChange?: (exclusion: RowExclusion) => void  // 올가미 선택으로 행 제외/복원
+  overlayCurves?: OverlayCurve[]  // 이론 곡선 (혼합선 등)
+}
+
+// 점이 다각형(픽셀 좌표) 안에 있는지 (ray casting)
+const isPointInPolygon = (x: number, y: number, polygon: { x: number; y: number }[]) => {
+  let inside = false
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i]
+    const b = polygon[j]
+    if ((a.y > y) !== (b.y > y) && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside
+    }
+  }
+  return inside
 }
 
 // 축 범위 타입 직접 정의
@@ -164,14 +185,22 @@ const defaultGraphSettings: GraphSettings = {
   showAllTypeTrends: false,
   visibleTypes: {},
   useVisibleDataRange: false,
-  referenceImages: []
+  referenceImages: [],
+  petrogeneticModels: []
 }
 
 export { defaultGraphSettings }
 
-export default function ScatterPlot({ data, selectedColumns, statistics, isPCAMode = false, clusterData = [], typeStatistics = [], initialGraphSettings, onSettingsChange }: ScatterPlotProps) {
+export default function ScatterPlot({ data, selectedColumns, statistics, isPCAMode = false, clusterData = [], typeStatistics = [], initialGraphSettings, onSettingsChange, errorRegression, onExclusionChange, overlayCurves = [] }: ScatterPlotProps) {
   const chartRef = useRef<HTMLDivElement>(null)
 
+  // 행 제외 (올가미 선택)
+  const exclusion = data.exclusion || EMPTY_EXCLUSION
+  const excludedRows = getExcludedRows(data)
+  const [lassoMode, setLassoMode] = useState<'exclude' | 'restore' | null>(null)
+  const [lassoPath, setLassoPath] = useState<{ x: number; y: number }[]>([])
+  const lassoScalesRef = useRef<{ xScale: (value: number) => number; yScale: (value: number) => number } | null>(null)
+
   // initialGraphSettings에서 초기값 가져오기
   const initSettings = { ...defaultGraphSettings, ...initialGraphSettings }
 
@@ -219,6 +248,10 @@ export default function ScatterPlot({ data, selectedColumns, statistics, isPCAMo
   const [showAxisPanel, setShowAxisPanel] = useState(false)
   const [showErrorBarPanel, setShowErrorBarPanel] = useState(false)
   const [showReferencePanel, setShowReferencePanel] = useState(false)
+  const [showModelPanel, setShowModelPanel] = useState(false)
+
+  // 암석 성인 모델
+  const [petrogeneticModels, setPetrogeneticModels] = useState<PetrogeneticModel[]>(initSettings.petrogeneticModels || [])
 
   // 레퍼런스 이미지 관련 state
   const [referenceImages, setReferenceImages] = useState<ReferenceImage[]>(initSettings.referenceImages as ReferenceImage[])
@@ -295,7 +328,8 @@ export default function ScatterPlot({ data, selectedColumns, statistics, isPCAMo
     showAllTypeTrends,
     visibleTypes,
     useVisibleDataRange,
-    referenceImages: referenceImages as ReferenceImageType[]
+    referenceImages: referenceImages as ReferenceImageType[],
+    petrogeneticModels
   })
 
   // 설정 변경시 콜백 호출
@@ -311,7 +345,7 @@ export default function ScatterPlot({ data, selectedColumns, statistics, isPCAMo
     xNumberFormat, yNumberFormat, xExponentialFormat, yExponentialFormat, xDecimalPlaces, yDecimalPlaces,
     xAxisLabelOffset, yAxisLabelOffset, xErrorBarEnabled, xErrorBarMode, xErrorBarColumn, xErrorBarValue,
     yErrorBarEnabled, yErrorBarMode, yErrorBarColumn, yErrorBarValue, showOverallTrend, showTypeTrends,
-    showAllTypeTrends, visibleTypes, useVisibleDataRange, referenceImages
+    showAllTypeTrends, visibleTypes, useVisibleDataRange, referenceImages, petrogeneticModels
   ])
 
   // 레퍼런스 이미지 OCR 처리
@@ -679,25 +713,18 @@ export default function ScatterPlot({ data, selectedColumns, statistics, isPCAMo
 
     const typeField = getTypeField()
 
+    // 비율 축의 단위 보정 계수
+    const xRatioFactor = selectedColumns.x.type === 'ratio'
+      ? getRatioUnitFactor(data, selectedColumns.x.numerator, selectedColumns.x.denominator!)
+      : 1
+    const yRatioFactor = selectedColumns.y.type === 'ratio'
+      ? getRatioUnitFactor(data, selectedColumns.y.numerator, selectedColumns.y.denominator!)
+      : 1
+
     // 먼저 기본 데이터 생성
     const baseData = data.data.map((row, index) => {
-      let xValue: number
-      if (selectedColumns.x!.type === 'single') {
-        xValue = parseFloat(row[selectedColumns.x!.numerator])
-      } else {
-        const numerator = parseFloat(row[selectedColumns.x!.numerator])
-        const denominator = parseFloat(row[selectedColumns.x!.denominator!])
-        xValue = numerator / denominator
-      }
-
-      let yValue: number
-      if (selectedColumns.y!.type === 'single') {
-        yValue = parseFloat(row[selectedColumns.y!.numerator])
-      } else {
-        const numerator = parseFloat(row[selectedColumns.y!.numerator])
-        const denominator = parseFloat(row[selectedColumns.y!.denominator!])
-        yValue = numerator / denominator
-      }
+      const xValue = getAxisValueWithUnits(data, row, selectedColumns.x!, xRatioFactor)
+      const yValue = getAxisValueWithUnits(data, row, selectedColumns.y!, yRatioFactor)
 
       let type = 'All Data'
       if (isPCAMode && clusterData.length > index) {
@@ -714,63 +741,18 @@ export default function ScatterPlot({ data, selectedColumns, statistics, isPCAMo
         ...row
       }
     }).filter(item => !isNaN(item.x) && !isNaN(item.y) && isFinite(item.x) && isFinite(item.y))
-
-    // 오차범위 계산
-    const calculateErrorBars = (
-      data: typeof baseData,
-      axis: 'x' | 'y',
-      mode: 'column' | 'percentage' | 'fixed' | 'stddev' | 'stderr',
-      column: string,
-      value: number
-    ): number[] => {
-      const values = data.map(d => d[axis])
-
-      switch (mode) {
-        case 'column':
-          // 컬럼에서 직접 읽기
-          return data.map(d => {
-            const dataRecord = d as any
-            const errorValue = dataRecord[column] ? parseFloat(dataRecord[column]) : 0
-            return isNaN(errorValue) ? 0 : Math.abs(errorValue)
-          })
-        case 'percentage':
-          // 값의 n%
-          return values.map(v => Math.abs(v * value / 100))
-        case 'fixed':
-          // 고정값
-          return values.map(() => Math.abs(value))
-        case 'stddev':
-          // 표준편차
-          try {
-            const stddev = standardDeviation(values)
-            return values.map(() => stddev)
-          } catch {
-            return values.map(() => 0)
-          }
-        case 'stderr':
-          // 표준오차 (표준편차 / √n)
-          try {
-            const stddev = standardDeviation(values)
-            const stderr = stddev / Math.sqrt(values.length)
-            return values.map(() => stderr)
-          } catch {
-            return values.map(() => 0)
-          }
-        default:
-          return values.map(() => 0)
-      }
-    }
+      .filter(item => !excludedRows.has(item.originalIndex))
 
     // X축 오차범위 추가
     let xErrors: number[] = []
     if (xErrorBarEnabled) {
-      xErrors = calculateErrorBars(baseData, 'x', xErrorBarMode, xErrorBarColumn, xErrorBarValue)
+      xErrors = calculateErrorValues(baseData, baseData.map(d => d.x), xErrorBarMode, xErrorBarColumn, xErrorBarValue)
     }
 
     // Y축 오차범위 추가
     let yErrors: number[] = []
     if (yErrorBarEnabled) {
-      yErrors = calculateErrorBars(baseData, 'y', yErrorBarMode, yErrorBarColumn, yErrorBarValue)
+      yErrors = calculateErrorValues(baseData, baseData.map(d => d.y), yErrorBarMode, yErrorBarColumn, yErrorBarValue)
     }
 
     // 오차범위를 데이터에 추가
@@ -779,7 +761,57 @@ export default function ScatterPlot({ data, selectedColumns, statistics, isPCAMo
       ...(xErrorBarEnabled && { errorX: xErrors[index] || 0 }),
       ...(yErrorBarEnabled && { errorY: yErrors[index] || 0 })
     }))
-  }, [data, selectedColumns, isPCAMode, clusterData, xErrorBarEnabled, xErrorBarMode, xErrorBarColumn, xErrorBarValue, yErrorBarEnabled, yErrorBarMode, yErrorBarColumn, yErrorBarValue])
+  }, [data, excludedRows, selectedColumns, isPCAMode, clusterData, xErrorBarEnabled, xErrorBarMode, xErrorBarColumn, xErrorBarValue, yErrorBarEnabled, yErrorBarMode, yErrorBarColumn, yErrorBarValue])
+
+  // 제외된 점 (회색 표시 및 올가미 복원용)
+  const excludedChartData = useMemo(() => {
+    if (!selectedColumns.x || !selectedColumns.y || excludedRows.size === 0) return []
+
+    const xRatioFactor = selectedColumns.x.type === 'ratio'
+      ? getRatioUnitFactor(data, selectedColumns.x.numerator, selectedColumns.x.denominator!)
+      : 1
+    const yRatioFactor = selectedColumns.y.type === 'ratio'
+      ? getRatioUnitFactor(data, selectedColumns.y.numerator, selectedColumns.y.denominator!)
+      : 1
+
+    return Array.from(excludedRows)
+      .map(index => ({
+        x: getAxisValueWithUnits(data, data.data[index], selectedColumns.x!, xRatioFactor),
+        y: getAxisValueWithUnits(data, data.data[index], selectedColumns.y!, yRatioFactor),
+        type: '제외됨',
+        originalIndex: index,
+        ...data.data[index]
+      }))
+      .filter(item => isFinite(item.x) && isFinite(item.y))
+  }, [data, excludedRows, selectedColumns])
+
+  // 올가미 선택 완료: 다각형 안의 점을 제외하거나 복원
+  const finishLasso = () => {
+    const scales = lassoScalesRef.current
+    const polygon = lassoPath
+    setLassoPath([])
+    if (!onExclusionChange || !scales || polygon.length < 3) return
+
+    const inside = (item: { x: number; y: number }) =>
+      isPointInPolygon(scales.xScale(item.x), scales.yScale(item.y), polygon)
+
+    if (lassoMode === 'exclude') {
+      const rows = chartData
+        .filter(item => visibleTypes[item.type] !== false && inside(item))
+        .map(item => item.originalIndex)
+      if (rows.length === 0) return
+      onExclusionChange(setRowsExcluded(data.exclusion, rows, true))
+    } else if (lassoMode === 'restore') {
+      const selected = excludedChartData.filter(inside).map(item => item.originalIndex)
+      if (selected.length === 0) return
+      const manualRows = new Set(exclusion.manual)
+      const ruleExcluded = selected.filter(index => !manualRows.has(index)).length
+      if (ruleExcluded > 0) {
+        alert(`${ruleExcluded}개 점은 제외 규칙이나 적용 중인 부분집합에 의해 제외되어 있습니다.\n데이터 미리보기에서 규칙이나 부분집합을 해제해야 복원됩니다.`)
+      }
+      onExclusionChange(setRowsExcluded(data.exclusion, selected, false))
+    }
+  }
   
   // 타입별 데이터 그룹화 (고정된 색상 매핑)
   const { typeGroups, fixedColorMap } = useMemo(() => {
@@ -929,6 +961,30 @@ export default function ScatterPlot({ data, selectedColumns, statistics, isPCAMo
     return null
   }, [statistics, currentRange])
 
+  // 오차 가중 회귀선 및 95% 신뢰 구간
+  const errorRegressionSegment = useMemo(() => {
+    if (!errorRegression) return null
+    return calculateTrendlineSegment(errorRegression.slope, errorRegression.intercept, currentRange)
+  }, [errorRegression, currentRange])
+
+  const errorRegressionEnvelope = useMemo(() => {
+    if (!errorRegression) return null
+    const steps = 50
+    const points = Array.from({ length: steps + 1 }, (_, i) => {
+      const x = currentRange.xMin + ((currentRange.xMax - currentRange.xMin) * i) / steps
+      const y = errorRegression.slope * x + errorRegression.intercept
+      const halfWidth = regressionBandHalfWidth(errorRegression, x)
+      return { x, upper: y + halfWidth, lower: y - halfWidth }
+    }).filter(p => isFinite(p.upper) && isFinite(p.lower))
+    return points.length > 1 ? points : null
+  }, [errorRegression, currentRange])
+
+  // 이론 곡선 + 암석 성인 모델 곡선
+  const allOverlayCurves = useMemo(
+    () => [...overlayCurves, ...petrogeneticOverlayCurves(data, selectedColumns, petrogeneticModels)],
+    [overlayCurves, data, selectedColumns, petrogeneticModels]
+  )
+
   // 타입별 추세선 데이터
   const typeRegressionSegments = useMemo(() => {
     const segments: Array<{ type: string, segment: any[], color: string }> = []
@@ -1112,29 +1168,14 @@ export default function ScatterPlot({ data, selectedColumns, statistics, isPCAMo
   }, [axisRange, adjusted1to1Range])
 
   const getAxisTitle = (config: NonNullable<ColumnSelection['x']>) => {
-    if (config.type === 'single') {
-      return config.numerator
-    } else {
-      return `${config.numerator}/${config.denominator}`
-    }
+    return getAxisTitleWithUnits(data, config)
   }
 
   const exportChart = async () => {
     if (!chartRef.current) return
 
     try {
-      const html2canvas = (await import('html2canvas')).default
-      const canvas = await html2canvas(chartRef.current, {
-        backgroundColor: backgroundColor,
-        scale: 2,
-        logging: false,
-        useCORS: true
-      })
-
-      const link = document.createElement('a')
-      link.download = 'scatter-plot.png'
-      link.href = canvas.toDataURL()
-      link.click()
+      await exportElementAsPNG(chartRef.current, 'scatter-plot.png', backgroundColor)
     } catch (error) {
       console.error('Export failed:', error)
       alert('이미지 내보내기에 실패했습니다.')
@@ -1151,58 +1192,7 @@ export default function ScatterPlot({ data, selectedColumns, statistics, isPCAMo
         return
       }
 
-      const clonedSvg = svgElement.cloneNode(true) as SVGElement
-
-      // 배경색 추가
-      const bgRect = document.createElementNS('http://www.w3.org/2000/svg', 'rect')
-      bgRect.setAttribute('width', '100%')
-      bgRect.setAttribute('height', '100%')
-      bgRect.setAttribute('fill', backgroundColor)
-      clonedSvg.insertBefore(bgRect, clonedSvg.firstChild)
-
-      // 인라인 스타일 중 transition 제거 (SVG에 불필요)
-      const allElements = clonedSvg.querySelectorAll('*')
-      allElements.forEach((el) => {
-        const style = el.getAttribute('style')
-        if (style && style.includes('transition')) {
-          const cleanStyle = style.replace(/transition[^;]*;?/g, '').trim()
-          if (cleanStyle) {
-            el.setAttribute('style', cleanStyle)
-          } else {
-            el.removeAttribute('style')
-          }
-        }
-      })
-
-      // SVG 문자열 생성
-      const serializer = new XMLSerializer()
-      let svgString = serializer.serializeToString(clonedSvg)
-
-      // Illustrator 호환성을 위한 문자열 수정
-      // 1. xmlns:xlink 네임스페이스 추가 (중복 방지)
-      if (!svgString.includes('xmlns:xlink')) {
-        if (svgString.includes('xmlns="http://www.w3.org/2000/svg"')) {
-          svgString = svgString.replace(
-            'xmlns="http://www.w3.org/2000/svg"',
-            'xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" version="1.1"'
-          )
-        }
-      }
-
-      // 2. image 태그의 href를 xlink:href로 변경
-      svgString = svgString.replace(/(<image[^>]*)\shref="/gi, '$1 xlink:href="')
-
-      // XML 선언 추가 (Illustrator 호환성)
-      svgString = '<?xml version="1.0" encoding="UTF-8" standalone="no"?>\n' + svgString
-
-      // 다운로드
-      const blob = new Blob([svgString], { type: 'image/svg+xml;charset=utf-8' })
-      const url = URL.createObjectURL(blob)
-      const link = document.createElement('a')
-      link.download = `scatter-plot-${Date.now()}.svg`
-      link.href = url
-      link.click()
-      URL.revokeObjectURL(url)
+      exportSVGElement(svgElement, `scatter-plot-${Date.now()}.svg`, backgroundColor)
     } catch (error) {
       console.error('SVG export failed:', error)
       alert('SVG 내보내기에 실패했습니다.')
@@ -1285,6 +1275,18 @@ export default function ScatterPlot({ data, selectedColumns, statistics, isPCAMo
           레퍼런스
         </button>
 
+        <button
+          onClick={() => setShowModelPanel(!showModelPanel)}
+          className={`flex items-center gap-2 px-3 py-2 border rounded-md transition-colors ${
+            showModelPanel
+              ? 'bg-amber-100 border-amber-400 text-amber-700 font-medium'
+              : 'bg-white border-gray-300 hover:bg-gray-50'
+          }`}
+        >
+          <FlaskConical className="w-4 h-4" />
+          성인 모델
+        </button>
+
         <button
           onClick={exportChart}
           className="flex items-center gap-2 px-3 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
@@ -2508,10 +2510,64 @@ export default function ScatterPlot({ data, selectedColumns, statistics, isPCAMo
           </div>
         </div>
       )}
+
+      {/* 암석 성인 모델 패널 */}
+      {showModelPanel && (
+        <div className="p-6 bg-gradient-to-br from-amber-50 to-yellow-50 border-2 border-amber-300 rounded-lg shadow-lg">
+          <h3 className="font-semibold text-lg mb-4 text-amber-800">⚗️ 분별결정 · 용융 · AFC 모델</h3>
+          <PetrogeneticModelPanel
+            data={data}
+            selectedColumns={selectedColumns}
+            models={petrogeneticModels}
+            colors={plotOptions.customColors}
+            onModelsChange={setPetrogeneticModels}
+          />
+        </div>
+      )}
         </div>
 
         {/* 오른쪽: 차트 */}
         <div className="flex-1 min-w-0">
+          {/* 행 제외 도구 */}
+          {onExclusionChange && (
+            <div className="flex flex-wrap items-center gap-2 px-4 pt-2 text-sm">
+              <button
+                onClick={() => setLassoMode(lassoMode === 'exclude' ? null : 'exclude')}
+                className={`flex items-center gap-1 px-3 py-1 rounded-md border ${
+                  lassoMode === 'exclude' ? 'bg-red-600 text-white border-red-600' : 'text-gray-700 border-gray-300 hover:bg-gray-50'
+                }`}
+                title="드래그로 둘러싼 점을 분석에서 제외"
+              >
+                <Lasso className="h-4 w-4" />
+                올가미 제외
+              </button>
+              <button
+                onClick={() => setLassoMode(lassoMode === 'restore' ? null : 'restore')}
+                disabled={excludedRows.size === 0}
+                className={`flex items-center gap-1 px-3 py-1 rounded-md border disabled:opacity-50 ${
+                  lassoMode === 'restore' ? 'bg-blue-600 text-white border-blue-600' : 'text-gray-700 border-gray-300 hover:bg-gray-50'
+                }`}
+                title="드래그로 둘러싼 제외된 점을 다시 포함"
+              >
+                <Undo2 className="h-4 w-4" />
+                올가미 복원
+              </button>
+              <label className="flex items-center gap-1 text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={!!exclusion.showExcluded}
+                  onChange={(e) => onExclusionChange({ ...exclusion, showExcluded: e.target.checked })}
+                />
+                제외된 점 표시
+              </label>
+              {excludedRows.size > 0 && (
+                <span className="text-red-600">제외 {excludedRows.size}행</span>
+              )}
+              {lassoMode && (
+                <span className="text-xs text-gray-500">그래프 위에서 드래그하여 영역을 그리세요</span>
+              )}
+            </div>
+          )}
           <div ref={chartRef} className="w-full p-4" style={{
         backgroundColor: backgroundColor,
         aspectRatio: chartAspectRatio ? `${chartAspectRatio} / 1` : (maintain1to1Ratio ? '1 / 1' : 'auto'),
@@ -2675,6 +2731,25 @@ export default function ScatterPlot({ data, selectedColumns, statistics, isPCAMo
               }}
             />
 
+            {/* 제외된 점 (회색) */}
+            {exclusion.showExcluded && excludedChartData.length > 0 && (
+              <Scatter
+                name="제외됨"
+                data={excludedChartData}
+                fill="#9ca3af"
+                shape={(props: any) => (
+                  <CustomMarker
+                    {...props}
+                    shape={plotOptions.shape}
+                    size={plotOptions.size}
+                    opacity={0.35}
+                    strokeWidth={plotOptions.strokeWidth}
+                    strokeColor="#9ca3af"
+                  />
+                )}
+              />
+            )}
+
             {/* 데이터 포인트 렌더링 */}
             {Object.keys(typeGroups).map(type => {
               if (visibleTypes[type] === false) return null
@@ -2757,6 +2832,115 @@ export default function ScatterPlot({ data, selectedColumns, statistics, isPCAMo
               />
             )}
 
+            {/* 오차 가중 회귀 신뢰 구간 */}
+            {errorRegressionEnvelope && (
+              <Customized
+                component={(props: any) => {
+                  const xScale = props.xAxisMap?.[0]?.scale
+                  const yScale = props.yAxisMap?.[0]?.scale
+                  if (!xScale || !yScale) return null
+
+                  const upper = errorRegressionEnvelope.map(p => `${xScale(p.x)},${yScale(p.upper)}`)
+                  const lower = [...errorRegressionEnvelope].reverse().map(p => `${xScale(p.x)},${yScale(p.lower)}`)
+                  const polygon = [...upper, ...lower]
+                  if (polygon.some(point => point.includes('NaN'))) return null
+
+                  return (
+                    <polygon
+                      points={polygon.join(' ')}
+                      fill="#7c3aed"
+                      fillOpacity={0.12}
+                      stroke="#7c3aed"
+                      strokeOpacity={0.3}
+                      strokeDasharray="3 3"
+                      pointerEvents="none"
+                    />
+                  )
+                }}
+              />
+            )}
+
+            {/* 오차 가중 회귀선 */}
+            {errorRegression && errorRegressionSegment && (
+              <ReferenceLine
+                segment={errorRegressionSegment}
+                stroke="#7c3aed"
+                strokeWidth={2}
+                label={{
+                  value: ERROR_REGRESSION_LABELS[errorRegression.method].split(' ')[0],
+                  position: 'insideBottomRight',
+                  fill: '#7c3aed',
+                  fontSize: 12
+                }}
+              />
+            )}
+
+            {/* 이론 곡선 (플롯 영역 밖은 잘라냄) */}
+            {allOverlayCurves.length > 0 && (
+              <Customized
+                component={(props: any) => {
+                  const { offset } = props
+                  const xScale = props.xAxisMap?.[0]?.scale
+                  const yScale = props.yAxisMap?.[0]?.scale
+                  if (!offset || !xScale || !yScale) return null
+
+                  const inside = (px: number, py: number) =>
+                    px >= offset.left && px <= offset.left + offset.width && py >= offset.top && py <= offset.top + offset.height
+
+                  return (
+                    <g pointerEvents="none">
+                      <defs>
+                        <clipPath id="overlay-curve-clip">
+                          <rect x={offset.left} y={offset.top} width={offset.width} height={offset.height} />
+                        </clipPath>
+                      </defs>
+                      {allOverlayCurves.map(curve => {
+                        const pixels = curve.points
+                          .filter(p => (!xLogScale || p.x > 0) && (!yLogScale || p.y > 0))
+                          .map(p => [xScale(p.x), yScale(p.y)] as [number, number])
+                          .filter(([px, py]) => isFinite(px) && isFinite(py))
+                        if (pixels.length < 2) return null
+                        const labelAt = curve.label ? [...pixels].reverse().find(([px, py]) => inside(px, py)) : undefined
+                        const ticks = (curve.ticks || [])
+                          .filter(t => (!xLogScale || t.x > 0) && (!yLogScale || t.y > 0))
+                          .map(t => ({ ...t, px: xScale(t.x) as number, py: yScale(t.y) as number }))
+                          .filter(t => inside(t.px, t.py))
+
+                        return (
+                          <g key={curve.id}>
+                            <polyline
+                              points={pixels.map(p => p.join(',')).join(' ')}
+                              fill="none"
+                              stroke={curve.color}
+                              strokeWidth={1.5}
+                              strokeDasharray={curve.dashed ? '6 4' : undefined}
+                              clipPath="url(#overlay-curve-clip)"
+                            />
+                            {labelAt && (
+                              <text x={labelAt[0] - 4} y={labelAt[1] - 4} textAnchor="end" fontSize={11} fill={curve.color}>
+                                {curve.label}
+                              </text>
+                            )}
+                            {ticks.map((t, i) => t.major ? (
+                              <g key={i}>
+                                <rect x={t.px - 4} y={t.py - 4} width={8} height={8} fill={curve.color} stroke="#fff" />
+                                <text x={t.px + 7} y={t.py - 6} fontSize={12} fontWeight="bold" fill={curve.color}>{t.label}</text>
+                              </g>
+                            ) : (
+                              <g key={i}>
+                                <circle cx={t.px} cy={t.py} r={2.5} fill="#fff" stroke={curve.color} />
+                                <text x={t.px + 4} y={t.py + 10} fontSize={9} fill={curve.color}>{t.label}</text>
+                              </g>
+                            ))}
+                          </g>
+                        )
+                      })}
+                    </g>
+                  )
+                }}
+              />
+            )}
+
             {/* 타입별 추세선들 */}
             {typeRegressionSegments.map(({ type, segment, color }) => (
               <ReferenceLine
@@ -2768,6 +2952,55 @@ export default function ScatterPlot({ data, selectedColumns, statistics, isPCAMo
                 strokeDasharray="5 5"
               />
             ))}
+
+            {/* 올가미 선택 영역 */}
+            {lassoMode && (
+              <Customized
+                component={(props: any) => {
+                  const { offset } = props
+                  const xScale = props.xAxisMap?.[0]?.scale
+                  const yScale = props.yAxisMap?.[0]?.scale
+                  if (!offset || !xScale || !yScale) return null
+                  lassoScalesRef.current = { xScale, yScale }
+
+                  const toPoint = (e: React.MouseEvent<SVGRectElement>) => {
+                    const rect = e.currentTarget.ownerSVGElement!.getBoundingClientRect()
+                    return { x: e.clientX - rect.left, y: e.clientY - rect.top }
+                  }
+
+                  return (
+                    <g>
+                      <rect
+                        x={offset.left}
+                        y={offset.top}
+                        width={offset.width}
+                        height={offset.height}
+                        fill="transparent"
+                        style={{ cursor: 'crosshair' }}
+                        onMouseDown={(e) => setLassoPath([toPoint(e)])}
+                        onMouseMove={(e) => {
+                          if (e.buttons !== 1 || lassoPath.length === 0) return
+                          const point = toPoint(e)
+                          setLassoPath(path => [...path, point])
+                        }}
+                        onMouseUp={finishLasso}
+                        onMouseLeave={() => lassoPath.length > 0 && finishLasso()}
+                      />
+                      {lassoPath.length > 1 && (
+                        <polygon
+                          points={lassoPath.map(p => `${p.x},${p.y}`).join(' ')}
+                          fill={lassoMode === 'exclude' ? '#dc2626' : '#2563eb'}
+                          fillOpacity={0.1}
+                          stroke={lassoMode === 'exclude' ? '#dc2626' : '#2563eb'}
+                          strokeDasharray="4 3"
+                          pointerEvents="none"
+                        />
+                      )}
+                    </g>
+                  )
+                }}
+              />
+            )}
           </ScatterChart>
         </ResponsiveContainer>
           </div>
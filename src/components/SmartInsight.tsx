@@ -1,15 +1,27 @@
 'use client'
 
-import { useState, useEffect } from 'react'
-import { GeochemData, ColumnSelection } from '@/types/geochem'
+import { useState, useEffect, useMemo, useRef } from 'react'
+import { GeochemData, ColumnSelection, MultipleTestingCorrection, CensoredPolicy } from '@/types/geochem'
 import {
   performSmartInsight,
   SmartInsightResult,
   InsightCandidate,
   InsightTag,
+  InsightPairResult,
   ColumnClassification,
   classifyColumns
 } from '@/lib/smart-insight'
+import { runPairTasks, PairRun, PairRunProgress } from '@/lib/worker-pool'
+import { getAnalysisColumns, LOG_RATIO_LABELS } from '@/lib/compositional'
+import { P_CORRECTION_LABELS } from '@/lib/statistics'
+import { countCensoredCells, CENSORED_POLICY_LABELS } from '@/lib/censored'
+import { insightCandidatesToRows, settingsToRows, exportWorkbook, exportCSV, exportFileName } from '@/lib/results-export'
+import { applyExclusion, describeExclusionRule, expandToSourceRows, getExcludedRows } from '@/lib/exclusion'
+import { describeQueryGroup, getActiveSubset } from '@/lib/query'
+import LogRatioPanel from './LogRatioPanel'
+
+// 쌍 분석 중지 표시
+const PAIR_RUN_CANCELLED = 'pair-run-cancelled'
 
 // AI 해석 결과 타입
 interface AIInsightResult {
@@ -33,7 +45,8 @@ import {
   Zap,
   Eye,
   MessageSquare,
-  Scale
+  Scale,
+  Download
 } from 'lucide-react'
 
 interface SmartInsightProps {
@@ -47,7 +60,7 @@ interface SmartInsightProps {
 }
 
 export default function SmartInsight({
-  data,
+  data: sourceData,
   selectedTypeColumn,
   onSelectPair,
   onDataUpdate,
@@ -55,7 +68,20 @@ export default function SmartInsight({
   cachedResult,
   onResultChange
 }: SmartInsightProps) {
+  // 관계 탐색·PCA는 제외된 행을 뺀 데이터로
+  const data = useMemo(() => applyExclusion(sourceData), [sourceData])
+  const activeSubset = getActiveSubset(sourceData)
   const [isScanning, setIsScanning] = useState(false)
+  const [showLogRatio, setShowLogRatio] = useState(false)
+  const [pCorrection, setPCorrection] = useState<MultipleTestingCorrection>('bh')
+  // 검출한계 미만 값 처리 (관계 탐색, PCA)
+  const [censoredPolicy, setCensoredPolicy] = useState<CensoredPolicy>('half')
+  const [pairProgress, setPairProgress] = useState<PairRunProgress | null>(null)
+  // 중지한 쌍 분석 (같은 데이터·쌍 목록이면 이어서 실행)
+  const [pausedPairs, setPausedPairs] = useState<{ data: GeochemData; key: string; completed: Map<number, InsightPairResult> } | null>(null)
+  const pairRunRef = useRef<PairRun<InsightPairResult> | null>(null)
+  // 마지막 분석 설정 (내보내기에 기록)
+  const [insightSettings, setInsightSettings] = useState<Record<string, unknown> | null>(null)
   const [scanResult, setScanResult] = useState<SmartInsightResult | null>(cachedResult || null)
   const [selectedCandidate, setSelectedCandidate] = useState<InsightCandidate | null>(null)
   const [aiInterpretation, setAiInterpretation] = useState<AIInsightResult | null>(null)
@@ -122,25 +148,36 @@ export default function SmartInsight({
     try {
       // PCA 분석 실행
       const { performPCA } = await import('@/lib/statistics')
-      const pcaResult = performPCA(data.data, variables, 2) // 2 주성분 계산
-
-      // PC1, PC2와 클러스터 정보를 데이터에 추가
-      const enhancedData = data.data.map((row: Record<string, any>, index: number) => {
-        const scores = pcaResult.scores[index]
+      const pcaResult = performPCA(
+        data.data,
+        variables,
+        2, // 2 주성분 계산
+        data.censored ? { policy: censoredPolicy, cells: data.censored } : undefined
+      )
+
+      // PC1, PC2와 클러스터 정보를 원본 데이터 행에 추가 (제외된 행은 빈 값)
+      const scoreRows = expandToSourceRows<number[] | undefined>(data, sourceData.data.length, pcaResult.scores, undefined)
+      const clusters = expandToSourceRows(data, sourceData.data.length, pcaResult.clusters, -1)
+      const excludedRows = getExcludedRows(sourceData)
+      const enhancedData = sourceData.data.map((row: Record<string, any>, index: number) => {
+        if (excludedRows.has(index)) {
+          return { ...row, PC1: null, PC2: null, PCA_Cluster: null }
+        }
+        const scores = scoreRows[index]
         return {
           ...row,
           PC1: scores ? scores[0] : 0,
           PC2: scores ? scores[1] : 0,
-          PCA_Cluster: pcaResult.clusters[index] || 0
+          PCA_Cluster: clusters[index] || 0
         }
       })
 
       // 업데이트된 데이터 생성
       const updatedData: GeochemData = {
-        ...data,
+        ...sourceData,
         data: enhancedData,
-        numericColumns: [...data.numericColumns.filter(col => col !== 'PC1' && col !== 'PC2'), 'PC1', 'PC2'],
-        pcaResult: pcaResult
+        numericColumns: [...sourceData.numericColumns.filter(col => col !== 'PC1' && col !== 'PC2'), 'PC1', 'PC2'],
+        pcaResult: { ...pcaResult, clusters }
       }
 
       // 부모 컴포넌트에 데이터 업데이트
@@ -176,41 +213,118 @@ export default function SmartInsight({
     }
   }, [cachedResult])
 
+  // 변수 쌍 분석을 워커 풀에서 실행 (중지하면 받은 결과를 보관)
+  const analyzePairsInWorkers = async (pairs: [string, string][]): Promise<InsightPairResult[]> => {
+    const key = `${censoredPolicy}\u0002${pairs.map(pair => pair.join('\u0000')).join('\u0001')}`
+    const previous = pausedPairs && pausedPairs.data === data && pausedPairs.key === key
+      ? pausedPairs.completed
+      : undefined
+
+    const run = runPairTasks<InsightPairResult>(
+      { kind: 'insight', data, includeTypeColumn: !!selectedTypeColumn, selectedTypeColumn, censoredPolicy },
+      pairs,
+      { completed: previous, onProgress: setPairProgress }
+    )
+    pairRunRef.current = run
+    const { results, cancelled } = await run.promise
+    pairRunRef.current = null
+
+    if (cancelled) {
+      setPausedPairs({ data, key, completed: results })
+      throw new Error(PAIR_RUN_CANCELLED)
+    }
+    setPausedPairs(null)
+    return pairs.map((_, index) => results.get(index)!)
+  }
+
+  // 결과 내보내기 (분석 설정과 PCA 추천 포함)
+  const exportInsightResults = (format: 'xlsx' | 'csv') => {
+    if (!scanResult) return
+    if (format === 'csv') {
+      exportCSV(insightCandidatesToRows(scanResult.candidates), exportFileName(data.fileName, 'smart-insight', 'csv'))
+      return
+    }
+    exportWorkbook([
+      { name: 'Smart Insight', rows: insightCandidatesToRows(scanResult.candidates) },
+      {
+        name: 'PCA recommendations',
+        rows: scanResult.pcaRecommendations.map(rec => ({
+          'Variable': rec.variable,
+          'Correlated variables': rec.correlatedVariables.join('; '),
+          'Mean |r|': rec.avgCorrelation,
+          'Reason': rec.reason
+        }))
+      },
+      {
+        name: 'Settings',
+        rows: settingsToRows({
+          dataset: data.fileName,
+          exportedAt: new Date().toISOString(),
+          totalPairsAnalyzed: scanResult.totalPairsAnalyzed,
+          filteredCount: scanResult.filteredCount,
+          executionTimeMs: scanResult.executionTime,
+          ...insightSettings
+        })
+      }
+    ], exportFileName(data.fileName, 'smart-insight', 'xlsx'))
+  }
+
   // 스캔 실행
   const handleScan = async () => {
     setIsScanning(true)
     setScanResult(null)
+    setPairProgress(null)
 
     try {
       // 1. 먼저 컬럼 분류 실행 (처음이거나 캐시가 없을 때)
       let classification = columnClassification
       if (!classification) {
         setIsClassifying(true)
-        console.log('컬럼 분류 시작:', data.numericColumns.length, '개 컬럼')
-        classification = await classifyColumns(data.numericColumns)
+        const analysisColumns = getAnalysisColumns(data)
+        console.log('컬럼 분류 시작:', analysisColumns.length, '개 컬럼')
+        classification = await classifyColumns(analysisColumns)
         setColumnClassification(classification)
         setIsClassifying(false)
         console.log('컬럼 분류 완료:', classification)
       }
 
       // 2. Smart Insight 분석 실행 (컬럼 분류 결과 포함)
-      const result = await performSmartInsight(data, {
+      const settings = {
         correlationThreshold: 0.5,
         pValueThreshold: 0.05,
+        pValueCorrection: pCorrection,
         maxResults: 20,
         includeTypeColumn: !!selectedTypeColumn,
-        selectedTypeColumn,
-        columnClassification: classification || undefined
+        selectedTypeColumn
+      }
+      const result = await performSmartInsight(data, {
+        ...settings,
+        columnClassification: classification || undefined,
+        censoredPolicy,
+        analyzePairs: analyzePairsInWorkers
+      })
+      setInsightSettings({
+        ...settings,
+        aiColumnClassification: !!classification,
+        exclusion: sourceData.exclusion && {
+          excludedRows: sourceData.data.length - data.data.length,
+          manualRows: sourceData.exclusion.manual.map(index => index + 1),
+          rules: sourceData.exclusion.rules.filter(rule => rule.enabled).map(describeExclusionRule)
+        },
+        subset: activeSubset && { name: activeSubset.name, query: describeQueryGroup(activeSubset.query) }
       })
 
       setScanResult(result)
       // 부모 컴포넌트에 결과 전달 (캐싱용)
       onResultChange?.(result)
     } catch (error) {
-      console.error('Smart Insight scan failed:', error)
+      if (!(error instanceof Error && error.message === PAIR_RUN_CANCELLED)) {
+        console.error('Smart Insight scan failed:', error)
+      }
     } finally {
       setIsScanning(false)
       setIsClassifying(false)
+      setPairProgress(null)
     }
   }
 
@@ -382,6 +496,68 @@ export default function SmartInsight({
           placeholder="예: 해저 열수 퇴적물, 화강암 풍화토, 하천 퇴적물 등"
           className="w-full px-3 py-2 text-sm border border-purple-200 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
         />
+        <div className="flex items-center gap-2 mt-2">
+          <label htmlFor="p-correction" className="text-sm text-purple-800">다중 비교 보정</label>
+          <select
+            id="p-correction"
+            value={pCorrection}
+            onChange={(e) => setPCorrection(e.target.value as MultipleTestingCorrection)}
+            className="px-2 py-1 text-sm border border-purple-200 rounded-lg"
+          >
+            {(Object.keys(P_CORRECTION_LABELS) as MultipleTestingCorrection[]).map(method => (
+              <option key={method} value={method}>{P_CORRECTION_LABELS[method]}</option>
+            ))}
+          </select>
+          <span className="text-xs text-purple-600">보정된 p &le; 0.05인 관계만 표시</span>
+        </div>
+        {countCensoredCells(data.censored) > 0 && (
+          <div className="flex items-center gap-2 mt-2">
+            <label htmlFor="censored-policy" className="text-sm text-purple-800">
+              검출한계 미만 값 처리 ({countCensoredCells(data.censored)}개 셀)
+            </label>
+            <select
+              id="censored-policy"
+              value={censoredPolicy}
+              onChange={(e) => setCensoredPolicy(e.target.value as CensoredPolicy)}
+              className="px-2 py-1 text-sm border border-purple-200 rounded-lg"
+            >
+              {(Object.keys(CENSORED_POLICY_LABELS) as CensoredPolicy[]).map(policy => (
+                <option key={policy} value={policy}>{CENSORED_POLICY_LABELS[policy]}</option>
+              ))}
+            </select>
+            <span className="text-xs text-purple-600">관계 탐색과 PCA 분석에 적용</span>
+          </div>
+        )}
+      </div>
+
+      {/* 조성 데이터 로그비 변환 */}
+      <div className="px-6 py-3 border-b">
+        <button
+          onClick={() => setShowLogRatio(!showLogRatio)}
+          className="flex items-center gap-1 text-sm text-gray-700 hover:text-purple-700"
+        >
+          <ChevronRight className={`w-4 h-4 transition-transform ${showLogRatio ? 'rotate-90' : ''}`} />
+          로그비 변환 (조성 데이터)
+          {data.logRatio && (
+            <span className="ml-2 px-2 py-0.5 text-xs bg-emerald-100 text-emerald-700 rounded">
+              {LOG_RATIO_LABELS[data.logRatio.method]} 적용됨
+            </span>
+          )}
+        </button>
+        {showLogRatio && (
+          <div className="mt-3">
+            <LogRatioPanel
+              data={sourceData}
+              onDataUpdate={(newData) => {
+                // 분석 대상 컬럼이 바뀌므로 컬럼 분류와 결과를 다시 계산
+                setColumnClassification(null)
+                setScanResult(null)
+                onResultChange?.(null)
+                onDataUpdate?.(newData)
+              }}
+            />
+          </div>
+        )}
       </div>
 
       {/* 결과 영역 */}
@@ -406,8 +582,44 @@ export default function SmartInsight({
               데이터 분석 중...
             </h3>
             <p className="text-gray-500">
-              {data.numericColumns.length}개 변수의 모든 조합을 분석하고 있습니다
+              {getAnalysisColumns(data).length}개 변수의 모든 조합을 분석하고 있습니다
             </p>
+            {pairProgress && (
+              <div className="max-w-md mx-auto mt-4">
+                <div className="flex justify-between text-xs text-gray-500 mb-1">
+                  <span>{pairProgress.done} / {pairProgress.total} 쌍</span>
+                  {pairProgress.etaMs != null && pairProgress.done < pairProgress.total && (
+                    <span>남은 시간 약 {Math.ceil(pairProgress.etaMs / 1000)}초</span>
+                  )}
+                </div>
+                <div className="w-full h-2 bg-purple-100 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-purple-500 transition-all"
+                    style={{ width: `${pairProgress.total > 0 ? (pairProgress.done / pairProgress.total) * 100 : 0}%` }}
+                  />
+                </div>
+                <button
+                  onClick={() => pairRunRef.current?.cancel()}
+                  className="mt-3 px-3 py-1 text-sm bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-100"
+                >
+                  중지
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {!scanResult && !isScanning && pausedPairs && (
+          <div className="mb-6 p-4 bg-yellow-50 border border-yellow-300 rounded-lg flex items-center justify-between">
+            <span className="text-sm text-yellow-800">
+              분석이 중지되었습니다 ({pausedPairs.completed.size}쌍 완료). 같은 설정으로 다시 실행하면 이어서 분석합니다.
+            </span>
+            <button
+              onClick={handleScan}
+              className="px-3 py-1.5 text-sm bg-purple-600 text-white rounded-md hover:bg-purple-700"
+            >
+              이어서 분석
+            </button>
           </div>
         )}
 
@@ -441,6 +653,26 @@ export default function SmartInsight({
               </div>
             </div>
 
+            {/* 내보내기 */}
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={() => exportInsightResults('xlsx')}
+                className="flex items-center gap-1 px-3 py-1.5 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700"
+                title="전체 후보와 분석 설정을 Excel 파일로 저장"
+              >
+                <Download className="w-4 h-4" />
+                Excel
+              </button>
+              <button
+                onClick={() => exportInsightResults('csv')}
+                className="flex items-center gap-1 px-3 py-1.5 text-sm bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+                title="전체 후보 표를 CSV 파일로 저장"
+              >
+                <Download className="w-4 h-4" />
+                CSV
+              </button>
+            </div>
+
             {/* PCA 추천 */}
             {scanResult.pcaRecommendations.length > 0 && (
               <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
@@ -523,6 +755,11 @@ export default function SmartInsight({
                             <span className="ml-1 font-medium text-gray-700">
                               {candidate.dataCount}
                             </span>
+                            {candidate.pearsonPAdjusted !== undefined && (
+                              <span className="ml-2 text-xs text-gray-500">
+                                보정 p {candidate.pearsonPAdjusted < 0.001 ? '<0.001' : `= ${candidate.pearsonPAdjusted.toFixed(3)}`}
+                              </span>
+                            )}
                           </div>
                         </div>
                       </div>
@@ -613,6 +850,16 @@ export default function SmartInsight({
                     <span className="text-gray-500">R²:</span>
                     <span className="ml-2 font-medium">{selectedCandidate.rSquared.toFixed(4)}</span>
                   </div>
+                  <div>
+                    <span className="text-gray-500">p (Pearson):</span>
+                    <span className="ml-2 font-medium">{selectedCandidate.pearsonP.toExponential(2)}</span>
+                  </div>
+                  {selectedCandidate.pearsonPAdjusted !== undefined && (
+                    <div>
+                      <span className="text-gray-500">보정 p:</span>
+                      <span className="ml-2 font-medium">{selectedCandidate.pearsonPAdjusted.toExponential(2)}</span>
+                    </div>
+                  )}
                 </div>
                 <div className="flex flex-wrap gap-1.5 mt-3">
                   {selectedCandidate.tags.map(tag => renderTag(tag))}
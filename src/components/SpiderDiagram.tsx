@@ -0,0 +1,384 @@
+'use client'
+
+import { useMemo, useRef, useState } from 'react'
+import { ComposedChart, Line, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts'
+import { Download, Info } from 'lucide-react'
+import { GeochemData, PetrogeneticModel } from '@/types/geochem'
+import {
+  REFERENCE_COMPOSITIONS,
+  ReferenceCompositionId,
+  SPIDER_PATTERNS,
+  SpiderPatternId,
+  findElementColumns,
+  normalizeRow
+} from '@/lib/reference-compositions'
+import { exportElementAsPNG, exportSVGElement } from '@/lib/chart-export'
+import { formatModelF, petrogeneticPatterns } from '@/lib/petrogenesis'
+import { defaultGraphSettings } from './ScatterPlot'
+
+interface SpiderDiagramProps {
+  data: GeochemData
+  typeColumn?: string
+  petrogeneticModels?: PetrogeneticModel[]  // 산점도에서 정의한 성인 모델
+}
+
+// 개별 시료 선이 너무 많으면 렌더링이 느려지므로 제한
+const MAX_SAMPLE_LINES = 500
+
+export default function SpiderDiagram({ data, typeColumn: initialTypeColumn, petrogeneticModels = [] }: SpiderDiagramProps) {
+  const chartRef = useRef<HTMLDivElement>(null)
+  const [referenceId, setReferenceId] = useState<ReferenceCompositionId>('chondrite')
+  const [patternId, setPatternId] = useState<SpiderPatternId>('ree')
+  const [typeColumn, setTypeColumn] = useState<string>(initialTypeColumn || data.typeColumn || '')
+  const [showSamples, setShowSamples] = useState(true)
+  const [showMean, setShowMean] = useState(false)
+  const [showEnvelope, setShowEnvelope] = useState(false)
+  const [showModels, setShowModels] = useState(true)
+
+  const reference = REFERENCE_COMPOSITIONS[referenceId]
+  const colors = defaultGraphSettings.plotOptions.customColors
+
+  // 원소별 컬럼 매칭 (데이터와 기준 조성 모두에 있는 원소만 사용)
+  const { elements, elementColumns, missingElements } = useMemo(() => {
+    const patternElements = SPIDER_PATTERNS[patternId].elements
+    const columns = findElementColumns(data, patternElements)
+    const available = patternElements.filter(el => columns[el] && reference.values[el])
+    return {
+      elements: available,
+      elementColumns: columns,
+      missingElements: patternElements.filter(el => !available.includes(el))
+    }
+  }, [data, patternId, reference])
+
+  // 시료별 정규화 패턴과 타입 그룹
+  const { samples, types } = useMemo(() => {
+    const typeNames: string[] = []
+    const normalized = data.data
+      .map((row, index) => {
+        const values = normalizeRow(row, elements, elementColumns, reference)
+        const type = typeColumn && row[typeColumn] !== null && row[typeColumn] !== undefined
+          ? String(row[typeColumn]).trim() || 'Unknown'
+          : 'All Data'
+        return { index, type, values }
+      })
+      .filter(sample => sample.values.some(v => v !== null))
+
+    normalized.forEach(sample => {
+      if (!typeNames.includes(sample.type)) typeNames.push(sample.type)
+    })
+
+    return { samples: normalized, types: typeNames }
+  }, [data.data, elements, elementColumns, reference, typeColumn])
+
+  // 성인 모델 패턴 (F 눈금마다 한 선, 기준 조성으로 정규화)
+  const modelLines = useMemo(() => {
+    if (!showModels) return []
+    return petrogeneticModels
+      .filter(model => model.visible)
+      .flatMap((model, modelIndex) => petrogeneticPatterns(model, elements).map((pattern, fIndex) => ({
+        key: `m${modelIndex}_${fIndex}`,
+        model,
+        f: pattern.f,
+        values: pattern.values.map((v, i) => (v === null ? null : v / reference.values[elements[i]]))
+      })))
+      .filter(line => line.values.filter(v => v !== null).length >= 2)
+  }, [petrogeneticModels, showModels, elements, reference])
+
+  const typeColor = (type: string) => colors[types.indexOf(type) % colors.length]
+  const visibleSamples = useMemo(() => samples.slice(0, MAX_SAMPLE_LINES), [samples])
+
+  // 원소별 차트 데이터 (시료 값, 타입별 기하평균, 타입별 최소~최대 범위)
+  const chartData = useMemo(() => {
+    return elements.map((element, elIndex) => {
+      const point: Record<string, any> = { element }
+
+      visibleSamples.forEach(sample => {
+        point[`s${sample.index}`] = sample.values[elIndex]
+      })
+
+      types.forEach((type, typeIndex) => {
+        const values = samples
+          .filter(sample => sample.type === type)
+          .map(sample => sample.values[elIndex])
+          .filter((v): v is number => v !== null)
+        if (values.length === 0) return
+
+        // 로그 스케일이므로 기하평균 사용
+        point[`mean${typeIndex}`] = Math.exp(values.reduce((sum, v) => sum + Math.log(v), 0) / values.length)
+        point[`env${typeIndex}`] = [Math.min(...values), Math.max(...values)]
+      })
+
+      modelLines.forEach(line => {
+        point[line.key] = line.values[elIndex]
+      })
+
+      return point
+    })
+  }, [elements, samples, visibleSamples, types, modelLines])
+
+  // 로그 축 범위 (10의 거듭제곱 단위)
+  const { yDomain, yTicks } = useMemo(() => {
+    const allValues = [...samples, ...modelLines].flatMap(line => line.values.filter((v): v is number => v !== null))
+    if (allValues.length === 0) return { yDomain: [0.1, 1000] as [number, number], yTicks: [0.1, 1, 10, 100, 1000] }
+
+    const minExp = Math.floor(Math.log10(Math.min(...allValues)))
+    const maxExp = Math.ceil(Math.log10(Math.max(...allValues)))
+    const ticks: number[] = []
+    for (let exp = minExp; exp <= Math.max(maxExp, minExp + 1); exp++) {
+      ticks.push(Math.pow(10, exp))
+    }
+    return { yDomain: [ticks[0], ticks[ticks.length - 1]] as [number, number], yTicks: ticks }
+  }, [samples, modelLines])
+
+  const handleExportPNG = async () => {
+    if (!chartRef.current) return
+    try {
+      await exportElementAsPNG(chartRef.current, `spider-${referenceId}-${Date.now()}.png`)
+    } catch (error) {
+      console.error('Export failed:', error)
+      alert('이미지 내보내기에 실패했습니다.')
+    }
+  }
+
+  const handleExportSVG = () => {
+    const svgElement = chartRef.current?.querySelector('svg')
+    if (!svgElement) {
+      alert('SVG를 찾을 수 없습니다.')
+      return
+    }
+    try {
+      exportSVGElement(svgElement, `spider-${referenceId}-${Date.now()}.svg`)
+    } catch (error) {
+      console.error('SVG export failed:', error)
+      alert('SVG 내보내기에 실패했습니다.')
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-gray-800">스파이더 다이어그램</h2>
+        <div className="flex gap-2">
+          <button
+            onClick={handleExportPNG}
+            className="flex items-center px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200"
+          >
+            <Download className="h-4 w-4 mr-1" />
+            PNG
+          </button>
+          <button
+            onClick={handleExportSVG}
+            className="flex items-center px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200"
+          >
+            <Download className="h-4 w-4 mr-1" />
+            SVG
+          </button>
+        </div>
+      </div>
+
+      {/* 설정 */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">정규화 기준</label>
+          <select
+            value={referenceId}
+            onChange={(e) => setReferenceId(e.target.value as ReferenceCompositionId)}
+            className="w-full p-2 text-sm border border-gray-300 rounded-md"
+          >
+            {Object.values(REFERENCE_COMPOSITIONS).map(ref => (
+              <option key={ref.id} value={ref.id}>{ref.name} · {ref.source}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">원소 배열</label>
+          <select
+            value={patternId}
+            onChange={(e) => setPatternId(e.target.value as SpiderPatternId)}
+            className="w-full p-2 text-sm border border-gray-300 rounded-md"
+          >
+            {(Object.keys(SPIDER_PATTERNS) as SpiderPatternId[]).map(id => (
+              <option key={id} value={id}>{SPIDER_PATTERNS[id].name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">타입 컬럼</label>
+          <select
+            value={typeColumn}
+            onChange={(e) => setTypeColumn(e.target.value)}
+            className="w-full p-2 text-sm border border-gray-300 rounded-md"
+          >
+            <option value="">없음</option>
+            {data.nonNumericColumns.map(col => (
+              <option key={col} value={col}>{col}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-4 mb-4 text-sm text-gray-700">
+        <label className="flex items-center">
+          <input type="checkbox" checked={showSamples} onChange={(e) => setShowSamples(e.target.checked)} className="mr-2" />
+          개별 시료
+        </label>
+        <label className="flex items-center">
+          <input type="checkbox" checked={showMean} onChange={(e) => setShowMean(e.target.checked)} className="mr-2" />
+          타입별 평균 (기하평균)
+        </label>
+        <label className="flex items-center">
+          <input type="checkbox" checked={showEnvelope} onChange={(e) => setShowEnvelope(e.target.checked)} className="mr-2" />
+          타입별 범위 (최소~최대)
+        </label>
+        {petrogeneticModels.length > 0 && (
+          <label className="flex items-center">
+            <input type="checkbox" checked={showModels} onChange={(e) => setShowModels(e.target.checked)} className="mr-2" />
+            성인 모델 ({petrogeneticModels.filter(m => m.visible).length})
+          </label>
+        )}
+      </div>
+
+      {elements.length < 2 ? (
+        <div className="p-8 text-center text-gray-500 bg-gray-50 rounded-lg">
+          <Info className="h-8 w-8 mx-auto mb-2 text-gray-400" />
+          {SPIDER_PATTERNS[patternId].name} 원소 컬럼을 2개 이상 찾지 못했습니다.
+          <p className="text-xs mt-1">컬럼 이름이 원소 기호(La, Ce, ...) 또는 La_ppm 형식인지 확인해주세요.</p>
+        </div>
+      ) : (
+        <>
+          <div ref={chartRef} className="bg-white">
+            <ResponsiveContainer width="100%" height={480}>
+              <ComposedChart data={chartData} margin={{ top: 20, right: 30, bottom: 20, left: 20 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e0e0e0" />
+                <XAxis dataKey="element" interval={0} tick={{ fontSize: 12 }} />
+                <YAxis
+                  scale="log"
+                  domain={yDomain}
+                  ticks={yTicks}
+                  allowDataOverflow
+                  tick={{ fontSize: 11 }}
+                  tickFormatter={(value) => value >= 1 ? value.toLocaleString() : String(value)}
+                  label={{
+                    value: `시료 / ${reference.name}`,
+                    angle: -90,
+                    position: 'insideLeft',
+                    style: { fontSize: 12, fill: '#666', textAnchor: 'middle' }
+                  }}
+                />
+                <Tooltip
+                  content={({ active, label, payload }) => {
+                    if (!active || !payload) return null
+                    const point = chartData.find(p => p.element === label)
+                    return (
+                      <div className="bg-white border border-gray-200 rounded shadow p-2 text-xs">
+                        <div className="font-semibold mb-1">{label}</div>
+                        {types.map((type, typeIndex) => point?.[`mean${typeIndex}`] !== undefined && (
+                          <div key={type} style={{ color: typeColor(type) }}>
+                            {type}: {Number(point[`mean${typeIndex}`]).toPrecision(3)} (평균)
+                          </div>
+                        ))}
+                      </div>
+                    )
+                  }}
+                />
+
+                {showEnvelope && types.map((type, typeIndex) => (
+                  <Area
+                    key={`env-${type}`}
+                    dataKey={`env${typeIndex}`}
+                    stroke="none"
+                    fill={typeColor(type)}
+                    fillOpacity={0.15}
+                    isAnimationActive={false}
+                    connectNulls
+                  />
+                ))}
+
+                {showSamples && visibleSamples.map(sample => (
+                  <Line
+                    key={`s-${sample.index}`}
+                    dataKey={`s${sample.index}`}
+                    stroke={typeColor(sample.type)}
+                    strokeWidth={1}
+                    strokeOpacity={0.6}
+                    dot={{ r: 2 }}
+                    activeDot={false}
+                    isAnimationActive={false}
+                    connectNulls
+                  />
+                ))}
+
+                {showMean && types.map((type, typeIndex) => (
+                  <Line
+                    key={`mean-${type}`}
+                    dataKey={`mean${typeIndex}`}
+                    stroke={typeColor(type)}
+                    strokeWidth={3}
+                    dot={{ r: 4 }}
+                    isAnimationActive={false}
+                    connectNulls
+                  />
+                ))}
+
+                {/* 성인 모델 (마지막 원소 옆에 F 표시) */}
+                {modelLines.map(line => (
+                  <Line
+                    key={line.key}
+                    dataKey={line.key}
+                    stroke={line.model.color}
+                    strokeWidth={1.5}
+                    strokeDasharray="6 3"
+                    dot={false}
+                    activeDot={false}
+                    isAnimationActive={false}
+                    connectNulls
+                    label={(props: any) => props.index === elements.length - 1 && props.value !== null && props.value !== undefined
+                      ? <text x={props.x + 4} y={props.y + 3} fontSize={9} fill={line.model.color}>{formatModelF(line.f)}</text>
+                      : <g />}
+                  />
+                ))}
+              </ComposedChart>
+            </ResponsiveContainer>
+
+            {/* 범례 */}
+            <div className="flex flex-wrap justify-center gap-4 mt-2 text-sm">
+              {types.map(type => (
+                <div key={type} className="flex items-center">
+                  <span className="inline-block w-4 h-1 mr-2" style={{ backgroundColor: typeColor(type) }} />
+                  {type} ({samples.filter(s => s.type === type).length})
+                </div>
+              ))}
+              {modelLines
+                .filter((line, i) => modelLines.findIndex(l => l.model.id === line.model.id) === i)
+                .map(line => (
+                  <div key={line.model.id} className="flex items-center">
+                    <span className="inline-block w-4 mr-2 border-t-2 border-dashed" style={{ borderColor: line.model.color }} />
+                    {line.model.name}
+                  </div>
+                ))}
+            </div>
+          </div>
+
+          <div className="mt-4 p-3 bg-gray-50 rounded-lg text-xs text-gray-600 space-y-1">
+            <p>
+              사용된 컬럼: {elements.map(el => elementColumns[el].column === el
+                ? el
+                : `${el} ← ${elementColumns[el].column}`).join(', ')}
+            </p>
+            {modelLines.length > 0 && (
+              <p>점선: 성인 모델의 F 값별 용융체 조성 (분배계수가 없는 원소는 건너뜀)</p>
+            )}
+            {missingElements.length > 0 && (
+              <p>제외된 원소 (컬럼 또는 기준값 없음): {missingElements.join(', ')}</p>
+            )}
+            {samples.length > MAX_SAMPLE_LINES && showSamples && (
+              <p className="text-orange-600">
+                개별 시료는 처음 {MAX_SAMPLE_LINES}개만 표시됩니다 (평균/범위는 전체 {samples.length}개 시료 기준).
+              </p>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
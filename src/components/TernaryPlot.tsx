@@ -0,0 +1,389 @@
+'use client'
+
+import { useMemo, useRef, useState } from 'react'
+import { Download, Info, X } from 'lucide-react'
+import { AxisConfig, GeochemData } from '@/types/geochem'
+import { getAxisTitleWithUnits, getAxisValueWithUnits, getRatioUnitFactor } from '@/lib/units'
+import { TERNARY_HEIGHT, closeTernary, ternaryGridLines, ternaryToCartesian } from '@/lib/ternary'
+import { exportElementAsPNG, exportSVGElement } from '@/lib/chart-export'
+import { defaultGraphSettings } from './ScatterPlot'
+
+interface TernaryPlotProps {
+  data: GeochemData
+  typeColumn?: string
+}
+
+type Apex = 'top' | 'left' | 'right'
+
+const APEXES: { id: Apex; label: string }[] = [
+  { id: 'top', label: '위 꼭짓점' },
+  { id: 'left', label: '왼쪽 꼭짓점' },
+  { id: 'right', label: '오른쪽 꼭짓점' }
+]
+
+// SVG 레이아웃 (오른쪽에 범례)
+const SIDE = 480
+const MARGIN = { top: 40, left: 50, bottom: 60 }
+const LEGEND_WIDTH = 180
+const WIDTH = MARGIN.left + SIDE + 40 + LEGEND_WIDTH
+const HEIGHT = MARGIN.top + SIDE * TERNARY_HEIGHT + MARGIN.bottom
+
+// 삼각 좌표(%) → SVG 좌표
+function toSVG(point: [number, number, number]): [number, number] {
+  const { x, y } = ternaryToCartesian(point[0], point[1], point[2])
+  return [MARGIN.left + x * SIDE, MARGIN.top + (TERNARY_HEIGHT - y) * SIDE]
+}
+
+// 꼭짓점 축 선택 (단일 / 비율 / 합)
+function TernaryAxisSelector({
+  label,
+  value,
+  columns,
+  onChange
+}: {
+  label: string
+  value: AxisConfig | null
+  columns: string[]
+  onChange: (config: AxisConfig | null) => void
+}) {
+  const [axisType, setAxisType] = useState<AxisConfig['type']>(value?.type || 'single')
+  const [ratioTemp, setRatioTemp] = useState({ numerator: '', denominator: '' })
+  const terms = value?.type === 'sum' ? value.terms || [] : []
+
+  const handleTypeChange = (type: AxisConfig['type']) => {
+    setAxisType(type)
+    setRatioTemp({ numerator: '', denominator: '' })
+    onChange(null)
+  }
+
+  const handleRatioSelect = (part: 'numerator' | 'denominator', column: string) => {
+    const newRatio = { ...ratioTemp, [part]: column }
+    setRatioTemp(newRatio)
+    onChange(newRatio.numerator && newRatio.denominator
+      ? {
+          type: 'ratio',
+          numerator: newRatio.numerator,
+          denominator: newRatio.denominator,
+          label: `${newRatio.numerator}/${newRatio.denominator}`
+        }
+      : null)
+  }
+
+  const handleTermsChange = (newTerms: string[]) => {
+    onChange(newTerms.length > 0
+      ? { type: 'sum', numerator: newTerms[0], terms: newTerms, label: newTerms.join('+') }
+      : null)
+  }
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-sm font-medium text-gray-700">{label}</label>
+      <div className="flex gap-1">
+        {([['single', '단일'], ['ratio', '비율 (A/B)'], ['sum', '합 (A+B+…)']] as const).map(([type, text]) => (
+          <button
+            key={type}
+            onClick={() => handleTypeChange(type)}
+            className={`flex-1 px-2 py-1 text-xs rounded ${
+              axisType === type ? 'bg-emerald-600 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+            }`}
+          >
+            {text}
+          </button>
+        ))}
+      </div>
+
+      {axisType === 'single' && (
+        <select
+          value={value?.type === 'single' ? value.numerator : ''}
+          onChange={(e) => onChange(e.target.value
+            ? { type: 'single', numerator: e.target.value, label: e.target.value }
+            : null)}
+          className="w-full p-2 text-sm border border-gray-300 rounded-md"
+        >
+          <option value="">선택...</option>
+          {columns.map(col => <option key={col} value={col}>{col}</option>)}
+        </select>
+      )}
+
+      {axisType === 'ratio' && (
+        <div className="flex items-center gap-1">
+          <select
+            value={ratioTemp.numerator}
+            onChange={(e) => handleRatioSelect('numerator', e.target.value)}
+            className="flex-1 min-w-0 p-2 text-sm border border-gray-300 rounded-md"
+          >
+            <option value="">분자</option>
+            {columns.map(col => <option key={col} value={col}>{col}</option>)}
+          </select>
+          <span className="text-gray-500">/</span>
+          <select
+            value={ratioTemp.denominator}
+            onChange={(e) => handleRatioSelect('denominator', e.target.value)}
+            className="flex-1 min-w-0 p-2 text-sm border border-gray-300 rounded-md"
+          >
+            <option value="">분모</option>
+            {columns.filter(col => col !== ratioTemp.numerator).map(col => <option key={col} value={col}>{col}</option>)}
+          </select>
+        </div>
+      )}
+
+      {axisType === 'sum' && (
+        <div className="space-y-1">
+          <div className="flex flex-wrap gap-1">
+            {terms.map(term => (
+              <span key={term} className="flex items-center px-2 py-0.5 text-xs bg-emerald-100 text-emerald-800 rounded">
+                {term}
+                <button onClick={() => handleTermsChange(terms.filter(t => t !== term))} className="ml-1">
+                  <X className="h-3 w-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+          <select
+            value=""
+            onChange={(e) => e.target.value && handleTermsChange([...terms, e.target.value])}
+            className="w-full p-2 text-sm border border-gray-300 rounded-md"
+          >
+            <option value="">컬럼 추가...</option>
+            {columns.filter(col => !terms.includes(col)).map(col => <option key={col} value={col}>{col}</option>)}
+          </select>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default function TernaryPlot({ data, typeColumn: initialTypeColumn }: TernaryPlotProps) {
+  const chartRef = useRef<HTMLDivElement>(null)
+  const [axes, setAxes] = useState<Record<Apex, AxisConfig | null>>({ top: null, left: null, right: null })
+  const [scales, setScales] = useState<Record<Apex, number>>({ top: 1, left: 1, right: 1 })
+  const [typeColumn, setTypeColumn] = useState<string>(initialTypeColumn || data.typeColumn || '')
+  const [showGrid, setShowGrid] = useState(true)
+  const [gridStep, setGridStep] = useState(10)
+  const [pointSize, setPointSize] = useState(4)
+
+  const colors = defaultGraphSettings.plotOptions.customColors
+  const isReady = APEXES.every(({ id }) => axes[id] !== null)
+
+  // 꼭짓점 라벨 (배율이 1이 아니면 함께 표시)
+  const apexTitle = (apex: Apex) => {
+    const config = axes[apex]
+    if (!config) return ''
+    const title = getAxisTitleWithUnits(data, config)
+    return scales[apex] !== 1 ? `${title} ×${scales[apex]}` : title
+  }
+
+  // 시료별 삼각 좌표 (합 100%로 닫기)
+  const { points, types } = useMemo(() => {
+    if (!isReady) return { points: [], types: [] as string[] }
+
+    const ratioFactors = APEXES.map(({ id }) => {
+      const config = axes[id]!
+      return config.type === 'ratio' ? getRatioUnitFactor(data, config.numerator, config.denominator!) : 1
+    })
+
+    const typeNames: string[] = []
+    const computed = data.data
+      .map((row, index) => {
+        const [top, left, right] = APEXES.map(({ id }, i) =>
+          getAxisValueWithUnits(data, row, axes[id]!, ratioFactors[i]) * scales[id]
+        )
+        const closed = closeTernary(top, left, right)
+        if (!closed) return null
+
+        const type = typeColumn && row[typeColumn] !== null && row[typeColumn] !== undefined
+          ? String(row[typeColumn]).trim() || 'Unknown'
+          : 'All Data'
+        if (!typeNames.includes(type)) typeNames.push(type)
+        return { index, type, closed, raw: [top, left, right] }
+      })
+      .filter((p): p is NonNullable<typeof p> => p !== null)
+
+    return { points: computed, types: typeNames }
+  }, [data, axes, scales, typeColumn, isReady])
+
+  const typeColor = (type: string) => colors[types.indexOf(type) % colors.length]
+
+  const handleExportPNG = async () => {
+    if (!chartRef.current) return
+    try {
+      await exportElementAsPNG(chartRef.current, `ternary-${Date.now()}.png`)
+    } catch (error) {
+      console.error('Export failed:', error)
+      alert('이미지 내보내기에 실패했습니다.')
+    }
+  }
+
+  const handleExportSVG = () => {
+    const svgElement = chartRef.current?.querySelector('svg')
+    if (!svgElement) {
+      alert('SVG를 찾을 수 없습니다.')
+      return
+    }
+    try {
+      exportSVGElement(svgElement, `ternary-${Date.now()}.svg`)
+    } catch (error) {
+      console.error('SVG export failed:', error)
+      alert('SVG 내보내기에 실패했습니다.')
+    }
+  }
+
+  const [topX, topY] = toSVG([100, 0, 0])
+  const [leftX, leftY] = toSVG([0, 100, 0])
+  const [rightX, rightY] = toSVG([0, 0, 100])
+
+  // 격자 눈금 라벨 위치 (각 성분의 눈금을 서로 다른 변에 표시)
+  const gridLabelOffset: Record<Apex, [number, number, 'start' | 'end' | 'middle']> = {
+    top: [6, 4, 'start'],
+    left: [-6, 4, 'end'],
+    right: [0, 16, 'middle']
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-gray-800">삼각 다이어그램</h2>
+        <div className="flex gap-2">
+          <button
+            onClick={handleExportPNG}
+            disabled={!isReady}
+            className="flex items-center px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 disabled:opacity-50"
+          >
+            <Download className="h-4 w-4 mr-1" />
+            PNG
+          </button>
+          <button
+            onClick={handleExportSVG}
+            disabled={!isReady}
+            className="flex items-center px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 disabled:opacity-50"
+          >
+            <Download className="h-4 w-4 mr-1" />
+            SVG
+          </button>
+        </div>
+      </div>
+
+      {/* 꼭짓점 설정 */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        {APEXES.map(({ id, label }) => (
+          <div key={id} className="p-3 bg-gray-50 rounded-lg space-y-2">
+            <TernaryAxisSelector
+              label={label}
+              value={axes[id]}
+              columns={data.numericColumns}
+              onChange={(config) => setAxes(prev => ({ ...prev, [id]: config }))}
+            />
+            <div className="flex items-center gap-2">
+              <label className="text-xs text-gray-600">배율</label>
+              <input
+                type="number"
+                min={0}
+                step="any"
+                value={scales[id]}
+                onChange={(e) => {
+                  const value = parseFloat(e.target.value)
+                  setScales(prev => ({ ...prev, [id]: isFinite(value) && value > 0 ? value : 1 }))
+                }}
+                className="w-24 p-1 text-sm border border-gray-300 rounded-md"
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 mb-4 text-sm text-gray-700">
+        <div className="flex items-center gap-2">
+          <label>타입 컬럼</label>
+          <select
+            value={typeColumn}
+            onChange={(e) => setTypeColumn(e.target.value)}
+            className="p-1.5 text-sm border border-gray-300 rounded-md"
+          >
+            <option value="">없음</option>
+            {data.nonNumericColumns.map(col => (
+              <option key={col} value={col}>{col}</option>
+            ))}
+          </select>
+        </div>
+        <label className="flex items-center">
+          <input type="checkbox" checked={showGrid} onChange={(e) => setShowGrid(e.target.checked)} className="mr-2" />
+          격자선
+        </label>
+        <select
+          value={gridStep}
+          onChange={(e) => setGridStep(parseInt(e.target.value))}
+          disabled={!showGrid}
+          className="p-1.5 text-sm border border-gray-300 rounded-md"
+        >
+          {[10, 20, 25].map(step => <option key={step} value={step}>{step}% 간격</option>)}
+        </select>
+        <div className="flex items-center gap-2">
+          <label>점 크기</label>
+          <input
+            type="range"
+            min={2}
+            max={8}
+            value={pointSize}
+            onChange={(e) => setPointSize(parseInt(e.target.value))}
+          />
+        </div>
+      </div>
+
+      {!isReady ? (
+        <div className="p-8 text-center text-gray-500 bg-gray-50 rounded-lg">
+          <Info className="h-8 w-8 mx-auto mb-2 text-gray-400" />
+          세 꼭짓점의 변수를 모두 선택해주세요.
+          <p className="text-xs mt-1">세 값은 시료마다 합이 100%가 되도록 닫힙니다. 배율로 작은 성분을 확대할 수 있습니다 (예: Zr ×3).</p>
+        </div>
+      ) : (
+        <>
+          <div ref={chartRef} className="bg-white overflow-x-auto">
+            <svg xmlns="http://www.w3.org/2000/svg" viewBox={`0 0 ${WIDTH} ${HEIGHT}`} width="100%" style={{ maxWidth: WIDTH }} className="mx-auto block">
+              {/* 격자선 */}
+              {showGrid && ternaryGridLines(gridStep).map(line => {
+                const [x1, y1] = toSVG(line.from)
+                const [x2, y2] = toSVG(line.to)
+                const [dx, dy, anchor] = gridLabelOffset[line.apex]
+                return (
+                  <g key={`${line.apex}${line.value}`}>
+                    <line x1={x1} y1={y1} x2={x2} y2={y2} stroke="#e0e0e0" strokeDasharray="3 3" />
+                    <text x={x2 + dx} y={y2 + dy} textAnchor={anchor} fontSize={10} fill="#999">{line.value}</text>
+                  </g>
+                )
+              })}
+
+              <path d={`M${topX},${topY} L${leftX},${leftY} L${rightX},${rightY} Z`} fill="none" stroke="#333" strokeWidth={1.5} />
+              <text x={topX} y={topY - 12} textAnchor="middle" fontSize={14} fill="#333">{apexTitle('top')}</text>
+              <text x={leftX} y={leftY + 36} textAnchor="middle" fontSize={14} fill="#333">{apexTitle('left')}</text>
+              <text x={rightX} y={rightY + 36} textAnchor="middle" fontSize={14} fill="#333">{apexTitle('right')}</text>
+
+              {/* 시료 */}
+              {points.map(point => {
+                const [x, y] = toSVG(point.closed)
+                return (
+                  <circle key={point.index} cx={x} cy={y} r={pointSize} fill={typeColor(point.type)} fillOpacity={0.8} stroke="#fff" strokeWidth={0.5}>
+                    <title>{`#${point.index + 1} ${point.type}\n${APEXES.map(({ id }, i) => `${apexTitle(id)}: ${point.closed[i].toFixed(1)}%`).join('\n')}`}</title>
+                  </circle>
+                )
+              })}
+
+              {/* 범례 */}
+              <g transform={`translate(${MARGIN.left + SIDE + 40}, ${MARGIN.top})`} fontSize={12} fill="#333">
+                {types.map((type, i) => (
+                  <g key={type} transform={`translate(0, ${i * 20})`}>
+                    <circle cx={6} cy={0} r={5} fill={typeColor(type)} />
+                    <text x={16} y={4}>{type} ({points.filter(p => p.type === type).length})</text>
+                  </g>
+                ))}
+              </g>
+            </svg>
+          </div>
+
+          <div className="mt-4 p-3 bg-gray-50 rounded-lg text-xs text-gray-600">
+            표시된 시료: {points.length}/{data.data.length}개 (세 값 중 하나라도 없거나 음수이면 제외)
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,26 @@
+// SVG 도표의 축 눈금 계산
+
+/**
+ * 선형 축 눈금 (1, 2, 5 × 10^n 간격)
+ */
+export function linearTicks(min: number, max: number, count: number = 8): number[] {
+  const rough = (max - min) / count
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rough)))
+  const step = [1, 2, 5, 10].map(m => m * magnitude).find(s => s >= rough) || rough
+  const ticks: number[] = []
+  for (let v = Math.ceil(min / step) * step; v <= max + step * 1e-9; v += step) {
+    ticks.push(parseFloat(v.toPrecision(10)))
+  }
+  return ticks
+}
+
+/**
+ * 로그 축 눈금 (10의 거듭제곱)
+ */
+export function logTicks(min: number, max: number): number[] {
+  const ticks: number[] = []
+  for (let exp = Math.ceil(Math.log10(min)); exp <= Math.floor(Math.log10(max)); exp++) {
+    ticks.push(Math.pow(10, exp))
+  }
+  return ticks
+}
@@ -0,0 +1,334 @@
+import { CensoredCell, CensoredCellMap, CensoredPolicy, GeochemData } from '@/types/geochem'
+
+// 검출한계 미만 표기 (bdl, n.d., <DL 등)
+const BELOW_LIMIT_TOKENS = new Set([
+  'bdl', 'b.d.l.', 'b.d.l', 'bd', 'b.d.', 'b.d',
+  'nd', 'n.d.', 'n.d', 'not detected',
+  '<dl', '<lod', '<lld', '<loq', 'lod', 'dl'
+])
+
+// "<0.01", "< 0.01", "<0,01" 형태
+const LESS_THAN_PATTERN = /^<\s*(\d*[.,]?\d+(?:e[-+]?\d+)?)$/i
+
+// 음수가 실제 값일 수 있는 컬럼 (동위원소 δ/ε 값, 좌표, 온도, PCA 점수 등)
+const SIGNED_COLUMN_PATTERN = /^(δ|d\d|delta|ε|eps|e(nd|hf|sr)\b)|lat|lon|coord|temp|eh\b|score|resid|^pc\d|^[xyz]$/i
+
+export const CENSORED_POLICY_LABELS: Record<CensoredPolicy, string> = {
+  omit: '제외',
+  half: 'DL/2 대체',
+  sqrt2: 'DL/√2 대체',
+  ros: 'ROS 추정 (Robust ROS)'
+}
+
+export interface ParsedCensoredValue {
+  value: number | null  // 검출값 (검출한계 미만이면 null)
+  censored: boolean
+  detectionLimit: number | null  // 원본에 표기된 검출한계 (없으면 null)
+}
+
+/**
+ * 셀 값을 검출값 또는 검출한계 미만 값으로 해석
+ * 해석할 수 없으면 null 반환 (음수 처리는 컬럼 단위로 extractCensoredValues에서 결정)
+ */
+export function parseCensoredValue(raw: unknown): ParsedCensoredValue | null {
+  if (typeof raw === 'number') {
+    return isFinite(raw) ? { value: raw, censored: false, detectionLimit: null } : null
+  }
+  if (typeof raw !== 'string') return null
+
+  const text = raw.trim()
+  if (text === '') return null
+
+  const lower = text.toLowerCase()
+  if (BELOW_LIMIT_TOKENS.has(lower)) {
+    return { value: null, censored: true, detectionLimit: null }
+  }
+
+  const match = text.match(LESS_THAN_PATTERN)
+  if (match) {
+    const limit = parseFloat(match[1].replace(',', '.'))
+    return isFinite(limit) && limit > 0
+      ? { value: null, censored: true, detectionLimit: limit }
+      : null
+  }
+
+  const parsed = Number(text)
+  return isFinite(parsed) ? { value: parsed, censored: false, detectionLimit: null } : null
+}
+
+/**
+ * 수치형 컬럼에서 검출한계 미만 셀을 찾아 null로 치환하고 셀 정보를 분리
+ * - "<0.01": DL = 0.01
+ * - 음수 (-0.005): DL = 0.005 (음수가 소수이고 부호 있는 컬럼이 아닌 경우에만)
+ * - "bdl", "n.d." 등 수치 없는 표기: 파일의 검출한계 행(columnLimits) 값,
+ *   없으면 컬럼의 최소 DL 또는 최소 양수 검출값으로 추정
+ */
+export function extractCensoredValues(
+  rows: Record<string, any>[],
+  columns: string[],
+  columnLimits: Record<string, number | undefined> = {}
+): { data: Record<string, any>[]; censored: CensoredCellMap; censoredCount: number } {
+  const data = rows.map(row => ({ ...row }))
+  const censored: CensoredCellMap = {}
+  let censoredCount = 0
+
+  columns.forEach(col => {
+    const parsed = rows.map(row => parseCensoredValue(row[col]))
+    const detected = parsed.filter(p => p && !p.censored).map(p => p!.value as number)
+    const negativeCount = detected.filter(v => v < 0).length
+    const negativeMeansCensored =
+      negativeCount > 0 &&
+      negativeCount < detected.length / 2 &&
+      !SIGNED_COLUMN_PATTERN.test(col.trim())
+
+    const cells: Record<number, CensoredCell> = {}
+    const pendingRows: number[] = []  // DL 수치가 없는 행
+
+    parsed.forEach((p, rowIndex) => {
+      if (!p) return
+      const raw = String(rows[rowIndex][col]).trim()
+
+      if (p.censored) {
+        if (p.detectionLimit !== null) {
+          cells[rowIndex] = { detectionLimit: p.detectionLimit, raw }
+        } else {
+          pendingRows.push(rowIndex)
+        }
+      } else if (negativeMeansCensored && (p.value as number) < 0) {
+        cells[rowIndex] = { detectionLimit: Math.abs(p.value as number), raw }
+      } else {
+        return
+      }
+      data[rowIndex][col] = null
+    })
+
+    if (pendingRows.length > 0) {
+      const columnLimit = columnLimits[col]
+      const statedLimits = Object.values(cells).map(c => c.detectionLimit)
+      const positiveDetected = detected.filter(v => v > 0)
+      const fallbackLimit = columnLimit !== undefined
+        ? columnLimit
+        : statedLimits.length > 0
+          ? statedLimits.reduce((min, v) => Math.min(min, v), Infinity)
+          : positiveDetected.length > 0 ? positiveDetected.reduce((min, v) => Math.min(min, v), Infinity) : null
+
+      pendingRows.forEach(rowIndex => {
+        data[rowIndex][col] = null
+        if (fallbackLimit !== null) {
+          cells[rowIndex] = {
+            detectionLimit: fallbackLimit,
+            raw: String(rows[rowIndex][col]).trim(),
+            ...(columnLimit === undefined && { estimatedLimit: true })
+          }
+        }
+      })
+    }
+
+    const cellCount = Object.keys(cells).length
+    if (cellCount > 0) {
+      censored[col] = cells
+      censoredCount += cellCount
+    }
+  })
+
+  return { data, censored, censoredCount }
+}
+
+/**
+ * 검출한계 미만 값을 정책에 따라 대체
+ * values: 검출값 (검출한계 미만/결측은 NaN), limits: 같은 위치의 DL (검출값이면 null)
+ */
+export function substituteCensored(
+  values: number[],
+  limits: (number | null)[],
+  policy: CensoredPolicy
+): number[] {
+  const censoredIndices = limits
+    .map((limit, i) => (limit !== null && limit !== undefined ? i : -1))
+    .filter(i => i >= 0)
+
+  if (censoredIndices.length === 0) return values
+
+  const result = [...values]
+
+  if (policy === 'ros') {
+    const detects = values.filter((v, i) =>
+      (limits[i] === null || limits[i] === undefined) && isFinite(v) && v > 0
+    )
+    const imputed = robustROS(detects, censoredIndices.map(i => limits[i] as number))
+    if (imputed) {
+      censoredIndices.forEach((index, k) => { result[index] = imputed[k] })
+      return result
+    }
+    // 검출값이 부족하면 DL/2로 대체
+  }
+
+  censoredIndices.forEach(index => {
+    const limit = limits[index] as number
+    switch (policy) {
+      case 'omit':
+        result[index] = NaN
+        break
+      case 'sqrt2':
+        result[index] = limit / Math.SQRT2
+        break
+      default:
+        result[index] = limit / 2
+    }
+  })
+
+  return result
+}
+
+/**
+ * 컬럼의 수치 값과 셀별 검출한계 배열 반환
+ */
+export function getColumnWithLimits(
+  data: GeochemData,
+  column: string
+): { values: number[]; limits: (number | null)[] } {
+  const cells = data.censored?.[column]
+  return {
+    values: data.data.map(row => parseFloat(row[column])),
+    limits: data.data.map((_, rowIndex) => cells?.[rowIndex]?.detectionLimit ?? null)
+  }
+}
+
+/**
+ * 정책을 적용한 컬럼 값 (행 순서 유지, 결측/제외 값은 NaN)
+ */
+export function resolveCensoredColumn(
+  data: GeochemData,
+  column: string,
+  policy: CensoredPolicy
+): number[] {
+  const { values, limits } = getColumnWithLimits(data, column)
+  return substituteCensored(values, limits, policy)
+}
+
+/**
+ * 검출한계 미만 셀을 정책에 따라 대체한 데이터 (omit이면 null)
+ * 행 단위로 계산하는 분석(산점도 통계, 변수 쌍 탐색)이 스캔과 같은 값을 쓰도록
+ */
+export function resolveCensoredData(data: GeochemData, policy: CensoredPolicy): GeochemData {
+  if (!data.censored || countCensoredCells(data.censored) === 0) return data
+  const rows = data.data.map(row => ({ ...row }))
+  for (const [column, cells] of Object.entries(data.censored)) {
+    const resolved = resolveCensoredColumn(data, column, policy)
+    for (const rowIndex of Object.keys(cells).map(Number)) {
+      if (!rows[rowIndex]) continue
+      rows[rowIndex][column] = isFinite(resolved[rowIndex]) ? resolved[rowIndex] : null
+    }
+  }
+  return { ...data, data: rows }
+}
+
+/**
+ * 검출한계 미만 셀을 원본 표기로 되돌린 행 (클라우드 저장용, 불러올 때 extractCensoredValues로 다시 해석)
+ * 검출한계 행에서 가져온 DL은 "<DL"로 기록해 파일 없이도 같은 값을 쓰도록
+ */
+export function restoreCensoredText(data: GeochemData): Record<string, any>[] {
+  if (!data.censored || countCensoredCells(data.censored) === 0) return data.data
+  const rows = data.data.map(row => ({ ...row }))
+  for (const [column, cells] of Object.entries(data.censored)) {
+    for (const [rowIndex, cell] of Object.entries(cells)) {
+      const row = rows[Number(rowIndex)]
+      if (!row) continue
+      const parsed = parseCensoredValue(cell.raw)
+      const limitFromFile = parsed?.censored && parsed.detectionLimit === null && !cell.estimatedLimit
+      row[column] = limitFromFile ? `<${cell.detectionLimit}` : cell.raw
+    }
+  }
+  return rows
+}
+
+/**
+ * 데이터셋의 검출한계 미만 셀 총 개수
+ */
+export function countCensoredCells(censored?: CensoredCellMap): number {
+  if (!censored) return 0
+  return Object.values(censored).reduce((sum, cells) => sum + Object.keys(cells).length, 0)
+}
+
+// Robust ROS (Helsel, 2005): Hirsch-Stedinger plotting position으로
+// 검출값의 log-정규 회귀선을 구한 뒤 검출한계 미만 값을 추정
+function robustROS(detects: number[], limits: number[]): number[] | null {
+  if (detects.length < 3) return null
+
+  const levels = Array.from(new Set(limits)).sort((a, b) => a - b)
+  const m = levels.length
+
+  // 각 DL 이상일 확률 (PE_j), PE_m = 0
+  const exceedance: number[] = new Array(m + 1).fill(0)
+  for (let j = m - 1; j >= 0; j--) {
+    const upper = j + 1 < m ? levels[j + 1] : Infinity
+    const above = detects.filter(v => v >= levels[j] && v < upper).length
+    const below = detects.filter(v => v < levels[j]).length +
+      limits.filter(l => l <= levels[j]).length
+    const ratio = above + below > 0 ? above / (above + below) : 0
+    exceedance[j] = exceedance[j + 1] + ratio * (1 - exceedance[j + 1])
+  }
+
+  // 검출값의 plotting position (DL 구간별)
+  const detectPoints: { z: number; logValue: number }[] = []
+  for (let j = -1; j < m; j++) {
+    const lower = j >= 0 ? levels[j] : -Infinity
+    const upper = j + 1 < m ? levels[j + 1] : Infinity
+    const pLower = j >= 0 ? exceedance[j] : 1
+    const pUpper = exceedance[j + 1]
+    const inInterval = detects.filter(v => v >= lower && v < upper).sort((a, b) => a - b)
+    inInterval.forEach((v, r) => {
+      const pp = (1 - pLower) + (pLower - pUpper) * (r + 1) / (inInterval.length + 1)
+      detectPoints.push({ z: inverseNormalCDF(pp), logValue: Math.log(v) })
+    })
+  }
+
+  const n = detectPoints.length
+  const meanZ = detectPoints.reduce((s, p) => s + p.z, 0) / n
+  const meanLog = detectPoints.reduce((s, p) => s + p.logValue, 0) / n
+  const sxx = detectPoints.reduce((s, p) => s + (p.z - meanZ) ** 2, 0)
+  if (sxx === 0) return null
+  const slope = detectPoints.reduce((s, p) => s + (p.z - meanZ) * (p.logValue - meanLog), 0) / sxx
+  const intercept = meanLog - slope * meanZ
+
+  // 검출한계 미만 값의 plotting position → 추정값 (DL을 넘지 않도록 제한)
+  const rankWithinLimit = new Map<number, number>()
+  return limits.map(limit => {
+    const j = levels.indexOf(limit)
+    const count = limits.filter(l => l === limit).length
+    const r = (rankWithinLimit.get(limit) || 0) + 1
+    rankWithinLimit.set(limit, r)
+    const pp = (1 - exceedance[j]) * r / (count + 1)
+    const estimate = Math.exp(intercept + slope * inverseNormalCDF(pp))
+    return Math.min(estimate, limit)
+  })
+}
+
+// 표준정규분포 역함수 (Acklam 근사)
+function inverseNormalCDF(p: number): number {
+  const clamped = Math.min(Math.max(p, 1e-10), 1 - 1e-10)
+  const a = [-3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2,
+    1.383577518672690e2, -3.066479806614716e1, 2.506628277459239]
+  const b = [-5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2,
+    6.680131188771972e1, -1.328068155288572e1]
+  const c = [-7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838,
+    -2.549732539343734, 4.374664141464968, 2.938163982698783]
+  const d = [7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996,
+    3.754408661907416]
+  const pLow = 0.02425
+
+  if (clamped < pLow) {
+    const q = Math.sqrt(-2 * Math.log(clamped))
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1)
+  }
+  if (clamped > 1 - pLow) {
+    const q = Math.sqrt(-2 * Math.log(1 - clamped))
+    return -(((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1)
+  }
+  const q = clamped - 0.5
+  const r = q * q
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1)
+}
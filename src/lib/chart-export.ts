@@ -0,0 +1,86 @@
+// 차트 이미지 내보내기 (PNG / SVG) 공통 함수
+
+/**
+ * 요소를 PNG로 내보내기 (html2canvas, 2배 해상도)
+ */
+export async function exportElementAsPNG(
+  element: HTMLElement,
+  fileName: string,
+  backgroundColor: string = '#FFFFFF'
+): Promise<void> {
+  const html2canvas = (await import('html2canvas')).default
+  const canvas = await html2canvas(element, {
+    backgroundColor,
+    scale: 2,
+    logging: false,
+    useCORS: true
+  })
+
+  const link = document.createElement('a')
+  link.download = fileName
+  link.href = canvas.toDataURL()
+  link.click()
+}
+
+/**
+ * SVG 요소를 파일로 내보내기
+ * 배경색 추가, transition 스타일 제거, Illustrator 호환 xlink 처리
+ */
+export function exportSVGElement(
+  svgElement: SVGElement,
+  fileName: string,
+  backgroundColor: string = '#FFFFFF'
+): void {
+  const clonedSvg = svgElement.cloneNode(true) as SVGElement
+
+  // 배경색 추가
+  const bgRect = document.createElementNS('http://www.w3.org/2000/svg', 'rect')
+  bgRect.setAttribute('width', '100%')
+  bgRect.setAttribute('height', '100%')
+  bgRect.setAttribute('fill', backgroundColor)
+  clonedSvg.insertBefore(bgRect, clonedSvg.firstChild)
+
+  // 인라인 스타일 중 transition 제거 (SVG에 불필요)
+  const allElements = clonedSvg.querySelectorAll('*')
+  allElements.forEach((el) => {
+    const style = el.getAttribute('style')
+    if (style && style.includes('transition')) {
+      const cleanStyle = style.replace(/transition[^;]*;?/g, '').trim()
+      if (cleanStyle) {
+        el.setAttribute('style', cleanStyle)
+      } else {
+        el.removeAttribute('style')
+      }
+    }
+  })
+
+  // SVG 문자열 생성
+  const serializer = new XMLSerializer()
+  let svgString = serializer.serializeToString(clonedSvg)
+
+  // Illustrator 호환성을 위한 문자열 수정
+  // 1. xmlns:xlink 네임스페이스 추가 (중복 방지)
+  if (!svgString.includes('xmlns:xlink')) {
+    if (svgString.includes('xmlns="http://www.w3.org/2000/svg"')) {
+      svgString = svgString.replace(
+        'xmlns="http://www.w3.org/2000/svg"',
+        'xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" version="1.1"'
+      )
+    }
+  }
+
+  // 2. image 태그의 href를 xlink:href로 변경
+  svgString = svgString.replace(/(<image[^>]*)\shref="/gi, '$1 xlink:href="')
+
+  // XML 선언 추가 (Illustrator 호환성)
+  svgString = '<?xml version="1.0" encoding="UTF-8" standalone="no"?>\n' + svgString
+
+  // 다운로드
+  const blob = new Blob([svgString], { type: 'image/svg+xml;charset=utf-8' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.download = fileName
+  link.href = url
+  link.click()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,329 @@
+import { GeochemData } from '@/types/geochem'
+import { ResolvedSpecies, resolveSpecies, sumSpecies } from './classification-diagrams'
+import { getColumnUnit, getConversionFactor, parseSpecies } from './units'
+
+// CIPW 노름 광물 계산 (Cross, Iddings, Pirsson & Washington, 1902)
+// 주성분(wt%)을 무수 기준 100으로 재계산한 뒤 몰 비율로 광물을 배분하고 실리카 부족 시 불포화 광물로 치환
+// 결과는 광물별 wt%
+
+export type FeTreatment = 'measured' | 'ratio' | 'irvineBaragar'
+
+export const FE_TREATMENT_LABELS: Record<FeTreatment, string> = {
+  measured: '분석값 그대로 (FeO, Fe2O3 컬럼)',
+  ratio: 'Fe2O3/FeO 질량비 고정',
+  irvineBaragar: 'Fe2O3 = TiO2 + 1.5 (Irvine & Baragar, 1971)'
+}
+
+export interface CipwOptions {
+  feTreatment: FeTreatment
+  fe2o3FeoRatio: number  // feTreatment가 'ratio'일 때 사용
+}
+
+export const DEFAULT_CIPW_OPTIONS: CipwOptions = { feTreatment: 'ratio', fe2o3FeoRatio: 0.15 }
+
+type NormOxide = 'SiO2' | 'TiO2' | 'Al2O3' | 'Fe2O3' | 'FeO' | 'MnO' | 'MgO' | 'CaO' | 'Na2O' | 'K2O' | 'P2O5'
+
+export type NormMineral =
+  | 'Q' | 'C' | 'Or' | 'Ab' | 'An' | 'Lc' | 'Ne' | 'Kp' | 'Ac' | 'Ns' | 'Ks'
+  | 'Di' | 'Wo' | 'Hy' | 'Ol' | 'Cs' | 'Mt' | 'Il' | 'Hm' | 'Tn' | 'Pf' | 'Ru' | 'Ap'
+
+export const NORM_MINERAL_NAMES: Record<NormMineral, string> = {
+  Q: '석영', C: '강옥', Or: '정장석', Ab: '조장석', An: '회장석', Lc: '백류석', Ne: '하석', Kp: '칼실라이트',
+  Ac: '에지린', Ns: '소듐 메타규산염', Ks: '칼륨 메타규산염', Di: '투휘석', Wo: '규회석', Hy: '자소휘석',
+  Ol: '감람석', Cs: '칼슘 오르토규산염', Mt: '자철석', Il: '티탄철석', Hm: '적철석', Tn: '티타나이트',
+  Pf: '페로브스카이트', Ru: '금홍석', Ap: '인회석'
+}
+
+// 노름 광물 순서 (컬럼 추가 순서)
+const MINERAL_ORDER = Object.keys(NORM_MINERAL_NAMES) as NormMineral[]
+
+// 광물 조성 (산화물 단위). Di, Hy, Ol은 Mg·Fe 단성분으로 따로 계산
+const MINERAL_OXIDES: Record<Exclude<NormMineral, 'Di' | 'Hy' | 'Ol'>, Partial<Record<NormOxide, number>>> = {
+  Q: { SiO2: 1 },
+  C: { Al2O3: 1 },
+  Or: { K2O: 1, Al2O3: 1, SiO2: 6 },
+  Ab: { Na2O: 1, Al2O3: 1, SiO2: 6 },
+  An: { CaO: 1, Al2O3: 1, SiO2: 2 },
+  Lc: { K2O: 1, Al2O3: 1, SiO2: 4 },
+  Ne: { Na2O: 1, Al2O3: 1, SiO2: 2 },
+  Kp: { K2O: 1, Al2O3: 1, SiO2: 2 },
+  Ac: { Na2O: 1, Fe2O3: 1, SiO2: 4 },
+  Ns: { Na2O: 1, SiO2: 1 },
+  Ks: { K2O: 1, SiO2: 1 },
+  Wo: { CaO: 1, SiO2: 1 },
+  Cs: { CaO: 2, SiO2: 1 },
+  Mt: { FeO: 1, Fe2O3: 1 },
+  Il: { FeO: 1, TiO2: 1 },
+  Hm: { Fe2O3: 1 },
+  Tn: { CaO: 1, TiO2: 1, SiO2: 1 },
+  Pf: { CaO: 1, TiO2: 1 },
+  Ru: { TiO2: 1 },
+  Ap: { CaO: 10 / 3, P2O5: 1 }
+}
+
+const NORM_OXIDES: NormOxide[] = ['SiO2', 'TiO2', 'Al2O3', 'Fe2O3', 'FeO', 'MnO', 'MgO', 'CaO', 'Na2O', 'K2O', 'P2O5']
+const OPTIONAL_OXIDES: NormOxide[] = ['TiO2', 'MnO', 'P2O5']
+
+const MOLAR_MASS = Object.fromEntries(
+  NORM_OXIDES.map(oxide => [oxide, parseSpecies(oxide)!.molarMass])
+) as Record<NormOxide, number>
+
+const formulaMass = (oxides: Partial<Record<NormOxide, number>>) =>
+  Object.entries(oxides).reduce((sum, [oxide, count]) => sum + MOLAR_MASS[oxide as NormOxide] * count!, 0)
+
+// FeOT = FeO + Fe2O3 × 이 값
+const FE2O3_TO_FEO = (2 * MOLAR_MASS.FeO) / MOLAR_MASS.Fe2O3
+
+export const CIPW_COLUMN_PREFIX = 'CIPW_'
+
+export interface CipwResult {
+  minerals: Record<NormMineral, number>  // wt%
+  silicaDeficit: number                  // 모든 치환 후에도 부족한 SiO2 (몰, 보통 0)
+}
+
+/**
+ * 시료 하나의 CIPW 노름 (산화물 wt%, 없는 산화물은 0)
+ */
+export function cipwNorm(oxides: Record<NormOxide, number>): CipwResult {
+  const total = NORM_OXIDES.reduce((sum, oxide) => sum + Math.max(oxides[oxide], 0), 0)
+  if (!(total > 0)) throw new Error('주성분 합이 0입니다')
+
+  // 무수 기준 100 g당 몰수
+  const mol = Object.fromEntries(
+    NORM_OXIDES.map(oxide => [oxide, (Math.max(oxides[oxide], 0) / total) * 100 / MOLAR_MASS[oxide]])
+  ) as Record<NormOxide, number>
+
+  const n = Object.fromEntries(MINERAL_ORDER.map(mineral => [mineral, 0])) as Record<NormMineral, number>
+  let { TiO2: ti, Al2O3: al, Fe2O3: fe3, MgO: mg, CaO: ca, Na2O: na, K2O: k } = mol
+  let fe2 = mol.FeO + mol.MnO
+
+  // 인회석
+  n.Ap = Math.min(mol.P2O5, ca * 0.3)
+  ca -= n.Ap * (10 / 3)
+
+  // 티탄철석
+  n.Il = Math.min(ti, fe2)
+  ti -= n.Il
+  fe2 -= n.Il
+
+  // 정장석 (Al 부족 시 남는 K는 칼륨 메타규산염)
+  n.Or = Math.min(k, al)
+  k -= n.Or
+  al -= n.Or
+  n.Ks = k
+
+  // 조장석 (Al 부족 시 남는 Na는 에지린, 그래도 남으면 소듐 메타규산염)
+  n.Ab = Math.min(na, al)
+  na -= n.Ab
+  al -= n.Ab
+  n.Ac = Math.min(na, fe3)
+  na -= n.Ac
+  fe3 -= n.Ac
+  n.Ns = na
+
+  // 회장석 (남는 Al은 강옥)
+  n.An = Math.min(ca, al)
+  ca -= n.An
+  al -= n.An
+  n.C = al
+
+  // 남는 Ti: 티타나이트, 그래도 남으면 금홍석
+  n.Tn = Math.min(ti, ca)
+  ca -= n.Tn
+  ti -= n.Tn
+  n.Ru = ti
+
+  // 자철석 (남는 Fe2O3는 적철석)
+  n.Mt = Math.min(fe3, fe2)
+  fe3 -= n.Mt
+  fe2 -= n.Mt
+  n.Hm = fe3
+
+  // 투휘석 → 규회석 / 자소휘석
+  let femic = mg + fe2
+  const xMg = femic > 0 ? mg / femic : 0
+  n.Di = Math.min(ca, femic)
+  ca -= n.Di
+  femic -= n.Di
+  n.Wo = ca
+  n.Hy = femic
+
+  // 실리카 수지
+  const silicaUsed = 6 * n.Or + n.Ks + 6 * n.Ab + 4 * n.Ac + n.Ns + 2 * n.An + n.Tn + 2 * n.Di + n.Wo + n.Hy
+  let deficit = silicaUsed - mol.SiO2
+
+  if (deficit <= 0) {
+    n.Q = -deficit
+    deficit = 0
+  } else {
+    // 실리카 부족: 불포화 광물로 차례로 치환 (consumed 몰의 from → to, SiO2 freed 몰 확보)
+    const convert = (from: NormMineral, to: [NormMineral, number][], consumed: number, freed: number) => {
+      if (deficit <= 0) return
+      const x = Math.min(deficit / freed, n[from] / consumed)
+      n[from] -= x * consumed
+      to.forEach(([mineral, count]) => { n[mineral] += x * count })
+      deficit -= x * freed
+    }
+    convert('Hy', [['Ol', 1]], 2, 1)
+    convert('Tn', [['Pf', 1]], 1, 1)
+    convert('Ab', [['Ne', 1]], 1, 4)
+    convert('Or', [['Lc', 1]], 1, 2)
+    convert('Wo', [['Cs', 1]], 2, 1)
+    convert('Di', [['Cs', 0.5], ['Ol', 0.5]], 1, 1)
+    convert('Lc', [['Kp', 1]], 1, 2)
+    deficit = Math.max(deficit, 0)
+  }
+
+  // 몰 → wt% (Mg·Fe 고용체는 xMg로 가중)
+  const femicOxide = (count: number) => xMg * count * MOLAR_MASS.MgO + (1 - xMg) * count * MOLAR_MASS.FeO
+  const minerals = {} as Record<NormMineral, number>
+  MINERAL_ORDER.forEach(mineral => {
+    const mass = mineral === 'Di' ? MOLAR_MASS.CaO + femicOxide(1) + 2 * MOLAR_MASS.SiO2
+      : mineral === 'Hy' ? femicOxide(1) + MOLAR_MASS.SiO2
+      : mineral === 'Ol' ? femicOxide(2) + MOLAR_MASS.SiO2
+      : formulaMass(MINERAL_OXIDES[mineral])
+    minerals[mineral] = n[mineral] > 1e-12 ? n[mineral] * mass : 0
+  })
+
+  return { minerals, silicaDeficit: deficit }
+}
+
+export interface CipwColumns {
+  parts: Partial<Record<NormOxide | 'FeOT', ResolvedSpecies>>
+  missing: string[]
+}
+
+/**
+ * 산화물 컬럼 하나 찾기 (전철 표기 컬럼은 제외, wt%로 환산)
+ */
+function findOxideColumn(data: GeochemData, formula: string): ResolvedSpecies | null {
+  for (const column of data.numericColumns) {
+    const species = parseSpecies(column)
+    if (!species || species.formula !== formula || species.total) continue
+    const factor = getConversionFactor(getColumnUnit(data, column) || 'wt%', 'wt%', species, species)
+    if (factor !== null) return [{ column, factor }]
+  }
+  return null
+}
+
+/**
+ * CIPW 계산에 사용할 주성분 컬럼 매칭
+ * 철은 분석값 그대로이면 FeO·Fe2O3 컬럼이 모두 필요하고, 그 외에는 전철(FeOT)을 나눠서 사용
+ */
+export function resolveCipwColumns(data: GeochemData, options: CipwOptions): CipwColumns {
+  const parts: CipwColumns['parts'] = {}
+  const missing: string[] = []
+
+  NORM_OXIDES.forEach(oxide => {
+    if (oxide === 'FeO' || oxide === 'Fe2O3') {
+      if (options.feTreatment !== 'measured') return
+      const found = findOxideColumn(data, oxide)
+      if (found) parts[oxide] = found
+      else missing.push(oxide)
+      return
+    }
+    const found = resolveSpecies(data, oxide, 'wt%')
+    if (found) parts[oxide] = found
+    else if (!OPTIONAL_OXIDES.includes(oxide)) missing.push(oxide)
+  })
+
+  if (options.feTreatment !== 'measured') {
+    const found = resolveSpecies(data, 'FeOT', 'wt%')
+    if (found) parts.FeOT = found
+    else missing.push('FeOT')
+  }
+
+  return { parts, missing }
+}
+
+/**
+ * 전철(FeOT wt%)을 FeO와 Fe2O3로 나눔
+ */
+function splitIron(feot: number, tio2: number, options: CipwOptions): { FeO: number; Fe2O3: number } {
+  if (options.feTreatment === 'irvineBaragar') {
+    const fe2o3 = Math.min(tio2 + 1.5, feot / FE2O3_TO_FEO)
+    return { FeO: feot - fe2o3 * FE2O3_TO_FEO, Fe2O3: fe2o3 }
+  }
+  const ratio = Math.max(options.fe2o3FeoRatio, 0)
+  const feo = feot / (1 + ratio * FE2O3_TO_FEO)
+  return { FeO: feo, Fe2O3: feo * ratio }
+}
+
+/**
+ * 모든 시료의 CIPW 노름을 계산해 "CIPW_광물" 컬럼(wt%)으로 추가
+ * 이전에 추가한 CIPW 컬럼은 지우고 다시 만들며, 모든 시료에서 0인 광물은 추가하지 않음
+ * 필수 주성분 값이 비어 있는 행은 빈 값
+ */
+export function applyCipwNorm(
+  data: GeochemData,
+  options: CipwOptions
+): { data: GeochemData; minerals: NormMineral[]; failedRows: number[]; undersaturatedRows: number[] } {
+  const { parts, missing } = resolveCipwColumns(data, options)
+  if (missing.length > 0) {
+    throw new Error(`CIPW 계산에 필요한 컬럼이 없습니다: ${missing.join(', ')}`)
+  }
+
+  const failedRows: number[] = []
+  const undersaturatedRows: number[] = []
+  const norms = data.data.map((row, rowIndex) => {
+    const oxides = {} as Record<NormOxide, number>
+    for (const oxide of NORM_OXIDES) {
+      if ((oxide === 'FeO' || oxide === 'Fe2O3') && options.feTreatment !== 'measured') continue
+      const resolved = parts[oxide]
+      const value = resolved ? sumSpecies(row, resolved) : 0
+      if (value === null && !OPTIONAL_OXIDES.includes(oxide)) {
+        failedRows.push(rowIndex)
+        return null
+      }
+      oxides[oxide] = value ?? 0
+    }
+    if (options.feTreatment !== 'measured') {
+      const feot = sumSpecies(row, parts.FeOT!)
+      if (feot === null) {
+        failedRows.push(rowIndex)
+        return null
+      }
+      Object.assign(oxides, splitIron(Math.max(feot, 0), oxides.TiO2, options))
+    }
+    try {
+      const result = cipwNorm(oxides)
+      if (result.silicaDeficit > 1e-9) undersaturatedRows.push(rowIndex)
+      return result.minerals
+    } catch {
+      failedRows.push(rowIndex)
+      return null
+    }
+  })
+
+  const minerals = MINERAL_ORDER.filter(mineral => norms.some(norm => norm && norm[mineral] > 0))
+  const previous = data.numericColumns.filter(col => col.startsWith(CIPW_COLUMN_PREFIX))
+  const columns = minerals.map(mineral => `${CIPW_COLUMN_PREFIX}${mineral}`)
+  const numericColumns = [...data.numericColumns.filter(col => !previous.includes(col)), ...columns]
+
+  const units = { ...data.units }
+  previous.forEach(col => delete units[col])
+  columns.forEach(col => { units[col] = 'wt%' })
+
+  const columnDelta = numericColumns.length - data.numericColumns.length
+
+  return {
+    data: {
+      ...data,
+      data: data.data.map((row, rowIndex) => {
+        const newRow = { ...row }
+        previous.forEach(col => delete newRow[col])
+        const norm = norms[rowIndex]
+        minerals.forEach((mineral, i) => { newRow[columns[i]] = norm ? norm[mineral] : null })
+        return newRow
+      }),
+      numericColumns,
+      units,
+      metadata: data.metadata && columnDelta !== 0
+        ? { ...data.metadata, columnCount: (data.metadata.columnCount || 0) + columnDelta }
+        : data.metadata
+    },
+    minerals,
+    failedRows,
+    undersaturatedRows
+  }
+}
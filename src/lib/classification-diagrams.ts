@@ -0,0 +1,299 @@
+import { GeochemData } from '@/types/geochem'
+import { findSpeciesColumn, getColumnUnit, getConversionFactor, parseSpecies } from './units'
+import { closeTernary, ternaryToCartesian } from './ternary'
+
+// 분류 다이어그램 정의 (필드 경계는 다이어그램 좌표의 다각형)
+// - binary: [x, y]
+// - ternary: [top, left, right] (%)
+export type ClassificationDiagramId = 'tas' | 'afm' | 'pearceRbYNb'
+
+export interface DiagramVariable {
+  label: string
+  species: string[]  // 합산할 화학종
+}
+
+export interface DiagramField {
+  name: string
+  polygon: number[][]
+  labelAt?: number[]  // 라벨 위치 (없으면 꼭짓점 평균)
+}
+
+export interface DiagramLine {
+  name: string
+  points: number[][]
+}
+
+export interface ClassificationDiagram {
+  id: ClassificationDiagramId
+  name: string
+  shortName: string
+  source: string
+  kind: 'binary' | 'ternary'
+  unit: string
+  variables: DiagramVariable[]
+  logScale?: boolean
+  domain?: { x: [number, number]; y: [number, number] }
+  anhydrous?: boolean  // 주성분 무수 기준 재계산 적용 가능 여부
+  fields: DiagramField[]
+  lines?: DiagramLine[]
+}
+
+// 무수 기준 재계산에 사용하는 주성분 (wt%)
+export const MAJOR_OXIDES = ['SiO2', 'TiO2', 'Al2O3', 'FeOT', 'MnO', 'MgO', 'CaO', 'Na2O', 'K2O', 'P2O5']
+
+export const CLASSIFICATION_DIAGRAMS: Record<ClassificationDiagramId, ClassificationDiagram> = {
+  tas: {
+    id: 'tas',
+    name: 'TAS (Na₂O+K₂O vs SiO₂)',
+    shortName: 'TAS',
+    source: 'Le Bas et al. (1986); Le Maitre (2002)',
+    kind: 'binary',
+    unit: 'wt%',
+    variables: [
+      { label: 'SiO₂ (wt%)', species: ['SiO2'] },
+      { label: 'Na₂O + K₂O (wt%)', species: ['Na2O', 'K2O'] }
+    ],
+    domain: { x: [35, 80], y: [0, 16] },
+    anhydrous: true,
+    fields: [
+      { name: 'Picrobasalt', polygon: [[41, 0], [41, 3], [45, 3], [45, 0]] },
+      { name: 'Basalt', polygon: [[45, 0], [45, 5], [52, 5], [52, 0]] },
+      { name: 'Basaltic andesite', polygon: [[52, 0], [52, 5], [57, 5.9], [57, 0]] },
+      { name: 'Andesite', polygon: [[57, 0], [57, 5.9], [63, 7], [63, 0]] },
+      { name: 'Dacite', polygon: [[63, 0], [63, 7], [69, 8], [77.3, 0]], labelAt: [67, 3.5] },
+      { name: 'Rhyolite', polygon: [[77.3, 0], [69, 8], [71.8, 13.5], [85.9, 6.8], [87.5, 4.7]], labelAt: [75, 8] },
+      { name: 'Trachybasalt', polygon: [[45, 5], [49.4, 7.3], [52, 5]] },
+      { name: 'Basaltic trachyandesite', polygon: [[52, 5], [49.4, 7.3], [53, 9.3], [57, 5.9]] },
+      { name: 'Trachyandesite', polygon: [[57, 5.9], [53, 9.3], [57.6, 11.7], [63, 7]] },
+      {
+        name: 'Trachyte / Trachydacite',
+        polygon: [[63, 7], [57.6, 11.7], [61, 13.5], [63, 16.2], [69, 17.73], [71.8, 13.5], [69, 8]],
+        labelAt: [65, 11]
+      },
+      { name: 'Tephrite / Basanite', polygon: [[41, 3], [41, 7], [45, 9.4], [49.4, 7.3], [45, 5], [45, 3]] },
+      { name: 'Phonotephrite', polygon: [[49.4, 7.3], [45, 9.4], [48.4, 11.5], [53, 9.3]] },
+      { name: 'Tephriphonolite', polygon: [[53, 9.3], [48.4, 11.5], [52.5, 14], [57.6, 11.7]] },
+      { name: 'Phonolite', polygon: [[57.6, 11.7], [52.5, 14], [52.5, 18], [57, 18], [63, 16.2], [61, 13.5]], labelAt: [57, 14.5] },
+      { name: 'Foidite', polygon: [[41, 3], [35, 3], [35, 9], [37, 14], [52.5, 18], [52.5, 14], [48.4, 11.5], [45, 9.4], [41, 7]], labelAt: [42, 11] }
+    ],
+    lines: [
+      {
+        name: 'Alkaline / Subalkaline (Irvine & Baragar, 1971)',
+        points: [[39.2, 0], [40, 0.4], [43.2, 2], [45, 2.8], [48, 4], [50, 4.75], [53.7, 6], [55, 6.4], [60, 8], [65, 8.8], [77.4, 10]]
+      }
+    ]
+  },
+  afm: {
+    id: 'afm',
+    name: 'AFM (A–F–M)',
+    shortName: 'AFM',
+    source: 'Irvine & Baragar (1971)',
+    kind: 'ternary',
+    unit: 'wt%',
+    variables: [
+      { label: 'F (FeOT)', species: ['FeOT'] },
+      { label: 'A (Na₂O+K₂O)', species: ['Na2O', 'K2O'] },
+      { label: 'M (MgO)', species: ['MgO'] }
+    ],
+    // 경계 곡선은 원 논문 그림을 디지타이즈한 근사값
+    fields: [
+      {
+        name: 'Tholeiitic',
+        polygon: [[100, 0, 0], [38, 0, 62], [45, 10, 45], [52, 15, 33], [57, 20, 23], [58, 28, 14], [54, 38, 8], [50, 50, 0]],
+        labelAt: [65, 15, 20]
+      },
+      {
+        name: 'Calc-alkaline',
+        polygon: [[0, 100, 0], [0, 0, 100], [38, 0, 62], [45, 10, 45], [52, 15, 33], [57, 20, 23], [58, 28, 14], [54, 38, 8], [50, 50, 0]],
+        labelAt: [25, 40, 35]
+      }
+    ]
+  },
+  pearceRbYNb: {
+    id: 'pearceRbYNb',
+    name: 'Pearce 화강암 판별 (Rb vs Y+Nb)',
+    shortName: 'Pearce',
+    source: 'Pearce et al. (1984)',
+    kind: 'binary',
+    unit: 'ppm',
+    variables: [
+      { label: 'Y + Nb (ppm)', species: ['Y', 'Nb'] },
+      { label: 'Rb (ppm)', species: ['Rb'] }
+    ],
+    logScale: true,
+    domain: { x: [1, 2000], y: [1, 2000] },
+    fields: [
+      { name: 'syn-COLG', polygon: [[1, 2000], [1, 80], [2, 80], [55, 300], [400, 2000]], labelAt: [6, 700] },
+      { name: 'VAG', polygon: [[1, 1], [1, 80], [2, 80], [55, 300], [51.5, 8], [50, 1]], labelAt: [8, 10] },
+      { name: 'WPG', polygon: [[55, 300], [400, 2000], [2000, 2000], [2000, 400], [51.5, 8]], labelAt: [300, 300] },
+      { name: 'ORG', polygon: [[50, 1], [51.5, 8], [2000, 400], [2000, 1]], labelAt: [400, 8] }
+    ]
+  }
+}
+
+// 화학종 하나를 구성하는 컬럼들 (값 × factor의 합)
+export type ResolvedSpecies = { column: string; factor: number }[]
+
+export interface ResolvedDiagram {
+  variables: ResolvedSpecies[][]
+  majors: ResolvedSpecies[]
+  missing: string[]
+}
+
+/**
+ * 화학종에 해당하는 컬럼 찾기
+ * 전철(FeOT)이 없으면 FeO와 Fe2O3를 FeO 기준으로 합산
+ */
+export function resolveSpecies(data: GeochemData, species: string, unit: string): ResolvedSpecies | null {
+  const match = findSpeciesColumn(data, species, unit)
+  if (match) return [match]
+
+  const target = parseSpecies(species)
+  if (!target?.total) return null
+
+  const parts: ResolvedSpecies = []
+  const usedFormulas: string[] = []
+  data.numericColumns.forEach(column => {
+    const source = parseSpecies(column)
+    if (!source || source.element !== target.element || source.oxygens === 0) return
+    if (usedFormulas.includes(source.formula)) return
+    const factor = getConversionFactor(getColumnUnit(data, column) || 'wt%', unit, source, target)
+    if (factor === null) return
+    parts.push({ column, factor })
+    usedFormulas.push(source.formula)
+  })
+
+  return parts.length > 0 ? parts : null
+}
+
+/**
+ * 다이어그램 변수에 사용할 컬럼 매칭
+ */
+export function resolveDiagramColumns(data: GeochemData, diagram: ClassificationDiagram): ResolvedDiagram {
+  const missing: string[] = []
+
+  const variables = diagram.variables.map(variable =>
+    variable.species.map(species => {
+      const resolved = resolveSpecies(data, species, diagram.unit)
+      if (!resolved) missing.push(species)
+      return resolved || []
+    })
+  )
+
+  const majors = diagram.anhydrous
+    ? MAJOR_OXIDES
+        .map(oxide => resolveSpecies(data, oxide, 'wt%'))
+        .filter((r): r is ResolvedSpecies => r !== null)
+    : []
+
+  return { variables, majors, missing }
+}
+
+/**
+ * 화학종 값 (컬럼 값 × factor의 합, 값이 하나라도 없으면 null)
+ */
+export function sumSpecies(row: Record<string, any>, parts: ResolvedSpecies): number | null {
+  let total = 0
+  for (const { column, factor } of parts) {
+    const value = parseFloat(row[column])
+    if (!isFinite(value)) return null
+    total += value * factor
+  }
+  return total
+}
+
+/**
+ * 시료의 다이어그램 좌표 계산 (값이 하나라도 없으면 null)
+ * anhydrous: 주성분 합으로 100% 재계산 (LOI 등 휘발성분 제외)
+ */
+export function computeDiagramPoint(
+  row: Record<string, any>,
+  diagram: ClassificationDiagram,
+  resolved: ResolvedDiagram,
+  anhydrous: boolean = false
+): number[] | null {
+  if (resolved.missing.length > 0) return null
+
+  const values: number[] = []
+  for (const variable of resolved.variables) {
+    let total = 0
+    for (const parts of variable) {
+      const value = sumSpecies(row, parts)
+      if (value === null) return null
+      total += value
+    }
+    values.push(total)
+  }
+
+  if (diagram.kind === 'ternary') {
+    return closeTernary(values[0], values[1], values[2])
+  }
+
+  if (anhydrous && diagram.anhydrous && resolved.majors.length > 0) {
+    // 주성분이 하나라도 결측이면 합이 작아져 좌표가 부풀려지므로 null
+    let majorSum = 0
+    for (const parts of resolved.majors) {
+      const value = sumSpecies(row, parts)
+      if (value === null) return null
+      majorSum += value
+    }
+    if (majorSum <= 0) return null
+    return values.map(v => (v / majorSum) * 100)
+  }
+
+  if (diagram.logScale && values.some(v => v <= 0)) return null
+  return values
+}
+
+/**
+ * 다이어그램 좌표 → 평면 좌표 (로그 축은 log10, 삼각 좌표는 직교 좌표로 변환)
+ * 로그-로그 다이어그램의 경계선은 로그 공간에서 직선
+ */
+export function toPlaneCoordinates(diagram: ClassificationDiagram, point: number[]): [number, number] {
+  if (diagram.kind === 'ternary') {
+    const { x, y } = ternaryToCartesian(point[0], point[1], point[2])
+    return [x, y]
+  }
+  if (diagram.logScale) {
+    return [Math.log10(point[0]), Math.log10(point[1])]
+  }
+  return [point[0], point[1]]
+}
+
+function isInsidePolygon(point: [number, number], polygon: [number, number][]): boolean {
+  const [x, y] = point
+  let inside = false
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i]
+    const [xj, yj] = polygon[j]
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+/**
+ * 좌표가 속하는 필드 이름 (어느 필드에도 없으면 null)
+ */
+export function classifyPoint(diagram: ClassificationDiagram, point: number[]): string | null {
+  const plane = toPlaneCoordinates(diagram, point)
+  const field = diagram.fields.find(f =>
+    isInsidePolygon(plane, f.polygon.map(vertex => toPlaneCoordinates(diagram, vertex)))
+  )
+  return field ? field.name : null
+}
+
+/**
+ * 전체 시료 분류 (행 순서대로, 좌표를 계산할 수 없거나 필드 밖이면 null)
+ */
+export function classifySamples(
+  data: GeochemData,
+  diagram: ClassificationDiagram,
+  anhydrous: boolean = false
+): { points: (number[] | null)[]; classes: (string | null)[] } {
+  const resolved = resolveDiagramColumns(data, diagram)
+  const points = data.data.map(row => computeDiagramPoint(row, diagram, resolved, anhydrous))
+  const classes = points.map(point => (point ? classifyPoint(diagram, point) : null))
+  return { points, classes }
+}
@@ -0,0 +1,266 @@
+import { GeochemData, LogRatioMethod, LogRatioTransform } from '@/types/geochem'
+
+// 조성 데이터(합이 일정한 성분들) 로그비 변환
+// 닫힌 조성의 원시 값 상관관계는 허위 상관이 생기므로 로그비 공간에서 분석
+
+export const LOG_RATIO_LABELS: Record<LogRatioMethod, string> = {
+  clr: 'CLR (중심 로그비)',
+  ilr: 'ILR (등거리 로그비, 균형 기저)',
+  alr: 'ALR (가법 로그비, 공통 분모)'
+}
+
+// 0/검출한계 미만 값 대체 비율 기본값 (Martín-Fernández et al., 2003)
+export const DEFAULT_REPLACEMENT_DELTA = 0.65
+
+export interface LogRatioOptions {
+  method: LogRatioMethod
+  columns: string[]
+  denominator?: string
+  balances?: number[][]
+  replacementDelta?: number
+}
+
+/**
+ * 기본 ILR 기저 (pivot 균형): i번째 성분 vs 나머지 뒤쪽 성분들
+ */
+export function pivotBalances(partCount: number): number[][] {
+  const balances: number[][] = []
+  for (let i = 0; i < partCount - 1; i++) {
+    balances.push(Array.from({ length: partCount }, (_, j) => (j < i ? 0 : j === i ? 1 : -1)))
+  }
+  return balances
+}
+
+// 균형의 대비 벡터 (정규직교 기저의 한 축)
+function balanceContrast(balance: number[]): number[] {
+  const r = balance.filter(b => b > 0).length
+  const s = balance.filter(b => b < 0).length
+  return balance.map(b =>
+    b > 0 ? Math.sqrt(s / (r * (r + s))) : b < 0 ? -Math.sqrt(r / (s * (r + s))) : 0
+  )
+}
+
+/**
+ * 사용자 정의 균형 기저 파싱
+ * 한 줄에 균형 하나, 성분 순서대로 +, -, 0 (예: "+ + - -")
+ * 각 균형에 +와 -가 모두 있어야 하고, 균형끼리 직교해야 함
+ */
+export function parseBalances(text: string, partCount: number): number[][] {
+  const rows = text.split('\n').map(line => line.trim()).filter(line => line.length > 0)
+  if (rows.length === 0) {
+    throw new Error('균형을 한 줄 이상 입력해주세요.')
+  }
+  if (rows.length > partCount - 1) {
+    throw new Error(`균형은 최대 ${partCount - 1}개 (성분 수 - 1)까지 지정할 수 있습니다.`)
+  }
+
+  const balances = rows.map((line, index) => {
+    const tokens = line.split(/[\s,]+/)
+    if (tokens.length !== partCount) {
+      throw new Error(`${index + 1}번째 균형: 성분 ${partCount}개에 대해 +, -, 0을 지정해주세요.`)
+    }
+    const balance = tokens.map(token => {
+      if (token === '+' || token === '+1' || token === '1') return 1
+      if (token === '-' || token === '-1') return -1
+      if (token === '0') return 0
+      throw new Error(`${index + 1}번째 균형: 알 수 없는 기호 "${token}"`)
+    })
+    if (!balance.includes(1) || !balance.includes(-1)) {
+      throw new Error(`${index + 1}번째 균형: +와 - 성분이 모두 필요합니다.`)
+    }
+    return balance
+  })
+
+  // 직교성 확인 (순차 이분할이면 항상 직교)
+  const contrasts = balances.map(balanceContrast)
+  for (let i = 0; i < contrasts.length; i++) {
+    for (let j = i + 1; j < contrasts.length; j++) {
+      const dot = contrasts[i].reduce((sum, v, k) => sum + v * contrasts[j][k], 0)
+      if (Math.abs(dot) > 1e-9) {
+        throw new Error(`${i + 1}번째와 ${j + 1}번째 균형이 직교하지 않습니다. 순차 이분할(SBP)로 지정해주세요.`)
+      }
+    }
+  }
+
+  return balances
+}
+
+/**
+ * 변환 변수 컬럼 이름
+ * clr(SiO2), alr(SiO2/Al2O3), ilr1(SiO2,Al2O3|MgO)
+ */
+function transformedColumnNames(
+  method: LogRatioMethod,
+  columns: string[],
+  denominator?: string,
+  balances?: number[][]
+): string[] {
+  if (method === 'clr') return columns.map(col => `clr(${col})`)
+  if (method === 'alr') return columns.filter(col => col !== denominator).map(col => `alr(${col}/${denominator})`)
+  return (balances || []).map((balance, index) => {
+    const plus = columns.filter((_, j) => balance[j] > 0)
+    const minus = columns.filter((_, j) => balance[j] < 0)
+    return `ilr${index + 1}(${plus.join(',')}|${minus.join(',')})`
+  })
+}
+
+/**
+ * 0/검출한계 미만 값 곱셈 대체 (multiplicative replacement)
+ * - 검출한계 미만: δ × DL
+ * - DL 정보 없는 0/음수: δ × 컬럼 최소 양수값
+ * - 나머지 성분은 행 합이 보존되도록 비례 축소
+ * 값이 없는 성분이 있으면 해당 행은 null
+ */
+function replaceZeros(
+  data: GeochemData,
+  columns: string[],
+  delta: number
+): { rows: (number[] | null)[]; replacedCount: number } {
+  const minPositive = columns.map(col => {
+    const positives = data.data.map(row => parseFloat(row[col])).filter(v => isFinite(v) && v > 0)
+    return positives.length > 0 ? Math.min(...positives) : null
+  })
+
+  let replacedCount = 0
+  const rows = data.data.map((row, rowIndex) => {
+    const parts: number[] = []
+    const replaced: boolean[] = []
+
+    for (let j = 0; j < columns.length; j++) {
+      const cell = data.censored?.[columns[j]]?.[rowIndex]
+      const value = parseFloat(row[columns[j]])
+      if (cell) {
+        parts.push(delta * cell.detectionLimit)
+        replaced.push(true)
+      } else if (isFinite(value) && value > 0) {
+        parts.push(value)
+        replaced.push(false)
+      } else if (isFinite(value) && minPositive[j] !== null) {
+        parts.push(delta * minPositive[j]!)
+        replaced.push(true)
+      } else {
+        return null
+      }
+    }
+
+    // 검출된 성분 합(= 행 합)을 유지하도록 축소
+    const replacedSum = parts.reduce((sum, v, j) => sum + (replaced[j] ? v : 0), 0)
+    const observedSum = parts.reduce((sum, v, j) => sum + (replaced[j] ? 0 : v), 0)
+    const scale = observedSum > 0 ? 1 - replacedSum / observedSum : 0
+    if (scale <= 0) return null
+
+    replacedCount += replaced.filter(Boolean).length
+    return parts.map((v, j) => (replaced[j] ? v : v * scale))
+  })
+
+  return { rows, replacedCount }
+}
+
+/**
+ * 성분 벡터의 로그비 변환
+ */
+function transformParts(
+  parts: number[],
+  method: LogRatioMethod,
+  denominatorIndex: number,
+  balances: number[][]
+): number[] {
+  const logs = parts.map(Math.log)
+
+  if (method === 'clr') {
+    const meanLog = logs.reduce((sum, v) => sum + v, 0) / logs.length
+    return logs.map(v => v - meanLog)
+  }
+
+  if (method === 'alr') {
+    return logs.filter((_, j) => j !== denominatorIndex).map(v => v - logs[denominatorIndex])
+  }
+
+  // ilr: √(rs/(r+s)) · ln(g(+)/g(−))
+  return balances.map(balance => {
+    const plus = logs.filter((_, j) => balance[j] > 0)
+    const minus = logs.filter((_, j) => balance[j] < 0)
+    const r = plus.length
+    const s = minus.length
+    const meanPlus = plus.reduce((sum, v) => sum + v, 0) / r
+    const meanMinus = minus.reduce((sum, v) => sum + v, 0) / s
+    return Math.sqrt((r * s) / (r + s)) * (meanPlus - meanMinus)
+  })
+}
+
+/**
+ * 적용된 로그비 변환 제거 (변환 변수 컬럼 삭제)
+ */
+export function removeLogRatioTransform(data: GeochemData): GeochemData {
+  if (!data.logRatio) return data
+  const removed = data.logRatio.columns
+
+  return {
+    ...data,
+    data: data.data.map(row => {
+      const newRow = { ...row }
+      removed.forEach(col => delete newRow[col])
+      return newRow
+    }),
+    numericColumns: data.numericColumns.filter(col => !removed.includes(col)),
+    logRatio: undefined
+  }
+}
+
+/**
+ * 선택한 성분에 로그비 변환을 적용해서 변환 변수 컬럼 추가
+ * 기존 변환이 있으면 교체
+ */
+export function applyLogRatioTransform(data: GeochemData, options: LogRatioOptions): GeochemData {
+  const { method, columns, denominator } = options
+  const delta = options.replacementDelta ?? DEFAULT_REPLACEMENT_DELTA
+
+  if (columns.length < 2) {
+    throw new Error('로그비 변환에는 2개 이상의 성분이 필요합니다.')
+  }
+  if (method === 'alr' && (!denominator || !columns.includes(denominator))) {
+    throw new Error('ALR 분모 성분을 선택해주세요.')
+  }
+
+  const balances = method === 'ilr' ? options.balances || pivotBalances(columns.length) : undefined
+  const base = removeLogRatioTransform(data)
+  const newColumns = transformedColumnNames(method, columns, denominator, balances)
+  const { rows, replacedCount } = replaceZeros(base, columns, delta)
+  const denominatorIndex = denominator ? columns.indexOf(denominator) : -1
+
+  const newData = base.data.map((row, rowIndex) => {
+    const parts = rows[rowIndex]
+    const values = parts ? transformParts(parts, method, denominatorIndex, balances || []) : null
+    const newRow = { ...row }
+    newColumns.forEach((col, k) => {
+      newRow[col] = values ? values[k] : null
+    })
+    return newRow
+  })
+
+  const logRatio: LogRatioTransform = {
+    method,
+    sourceColumns: columns,
+    columns: newColumns,
+    denominator: method === 'alr' ? denominator : undefined,
+    balances,
+    replacementDelta: delta,
+    replacedCount
+  }
+
+  return {
+    ...base,
+    data: newData,
+    numericColumns: [...base.numericColumns, ...newColumns],
+    logRatio
+  }
+}
+
+/**
+ * 분석 대상 수치 컬럼 (로그비 변환이 적용되면 원본 성분 대신 변환 변수 사용)
+ */
+export function getAnalysisColumns(data: GeochemData): string[] {
+  if (!data.logRatio) return data.numericColumns
+  const sources = data.logRatio.sourceColumns
+  return data.numericColumns.filter(col => !sources.includes(col))
+}
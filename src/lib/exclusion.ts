@@ -0,0 +1,202 @@
+import { CensoredCellMap, ExclusionOperator, ExclusionRule, GeochemData, RowExclusion } from '@/types/geochem'
+import { getActiveSubset, matchesQueryGroup } from './query'
+
+// 행 제외 (직접 선택 + 규칙 + 적용 중인 부분집합 밖의 행): 모든 분석 모드에서 같은 부분집합을 사용
+
+export const EXCLUSION_OPERATOR_LABELS: Record<ExclusionOperator, string> = {
+  '>': '>',
+  '>=': '≥',
+  '<': '<',
+  '<=': '≤',
+  '=': '=',
+  '!=': '≠',
+  'empty': '비어 있음'
+}
+
+export const EMPTY_EXCLUSION: RowExclusion = { manual: [], rules: [] }
+
+/**
+ * 행이 규칙에 맞는지 확인
+ * 크기 비교는 두 값이 모두 숫자일 때만, =/≠는 숫자가 아니면 문자열로 비교
+ */
+export function matchesExclusionRule(row: Record<string, any>, rule: ExclusionRule): boolean {
+  const raw = row[rule.column]
+  const text = raw === null || raw === undefined ? '' : String(raw).trim()
+  if (rule.operator === 'empty') return text === ''
+
+  const value = parseFloat(text)
+  const target = parseFloat(rule.value)
+  const numeric = text !== '' && isFinite(value) && rule.value.trim() !== '' && isFinite(target)
+
+  switch (rule.operator) {
+    case '>': return numeric && value > target
+    case '>=': return numeric && value >= target
+    case '<': return numeric && value < target
+    case '<=': return numeric && value <= target
+    case '=': return numeric ? value === target : text === rule.value.trim()
+    case '!=': return numeric ? value !== target : text !== rule.value.trim()
+  }
+}
+
+/**
+ * 규칙 표시 문자열 (예: "LOI > 5")
+ */
+export function describeExclusionRule(rule: ExclusionRule): string {
+  return rule.operator === 'empty'
+    ? `${rule.column} ${EXCLUSION_OPERATOR_LABELS.empty}`
+    : `${rule.column} ${EXCLUSION_OPERATOR_LABELS[rule.operator]} ${rule.value}`
+}
+
+const excludedRowsCache = new WeakMap<GeochemData, Set<number>>()
+
+/**
+ * 제외된 원본 행 인덱스 (직접 선택 + 사용 중인 규칙 + 적용 중인 부분집합 밖의 행)
+ */
+export function getExcludedRows(data: GeochemData): Set<number> {
+  const cached = excludedRowsCache.get(data)
+  if (cached) return cached
+
+  const excluded = new Set<number>()
+  const exclusion = data.exclusion
+  if (exclusion) {
+    exclusion.manual.forEach(index => {
+      if (index >= 0 && index < data.data.length) excluded.add(index)
+    })
+    const rules = exclusion.rules.filter(rule => rule.enabled && rule.column)
+    if (rules.length > 0) {
+      data.data.forEach((row, index) => {
+        if (rules.some(rule => matchesExclusionRule(row, rule))) excluded.add(index)
+      })
+    }
+  }
+
+  const subset = getActiveSubset(data)
+  if (subset) {
+    data.data.forEach((row, index) => {
+      if (!matchesQueryGroup(row, subset.query)) excluded.add(index)
+    })
+  }
+
+  excludedRowsCache.set(data, excluded)
+  return excluded
+}
+
+/**
+ * 규칙 하나에 맞는 행 수 (설정 화면 미리보기용)
+ */
+export function countRuleMatches(data: GeochemData, rule: ExclusionRule): number {
+  if (!rule.column) return 0
+  return data.data.filter(row => matchesExclusionRule(row, rule)).length
+}
+
+const appliedCache = new WeakMap<GeochemData, GeochemData>()
+
+/**
+ * 제외된 행을 뺀 분석용 데이터
+ * 검출한계 정보는 새 행 번호로 다시 매기고, 원본 행 번호는 rowIndices에 기록
+ * 같은 데이터에는 같은 객체를 돌려줌 (제외할 행이 없으면 원본 그대로)
+ */
+export function applyExclusion(data: GeochemData): GeochemData {
+  const excluded = getExcludedRows(data)
+  if (excluded.size === 0) return data
+
+  const cached = appliedCache.get(data)
+  if (cached) return cached
+
+  const rowIndices = data.data.map((_, index) => index).filter(index => !excluded.has(index))
+  const newIndex = new Map(rowIndices.map((original, index) => [original, index]))
+
+  let censored: CensoredCellMap | undefined
+  if (data.censored) {
+    censored = {}
+    Object.entries(data.censored).forEach(([column, cells]) => {
+      const remapped: CensoredCellMap[string] = {}
+      Object.entries(cells).forEach(([rowIndex, cell]) => {
+        const index = newIndex.get(Number(rowIndex))
+        if (index !== undefined) remapped[index] = cell
+      })
+      if (Object.keys(remapped).length > 0) censored![column] = remapped
+    })
+  }
+
+  // exclusion/부분집합은 원본 행 번호 기준이므로 분석용 데이터에는 남기지 않음
+  const { exclusion, activeSubsetId, ...rest } = data
+  const applied: GeochemData = {
+    ...rest,
+    data: rowIndices.map(index => data.data[index]),
+    censored,
+    rowIndices
+  }
+  appliedCache.set(data, applied)
+  return applied
+}
+
+/**
+ * 원본 행 인덱스 (행 제외를 적용한 데이터의 인덱스 → 원본)
+ */
+export function toSourceRowIndex(data: GeochemData, index: number): number {
+  return data.rowIndices ? data.rowIndices[index] : index
+}
+
+/**
+ * 분석용 데이터 기준 배열을 원본 행 길이로 펼침 (제외된 행은 fill)
+ * 예: 제외 후 계산한 PCA 클러스터를 원본 데이터 행에 맞출 때
+ */
+export function expandToSourceRows<T>(active: GeochemData, sourceLength: number, values: T[], fill: T): T[] {
+  if (!active.rowIndices) return values
+  const expanded = new Array<T>(sourceLength).fill(fill)
+  active.rowIndices.forEach((sourceIndex, index) => {
+    if (index < values.length) expanded[sourceIndex] = values[index]
+  })
+  return expanded
+}
+
+/**
+ * 분석용 데이터에서 바뀐 컬럼을 원본 데이터에 반영 (새 컬럼의 제외된 행 값은 null)
+ * 예: 다이어그램에서 분류·계산 결과를 컬럼으로 추가할 때
+ */
+export function mergeIntoSourceRows(source: GeochemData, updated: GeochemData): GeochemData {
+  if (!updated.rowIndices) return updated
+  const columns = [...updated.numericColumns, ...updated.nonNumericColumns]
+  const removed = [...source.numericColumns, ...source.nonNumericColumns].filter(col => !columns.includes(col))
+
+  const rows = source.data.map(row => {
+    const newRow = { ...row }
+    removed.forEach(col => delete newRow[col])
+    columns.forEach(col => {
+      if (!(col in newRow)) newRow[col] = null
+    })
+    return newRow
+  })
+  updated.rowIndices.forEach((sourceIndex, index) => {
+    columns.forEach(col => {
+      rows[sourceIndex][col] = updated.data[index][col]
+    })
+  })
+
+  const { rowIndices, ...rest } = updated
+  return {
+    ...rest,
+    data: rows,
+    censored: source.censored,
+    exclusion: source.exclusion,
+    activeSubsetId: source.activeSubsetId
+  }
+}
+
+/**
+ * 직접 제외 목록에 행 추가/해제
+ */
+export function setRowsExcluded(exclusion: RowExclusion | undefined, rows: number[], exclude: boolean): RowExclusion {
+  const current = exclusion || EMPTY_EXCLUSION
+  const manual = new Set(current.manual)
+  rows.forEach(index => (exclude ? manual.add(index) : manual.delete(index)))
+  return { ...current, manual: Array.from(manual).sort((a, b) => a - b) }
+}
+
+/**
+ * 제외 설정이 비어 있는지 (저장 시 생략)
+ */
+export function isExclusionEmpty(exclusion: RowExclusion | undefined): boolean {
+  return !exclusion || (exclusion.manual.length === 0 && exclusion.rules.length === 0)
+}
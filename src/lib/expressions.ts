@@ -0,0 +1,352 @@
+import { DerivedColumn, GeochemData } from '@/types/geochem'
+import { REFERENCE_COMPOSITIONS } from './reference-compositions'
+import { findSpeciesColumn } from './units'
+
+// 파생 컬럼 수식 (예: Mg# = 100*(MgO/40.3)/((MgO/40.3)+(FeOT/71.85)), Eu/Eu* = EuN/sqrt(SmN*GdN))
+// 사칙연산, ^, 괄호, 함수만 허용 (eval 사용 안 함)
+
+export type ExpressionNode =
+  | { type: 'number'; value: number }
+  | { type: 'reference'; name: string; position: number }
+  | { type: 'unary'; operator: '-' | '+'; operand: ExpressionNode }
+  | { type: 'binary'; operator: '+' | '-' | '*' | '/' | '^'; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'call'; name: string; args: ExpressionNode[]; position: number }
+
+interface Token {
+  kind: 'number' | 'identifier' | 'quoted' | 'operator' | 'end'
+  text: string
+  position: number
+}
+
+// 함수: [최소 인자 수, 최대 인자 수, 계산]
+const FUNCTIONS: Record<string, [number, number, (...args: number[]) => number]> = {
+  log10: [1, 1, Math.log10],
+  ln: [1, 1, Math.log],
+  log2: [1, 1, Math.log2],
+  exp: [1, 1, Math.exp],
+  sqrt: [1, 1, Math.sqrt],
+  abs: [1, 1, Math.abs],
+  pow: [2, 2, Math.pow],
+  min: [1, Infinity, Math.min],
+  max: [1, Infinity, Math.max],
+  mean: [1, Infinity, (...args) => args.reduce((sum, v) => sum + v, 0) / args.length],
+  sum: [1, Infinity, (...args) => args.reduce((sum, v) => sum + v, 0)]
+}
+
+const BINARY_OPERATORS: Record<'+' | '-' | '*' | '/' | '^', (a: number, b: number) => number> = {
+  '+': (a, b) => a + b,
+  '-': (a, b) => a - b,
+  '*': (a, b) => a * b,
+  '/': (a, b) => a / b,
+  '^': Math.pow
+}
+
+// 컬럼 이름보다 우선순위가 낮은 상수
+const CONSTANTS: Record<string, number> = { pi: Math.PI }
+
+export const EXPRESSION_FUNCTIONS = Object.keys(FUNCTIONS)
+
+const fail = (position: number, message: string): never => {
+  throw new Error(`${position + 1}번째 글자: ${message}`)
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+  while (i < source.length) {
+    const ch = source[i]
+    if (/\s/.test(ch)) {
+      i++
+    } else if (/[0-9.]/.test(ch)) {
+      const match = source.slice(i).match(/^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/)
+      if (!match) fail(i, `잘못된 숫자입니다`)
+      tokens.push({ kind: 'number', text: match![0], position: i })
+      i += match![0].length
+    } else if (/[A-Za-z_]/.test(ch)) {
+      const match = source.slice(i).match(/^[A-Za-z_][A-Za-z0-9_]*/)!
+      tokens.push({ kind: 'identifier', text: match[0], position: i })
+      i += match[0].length
+    } else if (ch === '[' || ch === '`') {
+      // 특수문자가 들어간 컬럼 이름: [Mg#], `La (ppm)`
+      const close = source.indexOf(ch === '[' ? ']' : '`', i + 1)
+      if (close < 0) fail(i, `닫는 ${ch === '[' ? ']' : '`'}가 없습니다`)
+      tokens.push({ kind: 'quoted', text: source.slice(i + 1, close), position: i })
+      i = close + 1
+    } else if ('+-*/^(),'.includes(ch)) {
+      tokens.push({ kind: 'operator', text: ch, position: i })
+      i++
+    } else {
+      fail(i, `사용할 수 없는 문자 "${ch}"`)
+    }
+  }
+  tokens.push({ kind: 'end', text: '', position: source.length })
+  return tokens
+}
+
+/**
+ * 수식을 구문 트리로 변환 (문법 오류는 위치와 함께 Error)
+ * 우선순위: ^ (오른쪽 결합) > 단항 +/- > * / > + -
+ */
+export function parseExpression(source: string): ExpressionNode {
+  const tokens = tokenize(source)
+  let index = 0
+  const peek = () => tokens[index]
+  const isOperator = (text: string) => peek().kind === 'operator' && peek().text === text
+  const expect = (text: string) => {
+    if (!isOperator(text)) fail(peek().position, `"${text}"가 필요합니다`)
+    index++
+  }
+
+  const parseAdditive = (): ExpressionNode => {
+    let left = parseMultiplicative()
+    while (isOperator('+') || isOperator('-')) {
+      const operator = tokens[index++].text as '+' | '-'
+      left = { type: 'binary', operator, left, right: parseMultiplicative() }
+    }
+    return left
+  }
+
+  const parseMultiplicative = (): ExpressionNode => {
+    let left = parseUnary()
+    while (isOperator('*') || isOperator('/')) {
+      const operator = tokens[index++].text as '*' | '/'
+      left = { type: 'binary', operator, left, right: parseUnary() }
+    }
+    return left
+  }
+
+  const parseUnary = (): ExpressionNode => {
+    if (isOperator('-') || isOperator('+')) {
+      const operator = tokens[index++].text as '-' | '+'
+      return { type: 'unary', operator, operand: parseUnary() }
+    }
+    return parsePower()
+  }
+
+  const parsePower = (): ExpressionNode => {
+    const base = parsePrimary()
+    if (isOperator('^')) {
+      index++
+      return { type: 'binary', operator: '^', left: base, right: parseUnary() }
+    }
+    return base
+  }
+
+  const parsePrimary = (): ExpressionNode => {
+    const token = peek()
+    if (token.kind === 'number') {
+      index++
+      return { type: 'number', value: parseFloat(token.text) }
+    }
+    if (token.kind === 'quoted') {
+      index++
+      if (!token.text.trim()) fail(token.position, '컬럼 이름이 비어 있습니다')
+      return { type: 'reference', name: token.text, position: token.position }
+    }
+    if (token.kind === 'identifier') {
+      index++
+      if (!isOperator('(')) return { type: 'reference', name: token.text, position: token.position }
+      index++
+      const args: ExpressionNode[] = []
+      if (!isOperator(')')) {
+        args.push(parseAdditive())
+        while (isOperator(',')) {
+          index++
+          args.push(parseAdditive())
+        }
+      }
+      expect(')')
+      return { type: 'call', name: token.text, args, position: token.position }
+    }
+    if (isOperator('(')) {
+      index++
+      const inner = parseAdditive()
+      expect(')')
+      return inner
+    }
+    return fail(token.position, token.kind === 'end' ? '수식이 끝나지 않았습니다' : `예상하지 못한 "${token.text}"`)
+  }
+
+  if (peek().kind === 'end') fail(0, '수식이 비어 있습니다')
+  const tree = parseAdditive()
+  if (peek().kind !== 'end') fail(peek().position, `예상하지 못한 "${peek().text}"`)
+  return tree
+}
+
+type RowAccessor = (row: Record<string, any>) => number
+
+/**
+ * 이름을 행 값 접근자로 해석
+ * 컬럼 이름 → 상수 → 콘드라이트 정규화 값 (EuN: Eu 컬럼 / CI 콘드라이트, Sun & McDonough 1989) 순서
+ */
+function resolveReference(data: GeochemData, name: string): RowAccessor | null {
+  if (data.numericColumns.includes(name)) return row => parseFloat(row[name])
+  if (name in CONSTANTS) return () => CONSTANTS[name]
+
+  const element = name.endsWith('N') ? name.slice(0, -1) : ''
+  const chondrite = REFERENCE_COMPOSITIONS.chondrite.values[element]
+  if (chondrite) {
+    const match = findSpeciesColumn(data, element, 'ppm')
+    if (match) return row => (parseFloat(row[match.column]) * match.factor) / chondrite
+  }
+  return null
+}
+
+export interface CompiledExpression {
+  evaluate: (row: Record<string, any>) => number  // 계산할 수 없으면 NaN
+  references: string[]  // 사용한 컬럼/정규화 이름
+}
+
+/**
+ * 수식을 데이터 컬럼에 맞춰 컴파일 (알 수 없는 컬럼·함수, 인자 수 오류는 Error)
+ */
+export function compileExpression(source: string, data: GeochemData): CompiledExpression {
+  const tree = parseExpression(source)
+  const references = new Set<string>()
+
+  const build = (node: ExpressionNode): RowAccessor => {
+    switch (node.type) {
+      case 'number': {
+        const value = node.value
+        return () => value
+      }
+      case 'reference': {
+        const accessor = resolveReference(data, node.name)
+        if (!accessor) {
+          return fail(node.position, data.nonNumericColumns.includes(node.name)
+            ? `"${node.name}"는 숫자 컬럼이 아닙니다`
+            : `알 수 없는 컬럼 "${node.name}"`)
+        }
+        references.add(node.name)
+        return accessor
+      }
+      case 'unary': {
+        const operand = build(node.operand)
+        return node.operator === '-' ? row => -operand(row) : operand
+      }
+      case 'binary': {
+        const left = build(node.left)
+        const right = build(node.right)
+        const operate = BINARY_OPERATORS[node.operator]
+        return row => operate(left(row), right(row))
+      }
+      case 'call': {
+        const fn = FUNCTIONS[node.name]
+        if (!fn) return fail(node.position, `알 수 없는 함수 "${node.name}" (사용 가능: ${EXPRESSION_FUNCTIONS.join(', ')})`)
+        const [minArgs, maxArgs, compute] = fn
+        if (node.args.length < minArgs || node.args.length > maxArgs) {
+          return fail(node.position, minArgs === maxArgs
+            ? `${node.name}()에는 인자가 ${minArgs}개 필요합니다`
+            : `${node.name}()에는 인자가 ${minArgs}개 이상 필요합니다`)
+        }
+        const args = node.args.map(build)
+        return row => compute(...args.map(arg => arg(row)))
+      }
+    }
+  }
+
+  const accessor = build(tree)
+  return {
+    evaluate: row => {
+      const value = accessor(row)
+      return isFinite(value) ? value : NaN
+    },
+    references: Array.from(references)
+  }
+}
+
+/**
+ * "이름 = 수식" 형식 분리 (= 가 없으면 이름 없이 수식만)
+ */
+export function splitDefinition(text: string): { name: string; expression: string } {
+  const equals = text.indexOf('=')
+  if (equals < 0) return { name: '', expression: text.trim() }
+  return { name: text.slice(0, equals).trim(), expression: text.slice(equals + 1).trim() }
+}
+
+/**
+ * 파생 컬럼 정의 검사 (이름 충돌, 수식 오류). 문제가 없으면 null
+ */
+export function validateDerivedColumn(data: GeochemData, definition: DerivedColumn): string | null {
+  const name = definition.name.trim()
+  if (!name) return '컬럼 이름을 입력해주세요.'
+  const isDerived = data.derivedColumns?.some(column => column.name === name)
+  if (!isDerived && (data.numericColumns.includes(name) || data.nonNumericColumns.includes(name))) {
+    return `이미 존재하는 컬럼입니다: ${name}`
+  }
+  try {
+    const compiled = compileExpression(definition.expression, withoutDerivedColumns(data, name))
+    if (compiled.references.includes(name)) return '자기 자신을 참조할 수 없습니다.'
+  } catch (error) {
+    return error instanceof Error ? error.message : '수식 오류'
+  }
+  return null
+}
+
+// 지정한 파생 컬럼(과 그 뒤에 정의된 파생 컬럼)을 참조 대상에서 제외
+function withoutDerivedColumns(data: GeochemData, fromName: string): GeochemData {
+  const definitions = data.derivedColumns || []
+  const start = definitions.findIndex(column => column.name === fromName)
+  if (start < 0) return data
+  const removed = definitions.slice(start).map(column => column.name)
+  return { ...data, numericColumns: data.numericColumns.filter(col => !removed.includes(col)) }
+}
+
+/**
+ * 파생 컬럼 정의를 데이터에 반영 (기존 파생 컬럼은 모두 다시 계산)
+ * 정의 순서대로 계산하므로 앞에서 만든 파생 컬럼을 참조할 수 있음
+ * 계산할 수 없는 값(결측, 0으로 나누기, 음수의 로그)은 null, 수식이 맞지 않는 정의는 failed로 반환
+ */
+export function applyDerivedColumns(
+  data: GeochemData,
+  definitions: DerivedColumn[]
+): { data: GeochemData; failed: { name: string; error: string }[] } {
+  const previous = (data.derivedColumns || []).map(column => column.name)
+  let current: GeochemData = {
+    ...data,
+    data: previous.length > 0
+      ? data.data.map(row => {
+          const newRow = { ...row }
+          previous.forEach(col => delete newRow[col])
+          return newRow
+        })
+      : data.data,
+    numericColumns: data.numericColumns.filter(col => !previous.includes(col)),
+    derivedColumns: []
+  }
+  const failed: { name: string; error: string }[] = []
+
+  definitions.forEach(definition => {
+    const name = definition.name.trim()
+    // 같은 목록 안에서 앞에 정의한 이름은 다시 쓸 수 없음
+    const error = current.derivedColumns!.some(column => column.name === name)
+      ? `이미 정의된 파생 컬럼입니다: ${name}`
+      : validateDerivedColumn(current, definition)
+    if (error) {
+      failed.push({ name, error })
+      return
+    }
+    const { evaluate } = compileExpression(definition.expression, current)
+    current = {
+      ...current,
+      data: current.data.map(row => {
+        const value = evaluate(row)
+        return { ...row, [name]: isNaN(value) ? null : value }
+      }),
+      numericColumns: [...current.numericColumns, name],
+      derivedColumns: [...current.derivedColumns!, { name, expression: definition.expression }]
+    }
+  })
+
+  const columnDelta = current.numericColumns.length - data.numericColumns.length
+  return {
+    data: {
+      ...current,
+      derivedColumns: current.derivedColumns!.length > 0 ? current.derivedColumns : undefined,
+      metadata: data.metadata && columnDelta !== 0
+        ? { ...data.metadata, columnCount: (data.metadata.columnCount || 0) + columnDelta }
+        : data.metadata
+    },
+    failed
+  }
+}
@@ -0,0 +1,300 @@
+import { GeochemData } from '@/types/geochem'
+import { MAJOR_OXIDES, ResolvedSpecies, resolveSpecies, sumSpecies } from './classification-diagrams'
+import { REFERENCE_COMPOSITIONS } from './reference-compositions'
+
+// 표준 지구화학 지수 목록 (컬럼 이름은 화학종으로 자동 매칭, 단위는 환산해서 사용)
+// - 몰 기준 지수는 mmol/kg (산화물 단위 또는 양이온 단위)로 환산
+// - 콘드라이트 정규화: CI 콘드라이트 (Sun & McDonough, 1989)
+
+export interface IndexInput {
+  key: string        // 계산식에서 쓰는 이름
+  species: string    // 매칭할 화학종 (예: Al2O3, FeOT, Zr)
+  unit: string       // 계산에 쓰는 단위
+  optional?: boolean // 없으면 0으로 계산
+}
+
+export interface GeochemIndex {
+  id: string
+  name: string        // 컬럼으로 추가할 때의 이름
+  formula: string
+  reference?: string
+  note?: string
+  inputs: IndexInput[]
+  compute: (v: Record<string, number>) => number  // 계산할 수 없으면 NaN
+}
+
+const MOLAR = 'mmol/kg'
+const WT = 'wt%'
+const PPM = 'ppm'
+
+const oxide = (key: string, unit = MOLAR): IndexInput => ({ key, species: key, unit })
+const element = (key: string): IndexInput => ({ key, species: key, unit: PPM })
+
+// 콘드라이트 정규화 값
+const chondrite = (v: Record<string, number>, el: string) =>
+  v[el] / REFERENCE_COMPOSITIONS.chondrite.values[el]
+
+// 0이나 음수로 나누면 NaN
+const ratio = (numerator: number, denominator: number) =>
+  denominator > 0 ? numerator / denominator : NaN
+
+// Watson & Harrison (1983) 양이온 비 M에 쓰는 주성분 (양이온 몰수)
+const ZIRCON_CATIONS = ['Si', 'Ti', 'Al', 'Fe', 'Mn', 'Mg', 'Ca', 'Na', 'K', 'P']
+const ZIRCON_REQUIRED = ['Si', 'Al', 'Ca', 'Na', 'K']
+
+export const GEOCHEM_INDICES: GeochemIndex[] = [
+  {
+    id: 'mgNumber',
+    name: 'Mg#',
+    formula: '100 × Mg / (Mg + Fe²⁺) (몰, 전철을 FeO로)',
+    note: '전철(FeOT)을 모두 Fe²⁺로 가정',
+    inputs: [oxide('MgO'), { key: 'FeOT', species: 'FeOT', unit: MOLAR }],
+    compute: v => 100 * ratio(v.MgO, v.MgO + v.FeOT)
+  },
+  {
+    id: 'cia',
+    name: 'CIA',
+    formula: '100 × Al2O3 / (Al2O3 + CaO* + Na2O + K2O) (몰)',
+    reference: 'Nesbitt & Young (1982)',
+    note: 'CaO*는 보정 없이 전체 CaO 사용 (탄산염·인회석 보정 안 함)',
+    inputs: [oxide('Al2O3'), oxide('CaO'), oxide('Na2O'), oxide('K2O')],
+    compute: v => 100 * ratio(v.Al2O3, v.Al2O3 + v.CaO + v.Na2O + v.K2O)
+  },
+  {
+    id: 'ciw',
+    name: 'CIW',
+    formula: '100 × Al2O3 / (Al2O3 + CaO* + Na2O) (몰)',
+    reference: 'Harnois (1988)',
+    note: 'CaO*는 보정 없이 전체 CaO 사용',
+    inputs: [oxide('Al2O3'), oxide('CaO'), oxide('Na2O')],
+    compute: v => 100 * ratio(v.Al2O3, v.Al2O3 + v.CaO + v.Na2O)
+  },
+  {
+    id: 'pia',
+    name: 'PIA',
+    formula: '100 × (Al2O3 − K2O) / (Al2O3 + CaO* + Na2O − K2O) (몰)',
+    reference: 'Fedo et al. (1995)',
+    note: 'CaO*는 보정 없이 전체 CaO 사용',
+    inputs: [oxide('Al2O3'), oxide('CaO'), oxide('Na2O'), oxide('K2O')],
+    compute: v => 100 * ratio(v.Al2O3 - v.K2O, v.Al2O3 + v.CaO + v.Na2O - v.K2O)
+  },
+  {
+    id: 'asi',
+    name: 'ASI',
+    formula: 'Al2O3 / (CaO − 3.33·P2O5 + Na2O + K2O) (몰, A/CNK)',
+    reference: 'Frost et al. (2001)',
+    note: 'P2O5가 없으면 인회석 보정 없이 계산',
+    inputs: [oxide('Al2O3'), oxide('CaO'), oxide('Na2O'), oxide('K2O'), { ...oxide('P2O5'), optional: true }],
+    // 인회석 보정: Ca5(PO4)3(OH)의 CaO/P2O5 몰비 10/3
+    compute: v => ratio(v.Al2O3, v.CaO - (10 / 3) * v.P2O5 + v.Na2O + v.K2O)
+  },
+  {
+    id: 'ank',
+    name: 'A/NK',
+    formula: 'Al2O3 / (Na2O + K2O) (몰)',
+    reference: 'Shand (1943)',
+    inputs: [oxide('Al2O3'), oxide('Na2O'), oxide('K2O')],
+    compute: v => ratio(v.Al2O3, v.Na2O + v.K2O)
+  },
+  {
+    id: 'mali',
+    name: 'MALI',
+    formula: 'Na2O + K2O − CaO (wt%)',
+    reference: 'Frost et al. (2001)',
+    inputs: [oxide('Na2O', WT), oxide('K2O', WT), oxide('CaO', WT)],
+    compute: v => v.Na2O + v.K2O - v.CaO
+  },
+  {
+    id: 'feIndex',
+    name: 'Fe-index',
+    formula: 'FeOT / (FeOT + MgO) (wt%)',
+    reference: 'Frost et al. (2001)',
+    inputs: [{ key: 'FeOT', species: 'FeOT', unit: WT }, oxide('MgO', WT)],
+    compute: v => ratio(v.FeOT, v.FeOT + v.MgO)
+  },
+  {
+    id: 'euAnomaly',
+    name: 'Eu/Eu*',
+    formula: 'EuN / √(SmN × GdN)',
+    reference: 'Taylor & McLennan (1985)',
+    inputs: [element('Eu'), element('Sm'), element('Gd')],
+    compute: v => ratio(chondrite(v, 'Eu'), Math.sqrt(chondrite(v, 'Sm') * chondrite(v, 'Gd')))
+  },
+  {
+    id: 'ceAnomaly',
+    name: 'Ce/Ce*',
+    formula: 'CeN / √(LaN × PrN)',
+    reference: 'Taylor & McLennan (1985)',
+    inputs: [element('Ce'), element('La'), element('Pr')],
+    compute: v => ratio(chondrite(v, 'Ce'), Math.sqrt(chondrite(v, 'La') * chondrite(v, 'Pr')))
+  },
+  {
+    id: 'laYbN',
+    name: '(La/Yb)N',
+    formula: 'LaN / YbN',
+    reference: 'Sun & McDonough (1989)',
+    inputs: [element('La'), element('Yb')],
+    compute: v => ratio(chondrite(v, 'La'), chondrite(v, 'Yb'))
+  },
+  {
+    id: 'srY',
+    name: 'Sr/Y',
+    formula: 'Sr / Y (ppm)',
+    reference: 'Defant & Drummond (1990)',
+    inputs: [element('Sr'), element('Y')],
+    compute: v => ratio(v.Sr, v.Y)
+  },
+  {
+    id: 'zrSaturation',
+    name: 'T_Zr (°C)',
+    formula: '12900 / (2.95 + 0.85M + ln(496000 / Zr)) − 273.15, M = (Na + K + 2Ca) / (Al × Si) (양이온 분율)',
+    reference: 'Watson & Harrison (1983)',
+    note: '양이온 분율은 측정된 주성분 합으로 계산 (Ti, Fe, Mn, Mg, P는 없으면 0)',
+    inputs: [
+      ...ZIRCON_CATIONS.map(cation => ({
+        key: cation,
+        species: cation === 'Fe' ? 'FeOT' : cation,  // FeO·Fe2O3 따로 있어도 합산
+        unit: MOLAR,
+        optional: !ZIRCON_REQUIRED.includes(cation)
+      })),
+      element('Zr')
+    ],
+    compute: v => {
+      const total = ZIRCON_CATIONS.reduce((sum, cation) => sum + v[cation], 0)
+      if (!(total > 0) || !(v.Zr > 0)) return NaN
+      const fraction = (cation: string) => v[cation] / total
+      const m = ratio(fraction('Na') + fraction('K') + 2 * fraction('Ca'), fraction('Al') * fraction('Si'))
+      return 12900 / (2.95 + 0.85 * m + Math.log(496000 / v.Zr)) - 273.15
+    }
+  }
+]
+
+export interface ResolvedIndexInput {
+  input: IndexInput
+  parts: ResolvedSpecies | null
+}
+
+export interface IndexResult {
+  index: GeochemIndex
+  inputs: ResolvedIndexInput[]
+  missing: string[]            // 컬럼을 찾지 못한 필수 화학종
+  values: (number | null)[]    // 행별 값 (계산할 수 없으면 null)
+  failedRows: number[]         // 계산하지 못한 행 인덱스 (필수 컬럼이 없으면 전체)
+}
+
+/**
+ * 지수 하나 계산 (필수 컬럼이 없으면 모든 행이 실패)
+ * 필수 값이 비어 있거나 결과가 유한하지 않은 행은 failedRows에 기록
+ */
+export function computeIndex(data: GeochemData, index: GeochemIndex): IndexResult {
+  const inputs = index.inputs.map(input => ({ input, parts: resolveSpecies(data, input.species, input.unit) }))
+  const missing = inputs.filter(r => !r.parts && !r.input.optional).map(r => r.input.species)
+
+  const values: (number | null)[] = []
+  const failedRows: number[] = []
+
+  data.data.forEach((row, rowIndex) => {
+    let value = NaN
+    if (missing.length === 0) {
+      const v: Record<string, number> = {}
+      let complete = true
+      for (const { input, parts } of inputs) {
+        const amount = parts ? sumSpecies(row, parts) : null
+        if (amount === null && !input.optional) {
+          complete = false
+          break
+        }
+        v[input.key] = amount ?? 0
+      }
+      if (complete) value = index.compute(v)
+    }
+    if (isFinite(value)) {
+      values.push(value)
+    } else {
+      values.push(null)
+      failedRows.push(rowIndex)
+    }
+  })
+
+  return { index, inputs, missing, values, failedRows }
+}
+
+/**
+ * 모든 지수 계산
+ */
+export function computeAllIndices(data: GeochemData): IndexResult[] {
+  return GEOCHEM_INDICES.map(index => computeIndex(data, index))
+}
+
+/**
+ * 사용한 컬럼 표시 문자열 (예: "FeO + Fe2O3", 단위·산화물 환산은 자동)
+ */
+export function describeResolvedSpecies(parts: ResolvedSpecies): string {
+  return parts.map(({ column }) => column).join(' + ')
+}
+
+/**
+ * 계산한 지수를 컬럼으로 추가 (같은 이름의 컬럼은 덮어씀)
+ */
+export function addIndexColumns(data: GeochemData, results: IndexResult[]): GeochemData {
+  const names = results.map(result => result.index.name)
+  const added = names.filter(name => !data.numericColumns.includes(name))
+
+  return {
+    ...data,
+    data: data.data.map((row, rowIndex) => {
+      const newRow = { ...row }
+      results.forEach(result => { newRow[result.index.name] = result.values[rowIndex] })
+      return newRow
+    }),
+    numericColumns: [...data.numericColumns, ...added],
+    nonNumericColumns: data.nonNumericColumns.filter(col => !names.includes(col)),
+    metadata: data.metadata && added.length > 0
+      ? { ...data.metadata, columnCount: (data.metadata.columnCount || 0) + added.length }
+      : data.metadata
+  }
+}
+
+export interface AnhydrousResult {
+  columns: { oxide: string; parts: ResolvedSpecies; name: string }[]
+  missing: string[]       // 찾지 못한 주성분
+  failedRows: number[]    // 주성분이 하나라도 비어 있는 행
+}
+
+/**
+ * LOI 제외 무수 기준 재계산: 주성분(wt%) 합이 100이 되도록 환산한 컬럼 생성
+ * 찾은 주성분만 합산하며, 그중 하나라도 비어 있는 행은 계산하지 않음
+ */
+export function computeAnhydrous(data: GeochemData): { result: AnhydrousResult; data: GeochemData } {
+  const columns = MAJOR_OXIDES
+    .map(oxideName => ({ oxide: oxideName, parts: resolveSpecies(data, oxideName, WT), name: `${oxideName}_anhydrous` }))
+    .filter((c): c is AnhydrousResult['columns'][number] => c.parts !== null)
+  const missing = MAJOR_OXIDES.filter(oxideName => !columns.some(c => c.oxide === oxideName))
+  const failedRows: number[] = []
+
+  const names = columns.map(c => c.name)
+  const added = names.filter(name => !data.numericColumns.includes(name))
+
+  const newData = data.data.map((row, rowIndex) => {
+    const amounts = columns.map(c => sumSpecies(row, c.parts))
+    const total = amounts.reduce<number>((sum, amount) => sum + (amount ?? 0), 0)
+    const valid = columns.length > 0 && amounts.every(amount => amount !== null) && total > 0
+    if (!valid) failedRows.push(rowIndex)
+    const newRow = { ...row }
+    columns.forEach((c, i) => { newRow[c.name] = valid ? (amounts[i]! / total) * 100 : null })
+    return newRow
+  })
+
+  return {
+    result: { columns, missing, failedRows },
+    data: {
+      ...data,
+      data: newData,
+      numericColumns: [...data.numericColumns, ...added],
+      units: { ...data.units, ...Object.fromEntries(names.map(name => [name, WT])) },
+      metadata: data.metadata && added.length > 0
+        ? { ...data.metadata, columnCount: (data.metadata.columnCount || 0) + added.length }
+        : data.metadata
+    }
+  }
+}
@@ -0,0 +1,447 @@
+import { GeochemData } from '@/types/geochem'
+import { IonColumn, MajorIon, findIonColumns, findWaterColumn, toMilligramsPerLiter } from './hydrochem'
+import { closeTernary } from './ternary'
+
+// 지열수 용존성분 지온계 (농도는 mg/kg, 희석 용액에서 mg/L와 같다고 가정)
+
+export type Solute = 'Na' | 'K' | 'Ca' | 'Mg' | 'SiO2'
+
+export type SoluteValues = Record<Solute, number>  // 없으면 NaN
+
+export interface Geothermometer {
+  id: string
+  name: string
+  group: 'silica' | 'cation'
+  reference: string
+  inputs: Solute[]
+  compute: (c: SoluteValues) => number  // °C (계산할 수 없으면 NaN)
+}
+
+const KELVIN = 273.15
+
+// 몰질량 (g/mol)
+const MOLAR_MASS = { Na: 22.990, K: 39.098, Ca: 40.078, Mg: 24.305, Si: 28.085, SiO2: 60.084 }
+
+const log10 = (value: number) => (value > 0 ? Math.log10(value) : NaN)
+
+// T = a / (b − log SiO2) − 273.15
+const silicaTemperature = (a: number, b: number) => (c: SoluteValues) => a / (b - log10(c.SiO2)) - KELVIN
+
+/**
+ * Na–K–Ca 지온계 (Fournier & Truesdell, 1973; mg/kg 형태)
+ * β = 4/3으로 계산해 100 °C를 넘거나 log(√Ca/Na) + 2.06 < 0이면 β = 1/3으로 다시 계산
+ */
+function naKCaTemperature(c: SoluteValues): number {
+  const logNaK = log10(c.Na / c.K)
+  const logCaNa = log10(Math.sqrt(c.Ca) / c.Na)
+  const temperature = (beta: number) => 1647 / (logNaK + beta * (logCaNa + 2.06) + 2.47) - KELVIN
+  const high = temperature(4 / 3)
+  return high > 100 || logCaNa + 2.06 < 0 ? temperature(1 / 3) : high
+}
+
+/**
+ * Mg 보정 인자 R = Mg / (Mg + Ca + K) × 100 (당량 농도)
+ */
+export function magnesiumR(c: SoluteValues): number {
+  const mg = (c.Mg / MOLAR_MASS.Mg) * 2
+  const ca = (c.Ca / MOLAR_MASS.Ca) * 2
+  const k = c.K / MOLAR_MASS.K
+  return (mg / (mg + ca + k)) * 100
+}
+
+/**
+ * Na–K–Ca 지온계의 Mg 보정 (Fournier & Potter, 1979)
+ * R > 50 이면 저온수로 보고 계산하지 않음, 70 °C 미만 또는 R < 0.5이면 보정하지 않음
+ */
+function naKCaMgTemperature(c: SoluteValues): number {
+  const t = naKCaTemperature(c)
+  const r = magnesiumR(c)
+  if (!isFinite(t) || !isFinite(r) || r > 50) return NaN
+  if (t < 70 || r < 0.5) return t
+
+  const tk = t + KELVIN
+  const logR = Math.log10(r)
+  const correction = r >= 5
+    ? 10.66 - 4.7415 * r + 325.87 * logR ** 2 - 1.032e5 * logR ** 2 / tk - 1.968e7 * logR ** 2 / tk ** 2 + 1.605e7 * logR ** 3 / tk ** 2
+    : -1.03 + 59.971 * logR + 145.05 * logR ** 2 - 36711 * logR ** 2 / tk - 1.67e7 * logR / tk ** 2
+  return t - Math.max(correction, 0)
+}
+
+export const GEOTHERMOMETERS: Geothermometer[] = [
+  {
+    id: 'quartz',
+    name: '석영 (증기 손실 없음)',
+    group: 'silica',
+    reference: 'Fournier (1977)',
+    inputs: ['SiO2'],
+    compute: silicaTemperature(1309, 5.19)
+  },
+  {
+    id: 'quartzSteamLoss',
+    name: '석영 (최대 증기 손실)',
+    group: 'silica',
+    reference: 'Fournier (1977)',
+    inputs: ['SiO2'],
+    compute: silicaTemperature(1522, 5.75)
+  },
+  {
+    id: 'chalcedony',
+    name: '옥수',
+    group: 'silica',
+    reference: 'Fournier (1977)',
+    inputs: ['SiO2'],
+    compute: silicaTemperature(1032, 4.69)
+  },
+  {
+    id: 'chalcedonyArnorsson',
+    name: '옥수',
+    group: 'silica',
+    reference: 'Arnórsson et al. (1983)',
+    inputs: ['SiO2'],
+    compute: silicaTemperature(1112, 4.91)
+  },
+  {
+    id: 'naKFournier',
+    name: 'Na–K',
+    group: 'cation',
+    reference: 'Fournier (1979)',
+    inputs: ['Na', 'K'],
+    compute: c => 1217 / (1.483 + log10(c.Na / c.K)) - KELVIN
+  },
+  {
+    id: 'naKGiggenbach',
+    name: 'Na–K',
+    group: 'cation',
+    reference: 'Giggenbach (1988)',
+    inputs: ['Na', 'K'],
+    compute: c => 1390 / (1.75 + log10(c.Na / c.K)) - KELVIN
+  },
+  {
+    id: 'naKTruesdell',
+    name: 'Na–K',
+    group: 'cation',
+    reference: 'Truesdell (1976)',
+    inputs: ['Na', 'K'],
+    compute: c => 855.6 / (0.8573 + log10(c.Na / c.K)) - KELVIN
+  },
+  {
+    id: 'naKCa',
+    name: 'Na–K–Ca',
+    group: 'cation',
+    reference: 'Fournier & Truesdell (1973)',
+    inputs: ['Na', 'K', 'Ca'],
+    compute: naKCaTemperature
+  },
+  {
+    id: 'naKCaMg',
+    name: 'Na–K–Ca (Mg 보정)',
+    group: 'cation',
+    reference: 'Fournier & Potter (1979)',
+    inputs: ['Na', 'K', 'Ca', 'Mg'],
+    compute: naKCaMgTemperature
+  },
+  {
+    id: 'kMg',
+    name: 'K–Mg',
+    group: 'cation',
+    reference: 'Giggenbach (1988)',
+    inputs: ['K', 'Mg'],
+    compute: c => 4410 / (14.0 - log10(c.K ** 2 / c.Mg)) - KELVIN
+  }
+]
+
+export type GeothermColumns = Partial<Record<Solute, IonColumn & { factor: number }>>
+
+/**
+ * 지온계에 쓰는 컬럼 찾기 (SiO2가 없으면 Si 컬럼을 SiO2로 환산)
+ */
+export function findGeothermColumns(data: GeochemData): GeothermColumns {
+  const ions = findIonColumns(data)
+  const columns: GeothermColumns = {}
+  for (const ion of ['Na', 'K', 'Ca', 'Mg'] as (MajorIon & Solute)[]) {
+    const column = ions[ion]
+    if (column) columns[ion] = { ...column, factor: 1 }
+  }
+
+  const silica = findWaterColumn(data, ['sio2', 'silica'])
+  const silicon = silica ? null : findWaterColumn(data, ['si'])
+  if (silica) columns.SiO2 = { ...silica, factor: 1 }
+  else if (silicon) columns.SiO2 = { ...silicon, factor: MOLAR_MASS.SiO2 / MOLAR_MASS.Si }
+
+  return columns
+}
+
+/**
+ * 행의 용존성분 농도 (mg/kg, 없으면 NaN)
+ */
+export function getSoluteValues(row: Record<string, any>, columns: GeothermColumns): SoluteValues {
+  const value = (solute: Solute) => {
+    const column = columns[solute]
+    if (!column) return NaN
+    const raw = parseFloat(row[column.column])
+    if (!isFinite(raw)) return NaN
+    if (solute === 'SiO2') {
+      // 몰 단위는 해당 화학종(Si 또는 SiO2)의 몰질량으로 mg/L 환산 후 SiO2로
+      const mg = column.unit === 'mg/L' ? raw : raw * (column.factor === 1 ? MOLAR_MASS.SiO2 : MOLAR_MASS.Si)
+      return mg * column.factor
+    }
+    return toMilligramsPerLiter(raw, solute, column.unit)
+  }
+  return { Na: value('Na'), K: value('K'), Ca: value('Ca'), Mg: value('Mg'), SiO2: value('SiO2') }
+}
+
+/**
+ * Giggenbach (1988) 성숙도 지수 MI = 0.315 log(K²/Mg) − log(K/Na)
+ * MI ≥ 2.66 완전 평형, 2.0 ≤ MI < 2.66 부분 평형, MI < 2.0 미성숙수
+ */
+export function maturityIndex(c: SoluteValues): number {
+  return 0.315 * log10(c.K ** 2 / c.Mg) - log10(c.K / c.Na)
+}
+
+export type EquilibriumState = 'full' | 'partial' | 'immature'
+
+export const EQUILIBRIUM_LABELS: Record<EquilibriumState, string> = {
+  full: '완전 평형',
+  partial: '부분 평형',
+  immature: '미성숙수'
+}
+
+const FULL_EQUILIBRIUM_MI = 2.66
+const PARTIAL_EQUILIBRIUM_MI = 2.0
+
+export function classifyEquilibrium(mi: number): EquilibriumState | null {
+  if (!isFinite(mi)) return null
+  return mi >= FULL_EQUILIBRIUM_MI ? 'full' : mi >= PARTIAL_EQUILIBRIUM_MI ? 'partial' : 'immature'
+}
+
+export interface GeothermSample {
+  index: number
+  solutes: SoluteValues
+  temperatures: Record<string, number | null>  // 지온계 id → °C
+  mean: number | null    // 선택한 지온계 평균
+  sd: number | null      // 선택한 지온계 표준편차
+  range: number | null   // 선택한 지온계 최대 − 최소
+  maturity: number | null
+  equilibrium: EquilibriumState | null
+}
+
+/**
+ * 시료별 지온계 온도와 일치도 (선택한 지온계의 평균, 표준편차, 범위)
+ */
+export function computeGeothermometers(
+  data: GeochemData,
+  columns: GeothermColumns,
+  selected: string[] = GEOTHERMOMETERS.map(g => g.id)
+): GeothermSample[] {
+  return data.data.map((row, index) => {
+    const solutes = getSoluteValues(row, columns)
+    const temperatures: Record<string, number | null> = {}
+    GEOTHERMOMETERS.forEach(thermometer => {
+      const value = thermometer.inputs.every(solute => solutes[solute] > 0) ? thermometer.compute(solutes) : NaN
+      // 분모가 0에 가까워 생기는 비물리적인 값은 버림
+      temperatures[thermometer.id] = isFinite(value) && value > -KELVIN && value < 1000 ? value : null
+    })
+
+    const values = selected.map(id => temperatures[id]).filter((t): t is number => t !== null && t !== undefined)
+    const mean = values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null
+    const sd = values.length > 1 && mean !== null
+      ? Math.sqrt(values.reduce((sum, t) => sum + (t - mean) ** 2, 0) / (values.length - 1))
+      : null
+    const range = values.length > 1 ? Math.max(...values) - Math.min(...values) : null
+
+    const mi = solutes.Na > 0 && solutes.K > 0 && solutes.Mg > 0 ? maturityIndex(solutes) : NaN
+    return {
+      index,
+      solutes,
+      temperatures,
+      mean,
+      sd,
+      range,
+      maturity: isFinite(mi) ? mi : null,
+      equilibrium: classifyEquilibrium(mi)
+    }
+  })
+}
+
+/**
+ * 지온계 온도를 "T_지온계" 컬럼으로 추가 (같은 이름의 컬럼은 덮어씀)
+ */
+export function addGeothermColumns(data: GeochemData, samples: GeothermSample[], selected: string[]): GeochemData {
+  const thermometers = GEOTHERMOMETERS.filter(g => selected.includes(g.id))
+  const names = thermometers.map(g => `T_${g.id} (°C)`)
+  const added = names.filter(name => !data.numericColumns.includes(name))
+
+  return {
+    ...data,
+    data: data.data.map((row, rowIndex) => {
+      const newRow = { ...row }
+      thermometers.forEach((g, i) => { newRow[names[i]] = samples[rowIndex].temperatures[g.id] })
+      return newRow
+    }),
+    numericColumns: [...data.numericColumns, ...added],
+    metadata: data.metadata && added.length > 0
+      ? { ...data.metadata, columnCount: (data.metadata.columnCount || 0) + added.length }
+      : data.metadata
+  }
+}
+
+// ---- Giggenbach Na–K–Mg 삼각도 ----
+
+/**
+ * Na/1000, K/100, √Mg 삼각 좌표 ([top, left, right] = [Na/1000, K/100, √Mg], %)
+ */
+export function naKMgTernary(c: SoluteValues): [number, number, number] | null {
+  return closeTernary(c.Na / 1000, c.K / 100, Math.sqrt(c.Mg))
+}
+
+/**
+ * 성숙도 지수 MI가 일정한 곡선 (Na–K 온도로 매개변수화, K = 1 mg/kg 기준)
+ */
+function equilibriumPoint(temperature: number, mi: number): [number, number, number] | null {
+  const tk = temperature + KELVIN
+  const logKNa = 1.75 - 1390 / tk              // Na–K (Giggenbach, 1988)
+  const logK2Mg = (mi + logKNa) / 0.315
+  const na = 10 ** -logKNa
+  const mg = 10 ** -logK2Mg
+  return naKMgTernary({ Na: na, K: 1, Mg: mg, Ca: NaN, SiO2: NaN })
+}
+
+/**
+ * 완전 평형선과 부분 평형선 (Giggenbach, 1988)
+ */
+export function giggenbachCurves(temperatures: number[] = Array.from({ length: 33 }, (_, i) => 20 + i * 10)): {
+  full: { temperature: number; point: [number, number, number] }[]
+  partial: [number, number, number][]
+} {
+  const full = temperatures
+    .map(temperature => ({ temperature, point: equilibriumPoint(temperature, FULL_EQUILIBRIUM_MI) }))
+    .filter((p): p is { temperature: number; point: [number, number, number] } => p.point !== null)
+  const partial = temperatures
+    .map(temperature => equilibriumPoint(temperature, PARTIAL_EQUILIBRIUM_MI))
+    .filter((p): p is [number, number, number] => p !== null)
+  return { full, partial }
+}
+
+/**
+ * 등온선 끝점: Na–K 등온선은 √Mg 꼭짓점에서 Na–K 변으로, K–Mg 등온선은 Na 꼭짓점에서 K–Mg 변으로
+ */
+export function giggenbachIsotherm(temperature: number, kind: 'naK' | 'kMg'): [[number, number, number], [number, number, number]] | null {
+  const tk = temperature + KELVIN
+  if (kind === 'naK') {
+    const naK = 10 ** (1390 / tk - 1.75)
+    const edge = closeTernary(naK / 1000, 1 / 100, 0)
+    return edge && [[0, 0, 100], edge]
+  }
+  const k2Mg = 10 ** (14.0 - 4410 / tk)
+  const edge = closeTernary(0, 1 / 100, Math.sqrt(1 / k2Mg))
+  return edge && [[100, 0, 0], edge]
+}
+
+// ---- 실리카–엔탈피 혼합 모델 (Fournier & Truesdell, 1974; Truesdell & Fournier, 1977) ----
+
+// 포화 액체 물의 엔탈피 (°C → J/g, 증기표)
+const ENTHALPY_TABLE: [number, number][] = [
+  [0, 0], [25, 104.8], [50, 209.3], [75, 313.9], [100, 419.0], [125, 525.0], [150, 632.2],
+  [175, 741.2], [200, 852.4], [225, 966.8], [250, 1085.8], [275, 1210.9], [300, 1344.0],
+  [325, 1491.3], [350, 1670.9]
+]
+
+function interpolate(table: [number, number][], x: number, from: 0 | 1): number {
+  const to = from === 0 ? 1 : 0
+  if (x <= table[0][from]) return table[0][to]
+  for (let i = 1; i < table.length; i++) {
+    const [a, b] = [table[i - 1], table[i]]
+    if (x <= b[from]) return a[to] + ((x - a[from]) / (b[from] - a[from])) * (b[to] - a[to])
+  }
+  return NaN
+}
+
+/**
+ * 포화 액체 엔탈피 (J/g)
+ */
+export function liquidEnthalpy(temperature: number): number {
+  return interpolate(ENTHALPY_TABLE, temperature, 0)
+}
+
+/**
+ * 엔탈피 → 온도 (°C)
+ */
+export function temperatureFromEnthalpy(enthalpy: number): number {
+  return interpolate(ENTHALPY_TABLE, enthalpy, 1)
+}
+
+/**
+ * 석영 용해도 (mg/kg): 증기 손실 없음 / 최대 증기 손실 지온계의 역함수
+ */
+export function quartzSolubility(temperature: number, steamLoss = false): number {
+  const [a, b] = steamLoss ? [1522, 5.75] : [1309, 5.19]
+  return 10 ** (b - a / (temperature + KELVIN))
+}
+
+export interface MixingEndmember {
+  temperature: number  // °C
+  silica: number       // SiO2 mg/kg
+}
+
+export interface MixingSolution {
+  temperature: number   // 고온 성분 온도 (°C)
+  enthalpy: number      // 고온 성분 엔탈피 (J/g)
+  silica: number        // 고온 성분 SiO2 (mg/kg)
+  hotFraction: number   // 혼합수 중 고온수 비율
+}
+
+const BOILING_ENTHALPY = 419.0  // 100 °C
+
+/**
+ * 실리카–엔탈피 혼합 모델
+ * - 증기 손실 없음: 냉수–혼합수 직선을 석영 용해도 곡선과 만날 때까지 연장
+ * - 혼합 전 증기 손실: 직선이 100 °C 엔탈피에서 갖는 SiO2로 최대 증기 손실 석영 지온계 온도 계산
+ * 혼합수가 냉수보다 뜨겁고 SiO2가 높을 때만 풀이 (해가 없으면 null)
+ */
+export function silicaEnthalpyMixing(
+  cold: MixingEndmember,
+  mixed: MixingEndmember
+): { noSteamLoss: MixingSolution | null; steamLoss: MixingSolution | null } {
+  const hCold = liquidEnthalpy(cold.temperature)
+  const hMixed = liquidEnthalpy(mixed.temperature)
+  if (!(hMixed > hCold) || !(mixed.silica > cold.silica)) return { noSteamLoss: null, steamLoss: null }
+
+  const slope = (mixed.silica - cold.silica) / (hMixed - hCold)
+  const lineSilica = (h: number) => cold.silica + slope * (h - hCold)
+
+  // 직선 − 용해도 곡선의 부호가 바뀌는 엔탈피를 이분법으로 찾음
+  let noSteamLoss: MixingSolution | null = null
+  const gap = (t: number) => lineSilica(liquidEnthalpy(t)) - quartzSolubility(t)
+  let low = mixed.temperature
+  let high = ENTHALPY_TABLE[ENTHALPY_TABLE.length - 1][0]
+  if (gap(low) > 0 && gap(high) < 0) {
+    for (let i = 0; i < 60; i++) {
+      const mid = (low + high) / 2
+      if (gap(mid) > 0) low = mid
+      else high = mid
+    }
+    const enthalpy = liquidEnthalpy(low)
+    noSteamLoss = {
+      temperature: low,
+      enthalpy,
+      silica: lineSilica(enthalpy),
+      hotFraction: (hMixed - hCold) / (enthalpy - hCold)
+    }
+  }
+
+  let steamLoss: MixingSolution | null = null
+  if (hMixed < BOILING_ENTHALPY) {
+    const silica = lineSilica(BOILING_ENTHALPY)
+    const temperature = 1522 / (5.75 - Math.log10(silica)) - KELVIN
+    if (isFinite(temperature) && temperature > 100) {
+      steamLoss = {
+        temperature,
+        enthalpy: liquidEnthalpy(temperature),
+        silica,
+        hotFraction: (hMixed - hCold) / (BOILING_ENTHALPY - hCold)
+      }
+    }
+  }
+
+  return { noSteamLoss, steamLoss }
+}
@@ -0,0 +1,328 @@
+import { GeochemData } from '@/types/geochem'
+import { TERNARY_HEIGHT } from './ternary'
+
+// 수질 화학: 주요 이온 당량 환산, 이온 전하 균형, 수질 유형, Piper·Durov 좌표
+
+export type MajorIon = 'Ca' | 'Mg' | 'Na' | 'K' | 'HCO3' | 'CO3' | 'Cl' | 'SO4'
+
+export interface IonDefinition {
+  id: MajorIon
+  label: string
+  charge: number      // 전하 크기
+  molarMass: number   // g/mol
+  aliases: string[]   // 컬럼 이름 (소문자, 전하 표기 제거 후 비교)
+}
+
+export const MAJOR_IONS: Record<MajorIon, IonDefinition> = {
+  Ca: { id: 'Ca', label: 'Ca²⁺', charge: 2, molarMass: 40.078, aliases: ['ca', 'calcium'] },
+  Mg: { id: 'Mg', label: 'Mg²⁺', charge: 2, molarMass: 24.305, aliases: ['mg', 'magnesium'] },
+  Na: { id: 'Na', label: 'Na⁺', charge: 1, molarMass: 22.990, aliases: ['na', 'sodium'] },
+  K: { id: 'K', label: 'K⁺', charge: 1, molarMass: 39.098, aliases: ['k', 'potassium'] },
+  HCO3: { id: 'HCO3', label: 'HCO₃⁻', charge: 1, molarMass: 61.017, aliases: ['hco3', 'bicarbonate', 'alkalinity as hco3'] },
+  CO3: { id: 'CO3', label: 'CO₃²⁻', charge: 2, molarMass: 60.009, aliases: ['co3', 'carbonate'] },
+  Cl: { id: 'Cl', label: 'Cl⁻', charge: 1, molarMass: 35.45, aliases: ['cl', 'chloride'] },
+  SO4: { id: 'SO4', label: 'SO₄²⁻', charge: 2, molarMass: 96.06, aliases: ['so4', 'sulfate', 'sulphate'] }
+}
+
+export const CATIONS: MajorIon[] = ['Ca', 'Mg', 'Na', 'K']
+export const ANIONS: MajorIon[] = ['HCO3', 'CO3', 'Cl', 'SO4']
+
+// CO3는 없는 경우가 많아 0으로 계산, K는 Na와 합쳐 표시하므로 없으면 0
+const OPTIONAL_IONS: MajorIon[] = ['CO3', 'K']
+
+export type IonUnit = 'mg/L' | 'meq/L' | 'mmol/L'
+
+// 이온 농도 단위 표기 (희석 용액에서 ppm, mg/kg ≈ mg/L)
+const ION_UNIT_ALIASES: Record<string, IonUnit> = {
+  'mg/l': 'mg/L', 'ppm': 'mg/L', 'mg/kg': 'mg/L',
+  'meq/l': 'meq/L', 'meq': 'meq/L',
+  'mmol/l': 'mmol/L'
+}
+
+// 헤더의 단위 표기: "Ca (mg/L)", "Cl_meq/L", "SO4 [mmol/L]"
+const ION_HEADER_PATTERN = /^(.*?)[\s_]*(?:\(([^()]+)\)|\[([^[\]]+)\]|[\s_](mg\/l|meq\/l|mmol\/l|ppm))$/i
+
+// 기본 전하 균형 오차 허용 범위 (%)
+export const DEFAULT_CBE_TOLERANCE = 5
+
+export interface IonColumn {
+  column: string
+  unit: IonUnit
+}
+
+/**
+ * 수질 컬럼 헤더 → 비교용 이름 후보(소문자, 전하 표기 제거)와 단위
+ */
+function parseWaterHeader(header: string): { keys: string[]; unit: IonUnit | null } {
+  const match = header.trim().match(ION_HEADER_PATTERN)
+  const name = (match && match[1].trim() ? match[1] : header).trim()
+  const unitText = match ? (match[2] || match[3] || match[4]) : null
+  // 전하 표기 (Ca2+, SO4--, SO42-, Cl⁻, Mg²⁺) 를 뗀 이름들
+  const lower = name.toLowerCase()
+  const unsigned = lower.replace(/[\s_]*[+\-⁺⁻]+$/, '')
+  const keys = [lower, unsigned, unsigned.replace(/[²³]$/, ''), lower.replace(/[\s_]*\d[+-]$/, '')]
+  return { keys, unit: unitText ? ION_UNIT_ALIASES[unitText.trim().toLowerCase()] || null : null }
+}
+
+/**
+ * 이름이 aliases 중 하나인 첫 번째 수질 컬럼 (단위가 없으면 mg/L로 가정)
+ */
+export function findWaterColumn(data: GeochemData, aliases: string[]): IonColumn | null {
+  for (const column of data.numericColumns) {
+    const { keys, unit } = parseWaterHeader(column)
+    if (!keys.some(key => aliases.includes(key))) continue
+    const declared = data.units?.[column]
+    return { column, unit: (declared && ION_UNIT_ALIASES[declared.toLowerCase()]) || unit || 'mg/L' }
+  }
+  return null
+}
+
+/**
+ * 주요 이온 컬럼 찾기 (단위가 없으면 mg/L로 가정)
+ */
+export function findIonColumns(data: GeochemData): Partial<Record<MajorIon, IonColumn>> {
+  const columns: Partial<Record<MajorIon, IonColumn>> = {}
+  for (const ion of [...CATIONS, ...ANIONS]) {
+    const column = findWaterColumn(data, MAJOR_IONS[ion].aliases)
+    if (column) columns[ion] = column
+  }
+  return columns
+}
+
+/**
+ * 필요한 이온 중 컬럼이 없는 것
+ */
+export function missingIons(columns: Partial<Record<MajorIon, IonColumn>>): MajorIon[] {
+  return [...CATIONS, ...ANIONS].filter(ion => !columns[ion] && !OPTIONAL_IONS.includes(ion))
+}
+
+/**
+ * 농도 → mg/L
+ */
+export function toMilligramsPerLiter(value: number, ion: MajorIon, unit: IonUnit): number {
+  const { charge, molarMass } = MAJOR_IONS[ion]
+  if (unit === 'meq/L') return (value / charge) * molarMass
+  if (unit === 'mmol/L') return value * molarMass
+  return value
+}
+
+/**
+ * 농도 → meq/L
+ */
+export function toMeqPerLiter(value: number, ion: MajorIon, unit: IonUnit): number {
+  const { charge, molarMass } = MAJOR_IONS[ion]
+  if (unit === 'meq/L') return value
+  if (unit === 'mmol/L') return value * charge
+  return (value / molarMass) * charge
+}
+
+export type WaterFacies = 'Ca-HCO3' | 'Na-Cl' | 'Ca-Cl' | 'Na-HCO3'
+
+export const WATER_FACIES_LABELS: Record<WaterFacies, string> = {
+  'Ca-HCO3': 'Ca-HCO₃ (담수·함양역)',
+  'Na-Cl': 'Na-Cl (해수·염수)',
+  'Ca-Cl': 'Ca-Mg-Cl-SO₄ (역이온교환·혼합)',
+  'Na-HCO3': 'Na-HCO₃ (이온교환)'
+}
+
+export interface HydrochemSample {
+  index: number
+  meq: Record<MajorIon, number>
+  cationSum: number
+  anionSum: number
+  cbe: number                 // 전하 균형 오차 (%)
+  cations: [number, number, number]  // Ca, Mg, Na+K (meq%)
+  anions: [number, number, number]   // HCO3+CO3, SO4, Cl (meq%)
+  dominantCation: string
+  dominantAnion: string
+  waterType: string            // 우세 양이온-음이온 (예: Ca-HCO3)
+  facies: WaterFacies          // Piper 다이아몬드 구역
+}
+
+/**
+ * 우세 이온 이름 (50% 넘는 이온이 없으면 상위 두 이온을 함께 표시)
+ */
+function dominantIon(names: string[], percents: number[]): string {
+  const order = percents.map((_, i) => i).sort((a, b) => percents[b] - percents[a])
+  return percents[order[0]] >= 50 ? names[order[0]] : `${names[order[0]]}-${names[order[1]]}`
+}
+
+/**
+ * Piper 다이아몬드 구역 (양이온 Ca+Mg, 음이온 HCO3+CO3 기준 50% 경계)
+ */
+function classifyFacies(cations: [number, number, number], anions: [number, number, number]): WaterFacies {
+  const alkaliEarth = cations[0] + cations[1]
+  const weakAcid = anions[0]
+  if (alkaliEarth >= 50) return weakAcid >= 50 ? 'Ca-HCO3' : 'Ca-Cl'
+  return weakAcid >= 50 ? 'Na-HCO3' : 'Na-Cl'
+}
+
+/**
+ * 시료별 당량 농도, 전하 균형, 수질 유형 (필수 이온 값이 없으면 null)
+ * CBE(%) = (Σ양이온 − Σ음이온) / (Σ양이온 + Σ음이온) × 100
+ */
+export function analyzeHydrochem(
+  data: GeochemData,
+  columns: Partial<Record<MajorIon, IonColumn>> = findIonColumns(data)
+): (HydrochemSample | null)[] {
+  if (missingIons(columns).length > 0) return data.data.map(() => null)
+
+  return data.data.map((row, index) => {
+    const meq = {} as Record<MajorIon, number>
+    for (const ion of [...CATIONS, ...ANIONS]) {
+      const column = columns[ion]
+      const value = column ? parseFloat(row[column.column]) : NaN
+      if (!isFinite(value) || value < 0) {
+        if (!OPTIONAL_IONS.includes(ion)) return null
+        meq[ion] = 0
+      } else {
+        meq[ion] = toMeqPerLiter(value, ion, column!.unit)
+      }
+    }
+
+    const cationSum = CATIONS.reduce((sum, ion) => sum + meq[ion], 0)
+    const anionSum = ANIONS.reduce((sum, ion) => sum + meq[ion], 0)
+    if (cationSum <= 0 || anionSum <= 0) return null
+
+    const cations: [number, number, number] = [
+      (meq.Ca / cationSum) * 100,
+      (meq.Mg / cationSum) * 100,
+      ((meq.Na + meq.K) / cationSum) * 100
+    ]
+    const anions: [number, number, number] = [
+      ((meq.HCO3 + meq.CO3) / anionSum) * 100,
+      (meq.SO4 / anionSum) * 100,
+      (meq.Cl / anionSum) * 100
+    ]
+    const dominantCation = dominantIon(['Ca', 'Mg', 'Na'], cations)
+    const dominantAnion = dominantIon(['HCO3', 'SO4', 'Cl'], anions)
+
+    return {
+      index,
+      meq,
+      cationSum,
+      anionSum,
+      cbe: ((cationSum - anionSum) / (cationSum + anionSum)) * 100,
+      cations,
+      anions,
+      dominantCation,
+      dominantAnion,
+      waterType: `${dominantCation}-${dominantAnion}`,
+      facies: classifyFacies(cations, anions)
+    }
+  })
+}
+
+/**
+ * 당량 농도, 전하 균형 오차, 수질 유형을 컬럼으로 추가 (같은 이름의 컬럼은 덮어씀)
+ */
+export function addHydrochemColumns(data: GeochemData, samples: (HydrochemSample | null)[]): GeochemData {
+  const ions = [...CATIONS, ...ANIONS]
+  const meqColumns = ions.map(ion => `${ion}_meq/L`)
+  const numeric = [...meqColumns, 'CBE (%)']
+  const text = ['Water type', 'Water facies']
+  const addedNumeric = numeric.filter(col => !data.numericColumns.includes(col))
+  const addedText = text.filter(col => !data.nonNumericColumns.includes(col))
+
+  return {
+    ...data,
+    data: data.data.map((row, rowIndex) => {
+      const sample = samples[rowIndex]
+      const newRow = { ...row }
+      ions.forEach((ion, i) => { newRow[meqColumns[i]] = sample ? sample.meq[ion] : null })
+      newRow['CBE (%)'] = sample ? sample.cbe : null
+      newRow['Water type'] = sample ? sample.waterType : null
+      newRow['Water facies'] = sample ? sample.facies : null
+      return newRow
+    }),
+    numericColumns: [...data.numericColumns, ...addedNumeric],
+    nonNumericColumns: [...data.nonNumericColumns, ...addedText],
+    metadata: data.metadata && addedNumeric.length + addedText.length > 0
+      ? { ...data.metadata, columnCount: (data.metadata.columnCount || 0) + addedNumeric.length + addedText.length }
+      : data.metadata
+  }
+}
+
+// ---- 다이어그램 좌표 (한 변의 길이 1인 삼각형 기준, y는 위쪽이 양수) ----
+
+// Piper: 양이온 삼각형과 음이온 삼각형 사이 간격
+export const PIPER_GAP = 0.1
+export const PIPER_WIDTH = 2 + PIPER_GAP
+export const PIPER_HEIGHT = TERNARY_HEIGHT * (2 + PIPER_GAP)
+
+/**
+ * Piper 다이어그램 좌표
+ * - 양이온 삼각형: 왼쪽 아래 Ca, 오른쪽 아래 Na+K, 위 Mg
+ * - 음이온 삼각형: 왼쪽 아래 HCO3+CO3, 오른쪽 아래 Cl, 위 SO4
+ * - 다이아몬드: 두 점을 각 삼각형 변에 평행하게 투영한 교점
+ */
+export function piperCoordinates(sample: HydrochemSample): {
+  cation: [number, number]
+  anion: [number, number]
+  diamond: [number, number]
+} {
+  const h = TERNARY_HEIGHT
+  const [, mg, nak] = sample.cations.map(v => v / 100)
+  const [, so4, cl] = sample.anions.map(v => v / 100)
+
+  const cation: [number, number] = [nak + mg / 2, mg * h]
+  const anion: [number, number] = [1 + PIPER_GAP + cl + so4 / 2, so4 * h]
+
+  // 양이온 점은 (0.5, h) 방향, 음이온 점은 (−0.5, h) 방향으로 투영
+  const s = anion[0] - cation[0] - (anion[1] - cation[1]) / (2 * h)
+  const diamond: [number, number] = [anion[0] - s / 2, anion[1] + h * s]
+
+  return { cation, anion, diamond }
+}
+
+/**
+ * Piper 다이어그램 외곽선 (두 삼각형 + 다이아몬드)
+ */
+export function piperOutline(): [number, number][][] {
+  const h = TERNARY_HEIGHT
+  const g = PIPER_GAP
+  return [
+    [[0, 0], [1, 0], [0.5, h]],
+    [[1 + g, 0], [2 + g, 0], [1.5 + g, h]],
+    [[1 + g / 2, h * g], [1.5 + g / 2, h * (1 + g)], [1 + g / 2, h * (2 + g)], [0.5 + g / 2, h * (1 + g)]]
+  ]
+}
+
+// Durov: 왼쪽 양이온 삼각형 + 위 음이온 삼각형 + 가운데 정사각형 (한 변 1)
+export const DUROV_WIDTH = TERNARY_HEIGHT + 1
+export const DUROV_HEIGHT = TERNARY_HEIGHT + 1
+
+/**
+ * Durov 다이어그램 좌표 (정사각형 왼쪽 아래가 원점)
+ * - 음이온 삼각형 (정사각형 위): 왼쪽 HCO3+CO3, 오른쪽 Cl, 위 SO4 → 수직으로 정사각형에 투영
+ * - 양이온 삼각형 (정사각형 왼쪽): 위 Ca, 아래 Na+K, 왼쪽 Mg → 수평으로 정사각형에 투영
+ */
+export function durovCoordinates(sample: HydrochemSample): {
+  cation: [number, number]
+  anion: [number, number]
+  square: [number, number]
+} {
+  const h = TERNARY_HEIGHT
+  const [, mg, nak] = sample.cations.map(v => v / 100)
+  const [, so4, cl] = sample.anions.map(v => v / 100)
+
+  const x = cl + so4 / 2
+  const y = 1 - (nak + mg / 2)
+  return {
+    anion: [x, 1 + so4 * h],
+    cation: [-mg * h, y],
+    square: [x, y]
+  }
+}
+
+/**
+ * Durov 다이어그램 외곽선 (정사각형 + 두 삼각형)
+ */
+export function durovOutline(): [number, number][][] {
+  const h = TERNARY_HEIGHT
+  return [
+    [[0, 0], [1, 0], [1, 1], [0, 1]],
+    [[0, 1], [1, 1], [0.5, 1 + h]],
+    [[0, 1], [0, 0], [-h, 0.5]]
+  ]
+}
@@ -0,0 +1,170 @@
+import { ErrorRegressionResult, GeochemData } from '@/types/geochem'
+
+// 방사성 동위원소 등시선 연대
+// 붕괴상수는 1/yr, 연대는 Ma 단위
+
+export type DecaySystemId = 'rbsr' | 'smnd' | 'luhf' | 'reos' | 'pbpb'
+
+export interface DecaySystem {
+  id: DecaySystemId
+  name: string
+  xRatio: string  // 등시선 X (모/딸 비)
+  yRatio: string  // 등시선 Y (딸 동위원소 비)
+  lambda: number
+  lambdaSource: string
+}
+
+// U 붕괴상수 (Jaffey et al., 1971), 238U/235U (Hiess et al., 2012)
+const LAMBDA_238U = 1.55125e-10
+const LAMBDA_235U = 9.8485e-10
+const U238_U235 = 137.818
+
+export const DECAY_SYSTEMS: Record<DecaySystemId, DecaySystem> = {
+  rbsr: {
+    id: 'rbsr',
+    name: 'Rb–Sr',
+    xRatio: '87Rb/86Sr',
+    yRatio: '87Sr/86Sr',
+    lambda: 1.3972e-11,
+    lambdaSource: 'Villa et al. (2015)'
+  },
+  smnd: {
+    id: 'smnd',
+    name: 'Sm–Nd',
+    xRatio: '147Sm/144Nd',
+    yRatio: '143Nd/144Nd',
+    lambda: 6.54e-12,
+    lambdaSource: 'Lugmair & Marti (1978)'
+  },
+  luhf: {
+    id: 'luhf',
+    name: 'Lu–Hf',
+    xRatio: '176Lu/177Hf',
+    yRatio: '176Hf/177Hf',
+    lambda: 1.867e-11,
+    lambdaSource: 'Söderlund et al. (2004)'
+  },
+  reos: {
+    id: 'reos',
+    name: 'Re–Os',
+    xRatio: '187Re/188Os',
+    yRatio: '187Os/188Os',
+    lambda: 1.666e-11,
+    lambdaSource: 'Smoliar et al. (1996)'
+  },
+  pbpb: {
+    id: 'pbpb',
+    name: 'Pb–Pb',
+    xRatio: '206Pb/204Pb',
+    yRatio: '207Pb/204Pb',
+    lambda: LAMBDA_238U,
+    lambdaSource: 'Jaffey et al. (1971), 238U/235U = 137.818 (Hiess et al., 2012)'
+  }
+}
+
+export interface IsochronAge {
+  age: number  // Ma
+  ageError: number  // Ma, 1σ
+  initialRatio?: number  // Pb–Pb는 없음
+  initialRatioError?: number  // 1σ
+}
+
+// 컬럼 이름 비교용 정규화 (87Rb/86Sr, 87Rb_86Sr, 87rb86sr → 87rb86sr)
+const normalize = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '')
+
+const ERROR_TOKENS = ['err', 'se', 'sd', 'sigma', '2s', '1s', 'unc']
+
+/**
+ * 동위원소 비 컬럼 찾기
+ */
+export function findRatioColumn(data: GeochemData, ratio: string): string | null {
+  const target = normalize(ratio)
+  return data.numericColumns.find(col => normalize(col) === target) || null
+}
+
+/**
+ * 동위원소 비의 오차 컬럼 찾기 (예: 87Rb/86Sr_2se, 87Sr/86Sr err)
+ */
+export function findRatioErrorColumn(data: GeochemData, ratio: string): string | null {
+  const target = normalize(ratio)
+  return data.numericColumns.find(col => {
+    const name = normalize(col)
+    if (!name.startsWith(target) || name === target) return false
+    const suffix = name.slice(target.length)
+    return ERROR_TOKENS.some(token => suffix.includes(token))
+  }) || null
+}
+
+/**
+ * 오차 상관계수 컬럼 찾기
+ */
+export function findRhoColumn(data: GeochemData): string | null {
+  return data.numericColumns.find(col => /rho|ρ|errcorr/i.test(col)) || null
+}
+
+// Pb–Pb 등시선 기울기 (207Pb/206Pb)*
+function pbPbSlope(t: number): number {
+  return (Math.expm1(LAMBDA_235U * t) / Math.expm1(LAMBDA_238U * t)) / U238_U235
+}
+
+// 기울기 → 연대 (yr), 이분법
+function pbPbAge(slope: number): number {
+  // t → 0 극한 기울기
+  const minSlope = LAMBDA_235U / LAMBDA_238U / U238_U235
+  if (!(slope > minSlope)) return NaN
+
+  let lo = 0
+  let hi = 1e10
+  for (let i = 0; i < 200; i++) {
+    const mid = (lo + hi) / 2
+    if (pbPbSlope(Math.max(mid, 1)) < slope) lo = mid
+    else hi = mid
+  }
+  return (lo + hi) / 2
+}
+
+/**
+ * 등시선 회귀 결과로 연대와 초기비 계산
+ * 모/딸 체계: t = ln(1 + m) / λ
+ * Pb–Pb: m = (e^{λ235 t} − 1) / (137.818 (e^{λ238 t} − 1))
+ */
+export function calculateIsochronAge(fit: ErrorRegressionResult, system: DecaySystem): IsochronAge {
+  if (system.id === 'pbpb') {
+    const t = pbPbAge(fit.slope)
+    if (!isFinite(t)) throw new Error('기울기가 Pb–Pb 연대 범위를 벗어났습니다.')
+    // dm/dt 수치 미분으로 오차 전파
+    const dt = Math.max(t * 1e-6, 1)
+    const derivative = (pbPbSlope(t + dt) - pbPbSlope(Math.max(t - dt, 1))) / (t + dt - Math.max(t - dt, 1))
+    return {
+      age: t / 1e6,
+      ageError: fit.slopeError / Math.abs(derivative) / 1e6
+    }
+  }
+
+  if (fit.slope <= -1) throw new Error('기울기가 -1 이하여서 연대를 계산할 수 없습니다.')
+  const t = Math.log1p(fit.slope) / system.lambda
+  return {
+    age: t / 1e6,
+    ageError: fit.slopeError / (system.lambda * (1 + fit.slope)) / 1e6,
+    initialRatio: fit.intercept,
+    initialRatioError: fit.interceptError
+  }
+}
+
+/**
+ * 오차 타원 꼭짓점 (데이터 좌표)
+ * sx, sy: 1σ, rho: 오차 상관계수, k: 타원 배율 (2 = 2σ)
+ */
+export function errorEllipsePoints(
+  x: number, y: number, sx: number, sy: number, rho: number, k: number, segments: number = 36
+): [number, number][] {
+  const r = Math.max(-0.999, Math.min(0.999, rho))
+  const cross = Math.sqrt(1 - r * r)
+  return Array.from({ length: segments }, (_, i) => {
+    const theta = (2 * Math.PI * i) / segments
+    return [
+      x + k * sx * Math.cos(theta),
+      y + k * sy * (r * Math.cos(theta) + cross * Math.sin(theta))
+    ]
+  })
+}
@@ -0,0 +1,246 @@
+import { AxisConfig, ColumnSelection, GeochemData, OverlayCurve } from '@/types/geochem'
+import { getAxisValueWithUnits } from './units'
+
+// 끝성분 혼합 모델: 농도를 선형으로 섞고 축 값(비율이면 쌍곡선)으로 변환
+
+export interface MixingEndmember {
+  id: string
+  name: string
+  values: Record<string, number>  // 컬럼 → 농도 (컬럼 원래 단위)
+}
+
+export const MAX_ENDMEMBERS = 3
+
+// 혼합선 위에 표시하는 혼합 비율
+export const MIXING_TICK_FRACTIONS = [0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9]
+
+export const MIXING_COLUMN_PREFIX = 'Mix_'
+export const MIXING_RESIDUAL_COLUMN = 'Mix_residual'
+
+/**
+ * 축 계산에 쓰이는 컬럼 (분자, 분모, 합 항목)
+ */
+export function axisColumns(config: AxisConfig): string[] {
+  if (config.type === 'sum') return config.terms && config.terms.length > 0 ? config.terms : [config.numerator]
+  if (config.type === 'ratio') return [config.numerator, config.denominator!]
+  return [config.numerator]
+}
+
+/**
+ * X, Y 축에 쓰이는 컬럼 (중복 제거)
+ */
+export function mixingColumns(selection: ColumnSelection): string[] {
+  const columns = [
+    ...(selection.x ? axisColumns(selection.x) : []),
+    ...(selection.y ? axisColumns(selection.y) : [])
+  ]
+  return columns.filter((col, i) => columns.indexOf(col) === i)
+}
+
+/**
+ * 시료 (여러 개면 평균) 에서 끝성분 값 가져오기
+ */
+export function endmemberFromRows(data: GeochemData, rows: number[], columns: string[]): Record<string, number> {
+  const values: Record<string, number> = {}
+  for (const column of columns) {
+    const finite = rows.map(i => parseFloat(data.data[i]?.[column])).filter(v => isFinite(v))
+    if (finite.length > 0) values[column] = finite.reduce((sum, v) => sum + v, 0) / finite.length
+  }
+  return values
+}
+
+/**
+ * 끝성분에 모든 컬럼 값이 있는지
+ */
+export function isEndmemberComplete(endmember: MixingEndmember, columns: string[]): boolean {
+  return columns.every(col => isFinite(endmember.values[col]))
+}
+
+/**
+ * 혼합 비율로 섞은 농도
+ */
+export function mixConcentrations(endmembers: MixingEndmember[], fractions: number[], columns: string[]): Record<string, number> {
+  const mixed: Record<string, number> = {}
+  for (const column of columns) {
+    mixed[column] = endmembers.reduce((sum, em, i) => sum + fractions[i] * em.values[column], 0)
+  }
+  return mixed
+}
+
+// 혼합 농도 → 그래프 좌표 (그래프와 같은 단위 보정 사용)
+function toAxisPoint(data: GeochemData, selection: ColumnSelection, row: Record<string, number>): { x: number; y: number } | null {
+  const x = getAxisValueWithUnits(data, row, selection.x!)
+  const y = getAxisValueWithUnits(data, row, selection.y!)
+  return isFinite(x) && isFinite(y) ? { x, y } : null
+}
+
+/**
+ * 두 끝성분 사이 혼합선 (a의 비율 1 → 0), 혼합 비율 눈금과 끝성분 표시 포함
+ */
+export function binaryMixingCurve(
+  data: GeochemData,
+  selection: ColumnSelection,
+  a: MixingEndmember,
+  b: MixingEndmember,
+  color: string,
+  steps = 200
+): OverlayCurve | null {
+  const columns = mixingColumns(selection)
+  if (!selection.x || !selection.y || !isEndmemberComplete(a, columns) || !isEndmemberComplete(b, columns)) return null
+  const pointAt = (f: number) => toAxisPoint(data, selection, mixConcentrations([a, b], [f, 1 - f], columns))
+
+  const points = Array.from({ length: steps + 1 }, (_, i) => pointAt(1 - i / steps))
+    .filter((p): p is { x: number; y: number } => p !== null)
+  if (points.length < 2) return null
+
+  const ticks = MIXING_TICK_FRACTIONS
+    .map(f => {
+      const p = pointAt(f)
+      return p && { ...p, label: `${Math.round(f * 100)}%` }
+    })
+    .filter((t): t is { x: number; y: number; label: string } => t !== null)
+  // 끝성분 이름 표시
+  const ends = [a, b]
+    .map((em, i) => {
+      const p = pointAt(1 - i)
+      return p && { ...p, label: em.name, major: true }
+    })
+    .filter((t): t is { x: number; y: number; label: string; major: boolean } => t !== null)
+
+  return {
+    id: `mixing-${a.id}-${b.id}`,
+    points,
+    color,
+    ticks: [...ticks, ...ends]
+  }
+}
+
+/**
+ * 끝성분 2개면 혼합선 하나, 3개면 세 변 (눈금은 각 변의 첫 끝성분 비율)
+ */
+export function mixingOverlayCurves(
+  data: GeochemData,
+  selection: ColumnSelection,
+  endmembers: MixingEndmember[],
+  color = '#0f766e'
+): OverlayCurve[] {
+  const pairs: [MixingEndmember, MixingEndmember][] = endmembers.length === 3
+    ? [[endmembers[0], endmembers[1]], [endmembers[1], endmembers[2]], [endmembers[2], endmembers[0]]]
+    : endmembers.length === 2 ? [[endmembers[0], endmembers[1]]] : []
+  return pairs
+    .map(([a, b]) => binaryMixingCurve(data, selection, a, b, color))
+    .filter((curve): curve is OverlayCurve => curve !== null)
+}
+
+// 작은 선형 방정식 풀이 (부분 피벗 가우스 소거)
+function solveLinear(matrix: number[][], rhs: number[]): number[] | null {
+  const n = rhs.length
+  const m = matrix.map((row, i) => [...row, rhs[i]])
+  for (let col = 0; col < n; col++) {
+    let pivot = col
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row
+    }
+    if (Math.abs(m[pivot][col]) < 1e-12) return null
+    const temp = m[col]
+    m[col] = m[pivot]
+    m[pivot] = temp
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / m[col][col]
+      for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k]
+    }
+  }
+  const x = new Array(n).fill(0)
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = m[row][n]
+    for (let k = row + 1; k < n; k++) sum -= m[row][k] * x[k]
+    x[row] = sum / m[row][row]
+  }
+  return x
+}
+
+export interface UnmixingSample {
+  fractions: number[] | null  // 끝성분 순서대로 (합 1, 범위 제한 없음)
+  residual: number | null     // 가중 잔차 RMS (끝성분 값 범위 기준 상대값)
+  outside: boolean            // 비율이 0–1 밖
+}
+
+/**
+ * 시료별 끝성분 혼합 비율 (합이 1인 조건의 가중 최소제곱)
+ * 각 컬럼은 끝성분 값의 범위로 나눠 단위가 다른 컬럼도 같은 비중으로 맞춤
+ */
+export function unmixSamples(data: GeochemData, endmembers: MixingEndmember[], columns: string[]): UnmixingSample[] {
+  const n = endmembers.length
+  const failed: UnmixingSample = { fractions: null, residual: null, outside: false }
+  if (n < 2 || !endmembers.every(em => isEndmemberComplete(em, columns))) return data.data.map(() => failed)
+
+  const scales = columns.map(col => {
+    const values = endmembers.map(em => em.values[col])
+    const spread = Math.max(...values) - Math.min(...values)
+    const mean = Math.abs(values.reduce((sum, v) => sum + v, 0) / n)
+    return spread > 0 ? spread : mean > 0 ? mean : 1
+  })
+  const last = endmembers[n - 1]
+
+  return data.data.map(row => {
+    // 마지막 끝성분 비율 = 1 − 나머지 합 으로 치환: Σ fᵢ (Eᵢ − Eₙ) ≈ s − Eₙ
+    const equations = columns
+      .map((col, j) => ({ j, value: parseFloat(row[col]) }))
+      .filter(({ value }) => isFinite(value))
+      .map(({ j, value }) => {
+        const col = columns[j]
+        return {
+          coefficients: endmembers.slice(0, n - 1).map(em => (em.values[col] - last.values[col]) / scales[j]),
+          target: (value - last.values[col]) / scales[j]
+        }
+      })
+    if (equations.length < n - 1) return failed
+
+    const normal = Array.from({ length: n - 1 }, (_, a) =>
+      Array.from({ length: n - 1 }, (_, b) => equations.reduce((sum, eq) => sum + eq.coefficients[a] * eq.coefficients[b], 0))
+    )
+    const rhs = Array.from({ length: n - 1 }, (_, a) => equations.reduce((sum, eq) => sum + eq.coefficients[a] * eq.target, 0))
+    const solved = solveLinear(normal, rhs)
+    if (!solved) return failed
+
+    const fractions = [...solved, 1 - solved.reduce((sum, f) => sum + f, 0)]
+    const squared = equations.reduce((sum, eq) => {
+      const predicted = eq.coefficients.reduce((s, c, i) => s + c * solved[i], 0)
+      return sum + (eq.target - predicted) ** 2
+    }, 0)
+    return {
+      fractions,
+      residual: Math.sqrt(squared / equations.length),
+      outside: fractions.some(f => f < -1e-6 || f > 1 + 1e-6)
+    }
+  })
+}
+
+/**
+ * 혼합 비율 (%) 과 잔차 컬럼 추가 (이전 Mix_ 컬럼은 지움)
+ */
+export function addUnmixingColumns(data: GeochemData, endmembers: MixingEndmember[], samples: UnmixingSample[]): GeochemData {
+  const fractionColumns = endmembers.map(em => `${MIXING_COLUMN_PREFIX}${em.name} (%)`)
+  const columns = [...fractionColumns, MIXING_RESIDUAL_COLUMN]
+  const previous = data.numericColumns.filter(col => col.startsWith(MIXING_COLUMN_PREFIX))
+  const kept = data.numericColumns.filter(col => !col.startsWith(MIXING_COLUMN_PREFIX))
+  const units = data.units && { ...data.units }
+  if (units) previous.forEach(col => delete units[col])
+
+  return {
+    ...data,
+    data: data.data.map((row, rowIndex) => {
+      const newRow = { ...row }
+      for (const col of previous) delete newRow[col]
+      const sample = samples[rowIndex]
+      fractionColumns.forEach((col, i) => { newRow[col] = sample.fractions ? sample.fractions[i] * 100 : null })
+      newRow[MIXING_RESIDUAL_COLUMN] = sample.residual
+      return newRow
+    }),
+    numericColumns: [...kept, ...columns],
+    units,
+    metadata: data.metadata
+      ? { ...data.metadata, columnCount: (data.metadata.columnCount || 0) - previous.length + columns.length }
+      : data.metadata
+  }
+}
@@ -0,0 +1,258 @@
+import { GeochemData } from '@/types/geochem'
+import { getColumnUnit } from './units'
+
+// 헬륨 동위원소 (3He/4He) 와 4He/20Ne 를 이용한 공기 보정과 기원 성분 분리
+
+// 대기 3He/4He (Ra)
+export const AIR_HELIUM_RATIO = 1.384e-6
+
+export interface HeliumEndmember {
+  rRa: number   // 3He/4He (R/Ra)
+  heNe: number  // 4He/20Ne
+}
+
+export type HeliumSource = 'mantle' | 'crust' | 'air'
+
+export const HELIUM_SOURCE_LABELS: Record<HeliumSource, string> = {
+  mantle: '맨틀',
+  crust: '지각',
+  air: '대기'
+}
+
+// 공기 보정에 쓰는 기준 4He/20Ne
+export const AIR_HE_NE_PRESETS: { id: string; label: string; value: number }[] = [
+  { id: 'air', label: '대기 (가스 시료)', value: 0.318 },
+  { id: 'asw', label: '대기 포화수 ASW, 약 10 °C (물 시료)', value: 0.288 }
+]
+
+export interface HeliumOptions {
+  airRatio: number  // 대기 3He/4He
+  endmembers: Record<HeliumSource, HeliumEndmember>
+}
+
+// 기본 성분: MORB 맨틀, 방사성 지각, 대기 (Sano & Wakita, 1985)
+export const DEFAULT_HELIUM_OPTIONS: HeliumOptions = {
+  airRatio: AIR_HELIUM_RATIO,
+  endmembers: {
+    mantle: { rRa: 8, heNe: 1000 },
+    crust: { rRa: 0.02, heNe: 1000 },
+    air: { rRa: 1, heNe: 0.318 }
+  }
+}
+
+// 원시 3He/4He 가 이 값보다 크면 이미 R/Ra 로 표기된 것으로 봄
+const RAW_RATIO_LIMIT = 1e-3
+
+export interface HeliumColumns {
+  ratio?: { column: string; normalized: boolean }  // normalized: 이미 R/Ra
+  heNe?: string                                     // 4He/20Ne 비
+  he4?: string                                      // 4He 함량
+  ne20?: string                                     // 20Ne 함량
+}
+
+// 헤더에서 괄호 부분을 뗀 이름과 괄호 안 표기 (소문자, 공백 제거)
+function parseNobleGasHeader(header: string): { name: string; tag: string } {
+  const lower = header.toLowerCase()
+  const tag = (lower.match(/[([]([^)\]]*)[)\]]/) || [])[1] || ''
+  const name = lower.replace(/[([][^)\]]*[)\]]/g, '').replace(/[\s_]/g, '')
+  return { name, tag: tag.replace(/\s/g, '') }
+}
+
+const RATIO_NAMES = ['3he/4he', 'he3/he4', 'r']
+const NORMALIZED_NAMES = ['r/ra', 'rra', '3he/4he/ra']
+const HE_NE_NAMES = ['4he/20ne', 'he/ne', 'he4/ne20']
+const HE4_NAMES = ['4he', 'he4', 'he']
+const NE20_NAMES = ['20ne', 'ne20', 'ne']
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted.length === 0 ? NaN : sorted[Math.floor(sorted.length / 2)]
+}
+
+/**
+ * 헬륨·네온 컬럼 찾기
+ * 3He/4He 는 원시 비와 R/Ra 를 모두 받으며, 값의 크기로 한 번 더 확인
+ */
+export function findHeliumColumns(data: GeochemData): HeliumColumns {
+  const columns: HeliumColumns = {}
+  const find = (match: (name: string, tag: string) => boolean) =>
+    data.numericColumns.find(col => {
+      const { name, tag } = parseNobleGasHeader(col)
+      return match(name, tag)
+    })
+
+  const raw = find((name, tag) => RATIO_NAMES.includes(name) && tag !== 'ra' && tag !== 'r/ra')
+  const normalized = find((name, tag) => NORMALIZED_NAMES.includes(name) || (RATIO_NAMES.includes(name) && (tag === 'ra' || tag === 'r/ra')))
+  const ratioColumn = raw || normalized
+  if (ratioColumn) {
+    const values = data.data.map(row => parseFloat(row[ratioColumn])).filter(v => isFinite(v))
+    columns.ratio = { column: ratioColumn, normalized: ratioColumn !== raw || median(values) > RAW_RATIO_LIMIT }
+  }
+
+  columns.heNe = find(name => HE_NE_NAMES.includes(name))
+  columns.he4 = find(name => HE4_NAMES.includes(name))
+  columns.ne20 = find(name => NE20_NAMES.includes(name))
+  return columns
+}
+
+/**
+ * 4He/20Ne 를 함량 컬럼으로 계산할 때 단위가 다른지 (다르면 비를 계산하지 않음)
+ */
+export function hasMismatchedUnits(data: GeochemData, columns: HeliumColumns): boolean {
+  if (columns.heNe || !columns.he4 || !columns.ne20) return false
+  const he4Unit = getColumnUnit(data, columns.he4)
+  const ne20Unit = getColumnUnit(data, columns.ne20)
+  return !!he4Unit && !!ne20Unit && he4Unit !== ne20Unit
+}
+
+/**
+ * 공기 보정 (Craig et al., 1978; Hilton, 1996)
+ * X = (4He/20Ne)시료 / (4He/20Ne)대기, Rc/Ra = ((R/Ra)·X − 1) / (X − 1)
+ * X ≤ 1 이면 대기 성분뿐이므로 보정할 수 없음 (null)
+ */
+export function airCorrectedRatio(rRa: number, heNe: number, airHeNe: number): number | null {
+  const x = heNe / airHeNe
+  if (!isFinite(rRa) || !isFinite(x) || x <= 1) return null
+  return (rRa * x - 1) / (x - 1)
+}
+
+/**
+ * 맨틀·지각·대기 3성분 혼합에서 각 성분의 4He 기여율 (Sano & Wakita, 1985)
+ * R = Σ fᵢRᵢ, 1/(He/Ne) = Σ fᵢ/(He/Ne)ᵢ, Σ fᵢ = 1 을 풂
+ */
+export function heliumSourceFractions(
+  rRa: number,
+  heNe: number,
+  endmembers: Record<HeliumSource, HeliumEndmember>
+): Record<HeliumSource, number> | null {
+  if (!isFinite(rRa) || !(heNe > 0)) return null
+  const sources: HeliumSource[] = ['mantle', 'crust', 'air']
+  const matrix = [
+    sources.map(() => 1),
+    sources.map(source => endmembers[source].rRa),
+    sources.map(source => 1 / endmembers[source].heNe)
+  ]
+  const rhs = [1, rRa, 1 / heNe]
+
+  const det = (m: number[][]) =>
+    m[0][0] * (m[1][1] * m[2][2] - m[1][2] * m[2][1]) -
+    m[0][1] * (m[1][0] * m[2][2] - m[1][2] * m[2][0]) +
+    m[0][2] * (m[1][0] * m[2][1] - m[1][1] * m[2][0])
+  const d = det(matrix)
+  if (Math.abs(d) < 1e-12) return null
+
+  // 크라메르 공식
+  const fractions = sources.map((_, col) => det(matrix.map((row, i) => row.map((v, j) => (j === col ? rhs[i] : v)))) / d)
+  return { mantle: fractions[0], crust: fractions[1], air: fractions[2] }
+}
+
+export interface HeliumSample {
+  index: number
+  rRa: number | null           // 측정 R/Ra
+  heNe: number | null          // 4He/20Ne
+  x: number | null             // (4He/20Ne) / 대기값
+  rcRa: number | null          // 공기 보정 R/Ra
+  fractions: Record<HeliumSource, number> | null  // 4He 기여율 (0–1)
+  outside: boolean             // 기여율이 0–1 밖 (세 성분 혼합 삼각형 밖)
+}
+
+/**
+ * 시료별 R/Ra, 공기 보정, 기원 성분 기여율 계산
+ */
+export function analyzeHelium(data: GeochemData, columns: HeliumColumns, options: HeliumOptions): HeliumSample[] {
+  const airHeNe = options.endmembers.air.heNe
+  const mismatched = hasMismatchedUnits(data, columns)
+
+  return data.data.map((row, index) => {
+    const ratio = columns.ratio ? parseFloat(row[columns.ratio.column]) : NaN
+    const rRa = columns.ratio && !columns.ratio.normalized ? ratio / options.airRatio : ratio
+    let heNe = columns.heNe ? parseFloat(row[columns.heNe]) : NaN
+    if (!columns.heNe && columns.he4 && columns.ne20 && !mismatched) {
+      heNe = parseFloat(row[columns.he4]) / parseFloat(row[columns.ne20])
+    }
+
+    const validR = isFinite(rRa) && rRa >= 0
+    const validHeNe = isFinite(heNe) && heNe > 0
+    const fractions = validR && validHeNe ? heliumSourceFractions(rRa, heNe, options.endmembers) : null
+    return {
+      index,
+      rRa: validR ? rRa : null,
+      heNe: validHeNe ? heNe : null,
+      x: validHeNe ? heNe / airHeNe : null,
+      rcRa: validR && validHeNe ? airCorrectedRatio(rRa, heNe, airHeNe) : null,
+      fractions,
+      outside: !!fractions && Object.values(fractions).some(f => f < -1e-6 || f > 1 + 1e-6)
+    }
+  })
+}
+
+export const HELIUM_COLUMNS = {
+  rRa: 'R/Ra',
+  heNe: '4He/20Ne',
+  x: 'X (He/Ne)',
+  rcRa: 'Rc/Ra',
+  mantle: 'He_mantle (%)',
+  crust: 'He_crust (%)',
+  air: 'He_air (%)'
+}
+
+/**
+ * 헬륨 계산 결과를 컬럼으로 추가 (같은 이름의 컬럼은 덮어씀)
+ */
+export function addHeliumColumns(data: GeochemData, samples: HeliumSample[]): GeochemData {
+  const added = Object.values(HELIUM_COLUMNS).filter(col => !data.numericColumns.includes(col))
+  const percent = (sample: HeliumSample, source: HeliumSource) =>
+    sample.fractions ? sample.fractions[source] * 100 : null
+
+  return {
+    ...data,
+    data: data.data.map((row, rowIndex) => {
+      const sample = samples[rowIndex]
+      return {
+        ...row,
+        [HELIUM_COLUMNS.rRa]: sample.rRa,
+        [HELIUM_COLUMNS.heNe]: sample.heNe,
+        [HELIUM_COLUMNS.x]: sample.x,
+        [HELIUM_COLUMNS.rcRa]: sample.rcRa,
+        [HELIUM_COLUMNS.mantle]: percent(sample, 'mantle'),
+        [HELIUM_COLUMNS.crust]: percent(sample, 'crust'),
+        [HELIUM_COLUMNS.air]: percent(sample, 'air')
+      }
+    }),
+    numericColumns: [...data.numericColumns, ...added],
+    metadata: data.metadata && added.length > 0
+      ? { ...data.metadata, columnCount: (data.metadata.columnCount || 0) + added.length }
+      : data.metadata
+  }
+}
+
+/**
+ * 두 성분 혼합선 (4He/20Ne 를 로그 간격으로 나눠 R/Ra 계산)
+ * 혼합 비율 f 에서 1/(He/Ne) = f/a + (1 − f)/b, R = f·Ra + (1 − f)·Rb (f 는 4He 기준)
+ */
+export function heliumMixingLine(a: HeliumEndmember, b: HeliumEndmember, steps = 80): { x: number; y: number }[] {
+  const [logA, logB] = [Math.log10(a.heNe), Math.log10(b.heNe)]
+  if (!isFinite(logA) || !isFinite(logB) || a.heNe === b.heNe) return []
+  return Array.from({ length: steps + 1 }, (_, i) => {
+    const heNe = 10 ** (logA + ((logB - logA) * i) / steps)
+    const f = (1 / heNe - 1 / b.heNe) / (1 / a.heNe - 1 / b.heNe)
+    return { x: heNe, y: f * a.rRa + (1 - f) * b.rRa }
+  })
+}
+
+/**
+ * R/Ra – 4He/20Ne 도표의 이론 혼합선: 대기와 맨틀·지각 혼합 성분 (맨틀 비율별)
+ */
+export function heliumMixingCurves(
+  endmembers: Record<HeliumSource, HeliumEndmember>,
+  mantleShares: number[] = [100, 50, 10, 1, 0]
+): { share: number; points: { x: number; y: number }[] }[] {
+  const { mantle, crust, air } = endmembers
+  return mantleShares.map(share => {
+    const m = share / 100
+    // 맨틀–지각 혼합 성분 (4He 기준 혼합)
+    const heNe = 1 / (m / mantle.heNe + (1 - m) / crust.heNe)
+    const deep = { rRa: m * mantle.rRa + (1 - m) * crust.rRa, heNe }
+    return { share, points: heliumMixingLine(air, deep) }
+  })
+}
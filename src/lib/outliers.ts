@@ -0,0 +1,324 @@
+import * as ss from 'simple-statistics'
+import { StatisticalResult } from '@/types/geochem'
+import { calculateStatistics } from './statistics'
+import { chiSquaredProbability } from './regression'
+
+// 이상치 탐지: 단변량 (IQR, MAD), 다변량 (MCD 기반 로버스트 마할라노비스), 회귀 영향점 (레버리지, Cook 거리)
+
+export type UnivariateOutlierMethod = 'iqr' | 'mad'
+
+export const UNIVARIATE_OUTLIER_LABELS: Record<UnivariateOutlierMethod, string> = {
+  iqr: 'IQR (Tukey 울타리)',
+  mad: 'MAD (로버스트 z)'
+}
+
+// 기본 기준값: IQR 1.5배, 로버스트 z 3.5 (Iglewicz & Hoaglin)
+export const DEFAULT_UNIVARIATE_CUTOFF: Record<UnivariateOutlierMethod, number> = {
+  iqr: 1.5,
+  mad: 3.5
+}
+
+export interface RobustMahalanobisResult {
+  distances: number[]  // 로버스트 마할라노비스 거리 (행 순서, 계산 불가 행은 NaN)
+  cutoff: number  // √χ²(p, quantile)
+  flags: boolean[]
+  center: number[]
+  subsetSize: number  // MCD 부분집합 크기 h
+}
+
+export interface PairInfluenceResult {
+  leverage: number[]
+  cooksDistance: number[]
+  studentizedResiduals: number[]
+  leverageCutoff: number  // 2p/n (p = 2)
+  cooksCutoff: number  // 4/n
+  flags: boolean[]  // Cook 거리가 기준을 넘는 점
+}
+
+/**
+ * 단변량 이상치 (결측값은 이상치 아님)
+ * - iqr: Q1 − k·IQR 미만 또는 Q3 + k·IQR 초과
+ * - mad: |x − 중앙값| / (1.4826·MAD) > k
+ */
+export function univariateOutliers(values: number[], method: UnivariateOutlierMethod, cutoff = DEFAULT_UNIVARIATE_CUTOFF[method]): boolean[] {
+  const finite = values.filter(v => isFinite(v))
+  if (finite.length < 4) return values.map(() => false)
+
+  if (method === 'iqr') {
+    const q1 = ss.quantile(finite, 0.25)
+    const q3 = ss.quantile(finite, 0.75)
+    const iqr = q3 - q1
+    return values.map(v => isFinite(v) && (v < q1 - cutoff * iqr || v > q3 + cutoff * iqr))
+  }
+
+  const median = ss.median(finite)
+  const mad = 1.4826 * ss.median(finite.map(v => Math.abs(v - median)))
+  if (mad === 0) return values.map(v => isFinite(v) && v !== median)
+  return values.map(v => isFinite(v) && Math.abs(v - median) / mad > cutoff)
+}
+
+/**
+ * χ² 분위수 (이분법)
+ */
+export function chiSquaredQuantile(probability: number, dof: number): number {
+  let low = 0
+  let high = Math.max(10, dof * 10)
+  while (chiSquaredProbability(high, dof) > 1 - probability) high *= 2
+  for (let i = 0; i < 100; i++) {
+    const mid = (low + high) / 2
+    if (chiSquaredProbability(mid, dof) > 1 - probability) low = mid
+    else high = mid
+  }
+  return (low + high) / 2
+}
+
+/**
+ * 로버스트 마할라노비스 거리 (FAST-MCD, Rousseeuw & Van Driessen 1999)
+ * rows: 행 × 변수 (변수 중 하나라도 결측인 행은 NaN 거리, 이상치 아님)
+ * 부분집합 크기 h = ⌊(n + p + 1) / 2⌋, 재가중 후 χ²(p, quantile) 기준으로 판정
+ */
+export function robustMahalanobis(rows: number[][], quantile = 0.975): RobustMahalanobisResult {
+  const p = rows[0]?.length || 0
+  const validIndices = rows.map((row, index) => ({ row, index }))
+    .filter(({ row }) => row.every(v => isFinite(v)))
+    .map(({ index }) => index)
+  const X = validIndices.map(index => rows[index])
+  const n = X.length
+
+  if (p === 0 || n < 2 * p + 2) {
+    throw new Error(`유효한 샘플이 부족합니다 (변수 ${p}개에 최소 ${2 * p + 2}개 필요).`)
+  }
+
+  const h = Math.floor((n + p + 1) / 2)
+  const chi2Median = chiSquaredQuantile(0.5, p)
+  const cutoffSquared = chiSquaredQuantile(quantile, p)
+
+  // C-step: 현재 추정으로 거리가 가장 작은 h개로 다시 추정 (행렬식이 줄지 않을 때까지)
+  // 첫 단계는 (p + 1)개 시작 부분집합에서 h개로 넘어가므로 행렬식을 비교하지 않고 항상 진행
+  const concentrate = (subset: number[]): LocationScatter | null => {
+    let estimate = estimateLocationScatter(X, subset)
+    for (let step = 0; step < 30 && estimate; step++) {
+      const distances = mahalanobisSquared(X, estimate)
+      const next = distances
+        .map((d, index) => ({ d, index }))
+        .sort((a, b) => a.d - b.d)
+        .slice(0, h)
+        .map(item => item.index)
+      const nextEstimate = estimateLocationScatter(X, next)
+      if (!nextEstimate) return step === 0 ? null : estimate
+      if (step > 0 && nextEstimate.logDet >= estimate.logDet - 1e-10) break
+      estimate = nextEstimate
+    }
+    return estimate
+  }
+
+  // 시작 부분집합: 좌표별 중앙값에 가까운 h개 + 고정 시드 무작위 (p + 1)개 부분집합
+  const starts: number[][] = [closestToMedian(X, h)]
+  const random = seededRandom(20240501)
+  const startCount = Math.min(100, 10 * (p + 1) + 20)
+  for (let s = 0; s < startCount; s++) {
+    const subset = new Set<number>()
+    while (subset.size < Math.min(n, p + 1)) subset.add(Math.floor(random() * n))
+    starts.push(Array.from(subset))
+  }
+
+  let best: LocationScatter | null = null
+  for (const start of starts) {
+    const estimate = concentrate(start)
+    if (estimate && (!best || estimate.logDet < best.logDet)) best = estimate
+  }
+  if (!best) {
+    throw new Error('공분산 행렬이 특이 행렬입니다. 변수 간 완전한 선형 관계(예: 합이 일정한 조성)가 있는지 확인해주세요.')
+  }
+
+  // 일관성 보정 후 재가중 (χ² 기준 안쪽 점으로 다시 추정)
+  const raw = scaleScatter(best, X, chi2Median)
+  const rawDistances = mahalanobisSquared(X, raw)
+  const inliers = rawDistances.map((d, index) => ({ d, index })).filter(item => item.d <= cutoffSquared).map(item => item.index)
+  const reweighted = estimateLocationScatter(X, inliers)
+  const final = reweighted ? scaleScatter(reweighted, X, chi2Median) : raw
+  const finalDistances = mahalanobisSquared(X, final)
+
+  const distances = rows.map(() => NaN)
+  const flags = rows.map(() => false)
+  validIndices.forEach((rowIndex, k) => {
+    distances[rowIndex] = Math.sqrt(finalDistances[k])
+    flags[rowIndex] = finalDistances[k] > cutoffSquared
+  })
+
+  return { distances, cutoff: Math.sqrt(cutoffSquared), flags, center: final.mean, subsetSize: h }
+}
+
+/**
+ * 두 변수 최소제곱 회귀의 영향점 (레버리지, Cook 거리, 외적 스튜던트화 잔차)
+ * 결측 행은 NaN
+ */
+export function pairInfluence(x: number[], y: number[]): PairInfluenceResult {
+  const valid = x.map((xi, i) => i).filter(i => isFinite(x[i]) && isFinite(y[i]))
+  const n = valid.length
+  const empty = x.map(() => NaN)
+  const result: PairInfluenceResult = {
+    leverage: [...empty],
+    cooksDistance: [...empty],
+    studentizedResiduals: [...empty],
+    leverageCutoff: n > 0 ? 4 / n : NaN,
+    cooksCutoff: n > 0 ? 4 / n : NaN,
+    flags: x.map(() => false)
+  }
+  if (n < 4) return result
+
+  const xMean = valid.reduce((sum, i) => sum + x[i], 0) / n
+  const yMean = valid.reduce((sum, i) => sum + y[i], 0) / n
+  const sxx = valid.reduce((sum, i) => sum + (x[i] - xMean) ** 2, 0)
+  if (sxx === 0) return result
+  const slope = valid.reduce((sum, i) => sum + (x[i] - xMean) * (y[i] - yMean), 0) / sxx
+  const intercept = yMean - slope * xMean
+
+  const residual = (i: number) => y[i] - (intercept + slope * x[i])
+  const sse = valid.reduce((sum, i) => sum + residual(i) ** 2, 0)
+  const mse = sse / (n - 2)
+
+  valid.forEach(i => {
+    const h = 1 / n + (x[i] - xMean) ** 2 / sxx
+    const e = residual(i)
+    result.leverage[i] = h
+    result.cooksDistance[i] = mse > 0 ? (e * e / (2 * mse)) * (h / ((1 - h) ** 2)) : 0
+    // 해당 점을 뺀 분산으로 스튜던트화
+    const deletedVariance = (sse - e * e / (1 - h)) / (n - 3)
+    result.studentizedResiduals[i] = deletedVariance > 0 ? e / Math.sqrt(deletedVariance * (1 - h)) : 0
+    result.flags[i] = result.cooksDistance[i] > result.cooksCutoff
+  })
+
+  return result
+}
+
+/**
+ * 제외한 샘플 유무에 따른 통계 비교
+ */
+export function compareStatisticsWithExclusion(
+  x: number[],
+  y: number[],
+  excluded: Set<number>,
+  statMethods: ('pearson' | 'spearman' | 'kendall')[] = ['pearson', 'spearman', 'kendall']
+): { all: StatisticalResult; excluded: StatisticalResult; removedCount: number } {
+  const keep = x.map((_, i) => !excluded.has(i))
+  const removedCount = x.filter((xi, i) => !keep[i] && isFinite(xi) && isFinite(y[i])).length
+  return {
+    all: calculateStatistics(x, y, statMethods),
+    excluded: calculateStatistics(x.filter((_, i) => keep[i]), y.filter((_, i) => keep[i]), statMethods),
+    removedCount
+  }
+}
+
+interface LocationScatter {
+  mean: number[]
+  cholesky: number[][]  // 공분산의 촐레스키 분해 (하삼각)
+  logDet: number
+}
+
+function estimateLocationScatter(X: number[][], subset: number[]): LocationScatter | null {
+  const p = X[0].length
+  const m = subset.length
+  if (m < 2) return null
+  const mean = new Array(p).fill(0)
+  subset.forEach(index => X[index].forEach((v, j) => { mean[j] += v / m }))
+
+  const cov = Array.from({ length: p }, () => new Array(p).fill(0))
+  subset.forEach(index => {
+    for (let a = 0; a < p; a++) {
+      const da = X[index][a] - mean[a]
+      for (let b = 0; b <= a; b++) cov[a][b] += da * (X[index][b] - mean[b]) / (m - 1)
+    }
+  })
+  for (let a = 0; a < p; a++) for (let b = 0; b < a; b++) cov[b][a] = cov[a][b]
+
+  return fromCovariance(mean, cov)
+}
+
+function fromCovariance(mean: number[], cov: number[][]): LocationScatter | null {
+  const L = choleskyDecompose(cov)
+  if (!L) return null
+  const logDet = 2 * L.reduce((sum, row, i) => sum + Math.log(row[i]), 0)
+  return { mean, cholesky: L, logDet }
+}
+
+// 거리 중앙값이 χ²(p) 중앙값이 되도록 공분산 배율 조정
+function scaleScatter(estimate: LocationScatter, X: number[][], chi2Median: number): LocationScatter {
+  const factor = ss.median(mahalanobisSquared(X, estimate)) / chi2Median
+  if (!(factor > 0)) return estimate
+  const root = Math.sqrt(factor)
+  return {
+    mean: estimate.mean,
+    cholesky: estimate.cholesky.map(row => row.map(v => v * root)),
+    logDet: estimate.logDet + estimate.mean.length * Math.log(factor)
+  }
+}
+
+function mahalanobisSquared(X: number[][], estimate: LocationScatter): number[] {
+  const L = estimate.cholesky
+  const p = estimate.mean.length
+  return X.map(row => {
+    // L z = (x − μ) 전진 대입
+    const z = new Array(p).fill(0)
+    let sum = 0
+    for (let i = 0; i < p; i++) {
+      let value = row[i] - estimate.mean[i]
+      for (let k = 0; k < i; k++) value -= L[i][k] * z[k]
+      z[i] = value / L[i][i]
+      sum += z[i] * z[i]
+    }
+    return sum
+  })
+}
+
+function choleskyDecompose(A: number[][]): number[][] | null {
+  const p = A.length
+  const L = Array.from({ length: p }, () => new Array(p).fill(0))
+  const scale = Math.max(...A.map((row, i) => Math.abs(row[i])), 1e-300)
+  for (let i = 0; i < p; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = A[i][j]
+      for (let k = 0; k < j; k++) sum -= L[i][k] * L[j][k]
+      if (i === j) {
+        if (sum <= scale * 1e-12) return null
+        L[i][i] = Math.sqrt(sum)
+      } else {
+        L[i][j] = sum / L[j][j]
+      }
+    }
+  }
+  return L
+}
+
+// 좌표별 중앙값/MAD로 표준화한 거리가 가장 작은 h개
+function closestToMedian(X: number[][], h: number): number[] {
+  const p = X[0].length
+  const medians: number[] = []
+  const mads: number[] = []
+  for (let j = 0; j < p; j++) {
+    const column = X.map(row => row[j])
+    const median = ss.median(column)
+    medians.push(median)
+    mads.push(ss.median(column.map(v => Math.abs(v - median))) || ss.standardDeviation(column) || 1)
+  }
+  return X
+    .map((row, index) => ({
+      index,
+      d: row.reduce((sum, v, j) => sum + ((v - medians[j]) / mads[j]) ** 2, 0)
+    }))
+    .sort((a, b) => a.d - b.d)
+    .slice(0, h)
+    .map(item => item.index)
+}
+
+// 재현 가능한 난수 (mulberry32)
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
@@ -0,0 +1,37 @@
+import { CensoredPolicy, GeochemData, ScanOptions, ScanResult } from '@/types/geochem'
+import { resolveCensoredData } from './censored'
+import { ScanCombination, createScanAnalyzer } from './scan'
+import { InsightPairResult, analyzeInsightPair } from './smart-insight'
+
+// 변수 쌍 분석 작업 (워커와 메인 스레드에서 같은 분석기 사용)
+export type PairTask =
+  | { kind: 'scan'; data: GeochemData; scanOptions: ScanOptions }
+  | { kind: 'insight'; data: GeochemData; includeTypeColumn: boolean; selectedTypeColumn?: string; censoredPolicy?: CensoredPolicy }
+
+export type PairItem = ScanCombination | [string, string]
+export type PairItemResult = ScanResult | null | InsightPairResult
+
+// 워커 메시지
+export type PairWorkerRequest =
+  | { type: 'init'; task: PairTask }
+  | { type: 'run'; indices: number[]; items: PairItem[] }
+
+export type PairWorkerResponse =
+  | { type: 'results'; indices: number[]; results: PairItemResult[] }
+  | { type: 'error'; message: string }
+
+/**
+ * 작업 종류에 맞는 쌍 분석기 생성
+ */
+export function createPairAnalyzer(task: PairTask): (item: PairItem) => PairItemResult {
+  if (task.kind === 'scan') {
+    const analyze = createScanAnalyzer(task.data, task.scanOptions)
+    return item => analyze(item as ScanCombination)
+  }
+  // 검출한계 미만 값은 스캔과 같은 정책으로 대체 (기본 DL/2)
+  const data = resolveCensoredData(task.data, task.censoredPolicy || 'half')
+  return item => {
+    const [xCol, yCol] = item as [string, string]
+    return analyzeInsightPair(data, xCol, yCol, task.includeTypeColumn, task.selectedTypeColumn)
+  }
+}
@@ -0,0 +1,265 @@
+import { ColumnSelection, GeochemData, OverlayCurve, PetrogeneticModel, PetrogeneticModelType } from '@/types/geochem'
+import { axisColumns } from './mixing'
+import { findElementColumns } from './reference-compositions'
+import { getAxisValueWithUnits } from './units'
+
+// 분별결정·용융·AFC 정방향 모델 (미량원소, 농도는 ppm)
+
+export const PETROGENETIC_MODEL_LABELS: Record<PetrogeneticModelType, string> = {
+  rayleigh: 'Rayleigh 분별결정',
+  batchMelting: '평형(배치) 용융',
+  fractionalMelting: '분별 용융 (누적 용융체)',
+  afc: 'AFC (DePaolo, 1981)'
+}
+
+// F의 의미: 분별결정·AFC는 남은 용융체 분율, 용융은 용융 정도
+export const F_DESCRIPTIONS: Record<PetrogeneticModelType, string> = {
+  rayleigh: 'F = 남은 용융체 분율',
+  batchMelting: 'F = 용융 정도',
+  fractionalMelting: 'F = 용융 정도',
+  afc: 'F = 남은 용융체 분율'
+}
+
+export const DEFAULT_F_VALUES: Record<PetrogeneticModelType, number[]> = {
+  rayleigh: [1, 0.9, 0.8, 0.7, 0.6, 0.5, 0.4, 0.3, 0.2],
+  batchMelting: [0.01, 0.02, 0.05, 0.1, 0.2, 0.3],
+  fractionalMelting: [0.01, 0.02, 0.05, 0.1, 0.2, 0.3],
+  afc: [1, 0.9, 0.8, 0.7, 0.6, 0.5, 0.4, 0.3, 0.2]
+}
+
+export const MINERAL_LABELS: Record<string, string> = {
+  Ol: '감람석',
+  Opx: '사방휘석',
+  Cpx: '단사휘석',
+  Pl: '사장석',
+  Amp: '각섬석',
+  Grt: '석류석',
+  Mag: '자철석'
+}
+
+const MINERALS = Object.keys(MINERAL_LABELS)
+
+// 현무암–현무암질 안산암 용융체의 광물/용융체 분배계수 대표값 (Rollinson, 1993 편집)
+// 순서: Ol, Opx, Cpx, Pl, Amp, Grt, Mag
+const KD_TABLE: Record<string, number[]> = {
+  Rb: [0.0098, 0.022, 0.031, 0.071, 0.29, 0.0007, 0.01],
+  Ba: [0.0099, 0.013, 0.026, 0.23, 0.42, 0.0007, 0.01],
+  Nb: [0.01, 0.15, 0.005, 0.01, 0.8, 0.02, 0.4],
+  La: [0.0067, 0.031, 0.056, 0.148, 0.17, 0.001, 0.015],
+  Ce: [0.006, 0.02, 0.092, 0.082, 0.26, 0.007, 0.016],
+  Sr: [0.014, 0.04, 0.06, 1.83, 0.46, 0.0012, 0.01],
+  Nd: [0.0059, 0.03, 0.23, 0.055, 0.44, 0.026, 0.026],
+  Zr: [0.012, 0.18, 0.1, 0.048, 0.5, 0.65, 0.1],
+  Hf: [0.013, 0.2, 0.263, 0.051, 0.5, 0.43, 0.14],
+  Sm: [0.007, 0.05, 0.445, 0.039, 0.76, 0.102, 0.024],
+  Eu: [0.0074, 0.05, 0.474, 0.34, 0.88, 0.243, 0.025],
+  Gd: [0.01, 0.09, 0.556, 0.034, 0.86, 0.68, 0.018],
+  Dy: [0.013, 0.15, 0.582, 0.023, 0.78, 1.94, 0.017],
+  Y: [0.01, 0.18, 0.467, 0.03, 1.0, 3.1, 0.2],
+  Er: [0.0256, 0.23, 0.583, 0.02, 0.68, 4.13, 0.017],
+  Yb: [0.049, 0.34, 0.542, 0.023, 0.59, 6.6, 0.018],
+  Lu: [0.045, 0.42, 0.506, 0.019, 0.51, 7.1, 0.018],
+  Sc: [0.17, 1.2, 3, 0.016, 4.2, 4, 2],
+  V: [0.06, 0.6, 1.35, 0.04, 3.4, 1.5, 26],
+  Cr: [0.7, 10, 8.4, 0.1, 12.5, 1.2, 153],
+  Ni: [10, 5, 2, 0.01, 6.8, 0.4, 29]
+}
+
+// 표에 없는 희토류는 이웃 원소의 기하평균으로 보간
+const INTERPOLATED_REE: Record<string, [string, string]> = {
+  Pr: ['Ce', 'Nd'],
+  Tb: ['Gd', 'Dy'],
+  Ho: ['Dy', 'Er'],
+  Tm: ['Er', 'Yb']
+}
+
+/**
+ * 기본 분배계수 (광물 → 원소 → Kd)
+ */
+export function defaultPartitionCoefficients(): Record<string, Record<string, number>> {
+  const table: Record<string, Record<string, number>> = {}
+  MINERALS.forEach((mineral, i) => {
+    table[mineral] = {}
+    for (const [element, values] of Object.entries(KD_TABLE)) table[mineral][element] = values[i]
+    for (const [element, [a, b]] of Object.entries(INTERPOLATED_REE)) {
+      table[mineral][element] = Math.sqrt(KD_TABLE[a][i] * KD_TABLE[b][i])
+    }
+  })
+  return table
+}
+
+export const KD_ELEMENTS = [...Object.keys(KD_TABLE), ...Object.keys(INTERPOLATED_REE)]
+
+// 기본 광물 조합: 분별결정·AFC는 반려암질, 용융은 석류석 레졸라이트
+const DEFAULT_MINERALS: Record<PetrogeneticModelType, Record<string, number>> = {
+  rayleigh: { Ol: 0.2, Cpx: 0.4, Pl: 0.4 },
+  batchMelting: { Ol: 0.6, Opx: 0.2, Cpx: 0.1, Grt: 0.1 },
+  fractionalMelting: { Ol: 0.6, Opx: 0.2, Cpx: 0.1, Grt: 0.1 },
+  afc: { Ol: 0.2, Cpx: 0.4, Pl: 0.4 }
+}
+
+export const DEFAULT_ASSIMILATION_RATIO = 0.3
+
+/**
+ * 새 모델 (기본 광물 조합과 분배계수 복사)
+ */
+export function createPetrogeneticModel(type: PetrogeneticModelType, name: string, color: string): PetrogeneticModel {
+  return {
+    id: `model-${Date.now()}`,
+    name,
+    type,
+    minerals: { ...DEFAULT_MINERALS[type] },
+    partitionCoefficients: defaultPartitionCoefficients(),
+    initial: {},
+    assimilant: type === 'afc' ? {} : undefined,
+    assimilationRatio: type === 'afc' ? DEFAULT_ASSIMILATION_RATIO : undefined,
+    fValues: [...DEFAULT_F_VALUES[type]],
+    color,
+    visible: true
+  }
+}
+
+/**
+ * 전체 분배계수 D = Σ Xᵢ·Kdᵢ (광물 비율은 합으로 정규화, Kd가 없으면 null)
+ */
+export function bulkPartitionCoefficient(model: PetrogeneticModel, element: string): number | null {
+  const entries = Object.entries(model.minerals).filter(([, proportion]) => proportion > 0)
+  const total = entries.reduce((sum, [, proportion]) => sum + proportion, 0)
+  if (total <= 0) return null
+  let d = 0
+  for (const [mineral, proportion] of entries) {
+    const kd = model.partitionCoefficients[mineral]?.[element]
+    if (kd === undefined || !isFinite(kd)) return null
+    d += (proportion / total) * kd
+  }
+  return d
+}
+
+/**
+ * 모델 용융체 농도 (ppm, 계산할 수 없으면 NaN)
+ * - Rayleigh: C = C0·F^(D−1)
+ * - 배치 용융: C = C0 / (D + F(1 − D))
+ * - 분별 용융 (누적): C = C0/F · (1 − (1 − F)^(1/D))
+ * - AFC: C = C0·f + r/(r − 1 + D)·Ca·(1 − f), f = F^(−(r − 1 + D)/(r − 1))
+ */
+export function modelConcentration(model: PetrogeneticModel, element: string, f: number): number {
+  const c0 = model.initial[element]
+  const d = bulkPartitionCoefficient(model, element)
+  if (c0 === undefined || d === null || !(f > 0) || f > 1) return NaN
+
+  switch (model.type) {
+    case 'rayleigh':
+      return c0 * Math.pow(f, d - 1)
+    case 'batchMelting':
+      return c0 / (d + f * (1 - d))
+    case 'fractionalMelting':
+      return d <= 0 ? c0 / f : (c0 / f) * (1 - Math.pow(1 - f, 1 / d))
+    case 'afc': {
+      const r = model.assimilationRatio ?? DEFAULT_ASSIMILATION_RATIO
+      const ca = model.assimilant?.[element]
+      if (ca === undefined || r <= 0 || r === 1) return NaN
+      // r − 1 + D = 0 이면 극한식 사용: C = C0 + r/(r − 1)·Ca·ln F
+      if (Math.abs(r + d - 1) < 1e-9) return c0 + (r / (r - 1)) * ca * Math.log(f)
+      const fm = Math.pow(f, -(r + d - 1) / (r - 1))
+      return c0 * fm + (r / (r - 1 + d)) * ca * (1 - fm)
+    }
+  }
+}
+
+/**
+ * 모델에 빠진 입력 (초기 조성, 동화 물질)
+ */
+export function missingModelInputs(model: PetrogeneticModel): string[] {
+  const missing: string[] = []
+  if (Object.keys(model.initial).length === 0) missing.push('초기 조성')
+  if (model.type === 'afc' && Object.keys(model.assimilant || {}).length === 0) missing.push('동화 물질 조성')
+  if (!Object.values(model.minerals).some(proportion => proportion > 0)) missing.push('광물 조합')
+  return missing
+}
+
+/**
+ * 시료 (여러 개면 평균) 의 원소 농도 (ppm)
+ */
+export function compositionFromRows(data: GeochemData, rows: number[], elements: string[] = KD_ELEMENTS): Record<string, number> {
+  const columns = findElementColumns(data, elements)
+  const composition: Record<string, number> = {}
+  for (const [element, { column, factor }] of Object.entries(columns)) {
+    const values = rows.map(i => parseFloat(data.data[i]?.[column]) * factor).filter(v => isFinite(v) && v > 0)
+    if (values.length > 0) composition[element] = values.reduce((sum, v) => sum + v, 0) / values.length
+  }
+  return composition
+}
+
+// F 범위를 로그 간격으로 나눈 값 (곡선용)
+function fSteps(fValues: number[], steps = 120): number[] {
+  const valid = fValues.filter(f => f > 0 && f <= 1)
+  if (valid.length === 0) return []
+  const [min, max] = [Math.min(...valid), Math.max(...valid)]
+  if (min === max) return [min]
+  return Array.from({ length: steps + 1 }, (_, i) => max * Math.pow(min / max, i / steps))
+}
+
+/**
+ * F 눈금 표시 (예: F=0.05)
+ */
+export function formatModelF(f: number): string {
+  return `F=${Number(f.toPrecision(3))}`
+}
+
+/**
+ * 현재 X, Y 축에 모델 곡선 (축 컬럼마다 원소를 찾아 ppm → 컬럼 단위로 환산)
+ */
+export function petrogeneticOverlayCurves(
+  data: GeochemData,
+  selection: ColumnSelection,
+  models: PetrogeneticModel[]
+): OverlayCurve[] {
+  if (!selection.x || !selection.y) return []
+  const columns = [...axisColumns(selection.x), ...axisColumns(selection.y)]
+
+  const curves: OverlayCurve[] = []
+  for (const model of models.filter(m => m.visible)) {
+    const elementColumns = findElementColumns(data, Object.keys(model.initial))
+    const mapping = columns.map(column => {
+      const element = Object.keys(elementColumns).find(el => elementColumns[el].column === column)
+      return element ? { column, element, factor: elementColumns[element].factor } : null
+    })
+    if (mapping.some(m => m === null)) continue
+
+    const pointAt = (f: number) => {
+      const row: Record<string, number> = {}
+      for (const m of mapping) row[m!.column] = modelConcentration(model, m!.element, f) / m!.factor
+      const x = getAxisValueWithUnits(data, row, selection.x!)
+      const y = getAxisValueWithUnits(data, row, selection.y!)
+      return isFinite(x) && isFinite(y) ? { x, y } : null
+    }
+
+    const points = fSteps(model.fValues)
+      .map(pointAt)
+      .filter((p): p is { x: number; y: number } => p !== null)
+    if (points.length < 2) continue
+
+    const ticks = model.fValues
+      .map(f => {
+        const p = pointAt(f)
+        return p && { ...p, label: formatModelF(f) }
+      })
+      .filter((t): t is { x: number; y: number; label: string } => t !== null)
+
+    curves.push({ id: model.id, label: model.name, points, color: model.color, ticks })
+  }
+  return curves
+}
+
+/**
+ * 스파이더 도표용 모델 패턴 (F 눈금마다 원소 농도, ppm)
+ */
+export function petrogeneticPatterns(model: PetrogeneticModel, elements: string[]): { f: number; values: (number | null)[] }[] {
+  return model.fValues.map(f => ({
+    f,
+    values: elements.map(element => {
+      const value = modelConcentration(model, element, f)
+      return isFinite(value) && value > 0 ? value : null
+    })
+  }))
+}
@@ -0,0 +1,178 @@
+import { GeochemData, QueryCondition, QueryGroup, QueryOperator, RowSubset } from '@/types/geochem'
+
+// 행 필터 조건식 (DataViewer 쿼리 빌더, 저장된 부분집합)
+
+export const QUERY_OPERATOR_LABELS: Record<QueryOperator, string> = {
+  'between': '범위',
+  '>': '>',
+  '>=': '≥',
+  '<': '<',
+  '<=': '≤',
+  '=': '=',
+  '!=': '≠',
+  'contains': '포함',
+  'not_contains': '미포함',
+  'missing': '결측',
+  'not_missing': '결측 아님'
+}
+
+// 숫자 컬럼 / 문자 컬럼에서 고를 수 있는 조건
+export const NUMERIC_QUERY_OPERATORS: QueryOperator[] = ['between', '>', '>=', '<', '<=', '=', '!=', 'missing', 'not_missing']
+export const TEXT_QUERY_OPERATORS: QueryOperator[] = ['=', '!=', 'contains', 'not_contains', 'missing', 'not_missing']
+
+let idCounter = 0
+const nextId = (prefix: string) => `${prefix}-${Date.now().toString(36)}-${(idCounter++).toString(36)}`
+
+export function createQueryCondition(column = '', operator: QueryOperator = 'between'): QueryCondition {
+  return { id: nextId('cond'), column, operator, value: '', value2: '' }
+}
+
+export function createQueryGroup(combinator: 'and' | 'or' = 'and'): QueryGroup {
+  return { id: nextId('group'), combinator, conditions: [], groups: [] }
+}
+
+const isMissing = (raw: unknown) =>
+  raw === null || raw === undefined || (typeof raw === 'number' && !isFinite(raw)) || String(raw).trim() === ''
+
+/**
+ * 행이 조건 하나를 만족하는지
+ * 크기/범위 비교는 숫자로, 포함 여부는 대소문자 구분 없이, =/≠는 숫자가 아니면 문자열로 비교
+ * 값이 비어 있는 조건은 작성 중으로 보고 무시 (항상 참)
+ */
+export function matchesQueryCondition(row: Record<string, any>, condition: QueryCondition): boolean {
+  if (!condition.column) return true
+  const raw = row[condition.column]
+  if (condition.operator === 'missing') return isMissing(raw)
+  if (condition.operator === 'not_missing') return !isMissing(raw)
+
+  const lower = condition.value.trim()
+  const upper = (condition.value2 || '').trim()
+  if (condition.operator === 'between' ? !lower && !upper : !lower) return true
+  if (isMissing(raw)) return false
+
+  const text = String(raw).trim()
+  const value = parseFloat(text)
+  const numeric = isFinite(value) && text !== ''
+
+  switch (condition.operator) {
+    case 'between': {
+      if (!numeric) return false
+      const min = lower ? parseFloat(lower) : -Infinity
+      const max = upper ? parseFloat(upper) : Infinity
+      return value >= min && value <= max
+    }
+    case '>': return numeric && value > parseFloat(lower)
+    case '>=': return numeric && value >= parseFloat(lower)
+    case '<': return numeric && value < parseFloat(lower)
+    case '<=': return numeric && value <= parseFloat(lower)
+    case '=':
+    case '!=': {
+      const target = parseFloat(lower)
+      const equal = numeric && isFinite(target) ? value === target : text.toLowerCase() === lower.toLowerCase()
+      return condition.operator === '=' ? equal : !equal
+    }
+    case 'contains': return text.toLowerCase().includes(lower.toLowerCase())
+    case 'not_contains': return !text.toLowerCase().includes(lower.toLowerCase())
+  }
+}
+
+/**
+ * 작성이 끝난 조건인지 (컬럼과 비교값이 있는지, 결측 조건은 컬럼만)
+ */
+export function isQueryConditionComplete(condition: QueryCondition): boolean {
+  if (!condition.column) return false
+  if (condition.operator === 'missing' || condition.operator === 'not_missing') return true
+  if (condition.operator === 'between') return !!(condition.value.trim() || (condition.value2 || '').trim())
+  return !!condition.value.trim()
+}
+
+/**
+ * 그룹(또는 하위 그룹)에 작성이 끝난 조건이 하나라도 있는지
+ */
+export function hasQueryConditions(group: QueryGroup): boolean {
+  return group.conditions.some(isQueryConditionComplete) || group.groups.some(hasQueryConditions)
+}
+
+/**
+ * 행이 그룹 조건을 만족하는지
+ * 작성 중인 조건과 빈 하위 그룹은 건너뛰고, 남은 조건이 없으면 필터 없음 (참)
+ */
+export function matchesQueryGroup(row: Record<string, any>, group: QueryGroup): boolean {
+  const results = [
+    ...group.conditions.filter(isQueryConditionComplete).map(condition => () => matchesQueryCondition(row, condition)),
+    ...group.groups.filter(hasQueryConditions).map(child => () => matchesQueryGroup(row, child))
+  ]
+  if (results.length === 0) return true
+  return group.combinator === 'and'
+    ? results.every(test => test())
+    : results.some(test => test())
+}
+
+/**
+ * 조건을 만족하는 원본 행 인덱스
+ */
+export function filterRowIndices(data: GeochemData, query: QueryGroup): number[] {
+  const indices: number[] = []
+  data.data.forEach((row, index) => {
+    if (matchesQueryGroup(row, query)) indices.push(index)
+  })
+  return indices
+}
+
+/**
+ * 행 인덱스를 컬럼 값으로 정렬 (숫자는 숫자 순, 결측은 항상 마지막)
+ */
+export function sortRowIndices(data: GeochemData, indices: number[], column: string, direction: 'asc' | 'desc'): number[] {
+  const sign = direction === 'asc' ? 1 : -1
+  return [...indices].sort((a, b) => {
+    const rawA = data.data[a][column]
+    const rawB = data.data[b][column]
+    const missingA = isMissing(rawA)
+    const missingB = isMissing(rawB)
+    if (missingA || missingB) return missingA === missingB ? a - b : missingA ? 1 : -1
+
+    const numA = parseFloat(rawA)
+    const numB = parseFloat(rawB)
+    const compared = isFinite(numA) && isFinite(numB)
+      ? numA - numB
+      : String(rawA).localeCompare(String(rawB), undefined, { numeric: true })
+    return compared === 0 ? a - b : compared * sign
+  })
+}
+
+/**
+ * 조건 표시 문자열 (예: "SiO2 45–52", "Rock contains basalt")
+ */
+export function describeQueryCondition(condition: QueryCondition): string {
+  const label = QUERY_OPERATOR_LABELS[condition.operator]
+  switch (condition.operator) {
+    case 'between':
+      return `${condition.column} ${condition.value || '−∞'}–${condition.value2 || '∞'}`
+    case 'missing':
+    case 'not_missing':
+      return `${condition.column} ${label}`
+    default:
+      return `${condition.column} ${label} ${condition.value}`
+  }
+}
+
+/**
+ * 그룹 표시 문자열 (예: "(SiO2 45–52 AND (Rock = basalt OR Rock = andesite))")
+ */
+export function describeQueryGroup(group: QueryGroup): string {
+  const parts = [
+    ...group.conditions.filter(isQueryConditionComplete).map(describeQueryCondition),
+    ...group.groups.map(describeQueryGroup).filter(text => text)
+  ]
+  if (parts.length === 0) return ''
+  const joined = parts.join(group.combinator === 'and' ? ' AND ' : ' OR ')
+  return parts.length > 1 ? `(${joined})` : joined
+}
+
+/**
+ * 분석에 적용 중인 부분집합
+ */
+export function getActiveSubset(data: GeochemData): RowSubset | undefined {
+  if (!data.activeSubsetId) return undefined
+  return data.subsets?.find(subset => subset.id === data.activeSubsetId)
+}
@@ -0,0 +1,125 @@
+import { GeochemData } from '@/types/geochem'
+import { findSpeciesColumn } from './units'
+
+// 정규화 기준 조성 (모두 ppm, K/P/Ti는 원소 기준으로 환산)
+export type ReferenceCompositionId = 'chondrite' | 'primitiveMantle' | 'nmorb' | 'paas' | 'ucc'
+
+export interface ReferenceComposition {
+  id: ReferenceCompositionId
+  name: string
+  source: string
+  values: Record<string, number>
+}
+
+export const REFERENCE_COMPOSITIONS: Record<ReferenceCompositionId, ReferenceComposition> = {
+  chondrite: {
+    id: 'chondrite',
+    name: 'CI 콘드라이트',
+    source: 'Sun & McDonough (1989)',
+    values: {
+      Cs: 0.188, Rb: 2.32, Ba: 2.41, Th: 0.029, U: 0.008, Nb: 0.246, Ta: 0.014, K: 545,
+      La: 0.237, Ce: 0.612, Pb: 2.47, Pr: 0.095, Sr: 7.26, P: 1220, Nd: 0.467, Zr: 3.87,
+      Hf: 0.1066, Sm: 0.153, Eu: 0.058, Ti: 445, Gd: 0.2055, Tb: 0.0374, Dy: 0.254,
+      Y: 1.57, Ho: 0.0566, Er: 0.1655, Tm: 0.0255, Yb: 0.17, Lu: 0.0254
+    }
+  },
+  primitiveMantle: {
+    id: 'primitiveMantle',
+    name: '원시 맨틀 (PM)',
+    source: 'Sun & McDonough (1989)',
+    values: {
+      Cs: 0.032, Rb: 0.635, Ba: 6.989, Th: 0.085, U: 0.021, Nb: 0.713, Ta: 0.041, K: 250,
+      La: 0.687, Ce: 1.775, Pb: 0.185, Pr: 0.276, Sr: 21.1, P: 95, Nd: 1.354, Zr: 11.2,
+      Hf: 0.309, Sm: 0.444, Eu: 0.168, Ti: 1300, Gd: 0.596, Tb: 0.108, Dy: 0.737,
+      Y: 4.55, Ho: 0.164, Er: 0.48, Tm: 0.074, Yb: 0.493, Lu: 0.074
+    }
+  },
+  nmorb: {
+    id: 'nmorb',
+    name: 'N-MORB',
+    source: 'Sun & McDonough (1989)',
+    values: {
+      Cs: 0.007, Rb: 0.56, Ba: 6.3, Th: 0.12, U: 0.047, Nb: 2.33, Ta: 0.132, K: 600,
+      La: 2.5, Ce: 7.5, Pb: 0.3, Pr: 1.32, Sr: 90, P: 510, Nd: 7.3, Zr: 74,
+      Hf: 2.05, Sm: 2.63, Eu: 1.02, Ti: 7600, Gd: 3.68, Tb: 0.67, Dy: 4.55,
+      Y: 28, Ho: 1.01, Er: 2.97, Tm: 0.456, Yb: 3.05, Lu: 0.455
+    }
+  },
+  paas: {
+    id: 'paas',
+    name: 'PAAS',
+    source: 'Taylor & McLennan (1985)',
+    values: {
+      Cs: 15, Rb: 160, Ba: 650, Th: 14.6, U: 3.1, Nb: 19, K: 30714,
+      La: 38.2, Ce: 79.6, Pb: 20, Pr: 8.83, Sr: 200, Nd: 33.9, Zr: 210,
+      Hf: 5.0, Sm: 5.55, Eu: 1.08, Ti: 5995, Gd: 4.66, Tb: 0.774, Dy: 4.68,
+      Y: 27, Ho: 0.991, Er: 2.85, Tm: 0.405, Yb: 2.82, Lu: 0.433
+    }
+  },
+  ucc: {
+    id: 'ucc',
+    name: '상부 대륙지각 (UCC)',
+    source: 'Rudnick & Gao (2003)',
+    values: {
+      Cs: 4.9, Rb: 84, Ba: 624, Th: 10.5, U: 2.7, Nb: 12, Ta: 0.9, K: 23244,
+      La: 31, Ce: 63, Pb: 17, Pr: 7.1, Sr: 320, P: 655, Nd: 27, Zr: 193,
+      Hf: 5.3, Sm: 4.7, Eu: 1.0, Ti: 3837, Gd: 4.0, Tb: 0.7, Dy: 3.9,
+      Y: 21, Ho: 0.83, Er: 2.3, Tm: 0.30, Yb: 1.96, Lu: 0.31
+    }
+  }
+}
+
+// 원소 배열 순서
+export type SpiderPatternId = 'ree' | 'extended'
+
+export const SPIDER_PATTERNS: Record<SpiderPatternId, { name: string; elements: string[] }> = {
+  ree: {
+    name: '희토류 (REE)',
+    elements: ['La', 'Ce', 'Pr', 'Nd', 'Sm', 'Eu', 'Gd', 'Tb', 'Dy', 'Ho', 'Er', 'Tm', 'Yb', 'Lu']
+  },
+  extended: {
+    name: '확장 미량원소',
+    elements: [
+      'Cs', 'Rb', 'Ba', 'Th', 'U', 'Nb', 'Ta', 'K', 'La', 'Ce', 'Pb', 'Pr', 'Sr', 'P',
+      'Nd', 'Zr', 'Hf', 'Sm', 'Eu', 'Ti', 'Dy', 'Y', 'Yb', 'Lu'
+    ]
+  }
+}
+
+export interface ElementColumn {
+  column: string
+  factor: number  // 컬럼 값 × factor = 원소 ppm
+}
+
+/**
+ * 원소별로 사용할 컬럼 찾기
+ * 원소 컬럼(La, La_ppm)을 우선 사용하고, 없으면 같은 원소의 산화물 컬럼(K2O, TiO2, P2O5)을 환산
+ */
+export function findElementColumns(data: GeochemData, elements: string[]): Record<string, ElementColumn> {
+  const found: Record<string, ElementColumn> = {}
+
+  elements.forEach(element => {
+    const match = findSpeciesColumn(data, element, 'ppm')
+    if (match) found[element] = match
+  })
+
+  return found
+}
+
+/**
+ * 행의 원소 농도를 기준 조성으로 정규화 (값이 없거나 0 이하이면 null)
+ */
+export function normalizeRow(
+  row: Record<string, any>,
+  elements: string[],
+  columns: Record<string, ElementColumn>,
+  reference: ReferenceComposition
+): (number | null)[] {
+  return elements.map(element => {
+    const mapping = columns[element]
+    const refValue = reference.values[element]
+    if (!mapping || !refValue) return null
+    const value = parseFloat(row[mapping.column]) * mapping.factor
+    return isFinite(value) && value > 0 ? value / refValue : null
+  })
+}
@@ -0,0 +1,326 @@
+import { standardDeviation } from 'simple-statistics'
+import { ErrorBarSettings, ErrorRegressionMethod, ErrorRegressionResult } from '@/types/geochem'
+
+export const ERROR_REGRESSION_LABELS: Record<ErrorRegressionMethod, string> = {
+  york: 'York (X·Y 오차, 상관 오차)',
+  deming: 'Deming (오차 분산비 고정)',
+  rma: 'RMA (축소 주축)'
+}
+
+/**
+ * 오차 막대 설정으로 포인트별 오차 계산 (절대값)
+ * rows와 values는 같은 순서 (column 모드는 행에서 직접 읽음)
+ */
+export function calculateErrorValues(
+  rows: Record<string, any>[],
+  values: number[],
+  mode: ErrorBarSettings['mode'],
+  column: string,
+  value: number
+): number[] {
+  switch (mode) {
+    case 'column':
+      // 컬럼에서 직접 읽기
+      return rows.map(row => {
+        const errorValue = row[column] ? parseFloat(row[column]) : 0
+        return isNaN(errorValue) ? 0 : Math.abs(errorValue)
+      })
+    case 'percentage':
+      // 값의 n%
+      return values.map(v => Math.abs(v * value / 100))
+    case 'fixed':
+      // 고정값
+      return values.map(() => Math.abs(value))
+    case 'stddev':
+      // 표준편차
+      try {
+        const stddev = standardDeviation(values)
+        return values.map(() => stddev)
+      } catch {
+        return values.map(() => 0)
+      }
+    case 'stderr':
+      // 표준오차 (표준편차 / √n)
+      try {
+        const stderr = standardDeviation(values) / Math.sqrt(values.length)
+        return values.map(() => stderr)
+      } catch {
+        return values.map(() => 0)
+      }
+    default:
+      return values.map(() => 0)
+  }
+}
+
+// ln Γ(x) (Lanczos 근사)
+function logGamma(x: number): number {
+  const c = [76.18009172947146, -86.50532032941677, 24.01409824083091,
+    -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5]
+  let y = x
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5)
+  let ser = 1.000000000190015
+  for (const coef of c) ser += coef / ++y
+  return -tmp + Math.log(2.5066282746310005 * ser / x)
+}
+
+// 정규화된 하부 불완전 감마 함수 P(a, x)
+function regularizedGammaP(a: number, x: number): number {
+  if (x <= 0) return 0
+  const gln = logGamma(a)
+
+  if (x < a + 1) {
+    // 급수 전개
+    let sum = 1 / a
+    let term = sum
+    for (let n = 1; n < 500; n++) {
+      term *= x / (a + n)
+      sum += term
+      if (Math.abs(term) < Math.abs(sum) * 1e-14) break
+    }
+    return sum * Math.exp(-x + a * Math.log(x) - gln)
+  }
+
+  // 연분수 전개 (Lentz)
+  let b = x + 1 - a
+  let c = 1 / 1e-300
+  let d = 1 / b
+  let h = d
+  for (let i = 1; i < 500; i++) {
+    const an = -i * (i - a)
+    b += 2
+    d = an * d + b
+    if (Math.abs(d) < 1e-300) d = 1e-300
+    c = b + an / c
+    if (Math.abs(c) < 1e-300) c = 1e-300
+    d = 1 / d
+    const delta = d * c
+    h *= delta
+    if (Math.abs(delta - 1) < 1e-14) break
+  }
+  return 1 - Math.exp(-x + a * Math.log(x) - gln) * h
+}
+
+/**
+ * χ² 상위 확률 P(χ² ≥ value | dof)
+ */
+export function chiSquaredProbability(value: number, dof: number): number {
+  if (dof <= 0) return NaN
+  return 1 - regularizedGammaP(dof / 2, value / 2)
+}
+
+// 양축 오차를 고려한 가중 잔차 (MSWD, 적합 확률)
+function fitQuality(
+  x: number[], y: number[], sx: number[], sy: number[], slope: number, intercept: number
+): { mswd: number; probability: number } {
+  const s = x.reduce((sum, xi, i) => {
+    const variance = sy[i] * sy[i] + slope * slope * sx[i] * sx[i]
+    return sum + Math.pow(y[i] - slope * xi - intercept, 2) / variance
+  }, 0)
+  const dof = x.length - 2
+  return { mswd: s / dof, probability: chiSquaredProbability(s, dof) }
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length
+}
+
+/**
+ * York 회귀 (York et al., 2004)
+ * sx, sy: 1σ 절대 오차, rho: X-Y 오차 상관계수
+ */
+export function yorkRegression(
+  x: number[], y: number[], sx: number[], sy: number[], rho: number[] | number = 0
+): ErrorRegressionResult {
+  const n = x.length
+  if (n < 3) throw new Error('회귀에는 최소 3개의 데이터가 필요합니다.')
+  if (sx.some(s => !(s > 0)) || sy.some(s => !(s > 0))) {
+    throw new Error('York 회귀에는 모든 데이터에 0보다 큰 X, Y 오차가 필요합니다.')
+  }
+
+  const r = typeof rho === 'number' ? x.map(() => rho) : rho
+  const wX = sx.map(s => 1 / (s * s))
+  const wY = sy.map(s => 1 / (s * s))
+  const alpha = wX.map((w, i) => Math.sqrt(w * wY[i]))
+
+  // 초기값: 최소제곱 기울기
+  const xMean = mean(x)
+  const yMean = mean(y)
+  let slope = x.reduce((sum, xi, i) => sum + (xi - xMean) * (y[i] - yMean), 0) /
+    x.reduce((sum, xi) => sum + (xi - xMean) ** 2, 0)
+
+  let W: number[] = []
+  let beta: number[] = []
+  let Xbar = 0
+  let Ybar = 0
+
+  for (let iteration = 0; iteration < 100; iteration++) {
+    W = wX.map((w, i) => (w * wY[i]) / (w + slope * slope * wY[i] - 2 * slope * r[i] * alpha[i]))
+    const sumW = W.reduce((sum, w) => sum + w, 0)
+    Xbar = W.reduce((sum, w, i) => sum + w * x[i], 0) / sumW
+    Ybar = W.reduce((sum, w, i) => sum + w * y[i], 0) / sumW
+    const U = x.map(xi => xi - Xbar)
+    const V = y.map(yi => yi - Ybar)
+    beta = W.map((w, i) => w * (U[i] / wY[i] + (slope * V[i]) / wX[i] - ((slope * U[i] + V[i]) * r[i]) / alpha[i]))
+
+    const newSlope = W.reduce((sum, w, i) => sum + w * beta[i] * V[i], 0) /
+      W.reduce((sum, w, i) => sum + w * beta[i] * U[i], 0)
+    const converged = Math.abs(newSlope - slope) <= 1e-12 * Math.max(1, Math.abs(slope))
+    slope = newSlope
+    if (converged) break
+  }
+
+  if (!isFinite(slope)) throw new Error('York 회귀가 수렴하지 않았습니다.')
+
+  const intercept = Ybar - slope * Xbar
+  const sumW = W.reduce((sum, w) => sum + w, 0)
+  const adjustedX = beta.map(b => Xbar + b)
+  const xbar = W.reduce((sum, w, i) => sum + w * adjustedX[i], 0) / sumW
+  const slopeVariance = 1 / W.reduce((sum, w, i) => sum + w * (adjustedX[i] - xbar) ** 2, 0)
+  const interceptVariance = 1 / sumW + xbar * xbar * slopeVariance
+
+  const S = W.reduce((sum, w, i) => sum + w * (y[i] - slope * x[i] - intercept) ** 2, 0)
+  const dof = n - 2
+
+  return {
+    method: 'york',
+    slope,
+    intercept,
+    slopeError: Math.sqrt(slopeVariance),
+    interceptError: Math.sqrt(interceptVariance),
+    covariance: -xbar * slopeVariance,
+    n,
+    mswd: S / dof,
+    probability: chiSquaredProbability(S, dof)
+  }
+}
+
+// Deming 기울기 (δ = σy²/σx²)
+function demingSlope(x: number[], y: number[], delta: number): number {
+  const xMean = mean(x)
+  const yMean = mean(y)
+  const sxx = x.reduce((sum, xi) => sum + (xi - xMean) ** 2, 0)
+  const syy = y.reduce((sum, yi) => sum + (yi - yMean) ** 2, 0)
+  const sxy = x.reduce((sum, xi, i) => sum + (xi - xMean) * (y[i] - yMean), 0)
+  return (syy - delta * sxx + Math.sqrt((syy - delta * sxx) ** 2 + 4 * delta * sxy * sxy)) / (2 * sxy)
+}
+
+/**
+ * Deming 회귀
+ * 오차 분산비는 오차가 있으면 평균 오차 분산비, 없으면 1 (직교 회귀)
+ * 기울기/절편 오차는 잭나이프 추정
+ */
+export function demingRegression(
+  x: number[], y: number[], sx?: number[], sy?: number[]
+): ErrorRegressionResult {
+  const n = x.length
+  if (n < 3) throw new Error('회귀에는 최소 3개의 데이터가 필요합니다.')
+
+  const hasErrors = !!sx && !!sy && sx.some(s => s > 0) && sy.some(s => s > 0)
+  const delta = hasErrors
+    ? mean(sy!.map(s => s * s)) / mean(sx!.map(s => s * s))
+    : 1
+
+  const slope = demingSlope(x, y, delta)
+  const intercept = mean(y) - slope * mean(x)
+  if (!isFinite(slope)) throw new Error('Deming 회귀를 계산할 수 없습니다 (X와 Y의 공분산이 0).')
+
+  // 잭나이프 (한 개씩 제외한 추정값의 분산)
+  const jackknife = x.map((_, k) => {
+    const xk = x.filter((__, i) => i !== k)
+    const yk = y.filter((__, i) => i !== k)
+    const b = demingSlope(xk, yk, delta)
+    return { slope: b, intercept: mean(yk) - b * mean(xk) }
+  })
+  const jackSlopeMean = mean(jackknife.map(j => j.slope))
+  const jackInterceptMean = mean(jackknife.map(j => j.intercept))
+  const factor = (n - 1) / n
+  const slopeVariance = factor * jackknife.reduce((sum, j) => sum + (j.slope - jackSlopeMean) ** 2, 0)
+  const interceptVariance = factor * jackknife.reduce((sum, j) => sum + (j.intercept - jackInterceptMean) ** 2, 0)
+  const covariance = factor * jackknife.reduce(
+    (sum, j) => sum + (j.slope - jackSlopeMean) * (j.intercept - jackInterceptMean), 0
+  )
+
+  const quality = hasErrors && sx!.every(s => s > 0) && sy!.every(s => s > 0)
+    ? fitQuality(x, y, sx!, sy!, slope, intercept)
+    : null
+
+  return {
+    method: 'deming',
+    slope,
+    intercept,
+    slopeError: Math.sqrt(slopeVariance),
+    interceptError: Math.sqrt(interceptVariance),
+    covariance,
+    n,
+    errorRatio: delta,
+    ...(quality && { mswd: quality.mswd, probability: quality.probability })
+  }
+}
+
+/**
+ * 축소 주축(RMA) 회귀: 기울기 = sign(r)·sy/sx
+ */
+export function rmaRegression(
+  x: number[], y: number[], sx?: number[], sy?: number[]
+): ErrorRegressionResult {
+  const n = x.length
+  if (n < 3) throw new Error('회귀에는 최소 3개의 데이터가 필요합니다.')
+
+  const xMean = mean(x)
+  const yMean = mean(y)
+  const sxx = x.reduce((sum, xi) => sum + (xi - xMean) ** 2, 0)
+  const syy = y.reduce((sum, yi) => sum + (yi - yMean) ** 2, 0)
+  const sxy = x.reduce((sum, xi, i) => sum + (xi - xMean) * (y[i] - yMean), 0)
+  if (sxx === 0 || syy === 0) throw new Error('X 또는 Y 값이 모두 같아 RMA 회귀를 계산할 수 없습니다.')
+
+  const r = sxy / Math.sqrt(sxx * syy)
+  const slope = Math.sign(sxy || 1) * Math.sqrt(syy / sxx)
+  const intercept = yMean - slope * xMean
+
+  const slopeVariance = (slope * slope * (1 - r * r)) / n
+  const residualVariance = y.reduce((sum, yi, i) => sum + (yi - slope * x[i] - intercept) ** 2, 0) / (n - 2)
+  const interceptVariance = residualVariance / n + xMean * xMean * slopeVariance
+
+  const quality = sx && sy && sx.every(s => s > 0) && sy.every(s => s > 0)
+    ? fitQuality(x, y, sx, sy, slope, intercept)
+    : null
+
+  return {
+    method: 'rma',
+    slope,
+    intercept,
+    slopeError: Math.sqrt(slopeVariance),
+    interceptError: Math.sqrt(interceptVariance),
+    covariance: -xMean * slopeVariance,
+    n,
+    ...(quality && { mswd: quality.mswd, probability: quality.probability })
+  }
+}
+
+/**
+ * 선택한 방법으로 회귀 (오차는 1σ 절대값)
+ */
+export function fitErrorRegression(
+  method: ErrorRegressionMethod,
+  x: number[], y: number[], sx?: number[], sy?: number[], rho: number = 0
+): ErrorRegressionResult {
+  switch (method) {
+    case 'york':
+      if (!sx || !sy) throw new Error('York 회귀에는 X, Y 오차가 필요합니다. 그래프의 오차 막대 설정에서 지정해주세요.')
+      return yorkRegression(x, y, sx, sy, rho)
+    case 'deming':
+      return demingRegression(x, y, sx, sy)
+    case 'rma':
+      return rmaRegression(x, y, sx, sy)
+  }
+}
+
+/**
+ * 회귀선의 신뢰 구간 반폭 (x 위치에서 ±z·σ)
+ * MSWD > 1이면 과분산을 반영해 √MSWD 배 확대
+ */
+export function regressionBandHalfWidth(fit: ErrorRegressionResult, x: number, z: number = 1.96): number {
+  const variance = fit.interceptError ** 2 + x * x * fit.slopeError ** 2 + 2 * x * fit.covariance
+  const overdispersion = fit.mswd !== undefined && fit.mswd > 1 ? Math.sqrt(fit.mswd) : 1
+  return z * overdispersion * Math.sqrt(Math.max(variance, 0))
+}
@@ -0,0 +1,166 @@
+import * as XLSX from 'xlsx'
+import { ScanOptions, ScanResult, StatisticalResult } from '@/types/geochem'
+import type { InsightCandidate } from './smart-insight'
+
+// 스캔 / Smart Insight 결과 내보내기 (XLSX 여러 시트, CSV)
+
+type ExportCell = string | number | boolean
+export type ExportRow = Record<string, ExportCell>
+
+export interface ExportSheet {
+  name: string
+  rows: ExportRow[]
+}
+
+// 값이 없으면 빈 칸
+const cell = (value: number | string | boolean | undefined | null): ExportCell =>
+  value === undefined || value === null || (typeof value === 'number' && isNaN(value)) ? '' : value
+
+// 상관계수·p-값·회귀 공통 열
+function statisticsColumns(stats: StatisticalResult): ExportRow {
+  return {
+    'Pearson r': cell(stats.pearsonCorr),
+    'Pearson p': cell(stats.pearsonP),
+    'Pearson p (adjusted)': cell(stats.pearsonPAdjusted),
+    'Spearman rho': cell(stats.spearmanCorr),
+    'Spearman p': cell(stats.spearmanP),
+    'Spearman p (adjusted)': cell(stats.spearmanPAdjusted),
+    'Kendall tau': cell(stats.kendallCorr),
+    'Kendall p': cell(stats.kendallP),
+    'Kendall p (adjusted)': cell(stats.kendallPAdjusted),
+    'R²': cell(stats.rSquared),
+    'Slope': cell(stats.linearSlope),
+    'Intercept': cell(stats.linearIntercept),
+    'Censored points': cell(stats.censoredCount)
+  }
+}
+
+/**
+ * 스캔 결과 표 (조합당 한 행)
+ */
+export function scanResultsToRows(results: ScanResult[]): ExportRow[] {
+  return results.map(result => ({
+    'X': result.xLabel,
+    'Y': result.yLabel,
+    'X column': result.xColumn,
+    'X denominator': cell(result.xDenominator),
+    'Y column': result.yColumn,
+    'Y denominator': cell(result.yDenominator),
+    'n': result.dataCount,
+    ...statisticsColumns(result.statistics),
+    'Significant': result.isSignificant,
+    'Significant types': (result.significantTypes || []).join('; '),
+    'Within-group r': cell(result.withinGroupCorr),
+    "Simpson's paradox": cell(result.simpsonParadox),
+    'Shared ratio terms': (result.sharedRatioTerms || []).join('; '),
+    'Expected spurious r': cell(result.spuriousCorrelation),
+    'AI recommended': !!result.aiRecommended,
+    'AI confidence': cell(result.aiConfidence),
+    'AI reason': cell(result.aiReason)
+  }))
+}
+
+/**
+ * 타입별 스캔 결과 표 (조합 × 타입당 한 행, 타입별 스캔이 아니면 빈 배열)
+ */
+export function scanTypeStatisticsToRows(results: ScanResult[]): ExportRow[] {
+  return results.flatMap(result => (result.typeStatistics || []).map(group => ({
+    'X': result.xLabel,
+    'Y': result.yLabel,
+    'Type': group.type,
+    'n': group.count,
+    ...statisticsColumns(group),
+    'Significant': !!result.significantTypes?.includes(group.type)
+  })))
+}
+
+/**
+ * Smart Insight 후보 표 (관계당 한 행)
+ */
+export function insightCandidatesToRows(candidates: InsightCandidate[]): ExportRow[] {
+  return candidates.map((candidate, index) => ({
+    'Rank': index + 1,
+    'X': candidate.xLabel,
+    'Y': candidate.yLabel,
+    'n': candidate.dataCount,
+    ...statisticsColumns({
+      ...candidate.statistics,
+      pearsonCorr: candidate.pearsonCorr,
+      pearsonP: candidate.pearsonP,
+      pearsonPAdjusted: candidate.pearsonPAdjusted,
+      spearmanCorr: candidate.spearmanCorr,
+      spearmanP: candidate.spearmanP,
+      spearmanPAdjusted: candidate.spearmanPAdjusted,
+      rSquared: candidate.rSquared
+    }),
+    'Priority': candidate.priority,
+    'Tags': candidate.tags.join('; ')
+  }))
+}
+
+/**
+ * 재현용 설정 표 (항목, 값)
+ * 배열은 "; "로, 객체는 "상위.하위" 항목으로 풀어서 기록
+ */
+export function settingsToRows(settings: Record<string, unknown>): ExportRow[] {
+  const rows: ExportRow[] = []
+  const add = (key: string, value: unknown) => {
+    if (value === undefined || value === null) return
+    if (Array.isArray(value)) {
+      rows.push({ Setting: key, Value: value.join('; ') })
+    } else if (typeof value === 'object') {
+      Object.entries(value as Record<string, unknown>).forEach(([childKey, child]) => add(`${key}.${childKey}`, child))
+    } else {
+      rows.push({ Setting: key, Value: value as ExportCell })
+    }
+  }
+  Object.entries(settings).forEach(([key, value]) => add(key, value))
+  return rows
+}
+
+/**
+ * 스캔 설정 + 데이터셋 이름
+ */
+export function scanSettingsToRows(fileName: string, scanOptions: ScanOptions, extra: Record<string, unknown> = {}): ExportRow[] {
+  return settingsToRows({
+    dataset: fileName,
+    exportedAt: new Date().toISOString(),
+    ...extra,
+    ...scanOptions
+  })
+}
+
+/**
+ * 여러 시트를 XLSX로 저장 (빈 시트는 제외)
+ */
+export function exportWorkbook(sheets: ExportSheet[], fileName: string): void {
+  const workbook = XLSX.utils.book_new()
+  sheets
+    .filter(sheet => sheet.rows.length > 0)
+    .forEach(sheet => {
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(sheet.rows), sheet.name.slice(0, 31))
+    })
+  XLSX.writeFile(workbook, fileName)
+}
+
+/**
+ * 표 하나를 CSV로 저장 (Excel에서 한글이 깨지지 않도록 BOM 추가)
+ */
+export function exportCSV(rows: ExportRow[], fileName: string): void {
+  const csv = XLSX.utils.sheet_to_csv(XLSX.utils.json_to_sheet(rows))
+  const blob = new Blob(['\uFEFF' + csv], { type: 'text/csv;charset=utf-8' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.download = fileName
+  link.href = url
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * 내보내기 파일 이름 (데이터 파일 이름에서 확장자 제거)
+ */
+export function exportFileName(dataFileName: string, suffix: string, extension: 'xlsx' | 'csv'): string {
+  const base = dataFileName.replace(/\.[^.]+$/, '') || 'data'
+  return `${base}-${suffix}-${new Date().toISOString().slice(0, 10)}.${extension}`
+}
@@ -0,0 +1,373 @@
+import { AxisConfig, GeochemData, RatioScanOptions, RatioSharedTermPolicy, ScanOptions, ScanResult, TypeStatisticsResult } from '@/types/geochem'
+import { calculateStatistics, applyPValueCorrection, isSignificantResult } from './statistics'
+import { getColumnWithLimits, substituteCensored } from './censored'
+import { getRatioUnitFactor } from './units'
+
+// 스캔 조합 (AI 추천 정보, 비율 조합 포함)
+export interface ScanCombination {
+  xColumn: string
+  yColumn: string
+  aiRecommended?: boolean
+  aiReason?: string
+  aiConfidence?: number
+  isRatio?: boolean
+  ratioName?: string
+  xDenominator?: string  // 비율 스캔: xColumn/xDenominator
+  yDenominator?: string  // 비율 스캔: yColumn/yDenominator
+}
+
+export const DEFAULT_RATIO_SCAN_OPTIONS: RatioScanOptions = {
+  numerators: [],
+  denominators: [],
+  sharedTerms: 'denominator',
+  maxRatios: 60,
+  maxCombinations: 2000
+}
+
+export const RATIO_SHARED_TERM_LABELS: Record<RatioSharedTermPolicy, string> = {
+  none: '공통 항 없는 비율 쌍만 (A/B vs C/D)',
+  denominator: '공통 분모 허용 (A/C vs B/C)',
+  any: '모든 공통 항 허용 (A/B vs B/C 포함)'
+}
+
+/**
+ * 비율 스캔 조합 생성
+ * - 같은 컬럼끼리의 비율(A/A)과 역수 비율(B/A, A/B가 있으면)은 만들지 않음
+ * - 공통 항 허용 범위(sharedTerms)를 벗어나는 비율 쌍은 제외
+ * - 비율 수와 조합 수가 상한을 넘으면 앞쪽부터 상한까지만 사용
+ */
+export function createRatioCombinations(
+  columns: string[],
+  options: RatioScanOptions
+): { combinations: ScanCombination[]; ratioCount: number; totalRatios: number; totalCombinations: number } {
+  const numerators = options.numerators.length > 0 ? options.numerators.filter(c => columns.includes(c)) : columns
+  const denominators = options.denominators.length > 0 ? options.denominators.filter(c => columns.includes(c)) : columns
+
+  const allRatios: { numerator: string; denominator: string }[] = []
+  const seen = new Set<string>()
+  denominators.forEach(denominator => {
+    numerators.forEach(numerator => {
+      if (numerator === denominator || seen.has(`${denominator}/${numerator}`)) return
+      seen.add(`${numerator}/${denominator}`)
+      allRatios.push({ numerator, denominator })
+    })
+  })
+  const ratios = allRatios.slice(0, Math.max(0, options.maxRatios))
+
+  const combinations: ScanCombination[] = []
+  let totalCombinations = 0
+  for (let i = 0; i < ratios.length; i++) {
+    for (let j = i + 1; j < ratios.length; j++) {
+      const x = ratios[i]
+      const y = ratios[j]
+      const shared = getSharedRatioTerms(x.numerator, x.denominator, y.numerator, y.denominator)
+      if (shared.length > 0) {
+        if (options.sharedTerms === 'none') continue
+        if (options.sharedTerms === 'denominator' && !(x.denominator === y.denominator && x.numerator !== y.numerator)) continue
+      }
+
+      totalCombinations++
+      if (combinations.length < options.maxCombinations) {
+        combinations.push({
+          xColumn: x.numerator,
+          xDenominator: x.denominator,
+          yColumn: y.numerator,
+          yDenominator: y.denominator
+        })
+      }
+    }
+  }
+
+  return { combinations, ratioCount: ratios.length, totalRatios: allRatios.length, totalCombinations }
+}
+
+function getSharedRatioTerms(a: string, b: string, c: string, d: string): string[] {
+  return [a, b].filter(term => term === c || term === d)
+}
+
+/**
+ * 공통 항 때문에 생기는 허위 상관 기대값 (Pearson 1897)
+ * 각 성분이 서로 독립이라고 보고 변동계수(CV)로 근사
+ * r ≈ (공통 분자 CV² + 공통 분모 CV² − 교차 항 CV²) / √((CVa² + CVb²)(CVc² + CVd²))
+ */
+export function expectedSpuriousCorrelation(
+  x: { numerator: string; denominator: string },
+  y: { numerator: string; denominator: string },
+  cv: (column: string) => number
+): number {
+  const v2 = (column: string) => cv(column) ** 2
+  let covariance = 0
+  if (x.numerator === y.numerator) covariance += v2(x.numerator)
+  if (x.denominator === y.denominator) covariance += v2(x.denominator)
+  if (x.numerator === y.denominator) covariance -= v2(x.numerator)
+  if (x.denominator === y.numerator) covariance -= v2(x.denominator)
+
+  const denominator = Math.sqrt((v2(x.numerator) + v2(x.denominator)) * (v2(y.numerator) + v2(y.denominator)))
+  return denominator > 0 ? covariance / denominator : 0
+}
+
+/**
+ * 스캔 결과를 그래프 축 설정으로 변환 (비율 스캔 결과는 비율 축)
+ */
+export function getScanResultAxes(result: ScanResult): { x: AxisConfig; y: AxisConfig } {
+  const toAxis = (column: string, denominator?: string): AxisConfig => denominator
+    ? { type: 'ratio', numerator: column, denominator, label: `${column}/${denominator}` }
+    : { type: 'single', numerator: column, label: column }
+  return {
+    x: toAxis(result.xColumn, result.xDenominator),
+    y: toAxis(result.yColumn, result.yDenominator)
+  }
+}
+
+/**
+ * 조합 분석기 생성 (컬럼 값/검출한계 캐시를 조합 간에 공유)
+ * 유의성은 전체 조합을 모은 뒤 finalizeScanResults에서 판단
+ */
+export function createScanAnalyzer(
+  data: GeochemData,
+  scanOptions: ScanOptions
+): (combination: ScanCombination) => ScanResult | null {
+  // 컬럼별 값과 검출한계 (검출한계 미만 값은 컬럼 전체 기준으로 대체)
+  const censoredPolicy = scanOptions.censoredPolicy || 'half'
+  const columnCache = new Map<string, { values: number[]; limits: (number | null)[]; resolved: number[] }>()
+  const getColumn = (column: string) => {
+    let cached = columnCache.get(column)
+    if (!cached) {
+      const { values, limits } = getColumnWithLimits(data, column)
+      cached = { values, limits, resolved: substituteCensored(values, limits, censoredPolicy) }
+      columnCache.set(column, cached)
+    }
+    return cached
+  }
+
+  const analyze = (combination: ScanCombination): ScanResult | null => {
+    const { xColumn, yColumn, aiRecommended, aiReason, aiConfidence, isRatio, ratioName, xDenominator, yDenominator } = combination
+    if (xDenominator && yDenominator) {
+      return analyzeRatioPair(combination, xDenominator, yDenominator)
+    }
+
+    const xColumnData = getColumn(xColumn)
+    const yColumnData = getColumn(yColumn)
+    const ratioUnitFactor = isRatio ? getRatioUnitFactor(data, xColumn, yColumn) : 1
+
+    // 데이터 추출 (비율 계산 포함)
+    const validData = data.data
+      .map((row, rowIndex) => {
+        let x = xColumnData.resolved[rowIndex]
+        let y = yColumnData.resolved[rowIndex]
+
+        // 비율인 경우 계산
+        if (isRatio && ratioName) {
+          // x/y 비율 계산 (단위가 다르면 질량비로 보정)
+          if (y !== 0) {
+            const ratioValue = (x / y) * ratioUnitFactor
+            x = ratioValue
+            y = 1 // 비율이므로 y축은 고정값
+          } else {
+            return null // 0으로 나누기 방지
+          }
+        }
+
+        return { x, y, type: getType(row) }
+      })
+      .filter((point): point is { x: number; y: number; type: string } =>
+        point !== null && !isNaN(point.x) && !isNaN(point.y) && isFinite(point.x) && isFinite(point.y))
+
+    if (validData.length < 3) return null
+
+    const xData = validData.map(d => d.x)
+    const yData = validData.map(d => d.y)
+
+    // 통계 계산 (비율이 아닌 경우 검출한계 정보를 함께 전달)
+    const hasCensored = !!(data.censored?.[xColumn] || data.censored?.[yColumn])
+    const statistics = hasCensored && !isRatio
+      ? calculateStatistics(xColumnData.values, yColumnData.values, scanOptions.statMethods, {
+          policy: censoredPolicy,
+          xLimits: xColumnData.limits,
+          yLimits: yColumnData.limits
+        })
+      : calculateStatistics(xData, yData, scanOptions.statMethods)
+
+    return {
+      id: `${xColumn}_${yColumn}${isRatio ? '_ratio' : ''}`,
+      xColumn,
+      yColumn,
+      xLabel: isRatio && ratioName ? ratioName : xColumn,
+      yLabel: isRatio ? 'Values' : yColumn,
+      statistics,
+      isSignificant: false,
+      chartData: validData,
+      dataCount: validData.length,
+      aiRecommended,
+      aiReason,
+      aiConfidence
+    }
+  }
+
+  // 타입별 스캔: 그룹마다 통계를 따로 계산하고 전체 상관과 부호 비교
+  const perGroup = !!(scanOptions.perGroup && scanOptions.includeTypeColumn && scanOptions.selectedTypeColumn)
+  if (perGroup) {
+    return (combination) => {
+      const result = analyze(combination)
+      return result && { ...result, ...calculateGroupStatistics(result, scanOptions.statMethods) }
+    }
+  }
+  return analyze
+
+  function getType(row: Record<string, any>): string {
+    return scanOptions.includeTypeColumn && scanOptions.selectedTypeColumn
+      ? String(row[scanOptions.selectedTypeColumn])
+      : 'default'
+  }
+
+  // 비율 쌍 분석 (xColumn/xDenominator vs yColumn/yDenominator, 단위가 다르면 질량비로 보정)
+  function analyzeRatioPair(combination: ScanCombination, xDenominator: string, yDenominator: string): ScanResult | null {
+    const { xColumn, yColumn } = combination
+    const terms = [xColumn, xDenominator, yColumn, yDenominator].map(getColumn)
+    const xFactor = getRatioUnitFactor(data, xColumn, xDenominator)
+    const yFactor = getRatioUnitFactor(data, yColumn, yDenominator)
+
+    const validRows: number[] = []
+    const validData: { x: number; y: number; type: string }[] = []
+    data.data.forEach((row, rowIndex) => {
+      const [xNum, xDen, yNum, yDen] = terms.map(term => term.resolved[rowIndex])
+      if (xDen === 0 || yDen === 0) return
+      const x = (xNum / xDen) * xFactor
+      const y = (yNum / yDen) * yFactor
+      if (!isFinite(x) || !isFinite(y)) return
+      validRows.push(rowIndex)
+      validData.push({ x, y, type: getType(row) })
+    })
+
+    if (validData.length < 3) return null
+
+    const statistics = calculateStatistics(validData.map(d => d.x), validData.map(d => d.y), scanOptions.statMethods)
+    const sharedRatioTerms = getSharedRatioTerms(xColumn, xDenominator, yColumn, yDenominator)
+
+    // 공통 항이 있으면 같은 행들에서 구한 변동계수로 허위 상관 기대값 계산
+    const coefficientOfVariation = (column: string) => {
+      const values = validRows.map(rowIndex => getColumn(column).resolved[rowIndex])
+      const mean = values.reduce((sum, v) => sum + v, 0) / values.length
+      const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1)
+      return mean !== 0 ? Math.sqrt(variance) / Math.abs(mean) : 0
+    }
+
+    return {
+      id: `${xColumn}/${xDenominator}_${yColumn}/${yDenominator}`,
+      xColumn,
+      yColumn,
+      xLabel: `${xColumn}/${xDenominator}`,
+      yLabel: `${yColumn}/${yDenominator}`,
+      statistics,
+      isSignificant: false,
+      chartData: validData,
+      dataCount: validData.length,
+      xDenominator,
+      yDenominator,
+      ...(sharedRatioTerms.length > 0 && {
+        sharedRatioTerms,
+        spuriousCorrelation: expectedSpuriousCorrelation(
+          { numerator: xColumn, denominator: xDenominator },
+          { numerator: yColumn, denominator: yDenominator },
+          coefficientOfVariation
+        )
+      })
+    }
+  }
+}
+
+// 부호 비교에 쓰는 최소 상관계수 (0 근처의 부호 차이는 무시)
+const MIN_SIGN_CORRELATION = 0.1
+
+/**
+ * 타입별 통계와 그룹 내 상관 (Fisher z를 n − 3으로 가중 평균)
+ * 전체 상관과 그룹 내 상관의 부호가 반대면 심슨의 역설로 표시
+ */
+function calculateGroupStatistics(
+  result: ScanResult,
+  statMethods: ScanOptions['statMethods']
+): Pick<ScanResult, 'typeStatistics' | 'withinGroupCorr' | 'simpsonParadox'> {
+  const groups = new Map<string, { x: number[]; y: number[] }>()
+  result.chartData.forEach(point => {
+    if (!groups.has(point.type)) groups.set(point.type, { x: [], y: [] })
+    groups.get(point.type)!.x.push(point.x)
+    groups.get(point.type)!.y.push(point.y)
+  })
+
+  const typeStatistics: TypeStatisticsResult[] = Array.from(groups.entries()).map(([type, { x, y }]) =>
+    x.length >= 3
+      ? { type, count: x.length, ...calculateStatistics(x, y, statMethods) }
+      : { type, count: x.length })
+
+  const method = statMethods.includes('pearson') ? 'pearson' : statMethods[0] || 'pearson'
+  let zSum = 0
+  let weightSum = 0
+  typeStatistics.forEach(group => {
+    const r = group[`${method}Corr`]
+    if (r === undefined || isNaN(r) || group.count < 4) return
+    const clamped = Math.max(-0.999999, Math.min(0.999999, r))
+    zSum += (group.count - 3) * Math.atanh(clamped)
+    weightSum += group.count - 3
+  })
+  if (weightSum === 0) return { typeStatistics }
+
+  const withinGroupCorr = Math.tanh(zSum / weightSum)
+  const pooledCorr = result.statistics[`${method}Corr`]
+  const simpsonParadox = groups.size >= 2 &&
+    pooledCorr !== undefined &&
+    Math.abs(pooledCorr) >= MIN_SIGN_CORRELATION &&
+    Math.abs(withinGroupCorr) >= MIN_SIGN_CORRELATION &&
+    Math.sign(pooledCorr) !== Math.sign(withinGroupCorr)
+
+  return { typeStatistics, withinGroupCorr, simpsonParadox }
+}
+
+/**
+ * 다중 비교 보정 후 유의성 판단, 정렬 (유의미한 것들을 상관계수 순으로)
+ * results는 조합 순서대로 넘겨야 실행 방식과 관계없이 같은 결과
+ */
+export function finalizeScanResults(results: ScanResult[], scanOptions: ScanOptions): ScanResult[] {
+  const correctedStatistics = applyPValueCorrection(
+    results.map(r => r.statistics),
+    scanOptions.statMethods,
+    scanOptions.pCorrection || 'none'
+  )
+
+  // 타입별 통계는 전체 조합과 별도로 그룹 검정 전체를 한 묶음으로 보정
+  const correctedGroups = applyPValueCorrection(
+    results.flatMap(r => r.typeStatistics || []),
+    scanOptions.statMethods,
+    scanOptions.pCorrection || 'none'
+  )
+  let groupOffset = 0
+
+  const finalized = results.map((result, index) => {
+    const statistics = correctedStatistics[index]
+    const isSignificant = isSignificantResult(statistics, scanOptions.statMethods, scanOptions.threshold, scanOptions.pThreshold)
+    if (!result.typeStatistics) {
+      return { ...result, statistics, isSignificant }
+    }
+
+    // 전체로는 유의하지 않아도 한 타입 안에서 유의하면 유의미한 조합으로 표시
+    const typeStatistics = correctedGroups.slice(groupOffset, groupOffset += result.typeStatistics.length)
+    const significantTypes = typeStatistics
+      .filter(group => isSignificantResult(group, scanOptions.statMethods, scanOptions.threshold, scanOptions.pThreshold))
+      .map(group => group.type)
+    return {
+      ...result,
+      statistics,
+      typeStatistics,
+      significantTypes,
+      isSignificant: isSignificant || significantTypes.length > 0
+    }
+  })
+
+  return finalized.sort((a, b) => {
+    if (a.isSignificant && !b.isSignificant) return -1
+    if (!a.isSignificant && b.isSignificant) return 1
+
+    const aPearson = Math.abs(a.statistics.pearsonCorr || 0)
+    const bPearson = Math.abs(b.statistics.pearsonCorr || 0)
+    return bPearson - aPearson
+  })
+}
@@ -0,0 +1,200 @@
+import * as XLSX from 'xlsx'
+import { ColumnImportInfo } from '@/types/geochem'
+
+// 단위 표기 (ppm, wt% 등)
+const UNIT_TOKEN_PATTERN = /^(ppm|ppb|ppt|wt\.?\s?%|%|mg\/kg|[µμu]g\/g|ng\/g|mg\/l|[µμu]g\/l|mol\/kg|mmol\/l|meq\/l|‰|permil|cps|ratio)$/i
+
+// 메타데이터 행 라벨
+const UNIT_LABEL_PATTERN = /^(unit|units|단위)\b/i
+const LIMIT_LABEL_PATTERN = /^(d\.?l\.?|lod|lld|mdl|detection\s*limits?|검출\s*한계)\b/i
+
+// 헤더 탐색 범위 (상단 행 수)
+const HEADER_SCAN_ROWS = 20
+
+export interface SheetTable {
+  headers: string[]
+  records: Record<string, any>[]
+  columns: Record<string, ColumnImportInfo>  // 컬럼별 단위/검출한계/기타 메타데이터
+  metadataRows: number[]  // 데이터에서 제외된 메타데이터 행 (0부터 시작)
+}
+
+/**
+ * 시트를 2차원 배열로 읽기 (빈 셀은 null)
+ */
+export function readSheetRows(workbook: XLSX.WorkBook, sheetName: string): any[][] {
+  const worksheet = workbook.Sheets[sheetName]
+  if (!worksheet) return []
+  return XLSX.utils.sheet_to_json<any[]>(worksheet, { header: 1, defval: null, blankrows: false })
+}
+
+/**
+ * 데이터가 가장 많은 시트 선택 (요약 시트가 앞에 있는 경우 대비)
+ */
+export function pickDataSheet(workbook: XLSX.WorkBook): string {
+  let bestSheet = workbook.SheetNames[0]
+  let bestSize = -1
+
+  workbook.SheetNames.forEach(name => {
+    const ref = workbook.Sheets[name]?.['!ref']
+    if (!ref) return
+    const range = XLSX.utils.decode_range(ref)
+    const size = (range.e.r - range.s.r + 1) * (range.e.c - range.s.c + 1)
+    if (size > bestSize) {
+      bestSize = size
+      bestSheet = name
+    }
+  })
+
+  return bestSheet
+}
+
+/**
+ * 헤더 행 자동 감지
+ * 문자 셀이 넓게 채워져 있고 아래 행들이 주로 숫자인 행을 헤더로 판단
+ */
+export function detectHeaderRow(rows: any[][]): number {
+  const scanCount = Math.min(HEADER_SCAN_ROWS, rows.length)
+  const maxWidth = Math.max(1, ...rows.slice(0, scanCount + 5).map(row => nonEmptyCells(row).length))
+
+  let bestRow = 0
+  let bestScore = -Infinity
+
+  for (let i = 0; i < scanCount; i++) {
+    const cells = nonEmptyCells(rows[i])
+    if (cells.length < 2 || isUnitRow(rows[i]) || isLimitRow(rows[i])) continue
+
+    const textRatio = cells.filter(cell => !isNumericCell(cell)).length / cells.length
+    if (textRatio < 0.5) continue
+
+    // 단위/검출한계 행을 건너뛰고 아래 5개 행의 숫자 비율
+    const below = rows
+      .slice(i + 1, i + 9)
+      .filter(row => !isUnitRow(row) && !isLimitRow(row))
+      .slice(0, 5)
+    if (below.length === 0) continue
+
+    const numericBelow = below.reduce((sum, row) => {
+      const belowCells = nonEmptyCells(row)
+      return sum + (belowCells.length > 0
+        ? belowCells.filter(isNumericCell).length / belowCells.length
+        : 0)
+    }, 0) / below.length
+
+    const score = textRatio * (cells.length / maxWidth) + numericBelow
+    if (score > bestScore) {
+      bestScore = score
+      bestRow = i
+    }
+  }
+
+  return bestRow
+}
+
+/**
+ * 헤더 행을 기준으로 레코드와 컬럼 메타데이터 생성
+ * 헤더 위의 행과 헤더 바로 아래의 단위/검출한계 행은 메타데이터로 분리
+ */
+export function buildSheetTable(rows: any[][], headerRow: number): SheetTable {
+  const headerCells = rows[headerRow] || []
+  // 행이 많으면 스프레드 인자가 호출 스택을 넘으므로 reduce 사용
+  const width = rows.slice(headerRow + 1).reduce((max, row) => Math.max(max, row.length), headerCells.length)
+
+  // 헤더 이름 정리 (빈 이름/중복 처리)
+  const usedNames = new Map<string, number>()
+  const headers = Array.from({ length: width }, (_, c) => {
+    const raw = headerCells[c]
+    const base = raw === null || raw === undefined || String(raw).trim() === ''
+      ? `Column_${c + 1}`
+      : String(raw).trim()
+    const count = usedNames.get(base) || 0
+    usedNames.set(base, count + 1)
+    return count === 0 ? base : `${base}_${count + 1}`
+  })
+
+  // 메타데이터 행: 헤더 위 전체 + 헤더 바로 아래 단위/검출한계 행
+  const metadataRows = Array.from({ length: headerRow }, (_, r) => r)
+  let dataStart = headerRow + 1
+  while (dataStart < rows.length && (isUnitRow(rows[dataStart]) || isLimitRow(rows[dataStart]))) {
+    metadataRows.push(dataStart)
+    dataStart++
+  }
+
+  const columns: Record<string, ColumnImportInfo> = {}
+  const getInfo = (header: string) => (columns[header] = columns[header] || {})
+
+  metadataRows.forEach(r => {
+    const row = rows[r] || []
+    const labelIndex = row.findIndex(cell => !isEmptyCell(cell))
+    if (labelIndex < 0) return
+
+    const labelCell = row[labelIndex]
+    const hasLabel = !isNumericCell(labelCell) && !UNIT_TOKEN_PATTERN.test(String(labelCell).trim())
+    const label = hasLabel ? String(labelCell).trim() : `${r + 1}행`
+    const unitRow = isUnitRow(row)
+    const limitRow = isLimitRow(row)
+
+    row.forEach((cell, c) => {
+      if (isEmptyCell(cell) || (hasLabel && c === labelIndex) || c >= headers.length) return
+      const text = String(cell).trim()
+
+      if (unitRow) {
+        getInfo(headers[c]).unit = text
+      } else if (limitRow) {
+        const limit = parseFloat(text.replace(/^<\s*/, '').replace(',', '.'))
+        if (isFinite(limit) && limit > 0) {
+          getInfo(headers[c]).detectionLimit = limit
+        }
+      } else {
+        const info = getInfo(headers[c])
+        info.extra = { ...info.extra, [label]: text }
+      }
+    })
+  })
+
+  const records = rows
+    .slice(dataStart)
+    .filter(row => nonEmptyCells(row).length > 0)
+    .map(row => {
+      const record: Record<string, any> = {}
+      headers.forEach((header, c) => {
+        const cell = row[c]
+        record[header] = isEmptyCell(cell) ? null : cell
+      })
+      return record
+    })
+
+  return { headers, records, columns, metadataRows }
+}
+
+/**
+ * 단위 행 여부 (라벨이 "Unit"이거나 셀 대부분이 단위 표기)
+ */
+export function isUnitRow(row: any[] | undefined): boolean {
+  const cells = nonEmptyCells(row)
+  if (cells.length === 0) return false
+  if (UNIT_LABEL_PATTERN.test(String(cells[0]).trim())) return true
+  const unitCells = cells.filter(cell => UNIT_TOKEN_PATTERN.test(String(cell).trim())).length
+  return cells.length >= 2 && unitCells / cells.length >= 0.6
+}
+
+/**
+ * 검출한계 행 여부 (라벨이 "DL", "LOD", "Detection limit" 등)
+ */
+export function isLimitRow(row: any[] | undefined): boolean {
+  const cells = nonEmptyCells(row)
+  return cells.length > 0 && LIMIT_LABEL_PATTERN.test(String(cells[0]).trim())
+}
+
+function isEmptyCell(cell: any): boolean {
+  return cell === null || cell === undefined || String(cell).trim() === ''
+}
+
+function nonEmptyCells(row: any[] | undefined): any[] {
+  return (row || []).filter(cell => !isEmptyCell(cell))
+}
+
+function isNumericCell(cell: any): boolean {
+  if (typeof cell === 'number') return isFinite(cell)
+  const text = String(cell).trim().replace(/^<\s*/, '')
+  return text !== '' && isFinite(Number(text))
+}
@@ -1,7 +1,10 @@
 'use client'
 
 import * as ss from 'simple-statistics'
-import { GeochemData, StatisticalResult } from '@/types/geochem'
+import { CensoredPolicy, GeochemData, MultipleTestingCorrection, StatisticalResult } from '@/types/geochem'
+import { getAnalysisColumns } from './compositional'
+import { adjustPValues, calculateTTestPValue } from './statistics'
+import { resolveCensoredData } from './censored'
 
 // 컬럼 분류 결과 타입
 export interface ColumnClassification {
@@ -24,23 +27,6 @@ function getRanks(data: number[]): number[] {
   return ranks
 }
 
-// p-값 간단 계산 (t-분포 근사)
-function calculatePValue(t: number, df: number): number {
-  if (!isFinite(t) || isNaN(t)) return 1
-
-  const absT = Math.abs(t)
-  // 간단한 근사: 큰 t값은 작은 p값
-  const x = df / (df + absT * absT)
-
-  // 간단한 베타 함수 근사
-  if (absT > 10) return 0.0001
-  if (absT > 5) return 0.001
-  if (absT > 3) return 0.01
-  if (absT > 2) return 0.05
-  if (absT > 1.5) return 0.1
-  return 0.5
-}
-
 // Smart Insight 결과 타입들
 export interface InsightCandidate {
   id: string
@@ -52,6 +38,8 @@ export interface InsightCandidate {
   spearmanCorr: number
   pearsonP: number
   spearmanP: number
+  pearsonPAdjusted: number  // 다중 비교 보정 p-값 (보정 안 함이면 원래 값)
+  spearmanPAdjusted: number
   rSquared: number
   dataCount: number
   tags: InsightTag[]
@@ -328,16 +316,128 @@ function calculatePriority(
   return Math.max(0, priority)
 }
 
+// 변수 쌍 하나의 상관 분석 결과 (워커에서도 같은 함수 사용)
+export type InsightPairResult =
+  | { status: 'lowData' }
+  | { status: 'error' }
+  | {
+      status: 'ok'
+      pearsonCorr: number
+      spearmanCorr: number
+      pearsonP: number
+      spearmanP: number
+      rSquared: number
+      chartData: Array<{ x: number; y: number; type: string }>
+    }
+
+/**
+ * 분석할 변수 쌍 목록 (AI 그룹핑으로 의미없는 쌍 제외)
+ */
+export function listInsightPairs(
+  data: GeochemData,
+  columnClassification?: ColumnClassification
+): { pairs: [string, string][]; totalPairs: number; skippedSameGroup: number } {
+  // 로그비 변환이 적용되면 원본 성분 대신 변환 변수 사용
+  const numericColumns = getAnalysisColumns(data)
+  const pairs: [string, string][] = []
+  let totalPairs = 0
+
+  for (let i = 0; i < numericColumns.length; i++) {
+    for (let j = i + 1; j < numericColumns.length; j++) {
+      totalPairs++
+      if (isMeaningfulPair(numericColumns[i], numericColumns[j], columnClassification)) {
+        pairs.push([numericColumns[i], numericColumns[j]])
+      }
+    }
+  }
+
+  return { pairs, totalPairs, skippedSameGroup: totalPairs - pairs.length }
+}
+
+/**
+ * 변수 쌍 상관 분석 (Pearson, Spearman, R², t-분포 p-값)
+ */
+export function analyzeInsightPair(
+  data: GeochemData,
+  xCol: string,
+  yCol: string,
+  includeTypeColumn: boolean = false,
+  selectedTypeColumn?: string
+): InsightPairResult {
+  // 데이터 추출
+  const pairs: { x: number; y: number; type: string }[] = []
+
+  for (const row of data.data) {
+    const xVal = row[xCol]
+    const yVal = row[yCol]
+
+    // 숫자 파싱 개선
+    const x = typeof xVal === 'number' ? xVal : parseFloat(String(xVal))
+    const y = typeof yVal === 'number' ? yVal : parseFloat(String(yVal))
+
+    if (!isNaN(x) && !isNaN(y) && isFinite(x) && isFinite(y)) {
+      const type = includeTypeColumn && selectedTypeColumn
+        ? (row[selectedTypeColumn] || 'default')
+        : 'default'
+      pairs.push({ x, y, type })
+    }
+  }
+
+  // 최소 3개 데이터 필요 (기존 10개에서 완화)
+  if (pairs.length < 3) return { status: 'lowData' }
+
+  const xData = pairs.map(p => p.x)
+  const yData = pairs.map(p => p.y)
+
+  // 통계 계산 - simple-statistics 직접 사용
+  let pearsonCorr = 0
+  let spearmanCorr = 0
+  let rSquared = 0
+
+  try {
+    pearsonCorr = ss.sampleCorrelation(xData, yData)
+
+    // 스피어만: 순위로 변환 후 피어슨
+    const xRanks = getRanks(xData)
+    const yRanks = getRanks(yData)
+    spearmanCorr = ss.sampleCorrelation(xRanks, yRanks)
+
+    // R² 계산
+    const regressionData = pairs.map(p => [p.x, p.y])
+    const regression = ss.linearRegression(regressionData)
+    const regressionLine = ss.linearRegressionLine(regression)
+    rSquared = ss.rSquared(regressionData, regressionLine)
+  } catch (e) {
+    return { status: 'error' }
+  }
+
+  // NaN 체크
+  if (isNaN(pearsonCorr) || isNaN(spearmanCorr)) return { status: 'error' }
+
+  // p-값 계산
+  const n = xData.length
+  const tPearson = pearsonCorr * Math.sqrt((n - 2) / (1 - pearsonCorr * pearsonCorr))
+  const tSpearman = spearmanCorr * Math.sqrt((n - 2) / (1 - spearmanCorr * spearmanCorr))
+  const pearsonP = Math.abs(pearsonCorr) >= 1 ? 0 : calculateTTestPValue(tPearson, n - 2)
+  const spearmanP = Math.abs(spearmanCorr) >= 1 ? 0 : calculateTTestPValue(tSpearman, n - 2)
+
+  return { status: 'ok', pearsonCorr, spearmanCorr, pearsonP, spearmanP, rSquared, chartData: pairs }
+}
+
 // 메인 Smart Insight 분석 함수
 export async function performSmartInsight(
   data: GeochemData,
   options: {
     correlationThreshold?: number
     pValueThreshold?: number
+    pValueCorrection?: MultipleTestingCorrection  // 검정한 전체 쌍 기준 보정
     maxResults?: number
     includeTypeColumn?: boolean
     selectedTypeColumn?: string
     columnClassification?: ColumnClassification  // AI 기반 컬럼 분류 결과
+    censoredPolicy?: CensoredPolicy  // 검출한계 미만 값 처리 (기본 DL/2)
+    // 쌍 분석 실행기 (워커 풀 등), 없으면 현재 스레드에서 순서대로 실행
+    analyzePairs?: (pairs: [string, string][]) => Promise<InsightPairResult[]>
   } = {}
 ): Promise<SmartInsightResult> {
   const startTime = Date.now()
@@ -345,164 +445,133 @@ export async function performSmartInsight(
   const {
     correlationThreshold = 0.5,
     pValueThreshold = 0.05,
+    pValueCorrection = 'none',
     maxResults = 20,
     includeTypeColumn = false,
     selectedTypeColumn,
-    columnClassification
+    columnClassification,
+    censoredPolicy = 'half',
+    analyzePairs
   } = options
 
   const candidates: InsightCandidate[] = []
+  // 검정한 모든 쌍의 p-값 (보정 기준 집합)
+  const testedPearsonP: number[] = []
+  const testedSpearmanP: number[] = []
+  const candidateTestIndex: number[] = []
   const correlationMatrix: Record<string, Record<string, number>> = {}
 
-  const numericColumns = data.numericColumns
-  let totalPairs = 0
+  const { pairs: pairList, totalPairs, skippedSameGroup } = listInsightPairs(data, columnClassification)
   let skippedLowData = 0
   let skippedError = 0
   let skippedLowCorr = 0
   let skippedHighP = 0
   let skippedDuplicate = 0
-  let skippedSameGroup = 0  // AI 그룹핑으로 스킵된 쌍
 
   // 상관관계 매트릭스 초기화
-  for (const col of numericColumns) {
+  for (const col of getAnalysisColumns(data)) {
     correlationMatrix[col] = {}
   }
 
-  // 모든 변수 쌍 분석
-  for (let i = 0; i < numericColumns.length; i++) {
-    for (let j = i + 1; j < numericColumns.length; j++) {
-      totalPairs++
-
-      const xCol = numericColumns[i]
-      const yCol = numericColumns[j]
-
-      // AI 기반 그룹핑으로 의미없는 쌍 필터링
-      if (!isMeaningfulPair(xCol, yCol, columnClassification)) {
-        skippedSameGroup++
-        continue
-      }
-
-      // 데이터 추출
-      const pairs: { x: number; y: number; type: string }[] = []
-
-      for (const row of data.data) {
-        const xVal = row[xCol]
-        const yVal = row[yCol]
-
-        // 숫자 파싱 개선
-        const x = typeof xVal === 'number' ? xVal : parseFloat(String(xVal))
-        const y = typeof yVal === 'number' ? yVal : parseFloat(String(yVal))
-
-        if (!isNaN(x) && !isNaN(y) && isFinite(x) && isFinite(y)) {
-          const type = includeTypeColumn && selectedTypeColumn
-            ? (row[selectedTypeColumn] || 'default')
-            : 'default'
-          pairs.push({ x, y, type })
-        }
-      }
-
-      // 최소 3개 데이터 필요 (기존 10개에서 완화)
-      if (pairs.length < 3) {
-        skippedLowData++
-        continue
-      }
-
-      const xData = pairs.map(p => p.x)
-      const yData = pairs.map(p => p.y)
-
-      // 통계 계산 - simple-statistics 직접 사용
-      let pearsonCorr = 0
-      let spearmanCorr = 0
-      let rSquared = 0
-
-      try {
-        pearsonCorr = ss.sampleCorrelation(xData, yData)
-
-        // 스피어만: 순위로 변환 후 피어슨
-        const xRanks = getRanks(xData)
-        const yRanks = getRanks(yData)
-        spearmanCorr = ss.sampleCorrelation(xRanks, yRanks)
-
-        // R² 계산
-        const regressionData = pairs.map(p => [p.x, p.y])
-        const regression = ss.linearRegression(regressionData)
-        const regressionLine = ss.linearRegressionLine(regression)
-        rSquared = ss.rSquared(regressionData, regressionLine)
-      } catch (e) {
-        skippedError++
-        continue
-      }
+  // 검출한계 미만 값 대체 (analyzePairs를 넘기면 실행기에서 같은 정책으로 대체)
+  let pairResults: InsightPairResult[]
+  if (analyzePairs) {
+    pairResults = await analyzePairs(pairList)
+  } else {
+    const resolved = resolveCensoredData(data, censoredPolicy)
+    pairResults = pairList.map(([xCol, yCol]) => analyzeInsightPair(resolved, xCol, yCol, includeTypeColumn, selectedTypeColumn))
+  }
 
-      // NaN 체크
-      if (isNaN(pearsonCorr) || isNaN(spearmanCorr)) {
-        skippedError++
-        continue
-      }
+  // 모든 변수 쌍 결과 (목록 순서대로)
+  for (let k = 0; k < pairList.length; k++) {
+    const [xCol, yCol] = pairList[k]
+    const pairResult = pairResults[k]
 
-      // p-값 근사 계산
-      const n = xData.length
-      const tPearson = pearsonCorr * Math.sqrt((n - 2) / (1 - pearsonCorr * pearsonCorr))
-      const tSpearman = spearmanCorr * Math.sqrt((n - 2) / (1 - spearmanCorr * spearmanCorr))
-      const pearsonP = calculatePValue(tPearson, n - 2)
-      const spearmanP = calculatePValue(tSpearman, n - 2)
-
-      // 상관관계 매트릭스 업데이트
-      correlationMatrix[xCol][yCol] = pearsonCorr
-      correlationMatrix[yCol][xCol] = pearsonCorr
-
-      // 필터링 조건
-      const absCorr = Math.abs(pearsonCorr)
-      if (absCorr < correlationThreshold) {
-        skippedLowCorr++
-        continue
-      }
-      if (pearsonP > pValueThreshold && spearmanP > pValueThreshold) {
-        skippedHighP++
-        continue
-      }
+    if (pairResult.status === 'lowData') {
+      skippedLowData++
+      continue
+    }
+    if (pairResult.status === 'error') {
+      skippedError++
+      continue
+    }
 
-      // 중복 체크
-      const isDuplicate = isDuplicatePair(pearsonCorr, xCol, yCol)
-      if (isDuplicate) {
-        skippedDuplicate++
-        continue
-      }
+    const { pearsonCorr, spearmanCorr, pearsonP, spearmanP, rSquared, chartData: pairs } = pairResult
+    const testIndex = testedPearsonP.length
+    testedPearsonP.push(pearsonP)
+    testedSpearmanP.push(spearmanP)
 
-      // 비선형 관계 탐지
-      const nonLinear = detectNonLinearRelationship(pearsonCorr, spearmanCorr)
+    // 상관관계 매트릭스 업데이트
+    correlationMatrix[xCol][yCol] = pearsonCorr
+    correlationMatrix[yCol][xCol] = pearsonCorr
 
-      // 태그 생성
-      const tags = generateTags(pearsonCorr, spearmanCorr, isDuplicate, nonLinear)
+    // 필터링 조건
+    const absCorr = Math.abs(pearsonCorr)
+    if (absCorr < correlationThreshold) {
+      skippedLowCorr++
+      continue
+    }
 
-      // 우선순위 계산
-      const priority = calculatePriority(pearsonCorr, spearmanCorr, tags, pairs.length)
+    // 중복 체크
+    const isDuplicate = isDuplicatePair(pearsonCorr, xCol, yCol)
+    if (isDuplicate) {
+      skippedDuplicate++
+      continue
+    }
 
-      candidates.push({
-        id: `${xCol}-${yCol}`,
-        xColumn: xCol,
-        yColumn: yCol,
-        xLabel: xCol,
-        yLabel: yCol,
+    // 비선형 관계 탐지
+    const nonLinear = detectNonLinearRelationship(pearsonCorr, spearmanCorr)
+
+    // 태그 생성
+    const tags = generateTags(pearsonCorr, spearmanCorr, isDuplicate, nonLinear)
+
+    // 우선순위 계산
+    const priority = calculatePriority(pearsonCorr, spearmanCorr, tags, pairs.length)
+
+    candidates.push({
+      id: `${xCol}-${yCol}`,
+      xColumn: xCol,
+      yColumn: yCol,
+      xLabel: xCol,
+      yLabel: yCol,
+      pearsonCorr,
+      spearmanCorr,
+      pearsonP,
+      spearmanP,
+      pearsonPAdjusted: pearsonP,
+      spearmanPAdjusted: spearmanP,
+      rSquared,
+      dataCount: pairs.length,
+      tags,
+      priority,
+      statistics: {
         pearsonCorr,
         spearmanCorr,
         pearsonP,
         spearmanP,
-        rSquared,
-        dataCount: pairs.length,
-        tags,
-        priority,
-        statistics: {
-          pearsonCorr,
-          spearmanCorr,
-          pearsonP,
-          spearmanP,
-          rSquared
-        },
-        chartData: pairs
-      })
-    }
+        rSquared
+      },
+      chartData: pairs
+    })
+    candidateTestIndex.push(testIndex)
   }
 
+  // 다중 비교 보정 후 p-값 필터링 (상관계수로 거른 쌍도 검정 수에 포함)
+  const adjustedPearsonP = adjustPValues(testedPearsonP, pValueCorrection)
+  const adjustedSpearmanP = adjustPValues(testedSpearmanP, pValueCorrection)
+  const significantCandidates = candidates.filter((candidate, index) => {
+    const testIndex = candidateTestIndex[index]
+    candidate.pearsonPAdjusted = adjustedPearsonP[testIndex]
+    candidate.spearmanPAdjusted = adjustedSpearmanP[testIndex]
+    candidate.statistics.pearsonPAdjusted = candidate.pearsonPAdjusted
+    candidate.statistics.spearmanPAdjusted = candidate.spearmanPAdjusted
+    if (candidate.pearsonPAdjusted > pValueThreshold && candidate.spearmanPAdjusted > pValueThreshold) {
+      skippedHighP++
+      return false
+    }
+    return true
+  })
+
   console.log('Smart Insight 분석 결과:', {
     totalPairs,
     skippedSameGroup,  // AI 그룹핑으로 스킵
@@ -511,14 +580,14 @@ export async function performSmartInsight(
     skippedLowCorr,
     skippedHighP,
     skippedDuplicate,
-    candidates: candidates.length
+    candidates: significantCandidates.length
   })
 
   // PCA 추천 분석
   const pcaRecommendations = analyzePCARecommendations(correlationMatrix)
 
   // 우선순위로 정렬 후 상위 결과만 반환
-  const sortedCandidates = candidates
+  const sortedCandidates = significantCandidates
     .sort((a, b) => b.priority - a.priority)
     .slice(0, maxResults)
 
@@ -528,7 +597,7 @@ export async function performSmartInsight(
     candidates: sortedCandidates,
     pcaRecommendations,
     totalPairsAnalyzed: totalPairs,
-    filteredCount: candidates.length,
+    filteredCount: significantCandidates.length,
     executionTime
   }
 }
@@ -1,18 +1,35 @@
 import * as ss from 'simple-statistics'
-import { StatisticalResult, PCAResult, PCASuggestion } from '@/types/geochem'
+import { StatisticalResult, PCAResult, PCASuggestion, CensoredPolicy, CensoredCellMap, MultipleTestingCorrection } from '@/types/geochem'
+import { substituteCensored } from './censored'
 
 // ML-Matrix import (타입 선언 없음)
 const { Matrix, EVD } = require('ml-matrix')
 
+// 검출한계 미만 값 처리 옵션 (limits: 각 값의 DL, 검출값이면 null)
+export interface CensoredStatisticsOptions {
+  policy: CensoredPolicy
+  xLimits?: (number | null)[]
+  yLimits?: (number | null)[]
+}
+
 export function calculateStatistics(
   xData: number[],
   yData: number[],
-  statMethods: ('pearson' | 'spearman' | 'kendall')[] = ['pearson', 'spearman']
+  statMethods: ('pearson' | 'spearman' | 'kendall')[] = ['pearson', 'spearman'],
+  censored?: CensoredStatisticsOptions
 ): StatisticalResult {
   try {
+    // 검출한계 미만 값 대체
+    const xValues = censored?.xLimits ? substituteCensored(xData, censored.xLimits, censored.policy) : xData
+    const yValues = censored?.yLimits ? substituteCensored(yData, censored.yLimits, censored.policy) : yData
+
     // 결측값 제거
-    const validPairs = xData
-      .map((x, i) => ({ x, y: yData[i] }))
+    const validPairs = xValues
+      .map((x, i) => ({
+        x,
+        y: yValues[i],
+        censored: censored?.xLimits?.[i] != null || censored?.yLimits?.[i] != null
+      }))
       .filter(pair => !isNaN(pair.x) && !isNaN(pair.y) && isFinite(pair.x) && isFinite(pair.y))
     
     if (validPairs.length < 3) {
@@ -23,6 +40,10 @@ export function calculateStatistics(
     const yClean = validPairs.map(p => p.y)
     
     const results: StatisticalResult = {}
+
+    if (censored) {
+      results.censoredCount = validPairs.filter(p => p.censored).length
+    }
     
     // 피어슨 상관계수
     if (statMethods.includes('pearson')) {
@@ -95,7 +116,7 @@ function getRanks(data: number[]): number[] {
 }
 
 // t-분포 p-값 계산 (regularized incomplete beta function 사용)
-function calculateTTestPValue(t: number, df: number): number {
+export function calculateTTestPValue(t: number, df: number): number {
   const absT = Math.abs(t)
   const x = df / (df + absT * absT)
 
@@ -182,18 +203,104 @@ function calculateTTestPValue(t: number, df: number): number {
   return Math.min(1, Math.max(0, pValue))
 }
 
+export const P_CORRECTION_LABELS: Record<MultipleTestingCorrection, string> = {
+  none: '보정 안 함',
+  bonferroni: 'Bonferroni',
+  holm: 'Holm',
+  bh: 'Benjamini–Hochberg (FDR)'
+}
+
+/**
+ * 다중 비교 보정된 p-값 계산
+ * 유효하지 않은 p-값(NaN)은 검정 수에서 제외하고 그대로 NaN
+ */
+export function adjustPValues(pValues: number[], method: MultipleTestingCorrection): number[] {
+  const valid = pValues
+    .map((p, index) => ({ p, index }))
+    .filter(item => isFinite(item.p))
+  const m = valid.length
+  const adjusted = pValues.map(p => (isFinite(p) ? p : NaN))
+  if (method === 'none' || m === 0) return adjusted
+
+  if (method === 'bonferroni') {
+    valid.forEach(({ p, index }) => { adjusted[index] = Math.min(1, p * m) })
+    return adjusted
+  }
+
+  const sorted = [...valid].sort((a, b) => a.p - b.p)
+
+  if (method === 'holm') {
+    // 오름차순으로 (m - k) 배, 단조 증가 유지
+    let running = 0
+    sorted.forEach(({ p, index }, k) => {
+      running = Math.max(running, Math.min(1, p * (m - k)))
+      adjusted[index] = running
+    })
+    return adjusted
+  }
+
+  // bh: 내림차순으로 m/k 배, 단조 감소 유지
+  let running = 1
+  for (let k = m - 1; k >= 0; k--) {
+    const { p, index } = sorted[k]
+    running = Math.min(running, (p * m) / (k + 1))
+    adjusted[index] = Math.min(1, running)
+  }
+  return adjusted
+}
+
+/**
+ * 스캔 결과 전체에 방법별 다중 비교 보정 적용 (*PAdjusted 채움)
+ */
+export function applyPValueCorrection<T extends StatisticalResult>(
+  results: T[],
+  statMethods: ('pearson' | 'spearman' | 'kendall')[],
+  correction: MultipleTestingCorrection
+): T[] {
+  const corrected = results.map(result => ({ ...result }))
+  for (const method of statMethods) {
+    const pKey = `${method}P` as const
+    const adjustedKey = `${method}PAdjusted` as const
+    const adjusted = adjustPValues(
+      results.map(result => (result[pKey] !== undefined ? result[pKey]! : NaN)),
+      correction
+    )
+    adjusted.forEach((p, index) => {
+      if (isFinite(p)) corrected[index][adjustedKey] = p
+    })
+  }
+  return corrected
+}
+
+/**
+ * 유의성 판단 (보정된 p-값이 있으면 보정값 기준)
+ */
+export function isSignificantResult(
+  stats: StatisticalResult,
+  statMethods: ('pearson' | 'spearman' | 'kendall')[],
+  threshold: number,
+  pThreshold: number
+): boolean {
+  return statMethods.some(method => {
+    const corr = stats[`${method}Corr`]
+    const p = stats[`${method}PAdjusted`] ?? stats[`${method}P`]
+    if (corr === undefined || p === undefined || isNaN(corr) || isNaN(p)) return false
+    return Math.abs(corr) >= threshold && p <= pThreshold
+  })
+}
+
 // 전체 스캔 분석 함수
 export function performFullScanAnalysis(
   data: Record<string, any>[],
   numericColumns: string[],
   threshold: number = 0.5,
   pThreshold: number = 0.05,
-  statMethods: ('pearson' | 'spearman' | 'kendall')[] = ['pearson']
+  statMethods: ('pearson' | 'spearman' | 'kendall')[] = ['pearson'],
+  correction: MultipleTestingCorrection = 'none'
 ) {
   const results: Array<{
     xVariable: string
     yVariable: string
-    meetsQriteria: boolean
   } & StatisticalResult> = []
   
   // 모든 가능한 조합 생성
@@ -208,26 +315,22 @@ export function performFullScanAnalysis(
       const stats = calculateStatistics(xData, yData, statMethods)
       
       if (!stats.error) {
-        const meetsQriteria = statMethods.some(method => {
-          const corrKey = `${method}Corr` as keyof StatisticalResult
-          const pKey = `${method}P` as keyof StatisticalResult
-          const corr = stats[corrKey] as number
-          const p = stats[pKey] as number
-          
-          return Math.abs(corr) >= threshold && p <= pThreshold
-        })
-        
         results.push({
           xVariable: col1,
           yVariable: col2,
-          meetsQriteria,
           ...stats
         })
       }
     }
   }
-  
-  return results.filter(result => result.meetsQriteria)
+
+  // 검정한 전체 조합 기준으로 보정 후 판단
+  return applyPValueCorrection(results, statMethods, correction)
+    .map(result => ({
+      ...result,
+      meetsQriteria: isSignificantResult(result, statMethods, threshold, pThreshold)
+    }))
+    .filter(result => result.meetsQriteria)
 }
 
 // 헬퍼 함수들
@@ -459,9 +562,30 @@ export function suggestPCAVariables(
 export function performPCA(
   data: Record<string, any>[],
   variableNames: string[],
-  nComponents?: number
+  nComponents?: number,
+  censored?: { policy: CensoredPolicy; cells: CensoredCellMap }
 ): PCAResult {
   try {
+    // 검출한계 미만 값을 정책에 따라 대체 ('omit'이면 결측으로 남아 평균 대체/행 제외 규칙을 따름)
+    if (censored) {
+      const censoredVariables = variableNames.filter(name => censored.cells[name])
+      if (censoredVariables.length > 0) {
+        const resolved = censoredVariables.map(name => substituteCensored(
+          data.map(row => parseFloat(row[name])),
+          data.map((_, rowIndex) => censored.cells[name][rowIndex]?.detectionLimit ?? null),
+          censored.policy
+        ))
+        data = data.map((row, rowIndex) => {
+          const updated = { ...row }
+          censoredVariables.forEach((name, k) => {
+            const value = resolved[k][rowIndex]
+            updated[name] = isFinite(value) ? value : null
+          })
+          return updated
+        })
+      }
+    }
+
     // 데이터 준비: 변수별로 숫자 데이터만 추출하고 결측값 제거
     const cleanData: number[][] = []
     const invalidRows: number[] = []
@@ -1,5 +1,7 @@
 import { supabase } from './supabase'
-import { GeochemData, ColumnSelection, GraphSettings } from '@/types/geochem'
+import { extractCensoredValues, restoreCensoredText } from './censored'
+import { detectColumnUnits } from './units'
+import { GeochemData, ColumnSelection, GraphSettings, RowExclusion, RowSubset, DerivedColumn } from '@/types/geochem'
 
 // 데이터셋 저장 결과 타입
 export interface SaveDatasetResult {
@@ -39,6 +41,11 @@ export interface AnalysisSettings {
     selectedColumns: ColumnSelection
     dataFileName?: string
     graphSettings?: Partial<GraphSettings>
+    exclusion?: RowExclusion  // 행 제외 (같은 부분집합으로 재현)
+    subsets?: RowSubset[]  // 저장된 조건 부분집합
+    activeSubsetId?: string
+    derivedColumns?: DerivedColumn[]  // 수식 파생 컬럼 (불러올 때 다시 계산)
+    units?: Record<string, string>  // 컬럼 단위 (단위 행에서 읽은 단위는 데이터셋에 저장되지 않음)
   }
   created_at?: string
   updated_at?: string
@@ -83,11 +90,13 @@ export async function saveDatasetToSupabase(
     const datasetId = dataset.id
 
     // 2. 데이터 행들을 배치로 저장 (500행씩)
+    // 검출한계 미만 셀은 null 대신 원본 표기로 저장 (불러올 때 다시 해석)
     const BATCH_SIZE = 500
-    const totalRows = data.data.length
+    const storedRows = restoreCensoredText(data)
+    const totalRows = storedRows.length
 
     for (let i = 0; i < totalRows; i += BATCH_SIZE) {
-      const batch = data.data.slice(i, i + BATCH_SIZE).map((row, index) => ({
+      const batch = storedRows.slice(i, i + BATCH_SIZE).map((row, index) => ({
         dataset_id: datasetId,
         row_index: i + index,
         data: row
@@ -239,6 +248,31 @@ export async function loadFullDataset(datasetId: string): Promise<Record<string,
   return data?.map(r => r.data) || []
 }
 
+/**
+ * 저장된 데이터셋을 GeochemData로 불러오기
+ * 검출한계 미만 표기("<0.01", "bdl" 등)는 다시 해석하고, 단위는 헤더 표기에서 찾음
+ */
+export async function loadGeochemDataset(meta: DatasetMeta): Promise<GeochemData> {
+  const rows = await loadFullDataset(meta.id)
+  const { data, censored, censoredCount } = extractCensoredValues(rows, meta.numeric_columns)
+
+  return {
+    data,
+    numericColumns: meta.numeric_columns,
+    nonNumericColumns: meta.non_numeric_columns,
+    fileName: meta.file_name,
+    typeColumn: meta.type_column,
+    datasetId: meta.id,
+    units: detectColumnUnits(meta.numeric_columns),
+    censored: censoredCount > 0 ? censored : undefined,
+    metadata: {
+      fileName: meta.file_name,
+      rowCount: meta.row_count,
+      columnCount: meta.columns.length
+    }
+  }
+}
+
 /**
  * 분석 설정 저장
  */
@@ -0,0 +1,44 @@
+// 삼각 다이어그램 좌표 계산
+// 꼭짓점 배치: top = 위, left = 왼쪽 아래, right = 오른쪽 아래 (한 변의 길이 1)
+
+export const TERNARY_HEIGHT = Math.sqrt(3) / 2
+
+/**
+ * 세 성분을 합 100%로 닫기 (음수/결측이 있거나 합이 0이면 null)
+ */
+export function closeTernary(top: number, left: number, right: number): [number, number, number] | null {
+  if (![top, left, right].every(v => isFinite(v) && v >= 0)) return null
+  const sum = top + left + right
+  if (sum <= 0) return null
+  return [(top / sum) * 100, (left / sum) * 100, (right / sum) * 100]
+}
+
+/**
+ * 삼각 좌표(%) → 단위 삼각형 안의 직교 좌표 (y는 위쪽이 양수)
+ */
+export function ternaryToCartesian(top: number, left: number, right: number): { x: number; y: number } {
+  const sum = top + left + right || 1
+  const t = top / sum
+  const r = right / sum
+  return { x: r + t / 2, y: t * TERNARY_HEIGHT }
+}
+
+/**
+ * 격자선 끝점 (성분별로 step% 간격, 0%와 100% 제외)
+ * 각 선은 해당 성분이 일정한 값을 갖는 선분
+ */
+export function ternaryGridLines(step: number = 10): {
+  apex: 'top' | 'left' | 'right'
+  value: number
+  from: [number, number, number]
+  to: [number, number, number]
+}[] {
+  const lines: ReturnType<typeof ternaryGridLines> = []
+  for (let value = step; value < 100; value += step) {
+    const rest = 100 - value
+    lines.push({ apex: 'top', value, from: [value, rest, 0], to: [value, 0, rest] })
+    lines.push({ apex: 'left', value, from: [0, value, rest], to: [rest, value, 0] })
+    lines.push({ apex: 'right', value, from: [rest, 0, value], to: [0, rest, value] })
+  }
+  return lines
+}
@@ -0,0 +1,294 @@
+import { AxisConfig, ColumnImportInfo, GeochemData } from '@/types/geochem'
+
+// 지원 단위 (질량 농도 + 몰 농도)
+export const CONCENTRATION_UNITS = ['wt%', 'ppm', 'ppb', 'ppt', 'mol/kg', 'mmol/kg'] as const
+
+// 질량 단위 → ppm 환산 계수
+const MASS_UNIT_TO_PPM: Record<string, number> = {
+  'wt%': 1e4,
+  'ppm': 1,
+  'ppb': 1e-3,
+  'ppt': 1e-6
+}
+
+// 몰 단위 → mg/kg 환산 계수 (몰질량 곱하기 전)
+const MOLAR_UNIT_TO_PPM: Record<string, number> = {
+  'mol/kg': 1e3,
+  'mmol/kg': 1
+}
+
+// 단위 표기 동의어 → 표준 단위
+const UNIT_ALIASES: Record<string, string> = {
+  'wt%': 'wt%', 'wt.%': 'wt%', 'wt %': 'wt%', 'wt. %': 'wt%', 'wt': 'wt%', '%': 'wt%', 'pct': 'wt%',
+  'ppm': 'ppm', 'mg/kg': 'ppm', 'µg/g': 'ppm', 'μg/g': 'ppm', 'ug/g': 'ppm', 'g/t': 'ppm',
+  'ppb': 'ppb', 'µg/kg': 'ppb', 'μg/kg': 'ppb', 'ug/kg': 'ppb', 'ng/g': 'ppb',
+  'ppt': 'ppt', 'ng/kg': 'ppt', 'pg/g': 'ppt',
+  'mol/kg': 'mol/kg', 'mmol/kg': 'mmol/kg'
+}
+
+// 원자량 (IUPAC 표준, g/mol)
+export const ATOMIC_WEIGHTS: Record<string, number> = {
+  H: 1.008, Li: 6.94, Be: 9.012, B: 10.81, C: 12.011, N: 14.007, O: 15.999, F: 18.998,
+  Na: 22.990, Mg: 24.305, Al: 26.982, Si: 28.085, P: 30.974, S: 32.06, Cl: 35.45,
+  K: 39.098, Ca: 40.078, Sc: 44.956, Ti: 47.867, V: 50.942, Cr: 51.996, Mn: 54.938,
+  Fe: 55.845, Co: 58.933, Ni: 58.693, Cu: 63.546, Zn: 65.38, Ga: 69.723, Ge: 72.630,
+  As: 74.922, Se: 78.971, Br: 79.904, Rb: 85.468, Sr: 87.62, Y: 88.906, Zr: 91.224,
+  Nb: 92.906, Mo: 95.95, Ag: 107.868, Cd: 112.414, In: 114.818, Sn: 118.710, Sb: 121.760,
+  Te: 127.60, I: 126.904, Cs: 132.905, Ba: 137.327, La: 138.905, Ce: 140.116, Pr: 140.908,
+  Nd: 144.242, Sm: 150.36, Eu: 151.964, Gd: 157.25, Tb: 158.925, Dy: 162.500, Ho: 164.930,
+  Er: 167.259, Tm: 168.934, Yb: 173.045, Lu: 174.967, Hf: 178.49, Ta: 180.948, W: 183.84,
+  Re: 186.207, Os: 190.23, Ir: 192.217, Pt: 195.084, Au: 196.967, Hg: 200.592, Tl: 204.38,
+  Pb: 207.2, Bi: 208.980, Th: 232.038, U: 238.029
+}
+
+// 헤더의 단위 표기: "Zr_ppm", "Zr (ppm)", "SiO2 [wt%]", "SiO2 wt.%"
+const HEADER_UNIT_PATTERN = /^(.*?)[\s_]*(?:\(([^()]+)\)|\[([^[\]]+)\]|[\s_]((?:wt\.?\s?%|ppm|ppb|ppt|mg\/kg|[µμu]g\/g|ng\/g|g\/t|mmol\/kg|mol\/kg)))$/i
+
+// 화학종 표기: 원소 또는 산화물 (예: Zr, TiO2, Fe2O3), 전철 표기 T/tot/* 허용
+const SPECIES_PATTERN = /^([A-Z][a-z]?)(\d*)(?:O(\d*))?$/
+const TOTAL_SUFFIX_PATTERN = /[\s_(]*(t|tot|total|\*)\)?$/i
+
+export interface ChemicalSpecies {
+  formula: string  // 예: Fe2O3 (전철 표기 제거)
+  element: string  // 양이온 원소 (예: Fe)
+  cations: number  // 화학식당 양이온 수
+  oxygens: number  // 화학식당 산소 수 (원소이면 0)
+  total: boolean  // 전철 표기 (Fe2O3T, FeO*) 여부
+  molarMass: number
+}
+
+/**
+ * 단위 표기를 표준 단위로 변환 (인식할 수 없으면 null)
+ */
+export function normalizeUnit(text: string | undefined | null): string | null {
+  if (!text) return null
+  const key = text.trim().toLowerCase().replace(/\s+/g, ' ')
+  return UNIT_ALIASES[key] || UNIT_ALIASES[key.replace(/\s/g, '')] || null
+}
+
+/**
+ * 헤더에서 화학종 이름과 단위 분리 ("Zr_ppm" → { name: "Zr", unit: "ppm" })
+ */
+export function parseHeaderUnit(header: string): { name: string; unit: string | null } {
+  const match = header.trim().match(HEADER_UNIT_PATTERN)
+  if (match) {
+    const unit = normalizeUnit(match[2] || match[3] || match[4])
+    if (unit && match[1].trim()) {
+      return { name: match[1].trim(), unit }
+    }
+  }
+  return { name: header.trim(), unit: null }
+}
+
+/**
+ * 컬럼 이름에서 화학종 파싱 (원소/산화물이 아니면 null)
+ */
+export function parseSpecies(columnName: string): ChemicalSpecies | null {
+  const { name } = parseHeaderUnit(columnName)
+  const candidates: { formula: string; total: boolean }[] = [{ formula: name, total: false }]
+  const stripped = name.replace(TOTAL_SUFFIX_PATTERN, '')
+  if (stripped !== name && stripped.includes('O')) {
+    candidates.unshift({ formula: stripped, total: true })
+  }
+
+  for (const { formula, total } of candidates) {
+    const match = formula.match(SPECIES_PATTERN)
+    if (!match || !ATOMIC_WEIGHTS[match[1]] || match[1] === 'O') continue
+
+    const element = match[1]
+    const isOxide = match[3] !== undefined
+    const cations = match[2] ? parseInt(match[2]) : 1
+    const oxygens = isOxide ? (match[3] ? parseInt(match[3]) : 1) : 0
+    // 원소 뒤에 숫자만 있는 경우 (예: "Fe2")는 화학종이 아님
+    if (!isOxide && match[2]) continue
+
+    return {
+      formula,
+      element,
+      cations,
+      oxygens,
+      total,
+      molarMass: cations * ATOMIC_WEIGHTS[element] + oxygens * ATOMIC_WEIGHTS.O
+    }
+  }
+
+  return null
+}
+
+/**
+ * 컬럼 단위 자동 감지 (메타데이터 단위 행 → 헤더 표기 순)
+ */
+export function detectColumnUnits(
+  columns: string[],
+  importInfo: Record<string, ColumnImportInfo> = {}
+): Record<string, string> {
+  const units: Record<string, string> = {}
+  columns.forEach(col => {
+    const unit = normalizeUnit(importInfo[col]?.unit) || parseHeaderUnit(col).unit
+    if (unit) units[col] = unit
+  })
+  return units
+}
+
+/**
+ * 컬럼 단위 조회 (등록된 단위 → 헤더 표기)
+ */
+export function getColumnUnit(data: GeochemData, column: string): string | null {
+  return data.units?.[column] || parseHeaderUnit(column).unit
+}
+
+/**
+ * 화학종 컬럼 찾기 (같은 원소의 원소/산화물 컬럼을 환산해서 사용)
+ * 예: FeOT ← Fe2O3T (× 0.8998), Ti ← TiO2 (wt% → ppm)
+ * - 대상과 화학식이 같은 컬럼을 우선 사용
+ * - 대상이 전철(FeOT 등)이면 전철 표기 컬럼만 사용
+ * - 단위가 없으면 산화물은 wt%, 원소는 ppm으로 가정
+ */
+export function findSpeciesColumn(
+  data: GeochemData,
+  target: string,
+  targetUnit: string
+): { column: string; factor: number } | null {
+  const targetSpecies = parseSpecies(target)
+  if (!targetSpecies) return null
+
+  const candidates = data.numericColumns
+    .map(column => ({ column, species: parseSpecies(column) }))
+    .filter((c): c is { column: string; species: ChemicalSpecies } =>
+      !!c.species &&
+      c.species.element === targetSpecies.element &&
+      (!targetSpecies.total || c.species.total)
+    )
+    .sort((a, b) => {
+      const rank = (s: ChemicalSpecies) =>
+        (s.formula === targetSpecies.formula ? 0 : 2) + (s.oxygens === targetSpecies.oxygens ? 0 : 1)
+      return rank(a.species) - rank(b.species)
+    })
+
+  for (const { column, species } of candidates) {
+    const unit = getColumnUnit(data, column) || (species.oxygens > 0 ? 'wt%' : 'ppm')
+    const factor = getConversionFactor(unit, targetUnit, species, targetSpecies)
+    if (factor !== null) return { column, factor }
+  }
+
+  return null
+}
+
+/**
+ * 농도 환산 계수: value(from) × factor = value(to)
+ * 단위 변환과 원소↔산화물 변환(같은 양이온 원소 기준)을 함께 처리
+ * 변환할 수 없으면 null
+ */
+export function getConversionFactor(
+  fromUnit: string,
+  toUnit: string,
+  fromSpecies?: ChemicalSpecies | null,
+  toSpecies?: ChemicalSpecies | null
+): number | null {
+  const target = toSpecies || fromSpecies
+
+  // 화학종 변환 (질량 기준): 원소 몰수를 보존
+  let speciesFactor = 1
+  if (fromSpecies && toSpecies && fromSpecies.formula !== toSpecies.formula) {
+    if (fromSpecies.element !== toSpecies.element) return null
+    speciesFactor = (toSpecies.molarMass / toSpecies.cations) / (fromSpecies.molarMass / fromSpecies.cations)
+  } else if (!!fromSpecies !== !!toSpecies && toSpecies) {
+    return null
+  }
+
+  const fromPPM = unitToPPM(fromUnit, fromSpecies)
+  const toPPM = unitToPPM(toUnit, target)
+  if (fromPPM === null || toPPM === null) return null
+
+  return fromPPM * speciesFactor / toPPM
+}
+
+/**
+ * 비율 축의 단위 보정 계수
+ * 분자와 분모의 단위가 다르면 둘 다 ppm(질량)으로 환산한 비율이 되도록 보정
+ */
+export function getRatioUnitFactor(data: GeochemData, numerator: string, denominator: string): number {
+  const numUnit = getColumnUnit(data, numerator)
+  const denUnit = getColumnUnit(data, denominator)
+  if (!numUnit || !denUnit || numUnit === denUnit) return 1
+
+  const numToPPM = unitToPPM(numUnit, parseSpecies(numerator))
+  const denToPPM = unitToPPM(denUnit, parseSpecies(denominator))
+  if (numToPPM === null || denToPPM === null) return 1
+
+  return numToPPM / denToPPM
+}
+
+/**
+ * 축 값 계산 (단일 컬럼, 단위 보정된 비율 또는 합)
+ */
+export function getAxisValueWithUnits(
+  data: GeochemData,
+  row: Record<string, any>,
+  config: AxisConfig,
+  ratioFactor?: number
+): number {
+  if (config.type === 'sum') {
+    return getSumTerms(data, config).reduce((sum, { column, factor }) => sum + parseFloat(row[column]) * factor, 0)
+  }
+
+  const numerator = parseFloat(row[config.numerator])
+  if (config.type === 'single') return numerator
+
+  const denominator = parseFloat(row[config.denominator!])
+  const factor = ratioFactor ?? getRatioUnitFactor(data, config.numerator, config.denominator!)
+  return (numerator / denominator) * factor
+}
+
+/**
+ * 합 축의 컬럼별 단위 보정 계수 (첫 번째 컬럼의 단위로 환산, 환산할 수 없으면 1)
+ */
+export function getSumTerms(data: GeochemData, config: AxisConfig): { column: string; factor: number }[] {
+  const terms = config.terms && config.terms.length > 0 ? config.terms : [config.numerator]
+  const baseUnit = getColumnUnit(data, terms[0])
+
+  return terms.map(column => {
+    const unit = getColumnUnit(data, column)
+    if (!baseUnit || !unit || unit === baseUnit) return { column, factor: 1 }
+    const species = parseSpecies(column)
+    return { column, factor: getConversionFactor(unit, baseUnit, species, species) ?? 1 }
+  })
+}
+
+/**
+ * 단위를 포함한 축 제목
+ * - 단일: "Zr (ppm)" (헤더에 이미 단위가 있으면 그대로)
+ * - 비율: 단위가 같으면 "Zr/Nb", 다르면 질량비로 환산했음을 표시 "Zr/TiO2 (ppm/ppm)"
+ * - 합: "Na2O+K2O (wt%)" (첫 번째 컬럼 단위 기준)
+ */
+export function getAxisTitleWithUnits(data: GeochemData, config: AxisConfig): string {
+  if (config.type === 'sum') {
+    const label = (config.terms || [config.numerator]).join('+')
+    const unit = getColumnUnit(data, (config.terms || [config.numerator])[0])
+    return unit ? `${label} (${unit})` : label
+  }
+
+  if (config.type === 'single') {
+    const unit = getColumnUnit(data, config.numerator)
+    return unit && !parseHeaderUnit(config.numerator).unit
+      ? `${config.numerator} (${unit})`
+      : config.numerator
+  }
+
+  const numUnit = getColumnUnit(data, config.numerator)
+  const denUnit = getColumnUnit(data, config.denominator!)
+  const label = `${config.numerator}/${config.denominator}`
+  if (numUnit && denUnit && numUnit !== denUnit &&
+    getRatioUnitFactor(data, config.numerator, config.denominator!) !== 1) {
+    return `${label} (ppm/ppm)`
+  }
+  return label
+}
+
+function unitToPPM(unit: string, species?: ChemicalSpecies | null): number | null {
+  if (MASS_UNIT_TO_PPM[unit] !== undefined) return MASS_UNIT_TO_PPM[unit]
+  if (MOLAR_UNIT_TO_PPM[unit] !== undefined && species) {
+    return MOLAR_UNIT_TO_PPM[unit] * species.molarMass
+  }
+  return null
+}
@@ -0,0 +1,179 @@
+import { PairItem, PairItemResult, PairTask, PairWorkerResponse, createPairAnalyzer } from './pair-tasks'
+
+// 변수 쌍 분석을 워커 풀에서 실행 (진행률, 취소/재개, 결과 스트리밍)
+
+export interface PairRunProgress {
+  done: number
+  total: number
+  elapsedMs: number  // 이번 실행에서 지난 시간
+  etaMs: number | null  // 남은 시간 추정 (처리 속도 기준)
+}
+
+export interface PairRunOptions<R> {
+  completed?: Map<number, R>  // 취소 전까지 받은 결과 (재개할 때 전달)
+  onProgress?: (progress: PairRunProgress) => void
+  onResults?: (batch: { index: number; result: R }[]) => void
+}
+
+export interface PairRun<R> {
+  promise: Promise<{ results: Map<number, R>; cancelled: boolean }>
+  cancel: () => void
+}
+
+// 워커 수 (코어 하나는 화면용으로 남김)
+function poolSize(): number {
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2
+  return Math.max(1, Math.min(4, cores - 1))
+}
+
+function createWorker(): Worker | null {
+  if (typeof Worker === 'undefined') return null
+  try {
+    return new Worker(new URL('../workers/pair-analysis.worker.ts', import.meta.url))
+  } catch (error) {
+    console.warn('Worker creation failed, running on main thread:', error)
+    return null
+  }
+}
+
+/**
+ * 항목별 분석을 워커 풀에 나눠 실행
+ * 결과는 항목 인덱스로 돌려주므로 호출 쪽에서 원래 순서대로 모을 수 있음
+ * 워커를 쓸 수 없으면 메인 스레드에서 묶음마다 양보하며 실행
+ */
+export function runPairTasks<R extends PairItemResult>(
+  task: PairTask,
+  items: PairItem[],
+  options: PairRunOptions<R> = {}
+): PairRun<R> {
+  const { onProgress, onResults } = options
+  const results = new Map<number, R>(options.completed || [])
+  const total = items.length
+  const startDone = results.size
+  const startTime = Date.now()
+  const pending = items.map((_, index) => index).filter(index => !results.has(index))
+
+  const workerCount = Math.min(poolSize(), Math.max(1, pending.length))
+  const chunkSize = Math.max(5, Math.min(200, Math.ceil(pending.length / (workerCount * 10))))
+  const queue: number[][] = []
+  for (let i = 0; i < pending.length; i += chunkSize) {
+    queue.push(pending.slice(i, i + chunkSize))
+  }
+
+  const workers: Worker[] = []
+  let cancelled = false
+  let finished = false
+  let resolveRun: (value: { results: Map<number, R>; cancelled: boolean }) => void = () => {}
+
+  const reportProgress = () => {
+    const done = results.size
+    const elapsedMs = Date.now() - startTime
+    const rate = (done - startDone) / elapsedMs
+    onProgress?.({
+      done,
+      total,
+      elapsedMs,
+      etaMs: rate > 0 ? (total - done) / rate : null
+    })
+  }
+
+  const storeBatch = (indices: number[], batchResults: PairItemResult[]) => {
+    const batch = indices.map((index, k) => ({ index, result: batchResults[k] as R }))
+    batch.forEach(({ index, result }) => results.set(index, result))
+    onResults?.(batch)
+    reportProgress()
+  }
+
+  const finish = () => {
+    if (finished) return
+    finished = true
+    workers.forEach(worker => worker.terminate())
+    resolveRun({ results, cancelled })
+  }
+
+  // 메인 스레드 실행 (워커 미지원 또는 워커 오류 시)
+  const runInThread = async () => {
+    const analyze = createPairAnalyzer(task)
+    while (queue.length > 0 && !cancelled) {
+      const indices = queue.shift()!
+      storeBatch(indices, indices.map(index => analyze(items[index])))
+      // 화면 갱신과 취소 입력을 위해 양보
+      await new Promise(resolve => setTimeout(resolve, 0))
+    }
+    finish()
+  }
+
+  const promise = new Promise<{ results: Map<number, R>; cancelled: boolean }>((resolve, reject) => {
+    resolveRun = resolve
+    reportProgress()
+
+    if (queue.length === 0) {
+      finish()
+      return
+    }
+
+    const inFlight = new Map<Worker, number[]>()
+    let active = 0
+
+    const dispatch = (worker: Worker) => {
+      const indices = queue.shift()
+      if (!indices || cancelled) {
+        inFlight.delete(worker)
+        worker.terminate()
+        active--
+        if (active === 0) finish()
+        return
+      }
+      inFlight.set(worker, indices)
+      worker.postMessage({ type: 'run', indices, items: indices.map(index => items[index]) })
+    }
+
+    // 워커 오류: 남은 작업(처리 중이던 묶음 포함)을 메인 스레드에서 이어서 실행
+    const fallBack = (reason: unknown) => {
+      if (finished || cancelled) return
+      console.warn('Worker failed, continuing on main thread:', reason)
+      inFlight.forEach(indices => queue.unshift(indices))
+      inFlight.clear()
+      workers.forEach(worker => worker.terminate())
+      workers.length = 0
+      runInThread().catch(reject)
+    }
+
+    for (let i = 0; i < workerCount; i++) {
+      const worker = createWorker()
+      if (!worker) break
+      worker.onmessage = (event: MessageEvent<PairWorkerResponse>) => {
+        const message = event.data
+        if (message.type === 'error') {
+          fallBack(message.message)
+          return
+        }
+        if (finished) return
+        storeBatch(message.indices, message.results)
+        dispatch(worker)
+      }
+      worker.onerror = (event) => {
+        event.preventDefault()
+        fallBack(event.message)
+      }
+      worker.postMessage({ type: 'init', task })
+      workers.push(worker)
+    }
+
+    if (workers.length === 0) {
+      runInThread().catch(reject)
+      return
+    }
+
+    active = workers.length
+    workers.forEach(dispatch)
+  })
+
+  return {
+    promise,
+    cancel: () => {
+      cancelled = true
+      finish()
+    }
+  }
+}
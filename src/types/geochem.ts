@@ -7,6 +7,102 @@ export interface GeochemData {
   metadata?: Record<string, any>  // 메타데이터 (선택사항)
   pcaResult?: PCAResult  // PCA 분석 결과 (선택사항)
   datasetId?: string  // Supabase 데이터셋 ID (클라우드 저장 시)
+  censored?: CensoredCellMap  // 검출한계 미만 셀 정보 (선택사항)
+  units?: Record<string, string>  // 컬럼별 단위 (예: { SiO2: 'wt%', Zr: 'ppm' })
+  logRatio?: LogRatioTransform  // 적용된 로그비 변환 (선택사항)
+  exclusion?: RowExclusion  // 분석에서 제외할 행 (선택사항)
+  rowIndices?: number[]  // 행 제외를 적용한 데이터의 원본 행 인덱스
+  subsets?: RowSubset[]  // 저장된 조건 부분집합 (선택사항)
+  activeSubsetId?: string  // 분석에 적용 중인 부분집합
+  derivedColumns?: DerivedColumn[]  // 수식으로 만든 파생 컬럼 정의 (선택사항)
+}
+
+// 수식 파생 컬럼 (예: Mg# = 100*(MgO/40.3)/((MgO/40.3)+(FeOT/71.85)))
+export interface DerivedColumn {
+  name: string
+  expression: string
+}
+
+// 행 필터 조건 (범위, 텍스트 일치, 결측 여부)
+export type QueryOperator =
+  | 'between' | '>' | '>=' | '<' | '<=' | '=' | '!='
+  | 'contains' | 'not_contains' | 'missing' | 'not_missing'
+
+export interface QueryCondition {
+  id: string
+  column: string
+  operator: QueryOperator
+  value: string
+  value2?: string  // between 상한
+}
+
+// 조건 그룹: 조건과 하위 그룹을 AND/OR로 결합
+export interface QueryGroup {
+  id: string
+  combinator: 'and' | 'or'
+  conditions: QueryCondition[]
+  groups: QueryGroup[]
+}
+
+// 이름 붙인 부분집합 (분석/스캔에 전체 데이터 대신 적용)
+export interface RowSubset {
+  id: string
+  name: string
+  query: QueryGroup
+}
+
+// 행 제외 규칙 (예: LOI > 5, 값이 비어 있는 행)
+export type ExclusionOperator = '>' | '>=' | '<' | '<=' | '=' | '!=' | 'empty'
+
+export interface ExclusionRule {
+  id: string
+  column: string
+  operator: ExclusionOperator
+  value: string  // 비교 값 (숫자가 아니면 문자열로 비교)
+  enabled: boolean
+}
+
+// 분석에서 제외할 행: 직접 선택한 행 + 규칙에 맞는 행
+export interface RowExclusion {
+  manual: number[]  // 원본 행 인덱스
+  rules: ExclusionRule[]
+  showExcluded?: boolean  // 그래프에 제외한 점을 회색으로 표시
+}
+
+// 검출한계 미만(censored) 값 처리 방식
+// omit: 분석에서 제외, half: DL/2, sqrt2: DL/√2, ros: Robust ROS 추정
+export type CensoredPolicy = 'omit' | 'half' | 'sqrt2' | 'ros'
+
+// 검출한계 미만 셀 정보
+export interface CensoredCell {
+  detectionLimit: number  // 검출한계 (DL)
+  raw: string  // 원본 셀 값 (예: "<0.01", "n.d.")
+  estimatedLimit?: boolean  // 원본에 DL 수치가 없어 컬럼 값으로 추정한 경우
+}
+
+// 컬럼명 → 행 인덱스 → 검출한계 미만 셀 정보
+export type CensoredCellMap = Record<string, Record<number, CensoredCell>>
+
+// 조성 데이터 로그비 변환
+// clr: 중심 로그비, ilr: 등거리 로그비 (균형 기저), alr: 가법 로그비 (공통 분모)
+export type LogRatioMethod = 'clr' | 'ilr' | 'alr'
+
+export interface LogRatioTransform {
+  method: LogRatioMethod
+  sourceColumns: string[]  // 변환한 원본 성분 (분석 대상에서 제외)
+  columns: string[]  // 생성된 변환 변수 컬럼
+  denominator?: string  // alr 분모 성분
+  balances?: number[][]  // ilr 균형 (sourceColumns 순서의 +1/-1/0)
+  replacementDelta: number  // 0/검출한계 미만 값 대체 비율 (× DL)
+  replacedCount: number  // 대체된 셀 수
+}
+
+// 파일 가져오기 시 메타데이터 행(단위, 검출한계, 분석법 등)에서 읽은 컬럼 정보
+// GeochemData.metadata.columns에 컬럼명별로 저장
+export interface ColumnImportInfo {
+  unit?: string
+  detectionLimit?: number
+  extra?: Record<string, string>  // 기타 메타데이터 행 (행 라벨 → 값)
 }
 
 export interface StatisticalResult {
@@ -19,9 +115,42 @@ export interface StatisticalResult {
   rSquared?: number
   linearSlope?: number
   linearIntercept?: number
+  censoredCount?: number  // 검출한계 미만 값이 대체된 데이터 포인트 수
+  // 다중 비교 보정된 p-값 (스캔 전체 조합 기준)
+  pearsonPAdjusted?: number
+  spearmanPAdjusted?: number
+  kendallPAdjusted?: number
   error?: string
 }
 
+// 타입(그룹)별 통계 결과
+export interface TypeStatisticsResult extends StatisticalResult {
+  type: string
+  count: number
+  pValue?: number
+}
+
+// 다중 비교 보정
+// bonferroni, holm: 가족오류율(FWER) 제어, bh: Benjamini–Hochberg 거짓발견율(FDR) 제어
+export type MultipleTestingCorrection = 'none' | 'bonferroni' | 'holm' | 'bh'
+
+// 양축 오차를 고려한 회귀
+// york: 상관 오차 가중 (York et al., 2004), deming: 오차 분산비 고정, rma: 축소 주축
+export type ErrorRegressionMethod = 'york' | 'deming' | 'rma'
+
+export interface ErrorRegressionResult {
+  method: ErrorRegressionMethod
+  slope: number
+  intercept: number
+  slopeError: number  // 1σ
+  interceptError: number  // 1σ
+  covariance: number  // 기울기-절편 공분산
+  n: number
+  mswd?: number  // 가중 잔차 제곱 평균 (오차가 있을 때)
+  probability?: number  // 적합 확률 (χ² 검정)
+  errorRatio?: number  // Deming 오차 분산비 (σy²/σx²)
+}
+
 export interface AnalysisOptions {
   statMethods: ('pearson' | 'spearman' | 'kendall')[]
   threshold: number
@@ -29,9 +158,10 @@ export interface AnalysisOptions {
 }
 
 export interface AxisConfig {
-  type: 'single' | 'ratio'
+  type: 'single' | 'ratio' | 'sum'
   numerator: string
   denominator?: string
+  terms?: string[]  // sum: 합산할 컬럼들 (numerator는 첫 번째 컬럼)
   label: string
 }
 
@@ -79,6 +209,27 @@ export interface ScanResult {
   aiRecommended?: boolean
   aiReason?: string
   aiConfidence?: number
+  xDenominator?: string  // 비율 스캔: x축 분모 (xColumn이 분자)
+  yDenominator?: string  // 비율 스캔: y축 분모 (yColumn이 분자)
+  sharedRatioTerms?: string[]  // 두 비율에 공통으로 들어간 컬럼
+  spuriousCorrelation?: number  // 공통 항 때문에 기대되는 허위 상관 (Pearson 1897 근사)
+  // 타입별 스캔
+  typeStatistics?: TypeStatisticsResult[]
+  withinGroupCorr?: number  // 그룹 내 상관계수 (Fisher z 가중 평균)
+  simpsonParadox?: boolean  // 전체와 그룹 내 상관의 부호가 반대
+  significantTypes?: string[]  // 그룹 내에서 유의미한 타입
+}
+
+// 비율 스캔에서 공통 항이 있는 비율 쌍 허용 범위
+// none: 네 변수 모두 달라야 함, denominator: 공통 분모 허용 (La/Yb vs Dy/Yb), any: 모든 공통 항 허용
+export type RatioSharedTermPolicy = 'none' | 'denominator' | 'any'
+
+export interface RatioScanOptions {
+  numerators: string[]  // 비어 있으면 분석 대상 컬럼 전체
+  denominators: string[]  // 비어 있으면 분석 대상 컬럼 전체
+  sharedTerms: RatioSharedTermPolicy
+  maxRatios: number  // 만들 비율 수 상한
+  maxCombinations: number  // 비율 쌍 수 상한
 }
 
 export interface ScanOptions {
@@ -92,6 +243,11 @@ export interface ScanOptions {
   aiProvider?: 'openai' | 'google'
   sampleDescription?: string
   aiRecommendationsOnly?: boolean
+  censoredPolicy?: CensoredPolicy  // 검출한계 미만 값 처리 방식
+  pCorrection?: MultipleTestingCorrection  // 다중 비교 보정 (없으면 보정 안 함)
+  perGroup?: boolean  // 타입 컬럼의 클래스별 통계도 계산 (selectedTypeColumn 필요)
+  scanSpace?: 'columns' | 'ratios'  // 스캔 대상: 컬럼 쌍 또는 비율 쌍 (기본 columns)
+  ratioScan?: RatioScanOptions
 }
 
 export interface ScanSummary {
@@ -143,6 +299,36 @@ export interface ReferenceImage {
   visible: boolean
 }
 
+// 산점도 위에 겹쳐 그리는 이론 곡선 (점은 축 값 기준)
+export interface OverlayCurve {
+  id: string
+  label?: string  // 곡선 끝에 표시
+  points: { x: number; y: number }[]
+  color: string
+  dashed?: boolean
+  ticks?: { x: number; y: number; label: string; major?: boolean }[]  // 눈금 (major: 끝성분 등 큰 표시)
+}
+
+// 암석 성인 정방향 모델
+// rayleigh: 분별결정, batchMelting: 평형(배치) 용융, fractionalMelting: 분별 용융 (누적 용융체), afc: 동화-분별결정
+export type PetrogeneticModelType = 'rayleigh' | 'batchMelting' | 'fractionalMelting' | 'afc'
+
+export interface PetrogeneticModel {
+  id: string
+  name: string
+  type: PetrogeneticModelType
+  minerals: Record<string, number>  // 결정(또는 잔류) 광물 → 비율 (합으로 정규화)
+  partitionCoefficients: Record<string, Record<string, number>>  // 광물 → 원소 → Kd
+  initial: Record<string, number>  // 초기 조성 C0 (원소 → ppm)
+  initialSource?: string  // 초기 조성을 가져온 시료 (예: '행 12')
+  assimilant?: Record<string, number>  // AFC 동화 물질 조성 (원소 → ppm)
+  assimilantSource?: string
+  assimilationRatio?: number  // AFC r = 동화율/결정화율
+  fValues: number[]  // 눈금 F (분별결정·AFC: 남은 용융체 분율, 용융: 용융 정도)
+  color: string
+  visible: boolean
+}
+
 // 축 범위 타입
 export interface CustomAxisRange {
   xMin: number | 'auto'
@@ -218,6 +404,9 @@ export interface GraphSettings {
 
   // 레퍼런스 이미지
   referenceImages: ReferenceImage[]
+
+  // 암석 성인 모델 곡선
+  petrogeneticModels?: PetrogeneticModel[]
 }
 
 // GPT 4o 대피소 관련 타입들
@@ -0,0 +1,22 @@
+import { PairItem, PairItemResult, PairWorkerRequest, PairWorkerResponse, createPairAnalyzer } from '@/lib/pair-tasks'
+
+// 변수 쌍 분석 워커: init으로 데이터를 한 번 받고, run마다 조합 묶음을 분석해서 돌려줌
+let analyze: ((item: PairItem) => PairItemResult) | null = null
+
+const respond = (message: PairWorkerResponse) => self.postMessage(message)
+
+self.onmessage = (event: MessageEvent<PairWorkerRequest>) => {
+  const message = event.data
+  try {
+    if (message.type === 'init') {
+      analyze = createPairAnalyzer(message.task)
+      return
+    }
+
+    if (!analyze) throw new Error('워커가 초기화되지 않았습니다.')
+    const results = message.items.map(item => analyze!(item))
+    respond({ type: 'results', indices: message.indices, results })
+  } catch (error) {
+    respond({ type: 'error', message: error instanceof Error ? error.message : String(error) })
+  }
+}